@@ -118,7 +118,10 @@ const App: React.FC = () => {
                  ...prev, 
                  name: updatedOrg.name, 
                  plan: updatedOrg.plan, 
-                 maxSeats: updatedOrg.maxSeats 
+                 maxSeats: updatedOrg.maxSeats,
+                 reportingCurrency: updatedOrg.reportingCurrency,
+                 extractionProvider: updatedOrg.extractionProvider,
+                 expectedVolumes: updatedOrg.expectedVolumes
              }) : null);
          });
          return () => unsubOrg();
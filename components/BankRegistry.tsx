@@ -0,0 +1,352 @@
+import React, { useMemo, useState } from 'react';
+import { Landmark, Search, Plus, GitMerge, Split, Pencil, Trash2, Loader2, Lock, X, Check } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { QuoteData, UserProfile, Organization, Institution } from '../types';
+import {
+  createBankResolver, unmatchedBanks, normalizeBic, addInstitution, addAlias, mergeInstitutions,
+  splitInstitution, renameInstitution, removeInstitution
+} from '../services/bankRegistry';
+import { updateBankRegistry } from '../services/firebase';
+
+interface BankRegistryProps {
+  quotes: QuoteData[];
+  institutions: Institution[];
+  userProfile: UserProfile;
+  orgProfile: Organization | null;
+}
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  visible: { opacity: 1, transition: { staggerChildren: 0.1 } }
+};
+
+const itemVariants = {
+  hidden: { y: 20, opacity: 0 },
+  visible: { y: 0, opacity: 1 }
+};
+
+const inputClass = 'bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500';
+const buttonClass = 'flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold text-white disabled:opacity-50 transition-colors';
+
+interface InstitutionUsage {
+  quotes: number;
+  spellings: { name: string, method: 'bic' | 'alias' | 'fuzzy', score: number, quotes: number }[];
+}
+
+/**
+ * The org's institutions and every spelling and BIC that maps to them. The org admin merges,
+ * splits and extends them; everyone else sees how names are being resolved.
+ */
+const BankRegistry: React.FC<BankRegistryProps> = ({ quotes, institutions, userProfile, orgProfile }) => {
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [splitting, setSplitting] = useState<{ id: string, name: string, aliases: string[], bics: string[] } | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string, name: string } | null>(null);
+  const [aliasInputs, setAliasInputs] = useState<Record<string, string>>({});
+  const [newInstitution, setNewInstitution] = useState({ name: '', bic: '', country: '' });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const orgId = orgProfile?.id || userProfile.orgId;
+  const isOrgAdmin = !!orgProfile && orgProfile.adminId === userProfile.uid;
+
+  const usage = useMemo(() => {
+    const resolve = createBankResolver(institutions);
+    const byInstitution: Record<string, InstitutionUsage> = {};
+    for (const quote of quotes) {
+      const { match } = resolve(quote);
+      if (!match) continue;
+      const entry = byInstitution[match.institution.id] || (byInstitution[match.institution.id] = { quotes: 0, spellings: [] });
+      entry.quotes++;
+      const spelling = entry.spellings.find(s => s.name === quote.bank);
+      if (spelling) spelling.quotes++;
+      else entry.spellings.push({ name: quote.bank, method: match.method, score: match.score, quotes: 1 });
+    }
+    return byInstitution;
+  }, [quotes, institutions]);
+
+  const unmatched = useMemo(() => unmatchedBanks(quotes, institutions), [quotes, institutions]);
+  const matchedQuotes = Object.keys(usage).reduce((sum, id) => sum + usage[id].quotes, 0);
+
+  const visible = institutions
+    .filter(i => !search || [i.name, ...i.aliases, ...i.bics].some(v => v.toLowerCase().includes(search.toLowerCase())))
+    .sort((a, b) => (usage[b.id]?.quotes || 0) - (usage[a.id]?.quotes || 0) || a.name.localeCompare(b.name));
+
+  // Checked locally first so a bad edit reports straight away, then applied to the stored registry
+  const apply = async (change: (current: Institution[]) => Institution[]) => {
+    if (!orgId) return false;
+    try {
+      change(institutions);
+    } catch (e: any) {
+      setError(e.message);
+      return false;
+    }
+    setBusy(true);
+    const result = await updateBankRegistry(orgId, userProfile.uid, change);
+    setBusy(false);
+    setError(result.success ? null : result.error || 'The registry could not be saved.');
+    return result.success;
+  };
+
+  const createInstitution = async () => {
+    const saved = await apply(current => addInstitution(current, {
+      name: newInstitution.name,
+      bics: newInstitution.bic.trim() ? [newInstitution.bic] : [],
+      country: newInstitution.country.trim().toUpperCase() || undefined
+    }));
+    if (saved) setNewInstitution({ name: '', bic: '', country: '' });
+  };
+
+  const createFromUnmatched = (name: string, bankCode?: string) => apply(current => addInstitution(current, {
+    name,
+    bics: normalizeBic(bankCode) ? [bankCode!] : []
+  }));
+
+  const addAliasTo = async (institutionId: string) => {
+    const value = (aliasInputs[institutionId] || '').trim();
+    if (!value) return;
+    // Anything shaped like a BIC is filed as one
+    const saved = await apply(current => addAlias(current, institutionId, normalizeBic(value) ? { bic: value } : { name: value }));
+    if (saved) setAliasInputs({ ...aliasInputs, [institutionId]: '' });
+  };
+
+  const merge = async () => {
+    const saved = await apply(current => mergeInstitutions(current, mergeTarget, selected));
+    if (saved) {
+      setSelected([]);
+      setMergeTarget('');
+    }
+  };
+
+  const split = async () => {
+    if (!splitting) return;
+    const saved = await apply(current => splitInstitution(current, splitting.id, splitting));
+    if (saved) setSplitting(null);
+  };
+
+  const rename = async () => {
+    if (!renaming) return;
+    const saved = await apply(current => renameInstitution(current, renaming.id, renaming.name));
+    if (saved) setRenaming(null);
+  };
+
+  const remove = async (institution: Institution) => {
+    const count = usage[institution.id]?.quotes || 0;
+    if (count > 0 && !window.confirm(`${count} quotes resolve to ${institution.name}. Remove it anyway? They will fall back to their extracted names.`)) return;
+    await apply(current => removeInstitution(current, institution.id));
+    setSelected(selected.filter(id => id !== institution.id));
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id];
+    setSelected(next);
+    if (!next.includes(mergeTarget)) setMergeTarget(next[0] || '');
+  };
+
+  const toggleSplitPart = (field: 'aliases' | 'bics', value: string) => {
+    if (!splitting) return;
+    const values = splitting[field];
+    setSplitting({ ...splitting, [field]: values.includes(value) ? values.filter(v => v !== value) : [...values, value] });
+  };
+
+  return (
+    <motion.div className="space-y-8" variants={containerVariants} initial="hidden" animate="visible">
+      <div>
+        <h2 className="text-3xl font-bold text-white mb-2 flex items-center gap-3"><Landmark size={26} className="text-blue-500" /> Bank Registry</h2>
+        <p className="text-zinc-500">Every bank name and BIC read from your confirmations, resolved to one institution for analytics and scorecards.</p>
+      </div>
+
+      <motion.div variants={itemVariants} className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Institutions', value: String(institutions.length) },
+          { label: 'In Use', value: String(Object.keys(usage).length) },
+          { label: 'Quotes Resolved', value: quotes.length ? `${Math.round(matchedQuotes / quotes.length * 100)}%` : '-' },
+          { label: 'Unrecognised Names', value: String(unmatched.length) }
+        ].map(stat => (
+          <div key={stat.label} className="p-5 bg-zinc-900 border border-zinc-800 rounded-2xl">
+            <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{stat.label}</div>
+            <div className="text-xl font-black text-white font-mono mt-1">{stat.value}</div>
+          </div>
+        ))}
+      </motion.div>
+
+      {!isOrgAdmin && (
+        <div className="flex items-center gap-2 text-xs text-zinc-500"><Lock size={12} /> Only the organization admin can change the registry.</div>
+      )}
+      {error && <div className="text-xs text-red-500">{error}</div>}
+
+      {unmatched.length > 0 && (
+        <motion.div variants={itemVariants} className="p-6 bg-amber-500/5 border border-amber-500/20 rounded-[2rem] space-y-3">
+          <h3 className="text-[10px] font-black text-amber-500 uppercase tracking-widest">Unrecognised Names</h3>
+          {unmatched.map(u => (
+            <div key={u.name} className="flex flex-wrap items-center justify-between gap-3 p-3 bg-zinc-900/50 border border-zinc-800 rounded-xl">
+              <div>
+                <div className="text-sm font-bold text-white">{u.name}</div>
+                <div className="text-[10px] text-zinc-500 font-mono">
+                  {u.quotes} quotes{u.bankCode && ` • ${u.bankCode}`}
+                  {u.suggestion && ` • closest: ${u.suggestion.institution.name} (${Math.round(u.suggestion.score * 100)}%)`}
+                </div>
+              </div>
+              {isOrgAdmin && (
+                <div className="flex items-center gap-2">
+                  {u.suggestion && (
+                    <button onClick={() => apply(current => addAlias(current, u.suggestion!.institution.id, { name: u.name }))} disabled={busy} className={`${buttonClass} bg-blue-600 hover:bg-blue-500`}>
+                      <Check size={12} /> Add to {u.suggestion.institution.name}
+                    </button>
+                  )}
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && apply(current => addAlias(current, e.target.value, { name: u.name }))}
+                    disabled={busy}
+                    className={inputClass}
+                  >
+                    <option value="">Add to…</option>
+                    {[...institutions].sort((a, b) => a.name.localeCompare(b.name)).map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                  </select>
+                  <button onClick={() => createFromUnmatched(u.name, u.bankCode)} disabled={busy} className={`${buttonClass} bg-zinc-800 hover:bg-zinc-700`}>
+                    <Plus size={12} /> New Institution
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </motion.div>
+      )}
+
+      <motion.div variants={itemVariants} className="flex flex-wrap items-center justify-between gap-3">
+        <div className="relative">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-600" />
+          <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search names, aliases or BICs" className={`${inputClass} pl-9 w-72`} />
+        </div>
+        {isOrgAdmin && (
+          <div className="flex flex-wrap items-center gap-2">
+            <input value={newInstitution.name} onChange={(e) => setNewInstitution({ ...newInstitution, name: e.target.value })} placeholder="Institution name" className={inputClass} />
+            <input value={newInstitution.bic} onChange={(e) => setNewInstitution({ ...newInstitution, bic: e.target.value })} placeholder="BIC (optional)" className={`${inputClass} w-32 font-mono`} />
+            <input value={newInstitution.country} onChange={(e) => setNewInstitution({ ...newInstitution, country: e.target.value })} placeholder="Country" maxLength={2} className={`${inputClass} w-20 font-mono`} />
+            <button onClick={createInstitution} disabled={busy || !newInstitution.name.trim()} className={`${buttonClass} bg-blue-600 hover:bg-blue-500`}>
+              {busy ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />} Add
+            </button>
+          </div>
+        )}
+      </motion.div>
+
+      {isOrgAdmin && selected.length > 1 && (
+        <div className="flex flex-wrap items-center gap-3 p-4 bg-blue-500/5 border border-blue-500/20 rounded-2xl">
+          <GitMerge size={16} className="text-blue-500" />
+          <span className="text-xs text-zinc-300">Merge {selected.length} institutions into</span>
+          <select value={mergeTarget} onChange={(e) => setMergeTarget(e.target.value)} className={inputClass}>
+            {selected.map(id => <option key={id} value={id}>{institutions.find(i => i.id === id)?.name}</option>)}
+          </select>
+          <button onClick={merge} disabled={busy || !mergeTarget} className={`${buttonClass} bg-blue-600 hover:bg-blue-500`}>Merge</button>
+          <button onClick={() => setSelected([])} className="text-xs text-zinc-500 hover:text-white">Cancel</button>
+        </div>
+      )}
+
+      <motion.div variants={itemVariants} className="space-y-3">
+        {visible.length === 0 && <div className="text-xs text-zinc-600 p-4">No institutions match.</div>}
+        {visible.map(institution => {
+          const used = usage[institution.id];
+          const fuzzy = used?.spellings.filter(s => s.method === 'fuzzy') || [];
+          return (
+            <div key={institution.id} className={`p-5 rounded-2xl border ${selected.includes(institution.id) ? 'border-blue-500 bg-blue-500/5' : 'border-zinc-800 bg-zinc-900/50'}`}>
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="flex items-start gap-3">
+                  {isOrgAdmin && (
+                    <input type="checkbox" checked={selected.includes(institution.id)} onChange={() => toggleSelected(institution.id)} className="mt-1 accent-blue-500" title="Select to merge" />
+                  )}
+                  <div>
+                    {renaming?.id === institution.id ? (
+                      <div className="flex items-center gap-2">
+                        <input value={renaming.name} onChange={(e) => setRenaming({ ...renaming, name: e.target.value })} className={inputClass} autoFocus />
+                        <button onClick={rename} disabled={busy} className="text-emerald-500"><Check size={14} /></button>
+                        <button onClick={() => setRenaming(null)} className="text-zinc-500"><X size={14} /></button>
+                      </div>
+                    ) : (
+                      <div className="text-sm font-bold text-white">
+                        {institution.name}
+                        {institution.country && <span className="ml-2 text-[10px] text-zinc-500 font-mono">{institution.country}</span>}
+                      </div>
+                    )}
+                    <div className="text-[10px] text-zinc-500 uppercase font-bold mt-0.5">{used ? `${used.quotes} quotes` : 'No quotes yet'}</div>
+                  </div>
+                </div>
+                {isOrgAdmin && (
+                  <div className="flex items-center gap-1">
+                    <button onClick={() => setRenaming({ id: institution.id, name: institution.name })} className="p-2 text-zinc-500 hover:text-white" title="Rename"><Pencil size={14} /></button>
+                    <button
+                      onClick={() => setSplitting(splitting?.id === institution.id ? null : { id: institution.id, name: '', aliases: [], bics: [] })}
+                      disabled={institution.aliases.length + institution.bics.length === 0}
+                      className="p-2 text-zinc-500 hover:text-white disabled:opacity-30"
+                      title="Split"
+                    >
+                      <Split size={14} />
+                    </button>
+                    <button onClick={() => remove(institution)} className="p-2 text-zinc-500 hover:text-red-500" title="Remove"><Trash2 size={14} /></button>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-1.5 mt-3">
+                {institution.bics.map(bic => (
+                  <span key={bic} className="px-2 py-0.5 rounded bg-blue-500/10 text-blue-400 text-[10px] font-mono font-bold">{bic}</span>
+                ))}
+                {institution.aliases.map(alias => (
+                  <span key={alias} className="px-2 py-0.5 rounded bg-zinc-800 text-zinc-300 text-[10px]">{alias}</span>
+                ))}
+              </div>
+
+              {fuzzy.length > 0 && (
+                <div className="text-[10px] text-amber-500 mt-2">
+                  Matched by spelling: {fuzzy.map(s => `${s.name} (${Math.round(s.score * 100)}%, ${s.quotes} quotes)`).join(', ')}
+                </div>
+              )}
+
+              {isOrgAdmin && (
+                <div className="flex items-center gap-2 mt-3">
+                  <input
+                    value={aliasInputs[institution.id] || ''}
+                    onChange={(e) => setAliasInputs({ ...aliasInputs, [institution.id]: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && addAliasTo(institution.id)}
+                    placeholder="Add alias or BIC"
+                    className={`${inputClass} w-56`}
+                  />
+                  {fuzzy.map(s => (
+                    <button key={s.name} onClick={() => apply(current => addAlias(current, institution.id, { name: s.name }))} disabled={busy} className="text-[10px] font-bold text-zinc-500 hover:text-white">
+                      Confirm "{s.name}"
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {splitting?.id === institution.id && (
+                <div className="mt-4 p-4 bg-zinc-950 border border-zinc-800 rounded-xl space-y-3">
+                  <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Move to a new institution</h4>
+                  <input value={splitting.name} onChange={(e) => setSplitting({ ...splitting, name: e.target.value })} placeholder="New institution name" className={`${inputClass} w-full`} />
+                  <div className="flex flex-wrap gap-2">
+                    {institution.bics.map(bic => (
+                      <label key={bic} className="flex items-center gap-1.5 text-[11px] text-zinc-300 font-mono">
+                        <input type="checkbox" checked={splitting.bics.includes(bic)} onChange={() => toggleSplitPart('bics', bic)} className="accent-blue-500" /> {bic}
+                      </label>
+                    ))}
+                    {institution.aliases.map(alias => (
+                      <label key={alias} className="flex items-center gap-1.5 text-[11px] text-zinc-300">
+                        <input type="checkbox" checked={splitting.aliases.includes(alias)} onChange={() => toggleSplitPart('aliases', alias)} className="accent-blue-500" /> {alias}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button onClick={split} disabled={busy} className={`${buttonClass} bg-blue-600 hover:bg-blue-500`}><Split size={12} /> Split</button>
+                    <button onClick={() => setSplitting(null)} className="text-xs text-zinc-500 hover:text-white">Cancel</button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default BankRegistry;
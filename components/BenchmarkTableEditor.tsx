@@ -0,0 +1,283 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BarChart3, Upload, Download, Pencil, History, Plus, Trash2, Loader2, CheckCircle, AlertCircle, RotateCcw } from 'lucide-react';
+import { BenchmarkEntry, BenchmarkTable } from '../types';
+import { listenToBenchmarkTable, publishBenchmarkTable, getBenchmarkVersions } from '../services/firebase';
+import { parseBenchmarkCsv, benchmarkToCsv, validateBenchmarkEntries, derivePercentiles, tierRange, DEFAULT_BENCHMARK_TABLE } from '../services/benchmarks';
+import { REPORTING_CURRENCIES } from '../services/currency';
+
+interface BenchmarkTableEditorProps {
+  orgId: string;
+  userId: string;
+  isOrgAdmin: boolean;
+}
+
+interface Draft {
+  name: string;
+  currency: string;
+  entries: BenchmarkEntry[];
+  source: BenchmarkTable['source'];
+  note: string;
+}
+
+const SOURCE_LABELS: Record<BenchmarkTable['source'], string> = {
+  built_in: 'Built-in',
+  import: 'CSV import',
+  edit: 'Edited',
+  restore: 'Restored'
+};
+
+const PERCENTILE_KEYS: (keyof BenchmarkEntry['percentiles'])[] = ['p10', 'p25', 'p50', 'p75', 'p90'];
+
+const inputClass = 'w-full bg-[#0e121b] border border-zinc-800 rounded px-2 py-1 text-xs font-mono text-white outline-none focus:border-blue-500/50';
+
+const BenchmarkTableEditor: React.FC<BenchmarkTableEditorProps> = ({ orgId, userId, isOrgAdmin }) => {
+  const [table, setTable] = useState<BenchmarkTable>(DEFAULT_BENCHMARK_TABLE);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [versions, setVersions] = useState<BenchmarkTable[] | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [feedback, setFeedback] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => listenToBenchmarkTable(orgId, setTable), [orgId]);
+
+  const startDraft = (from: BenchmarkTable, source: Draft['source'], note: string = '') => {
+    setDraft({ name: from.name, currency: from.currency, entries: from.entries.map(e => ({ ...e, percentiles: { ...e.percentiles } })), source, note });
+    setFeedback(null);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const entries = parseBenchmarkCsv(String(reader.result || ''));
+        setDraft({ name: file.name.replace(/\.[^.]+$/, ''), currency: table.currency, entries, source: 'import', note: `Imported from ${file.name}` });
+        setFeedback(null);
+      } catch (err: any) {
+        setFeedback({ type: 'error', msg: err.message || 'Could not parse file.' });
+      }
+    };
+    reader.readAsText(file);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([benchmarkToCsv(table.entries)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `benchmarks-v${table.version}-${table.currency}.csv`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const toggleHistory = async () => {
+    if (versions) {
+      setVersions(null);
+      return;
+    }
+    setVersions(await getBenchmarkVersions(orgId));
+  };
+
+  const updateEntry = (index: number, change: Partial<BenchmarkEntry>) => {
+    if (!draft) return;
+    setDraft({ ...draft, entries: draft.entries.map((e, i) => (i === index ? { ...e, ...change } : e)) });
+  };
+
+  const numberValue = (raw: string) => (raw.trim() === '' ? undefined : parseFloat(raw));
+
+  const addRow = () => {
+    if (!draft) return;
+    setDraft({ ...draft, entries: [...draft.entries, { pair: '', minAmount: 0, avgSpread: 0, avgTotalCost: 0, percentiles: derivePercentiles(0) }] });
+  };
+
+  const handlePublish = async () => {
+    if (!draft) return;
+    const problem = validateBenchmarkEntries(draft.entries);
+    if (problem) {
+      setFeedback({ type: 'error', msg: problem });
+      return;
+    }
+    setIsPublishing(true);
+    const result = await publishBenchmarkTable(orgId, userId, {
+      name: draft.name.trim() || 'Benchmarks',
+      currency: draft.currency,
+      entries: draft.entries,
+      source: draft.source,
+      ...(draft.note.trim() ? { note: draft.note.trim() } : {})
+    });
+    setIsPublishing(false);
+    if (result.success) {
+      setDraft(null);
+      setVersions(null);
+      setFeedback({ type: 'success', msg: result.version ? `Version ${result.version} published. New analyses rank against it.` : 'Published.' });
+    } else {
+      setFeedback({ type: 'error', msg: result.error || 'Publish failed.' });
+    }
+  };
+
+  const shown = draft ? draft.entries : table.entries;
+  const currency = draft ? draft.currency : table.currency;
+  const problem = draft ? validateBenchmarkEntries(draft.entries) : null;
+
+  return (
+    <section className="bg-[#121826]/40 border border-zinc-800/50 rounded-2xl p-6 space-y-6">
+      <div className="flex items-center justify-between border-b border-zinc-800/50 pb-4">
+        <div className="flex items-center gap-3">
+          <BarChart3 size={20} className="text-blue-500" />
+          <h3 className="text-lg font-bold text-white">Industry Benchmarks</h3>
+        </div>
+        <span className="text-[10px] font-mono text-zinc-500">
+          {table.version > 0 ? `v${table.version} · ${SOURCE_LABELS[table.source]} · ${new Date(table.createdAt).toLocaleDateString()}` : 'Built-in defaults'}
+        </span>
+      </div>
+
+      <p className="text-xs text-zinc-500 leading-relaxed">
+        Each quote is ranked against the row for its pair and ticket size, with amount tiers in the table's currency. The
+        percentile blends the row's distribution with your own quotes in the same row, leaning further on your history
+        as it grows. Rows for * apply to pairs without their own. Every analysis records the version it was ranked against.
+      </p>
+
+      {isOrgAdmin && !draft && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="file" ref={fileInputRef} onChange={handleFile} className="hidden" accept=".csv,.txt" />
+          <button onClick={() => startDraft(table, 'edit')} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-xs font-bold rounded-lg transition-colors text-zinc-300 flex items-center gap-2">
+            <Pencil size={14} /> Edit Rows
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-xs font-bold rounded-lg transition-colors text-zinc-300 flex items-center gap-2">
+            <Upload size={14} /> Import CSV
+          </button>
+          <button onClick={handleExport} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-xs font-bold rounded-lg transition-colors text-zinc-300 flex items-center gap-2">
+            <Download size={14} /> Export CSV
+          </button>
+          <button onClick={toggleHistory} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-xs font-bold rounded-lg transition-colors text-zinc-300 flex items-center gap-2">
+            <History size={14} /> {versions ? 'Hide Versions' : 'Versions'}
+          </button>
+        </div>
+      )}
+
+      {versions && (
+        <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800 space-y-2">
+          {versions.length === 0 && <p className="text-xs text-zinc-600 italic">Nothing published yet; the built-in table applies.</p>}
+          {versions.map(v => (
+            <div key={v.version} className="flex items-center justify-between gap-3 text-xs">
+              <div className="min-w-0">
+                <span className="font-mono text-white">v{v.version}</span>
+                <span className="text-zinc-400"> · {v.name} · {v.entries.length} rows · {v.currency} · {SOURCE_LABELS[v.source]}</span>
+                <span className="text-zinc-600"> · {new Date(v.createdAt).toLocaleString()}</span>
+                {v.note && <p className="text-zinc-500 truncate">{v.note}</p>}
+              </div>
+              {v.version !== table.version && (
+                <button onClick={() => startDraft(v, 'restore', `Restored from version ${v.version}`)} className="shrink-0 text-[10px] font-bold uppercase tracking-widest text-blue-400 hover:text-blue-300 flex items-center gap-1">
+                  <RotateCcw size={12} /> Restore
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Name</label>
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Tier Currency</label>
+            <select value={draft.currency} onChange={(e) => setDraft({ ...draft, currency: e.target.value })} className={inputClass}>
+              {REPORTING_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Change Note</label>
+            <input value={draft.note} onChange={(e) => setDraft({ ...draft, note: e.target.value })} placeholder="What changed and why" className={inputClass} />
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto rounded-xl border border-zinc-800">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-[#0e121b]">
+            <tr className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest text-left">
+              <th className="px-3 py-2">Pair</th>
+              <th className="px-3 py-2">Tier ({currency})</th>
+              <th className="px-3 py-2">Avg Spread %</th>
+              <th className="px-3 py-2">Avg Total %</th>
+              {PERCENTILE_KEYS.map(k => <th key={k} className="px-3 py-2">{k.toUpperCase()}</th>)}
+              {draft && <th className="px-3 py-2" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-800/50">
+            {shown.map((entry, i) => draft ? (
+              <tr key={i}>
+                <td className="px-2 py-1 w-24"><input value={entry.pair} onChange={(e) => updateEntry(i, { pair: e.target.value.toUpperCase() })} className={inputClass} /></td>
+                <td className="px-2 py-1">
+                  <div className="flex items-center gap-1">
+                    <input type="number" min={0} value={entry.minAmount} onChange={(e) => updateEntry(i, { minAmount: numberValue(e.target.value) ?? 0 })} className={inputClass} />
+                    <span className="text-zinc-600">–</span>
+                    <input type="number" min={0} value={entry.maxAmount ?? ''} placeholder="∞" onChange={(e) => updateEntry(i, { maxAmount: numberValue(e.target.value) })} className={inputClass} />
+                  </div>
+                </td>
+                <td className="px-2 py-1"><input type="number" step="0.01" value={entry.avgSpread} onChange={(e) => updateEntry(i, { avgSpread: numberValue(e.target.value) ?? 0 })} className={inputClass} /></td>
+                <td className="px-2 py-1"><input type="number" step="0.01" value={entry.avgTotalCost} onChange={(e) => updateEntry(i, { avgTotalCost: numberValue(e.target.value) ?? 0 })} className={inputClass} /></td>
+                {PERCENTILE_KEYS.map(k => (
+                  <td key={k} className="px-2 py-1">
+                    <input type="number" step="0.01" value={entry.percentiles[k]} onChange={(e) => updateEntry(i, { percentiles: { ...entry.percentiles, [k]: numberValue(e.target.value) ?? 0 } })} className={inputClass} />
+                  </td>
+                ))}
+                <td className="px-2 py-1">
+                  <button onClick={() => setDraft({ ...draft, entries: draft.entries.filter((_, j) => j !== i) })} className="text-zinc-600 hover:text-red-400"><Trash2 size={14} /></button>
+                </td>
+              </tr>
+            ) : (
+              <tr key={i} className="text-zinc-300">
+                <td className="px-3 py-2 font-bold text-white">{entry.pair === '*' ? 'All pairs' : entry.pair}</td>
+                <td className="px-3 py-2 font-mono">{tierRange(entry)}</td>
+                <td className="px-3 py-2 font-mono">{entry.avgSpread.toFixed(2)}</td>
+                <td className="px-3 py-2 font-mono">{entry.avgTotalCost.toFixed(2)}</td>
+                {PERCENTILE_KEYS.map(k => <td key={k} className="px-3 py-2 font-mono text-zinc-500">{entry.percentiles[k].toFixed(2)}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {draft && (
+        <div className="space-y-3">
+          <button onClick={addRow} className="text-[10px] font-bold uppercase tracking-widest text-blue-400 hover:text-blue-300 flex items-center gap-1">
+            <Plus size={12} /> Add Row
+          </button>
+          {problem && (
+            <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-amber-500">
+              <AlertCircle size={12} /> {problem}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handlePublish}
+              disabled={isPublishing || !!problem}
+              className="flex-1 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-xs font-black uppercase tracking-widest rounded-lg flex items-center justify-center gap-2"
+            >
+              {isPublishing ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle size={14} />}
+              {isPublishing ? 'Publishing...' : `Publish Version ${table.version + 1}`}
+            </button>
+            <button onClick={() => { setDraft(null); setFeedback(null); }} disabled={isPublishing} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-xs font-bold rounded-lg text-zinc-300">
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      {feedback && (
+        <div className={`flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest ${feedback.type === 'success' ? 'text-emerald-500' : 'text-red-500'}`}>
+          {feedback.type === 'success' ? <CheckCircle size={12} /> : <AlertCircle size={12} />}
+          {feedback.msg}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BenchmarkTableEditor;
@@ -0,0 +1,315 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { X, Upload, Loader2, CheckCircle, AlertCircle, AlertTriangle, Copy, Table, Download } from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  BULK_IMPORT_FIELDS, BulkColumnMapping, BulkImportFile, BulkImportPreview, BulkImportProgress, BulkImportResult,
+  readBulkImportFile, guessColumnMapping, missingRequiredFields, previewBulkImport, runBulkImport
+} from '../services/bulkImport';
+import { toCsv } from '../services/csv';
+import { QuoteData, UserProfile, Organization } from '../types';
+import { PricingContext } from '../services/calculations';
+
+interface BulkImportProps {
+  quotes: QuoteData[];
+  pricing?: PricingContext;
+  userProfile: UserProfile | null;
+  orgProfile?: Organization | null;
+  isEnterprise: boolean;
+  onImported: (quotes: QuoteData[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 200;
+
+const selectClass = "w-full bg-[#0e121b] border border-zinc-800 rounded-lg px-3 py-2 text-sm outline-none text-white";
+
+const BulkImport: React.FC<BulkImportProps> = ({ quotes, pricing, userProfile, orgProfile, isEnterprise, onImported, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [file, setFile] = useState<BulkImportFile | null>(null);
+  const [mapping, setMapping] = useState<BulkColumnMapping>({});
+  const [preview, setPreview] = useState<BulkImportPreview | null>(null);
+  const [progress, setProgress] = useState<BulkImportProgress | null>(null);
+  const [result, setResult] = useState<BulkImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const missing = useMemo(() => missingRequiredFields(mapping), [mapping]);
+  const credits = isEnterprise ? Infinity : (orgProfile?.credits ?? 0);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!selected) return;
+    setErrorMsg(null);
+    setPreview(null);
+    setResult(null);
+    try {
+      const parsed = readBulkImportFile(await selected.text());
+      setFileName(selected.name);
+      setFile(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (err: any) {
+      setFile(null);
+      setErrorMsg(err.message || 'Could not read file.');
+    }
+  };
+
+  const handleMappingChange = (field: keyof BulkColumnMapping, value: string) => {
+    setPreview(null);
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = parseInt(value, 10);
+      return next;
+    });
+  };
+
+  const handleDryRun = () => {
+    if (!file) return;
+    setPreview(previewBulkImport(file, mapping, quotes));
+  };
+
+  const handleImport = async () => {
+    if (!preview || preview.ready === 0) return;
+    if (!userProfile?.uid) {
+      setErrorMsg("Please log in to import transactions.");
+      return;
+    }
+    // Each imported row consumes one organization credit
+    if (credits < preview.ready) {
+      setErrorMsg(`${preview.ready} rows need ${preview.ready} credits; ${credits} left.`);
+      return;
+    }
+
+    setIsImporting(true);
+    setErrorMsg(null);
+    try {
+      const imported = await runBulkImport(
+        preview,
+        { userId: userProfile.uid, orgId: userProfile.orgId || 'personal_workspace', reportingCurrency: orgProfile?.reportingCurrency, pricing },
+        setProgress
+      );
+      setResult(imported);
+      onImported(imported.quotes);
+    } catch (err: any) {
+      console.error("Bulk Import Error:", err);
+      setErrorMsg(err.message || 'Import failed.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    if (!preview) return;
+    const failedRows = new Map((result?.failed || []).map(f => [f.rowNumber, f.error]));
+    const rows = preview.rows
+      .filter(r => r.errors.length > 0 || r.duplicate || failedRows.has(r.rowNumber))
+      .map(r => [
+        r.rowNumber,
+        r.reference || '',
+        r.errors.length > 0 ? 'Invalid' : r.duplicate ? 'Duplicate' : 'Pricing failed',
+        r.errors.length > 0 ? r.errors.join('; ') : r.duplicate === 'ledger' ? 'Reference already in the ledger' : r.duplicate === 'file' ? 'Reference repeated in this file' : failedRows.get(r.rowNumber) || ''
+      ]);
+    const blob = new Blob([toCsv([['Row', 'Reference', 'Status', 'Detail'], ...rows])], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName.replace(/\.[^.]+$/, '') || 'import'}-errors.csv`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const columnOptions = file?.headers.map((h, i) => ({ value: String(i), label: h || `Column ${i + 1}` })) || [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={() => !isImporting && onClose()}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.97 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[#121826] border border-zinc-800 rounded-3xl w-full max-w-4xl max-h-[90vh] overflow-y-auto custom-scrollbar p-8 space-y-6"
+      >
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-black text-white uppercase tracking-tight flex items-center gap-2">
+              <Table size={20} className="text-blue-500" /> Bulk Historical Import
+            </h3>
+            <p className="text-xs text-zinc-500 mt-1">
+              Past wires from an ERP or bank CSV export. Each row is priced against the value-date mid rate;
+              import reference rates first to avoid per-row search lookups.
+            </p>
+          </div>
+          <button onClick={onClose} disabled={isImporting} className="text-zinc-500 hover:text-white disabled:opacity-30">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* 1. File */}
+        <div className="flex items-center gap-3">
+          <input type="file" ref={fileInputRef} onChange={handleFile} className="hidden" accept=".csv,.txt" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-xs font-bold rounded-lg transition-colors text-zinc-300 flex items-center gap-2"
+          >
+            <Upload size={14} /> Choose CSV
+          </button>
+          {file && (
+            <span className="text-xs text-zinc-400 font-mono truncate">{fileName} • {file.rows.length.toLocaleString()} rows</span>
+          )}
+        </div>
+
+        {/* 2. Column mapping */}
+        {file && !result && (
+          <div className="space-y-3">
+            <h4 className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Column Mapping</h4>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {BULK_IMPORT_FIELDS.map(field => (
+                <div key={field.id} className="space-y-1">
+                  <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">
+                    {field.label}{field.required && <span className="text-red-500"> *</span>}
+                  </label>
+                  <select
+                    value={mapping[field.id] === undefined ? '' : String(mapping[field.id])}
+                    onChange={(e) => handleMappingChange(field.id, e.target.value)}
+                    disabled={isImporting}
+                    className={selectClass}
+                  >
+                    <option value="">Not mapped</option>
+                    {columnOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {missing.length > 0 && (
+              <p className="text-[10px] font-bold text-amber-500 uppercase tracking-widest">
+                Map {missing.map(f => f.label).join(', ')} (or a currency pair) to continue.
+              </p>
+            )}
+            <button
+              onClick={handleDryRun}
+              disabled={missing.length > 0 || isImporting}
+              className="px-4 py-2 border border-zinc-800 hover:bg-zinc-900 disabled:opacity-50 rounded-xl text-xs font-bold text-zinc-300 transition-all"
+            >
+              Dry Run
+            </button>
+          </div>
+        )}
+
+        {/* 3. Dry-run preview */}
+        {preview && !result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="p-4 rounded-xl bg-emerald-500/5 border border-emerald-500/20">
+                <div className="text-2xl font-black text-emerald-500">{preview.ready.toLocaleString()}</div>
+                <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Ready to import</div>
+              </div>
+              <div className="p-4 rounded-xl bg-red-500/5 border border-red-500/20">
+                <div className="text-2xl font-black text-red-500">{preview.invalid.toLocaleString()}</div>
+                <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Rows with errors</div>
+              </div>
+              <div className="p-4 rounded-xl bg-amber-500/5 border border-amber-500/20">
+                <div className="text-2xl font-black text-amber-500">{preview.duplicates.toLocaleString()}</div>
+                <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Duplicate references</div>
+              </div>
+            </div>
+
+            <div className="max-h-72 overflow-y-auto custom-scrollbar border border-zinc-800 rounded-xl">
+              <table className="w-full text-left text-xs">
+                <thead className="sticky top-0 bg-[#121826]">
+                  <tr className="border-b border-zinc-800 text-[10px] font-bold text-zinc-500 uppercase tracking-widest">
+                    <th className="p-3">Row</th>
+                    <th className="p-3">Reference</th>
+                    <th className="p-3">Transaction</th>
+                    <th className="p-3">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.slice(0, PREVIEW_LIMIT).map(row => {
+                    const tx = row.extraction?.transaction;
+                    return (
+                      <tr key={row.rowNumber} className="border-b border-zinc-800/50">
+                        <td className="p-3 font-mono text-zinc-500">{row.rowNumber}</td>
+                        <td className="p-3 font-mono text-zinc-300">{row.reference || '-'}</td>
+                        <td className="p-3 font-mono text-zinc-400">
+                          {tx ? `${tx.value_date} • ${tx.original_amount?.toLocaleString()} ${tx.original_currency} → ${tx.converted_currency} @ ${tx.exchange_rate_bank?.toFixed(4)}` : '-'}
+                        </td>
+                        <td className="p-3">
+                          {row.errors.length > 0 ? (
+                            <span className="flex items-start gap-1 text-red-500"><AlertCircle size={12} className="shrink-0 mt-0.5" /> {row.errors.join('; ')}</span>
+                          ) : row.duplicate ? (
+                            <span className="flex items-center gap-1 text-amber-500">
+                              <Copy size={12} /> {row.duplicate === 'ledger' ? 'Already in ledger' : 'Repeated in file'}
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 text-emerald-500"><CheckCircle size={12} /> Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {preview.rows.length > PREVIEW_LIMIT && (
+                <div className="p-3 text-[10px] text-zinc-600 text-center">
+                  Showing the first {PREVIEW_LIMIT} of {preview.rows.length.toLocaleString()} rows. Download the error report for the rest.
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <button
+                onClick={downloadErrorReport}
+                disabled={preview.invalid + preview.duplicates === 0}
+                className="text-xs font-bold text-zinc-400 hover:text-white disabled:opacity-40 flex items-center gap-1 transition-all"
+              >
+                <Download size={12} /> Error report
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={isImporting || preview.ready === 0}
+                className="px-5 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-xs font-black uppercase tracking-widest rounded-lg flex items-center gap-2"
+              >
+                {isImporting ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+                {isImporting && progress
+                  ? `Priced ${progress.priced}/${progress.total} • Saved ${progress.saved}`
+                  : `Import ${preview.ready.toLocaleString()} ${preview.ready === 1 ? 'row' : 'rows'}`}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* 4. Result */}
+        {result && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-sm font-bold text-emerald-500">
+              <CheckCircle size={16} /> {result.quotes.length.toLocaleString()} historical quotes imported.
+            </div>
+            {result.failed.length > 0 && (
+              <div className="p-4 bg-red-500/5 border border-red-500/20 rounded-xl space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                {result.failed.map(f => (
+                  <div key={f.rowNumber} className="text-xs text-red-400 font-mono">Row {f.rowNumber}: {f.error}</div>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <button onClick={downloadErrorReport} className="text-xs font-bold text-zinc-400 hover:text-white flex items-center gap-1 transition-all">
+                <Download size={12} /> Error report
+              </button>
+              <button onClick={onClose} className="px-5 py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-xs font-bold rounded-lg">Done</button>
+            </div>
+          </div>
+        )}
+
+        {errorMsg && (
+          <div className="px-4 py-2 bg-red-500/10 text-red-500 rounded-lg text-xs font-bold flex items-center gap-2">
+            <AlertTriangle size={12} /> {errorMsg}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default BulkImport;
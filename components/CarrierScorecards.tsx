@@ -1,7 +1,19 @@
-import React from 'react';
-import { QuoteData } from '../types';
-import { Star, AlertTriangle, TrendingDown, TrendingUp } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { QuoteData, Institution } from '../types';
+import { Star, AlertTriangle, TrendingDown, TrendingUp, Minus, Info, ChevronDown, ChevronUp } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { formatCurrency } from '../services/currency';
+import { ledgerDate } from '../services/ledgerExport';
+import {
+  buildScorecards, switchingSaving, BankScorecard, FeeCategory, FAIRNESS_FORMULA, FAIR_SPREAD, MIN_SCORECARD_QUOTES
+} from '../services/scorecards';
+
+interface CarrierScorecardsProps {
+  quotes: QuoteData[]; // Converted into the reporting currency
+  reportingCurrency: string;
+  institutions: Institution[]; // Bank registry, so every spelling of a bank shares one card
+}
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -22,90 +34,249 @@ const cardVariants = {
   }
 };
 
-const CarrierScorecards: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
-  const carriers = [
-    { name: 'JP Morgan', score: 88, spread: '0.8%', fees: 'Low', trend: 'up' },
-    { name: 'Chase', score: 65, spread: '2.5%', fees: 'High', trend: 'down' },
-    { name: 'Wells Fargo', score: 72, spread: '1.9%', fees: 'Med', trend: 'down' },
-    { name: 'Wise Business', score: 95, spread: '0.4%', fees: 'Min', trend: 'up' }
-  ];
+const FEE_LABELS: Record<FeeCategory, string> = {
+  wire: 'Wire',
+  fx: 'FX',
+  correspondent: 'Correspondent',
+  other: 'Other'
+};
+
+const scoreTone = (score: number) => (score >= 80
+  ? { text: 'text-emerald-500', bar: 'bg-emerald-500' }
+  : score >= 60 ? { text: 'text-amber-500', bar: 'bg-amber-500' } : { text: 'text-red-500', bar: 'bg-red-500' });
+
+const TrendIcon: React.FC<{ direction: BankScorecard['trendDirection'] }> = ({ direction }) => {
+  if (direction === 'improving') return <span title="Spread narrowing"><TrendingDown size={18} className="text-emerald-500" /></span>;
+  if (direction === 'worsening') return <span title="Spread widening"><TrendingUp size={18} className="text-red-500" /></span>;
+  return <span title={direction === 'flat' ? 'Spread steady' : 'Not enough months for a trend'}><Minus size={18} className="text-zinc-600" /></span>;
+};
+
+/**
+ * Scorecards for every bank in the org's history: pricing, fees, trend and the quotes behind them
+ */
+const CarrierScorecards: React.FC<CarrierScorecardsProps> = ({ quotes, reportingCurrency, institutions }) => {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [showFormula, setShowFormula] = useState(false);
+
+  const { cards, excluded } = useMemo(() => buildScorecards(quotes, reportingCurrency, institutions), [quotes, reportingCurrency, institutions]);
+  const saving = useMemo(() => switchingSaving(cards), [cards]);
+  const selected = cards.find(c => c.key === selectedKey) || null;
 
   return (
-    <motion.div 
+    <motion.div
       className="space-y-10"
       variants={containerVariants}
       initial="hidden"
       animate="visible"
     >
-      <div>
-        <h2 className="text-3xl font-bold text-white mb-2">Bank Scorecards</h2>
-        <p className="text-zinc-500">The Reliability Layer: Fairness of execution vs mid-market benchmarks.</p>
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-white mb-2">Bank Scorecards</h2>
+          <p className="text-zinc-500">How each of your banks has actually priced your conversions against mid-market.</p>
+        </div>
+        <button
+          onClick={() => setShowFormula(!showFormula)}
+          className="flex items-center gap-2 text-[10px] font-black text-zinc-500 hover:text-white uppercase tracking-widest transition-colors"
+        >
+          <Info size={14} /> How the score works
+        </button>
       </div>
 
-      <motion.div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {carriers.map(c => (
-          <motion.div 
-            key={c.name} 
-            variants={cardVariants}
-            whileHover={{ y: -5, borderColor: 'rgba(59, 130, 246, 0.3)' }}
-            className="bg-[#121826]/40 border border-zinc-800 rounded-[2rem] p-8 space-y-6 transition-all group shadow-lg"
-          >
-             <div className="flex items-center justify-between">
-                <div className="w-12 h-12 bg-zinc-900 border border-zinc-800 rounded-2xl flex items-center justify-center font-black text-blue-500">{c.name[0]}</div>
-                {c.trend === 'up' ? <TrendingUp size={18} className="text-emerald-500" /> : <TrendingDown size={18} className="text-red-500" />}
-             </div>
-             <div>
-                <h3 className="text-xl font-black text-white">{c.name}</h3>
-                <div className="flex items-center gap-1 mt-1">
-                   {[1,2,3,4,5].map(i => <Star key={i} size={12} className={i <= Math.round(c.score/20) ? "fill-blue-500 text-blue-500" : "text-zinc-800"} />)}
+      {showFormula && (
+        <motion.div variants={cardVariants} className="p-6 bg-zinc-900/50 border border-zinc-800 rounded-2xl space-y-1">
+          <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2">Fairness Score (0-100)</h4>
+          {FAIRNESS_FORMULA.map(line => <p key={line} className="text-xs text-zinc-400">{line}</p>)}
+          <p className="text-xs text-zinc-600 pt-2">Spreads are weighted by each quote's principal in {reportingCurrency}. Banks with fewer than {MIN_SCORECARD_QUOTES} quotes are marked indicative.</p>
+        </motion.div>
+      )}
+
+      {excluded > 0 && (
+        <div className="text-[10px] font-bold text-zinc-500 uppercase">{excluded} quotes pending FX conversion, without a known principal or unpriced are not scored</div>
+      )}
+
+      {cards.length === 0 ? (
+        <div className="p-16 text-center border border-dashed border-zinc-800 rounded-[2rem] text-zinc-500 text-sm">
+          No scored quotes yet. Upload bank quotes and each bank gets a scorecard here.
+        </div>
+      ) : (
+        <motion.div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          {cards.map(c => {
+            const tone = scoreTone(c.score);
+            return (
+              <motion.button
+                key={c.key}
+                variants={cardVariants}
+                whileHover={{ y: -5, borderColor: 'rgba(59, 130, 246, 0.3)' }}
+                onClick={() => setSelectedKey(selectedKey === c.key ? null : c.key)}
+                className={`text-left bg-[#121826]/40 border rounded-[2rem] p-8 space-y-6 transition-all group shadow-lg ${selectedKey === c.key ? 'border-blue-500' : 'border-zinc-800'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="w-12 h-12 bg-zinc-900 border border-zinc-800 rounded-2xl flex items-center justify-center font-black text-blue-500">{c.name[0]?.toUpperCase()}</div>
+                  <TrendIcon direction={c.trendDirection} />
+                </div>
+                <div>
+                  <h3 className="text-xl font-black text-white truncate">{c.name}</h3>
+                  <div className="flex items-center gap-1 mt-1">
+                    {[1,2,3,4,5].map(i => <Star key={i} size={12} className={i <= Math.round(c.score/20) ? "fill-blue-500 text-blue-500" : "text-zinc-800"} />)}
+                    <span className="text-[10px] text-zinc-600 font-bold uppercase ml-2">
+                      {c.quotes.length} quotes{c.quotes.length < MIN_SCORECARD_QUOTES && ' • Indicative'}
+                    </span>
+                  </div>
                 </div>
-             </div>
-             <div className="space-y-4">
-                <div className="flex justify-between items-center text-xs">
-                   <span className="text-zinc-500 font-bold uppercase tracking-widest">Fairness Score</span>
-                   <span className={`font-black ${c.score > 80 ? 'text-emerald-500' : 'text-red-500'}`}>{c.score}</span>
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center text-xs">
+                    <span className="text-zinc-500 font-bold uppercase tracking-widest">Fairness Score</span>
+                    <span className={`font-black ${tone.text}`}>{c.score}</span>
+                  </div>
+                  <div className="w-full h-1.5 bg-zinc-900 rounded-full overflow-hidden">
+                    <div className={`h-full ${tone.bar}`} style={{ width: `${c.score}%` }} />
+                  </div>
                 </div>
-                <div className="w-full h-1.5 bg-zinc-900 rounded-full overflow-hidden">
-                   <div className={`h-full ${c.score > 80 ? 'bg-emerald-500' : 'bg-red-500'}`} style={{ width: `${c.score}%` }} />
+                <div className="grid grid-cols-2 gap-4 pt-4 border-t border-zinc-800/50">
+                  <div className="space-y-1">
+                    <div className="text-[10px] font-black text-zinc-600 uppercase">Avg Spread</div>
+                    <div className="text-sm font-bold text-white font-mono">{c.weightedSpread.toFixed(2)}%</div>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-[10px] font-black text-zinc-600 uppercase">Fees</div>
+                    <div className="text-sm font-bold text-white font-mono">{formatCurrency(c.totalFees, reportingCurrency, 0)}</div>
+                  </div>
                 </div>
-             </div>
-             <div className="grid grid-cols-2 gap-4 pt-4 border-t border-zinc-800/50">
-                <div className="space-y-1">
-                   <div className="text-[10px] font-black text-zinc-600 uppercase">Avg Spread</div>
-                   <div className="text-sm font-bold text-white">{c.spread}</div>
+                {c.trend.length > 1 && (
+                  <div className="h-10">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={c.trend}>
+                        <Line type="monotone" dataKey="spread" stroke="#3b82f6" dot={false} strokeWidth={2} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </motion.button>
+            );
+          })}
+        </motion.div>
+      )}
+
+      {selected && (
+        <motion.div variants={cardVariants} initial="hidden" animate="visible" className="bg-[#121826]/40 border border-zinc-800 rounded-[2.5rem] p-8 space-y-8">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="text-2xl font-black text-white tracking-tighter">{selected.name}</h3>
+              <p className="text-xs text-zinc-500">
+                {formatCurrency(selected.volume, reportingCurrency, 0)} converted over {selected.quotes.length} quotes • hidden cost {formatCurrency(selected.totalHiddenCost, reportingCurrency)} ({selected.hiddenCostBps.toFixed(0)} bps)
+              </p>
+            </div>
+            <button onClick={() => setSelectedKey(null)} className="text-zinc-500 hover:text-white"><ChevronUp size={20} /></button>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2">Weighted Spread by Month</h4>
+              <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={selected.trend}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
+                  <XAxis dataKey="month" stroke="#52525b" fontSize={12} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#52525b" fontSize={12} tickLine={false} axisLine={false} unit="%" />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#09090b', borderColor: '#27272a', borderRadius: '12px' }}
+                    itemStyle={{ color: '#fafafa' }}
+                    formatter={(value: number) => [`${value.toFixed(3)}%`, 'Spread']}
+                  />
+                  <Line type="monotone" dataKey="spread" stroke="#3b82f6" strokeWidth={2} />
+                  <Line type="monotone" dataKey={() => FAIR_SPREAD} stroke="#10b981" strokeDasharray="5 5" dot={false} strokeWidth={1} name="Fair" />
+                </LineChart>
+              </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Fees by Category</h4>
+                {(Object.keys(FEE_LABELS) as FeeCategory[]).map(category => (
+                  <div key={category} className="flex justify-between text-xs">
+                    <span className="text-zinc-400">{FEE_LABELS[category]}</span>
+                    <span className="text-white font-mono">{formatCurrency(selected.fees[category], reportingCurrency)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between text-xs pt-2 border-t border-zinc-800">
+                  <span className="text-zinc-500 font-bold">Total ({selected.feeBps.toFixed(1)} bps of volume)</span>
+                  <span className="text-white font-mono font-bold">{formatCurrency(selected.totalFees, reportingCurrency)}</span>
                 </div>
-                <div className="space-y-1">
-                   <div className="text-[10px] font-black text-zinc-600 uppercase">Hidden Fees</div>
-                   <div className="text-sm font-bold text-white">{c.fees}</div>
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Score Breakdown</h4>
+                {[
+                  { label: `Spread (${selected.weightedSpread.toFixed(2)}%)`, points: selected.scoreParts.spread },
+                  { label: `Fees (${selected.feeBps.toFixed(1)} bps)`, points: selected.scoreParts.fees },
+                  { label: `Consistency (±${selected.spreadStdDev.toFixed(2)} pp)`, points: selected.scoreParts.consistency }
+                ].map(part => (
+                  <div key={part.label} className="flex justify-between text-xs">
+                    <span className="text-zinc-400">{part.label}</span>
+                    <span className="text-red-400 font-mono">-{part.points.toFixed(1)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between text-xs pt-2 border-t border-zinc-800">
+                  <span className="text-zinc-500 font-bold">Fairness Score</span>
+                  <span className="text-white font-mono font-bold">{selected.score}</span>
                 </div>
-             </div>
-          </motion.div>
-        ))}
-      </motion.div>
-
-      <motion.div 
-        variants={cardVariants}
-        className="bg-zinc-900/50 border border-zinc-800 rounded-[2.5rem] p-10 flex flex-col md:flex-row gap-10 items-center hover:bg-zinc-900/70 transition-colors"
-      >
-         <div className="w-24 h-24 bg-blue-600/10 rounded-full flex items-center justify-center text-blue-500 shrink-0 border border-blue-500/20 shadow-[0_0_30px_rgba(37,99,235,0.2)] animate-pulse">
+              </div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr className="text-[10px] font-black text-zinc-500 uppercase tracking-widest border-b border-zinc-800">
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Reference</th>
+                  <th className="py-2 pr-4">Pair</th>
+                  <th className="py-2 pr-4 text-right">Amount</th>
+                  <th className="py-2 pr-4 text-right">Spread</th>
+                  <th className="py-2 pr-4 text-right">Fees</th>
+                  <th className="py-2 text-right">Hidden Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selected.quotes.map(q => (
+                  <tr key={q.id} className="border-b border-zinc-800/50 text-zinc-300">
+                    <td className="py-2 pr-4 font-mono text-zinc-500">{ledgerDate(q)}</td>
+                    <td className="py-2 pr-4">{q.referenceNumber || '-'}</td>
+                    <td className="py-2 pr-4 font-mono">{q.pair}</td>
+                    <td className="py-2 pr-4 text-right font-mono">{formatCurrency(q.amount, q.originalCurrency || reportingCurrency)}</td>
+                    <td className={`py-2 pr-4 text-right font-mono ${(q.spreadPercentage || 0) > FAIR_SPREAD ? 'text-amber-500' : 'text-emerald-500'}`}>{(q.spreadPercentage || 0).toFixed(2)}%</td>
+                    <td className="py-2 pr-4 text-right font-mono">{formatCurrency(q.totalFees, reportingCurrency)}</td>
+                    <td className="py-2 text-right font-mono">{formatCurrency(q.totalHiddenCost, reportingCurrency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+      )}
+
+      {!selected && cards.length > 0 && (
+        <div className="flex items-center justify-center gap-2 text-[10px] font-bold text-zinc-600 uppercase"><ChevronDown size={12} /> Select a bank to see its quotes</div>
+      )}
+
+      {saving && (
+        <motion.div
+          variants={cardVariants}
+          className="bg-zinc-900/50 border border-zinc-800 rounded-[2.5rem] p-10 flex flex-col md:flex-row gap-10 items-center hover:bg-zinc-900/70 transition-colors"
+        >
+          <div className="w-24 h-24 bg-blue-600/10 rounded-full flex items-center justify-center text-blue-500 shrink-0 border border-blue-500/20 shadow-[0_0_30px_rgba(37,99,235,0.2)]">
             <AlertTriangle size={48} />
-         </div>
-         <div className="space-y-4">
+          </div>
+          <div className="space-y-4">
             <h3 className="text-2xl font-black text-white tracking-tighter">Profit Guard Warning</h3>
             <p className="text-zinc-400 leading-relaxed text-sm">
-              Bank <span className="text-white font-bold">Chase</span> is currently executing USD/EUR at 2.5% above mid-market, however, Atlas has tracked <span className="text-emerald-500 font-bold underline">Wise Business</span> at 0.4% spread. We recommend executing this wire via Wise to save ~$2,100.
+              <span className="text-white font-bold">{saving.worst.name}</span> has priced your conversions at a weighted {saving.worst.weightedSpread.toFixed(2)}% above mid-market, while <span className="text-emerald-500 font-bold">{saving.best.name}</span> averaged {saving.best.weightedSpread.toFixed(2)}%. At the lower spread, the {formatCurrency(saving.worst.volume, reportingCurrency, 0)} you converted with {saving.worst.name} would have cost about <span className="text-white font-bold">{formatCurrency(saving.saving, reportingCurrency, 0)}</span> less.
             </p>
-         </div>
-         <motion.button 
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            className="px-8 py-4 bg-white text-[#121826] font-black uppercase tracking-widest text-[10px] rounded-2xl shadow-xl shrink-0 transition-all"
-         >
-            Switch Provider
-         </motion.button>
-      </motion.div>
+          </div>
+        </motion.div>
+      )}
     </motion.div>
   );
 };
 
-export default CarrierScorecards;
\ No newline at end of file
+export default CarrierScorecards;
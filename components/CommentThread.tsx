@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, Reply, PenLine, Trash2, Loader2, AtSign } from 'lucide-react';
+import { QuoteData, UserProfile, TeamMember, Comment } from '../types';
+import { fetchTeamMembers, listenToQuoteComments, addQuoteComment, editQuoteComment, deleteQuoteComment } from '../services/firebase';
+import { buildThreads, extractMentions, mentionQueryAt, newCommentId, splitMentions } from '../services/comments';
+
+interface CommentThreadProps {
+  quote: QuoteData;
+  userProfile: UserProfile;
+}
+
+interface ComposerProps {
+  members: TeamMember[];
+  initialText?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (text: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+/**
+ * Comment box with an @mention picker over the org's members
+ */
+const CommentComposer: React.FC<ComposerProps> = ({ members, initialText = '', placeholder, submitLabel, onSubmit, onCancel }) => {
+  const [text, setText] = useState(initialText);
+  const [caret, setCaret] = useState(initialText.length);
+  const [sending, setSending] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  const mention = mentionQueryAt(text, caret);
+  const suggestions = mention
+    ? members.filter(m => m.name.toLowerCase().includes(mention.query.toLowerCase())).slice(0, 5)
+    : [];
+
+  const pick = (member: TeamMember) => {
+    if (!mention) return;
+    const next = `${text.slice(0, mention.start)}@${member.name} ${text.slice(caret)}`;
+    const position = mention.start + member.name.length + 2;
+    setText(next);
+    setCaret(position);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const submit = async () => {
+    if (!text.trim() || sending) return;
+    setSending(true);
+    const sent = await onSubmit(text.trim());
+    setSending(false);
+    if (sent) setText('');
+  };
+
+  return (
+    <div className="relative space-y-2">
+      <textarea
+        ref={inputRef}
+        value={text}
+        rows={2}
+        placeholder={placeholder}
+        onChange={(e) => { setText(e.target.value); setCaret(e.target.selectionStart); }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit();
+          if (e.key === 'Escape') onCancel?.();
+        }}
+        className="w-full bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-2 text-xs text-white resize-none focus:outline-none focus:border-blue-500"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-full mt-1 z-10 w-56 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl overflow-hidden">
+          {suggestions.map(m => (
+            <button
+              key={m.id}
+              onMouseDown={(e) => { e.preventDefault(); pick(m); }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs text-zinc-300 hover:bg-zinc-800 transition-colors"
+            >
+              <AtSign size={12} className="text-blue-500" /> {m.name}
+              {m.email && <span className="text-zinc-600 truncate">{m.email}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-end gap-2">
+        {onCancel && (
+          <button onClick={onCancel} className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={submit}
+          disabled={!text.trim() || sending}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-[10px] font-black uppercase tracking-widest text-white disabled:opacity-50 transition-colors"
+        >
+          {sending ? <Loader2 size={12} className="animate-spin" /> : <Send size={12} />} {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Discussion on a quote, kept live from its comments subcollection
+ */
+const CommentThread: React.FC<CommentThreadProps> = ({ quote, userProfile }) => {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const threads = buildThreads(comments);
+  const count = comments.filter(c => !c.deleted).length;
+  const orgId = quote.orgId || userProfile.orgId;
+
+  useEffect(() => {
+    if (orgId) fetchTeamMembers(orgId).then(setMembers);
+  }, [orgId]);
+
+  useEffect(() => {
+    setComments([]);
+    return listenToQuoteComments(quote.id, setComments);
+  }, [quote.id]);
+
+  const report = (result: { success: boolean, error?: string }) => {
+    setError(result.success ? null : result.error || 'Could not save the comment');
+    return result.success;
+  };
+
+  const post = async (text: string, parentId?: string) => {
+    const comment: Comment = {
+      id: newCommentId(),
+      user: userProfile.displayName || userProfile.email || 'Unknown',
+      userId: userProfile.uid,
+      text,
+      timestamp: Date.now(),
+      parentId,
+      mentions: extractMentions(text, members)
+    };
+    const sent = report(await addQuoteComment(quote.id, comment));
+    if (sent) setReplyTo(null);
+    return sent;
+  };
+
+  const saveEdit = async (comment: Comment, text: string) => {
+    const saved = report(await editQuoteComment(quote.id, comment.id, text, extractMentions(text, members)));
+    if (saved) setEditing(null);
+    return saved;
+  };
+
+  const remove = async (comment: Comment) => {
+    if (!window.confirm('Delete this comment?')) return;
+    report(await deleteQuoteComment(quote.id, comment.id));
+  };
+
+  const renderComment = (comment: Comment, isReply: boolean) => {
+    const mine = !!comment.userId && comment.userId === userProfile.uid;
+    const mentionsMe = comment.mentions?.includes(userProfile.uid);
+    return (
+      <div key={comment.id} className={`space-y-1 ${isReply ? 'ml-6 pl-3 border-l border-zinc-800' : ''}`}>
+        <div className="flex items-center gap-2 text-[10px]">
+          <span className="font-black text-zinc-300">{comment.deleted ? 'Deleted' : comment.user}</span>
+          <span className="text-zinc-600 font-mono">{new Date(comment.timestamp).toLocaleString()}</span>
+          {comment.editedAt && !comment.deleted && <span className="text-zinc-600">(edited)</span>}
+          {mentionsMe && <span className="px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-400 font-black uppercase">Mentions you</span>}
+        </div>
+        {editing === comment.id ? (
+          <CommentComposer
+            members={members}
+            initialText={comment.text}
+            placeholder="Edit comment"
+            submitLabel="Save"
+            onSubmit={(text) => saveEdit(comment, text)}
+            onCancel={() => setEditing(null)}
+          />
+        ) : comment.deleted ? (
+          <p className="text-xs text-zinc-600 italic">This comment was deleted.</p>
+        ) : (
+          <p className="text-xs text-zinc-300 whitespace-pre-wrap break-words">
+            {splitMentions(comment.text, members).map((part, i) => part.memberId ? (
+              <span key={i} className={`font-bold ${part.memberId === userProfile.uid ? 'text-blue-300 bg-blue-500/10 rounded px-0.5' : 'text-blue-400'}`}>{part.text}</span>
+            ) : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+          </p>
+        )}
+        {!comment.deleted && editing !== comment.id && (
+          <div className="flex items-center gap-3 text-[10px] font-bold text-zinc-600">
+            <button onClick={() => setReplyTo(comment.parentId || comment.id)} className="flex items-center gap-1 hover:text-white transition-colors">
+              <Reply size={11} /> Reply
+            </button>
+            {mine && (
+              <button onClick={() => setEditing(comment.id)} className="flex items-center gap-1 hover:text-white transition-colors">
+                <PenLine size={11} /> Edit
+              </button>
+            )}
+            {mine && (
+              <button onClick={() => remove(comment)} className="flex items-center gap-1 hover:text-red-500 transition-colors">
+                <Trash2 size={11} /> Delete
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 bg-zinc-900 rounded-[1.5rem] border border-zinc-800 space-y-4">
+      <h4 className="flex items-center gap-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+        <MessageSquare size={12} /> Discussion {count > 0 && `(${count})`}
+      </h4>
+
+      {threads.length === 0 && <p className="text-xs text-zinc-600">No comments yet. Type @ to bring a colleague in.</p>}
+      {threads.map(thread => (
+        <div key={thread.root.id} className="space-y-3">
+          {renderComment(thread.root, false)}
+          {thread.replies.map(reply => renderComment(reply, true))}
+          {replyTo === thread.root.id && (
+            <div className="ml-6">
+              <CommentComposer
+                members={members}
+                placeholder={`Reply to ${thread.root.deleted ? 'thread' : thread.root.user}`}
+                submitLabel="Reply"
+                onSubmit={(text) => post(text, thread.root.id)}
+                onCancel={() => setReplyTo(null)}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="pt-3 border-t border-zinc-800">
+        <CommentComposer members={members} placeholder="Add a comment, @mention a colleague" submitLabel="Comment" onSubmit={(text) => post(text)} />
+      </div>
+      {error && <div className="text-xs text-red-500">{error}</div>}
+    </div>
+  );
+};
+
+export default CommentThread;
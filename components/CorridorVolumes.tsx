@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarClock, Save, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { AnnualProjection, CorridorVolume, Institution, QuoteData } from '../types';
+import { updateOrganizationSettings } from '../services/firebase';
+import { formatCurrency } from '../services/currency';
+import { corridorOverview, corridorSamples, MIN_CORRIDOR_DAYS, MIN_CORRIDOR_QUOTES, PROJECTION_BASIS_LABELS } from '../services/projections';
+
+interface CorridorVolumesProps {
+  quotes: QuoteData[]; // Already in the reporting currency
+  reportingCurrency: string;
+  institutions: Institution[];
+  declared: CorridorVolume[];
+  orgId: string;
+  userId: string;
+}
+
+const BASIS_TONES: Record<AnnualProjection['basis'], string> = {
+  history: 'text-emerald-500 bg-emerald-500/10',
+  declared: 'text-blue-400 bg-blue-500/10',
+  assumed: 'text-amber-500 bg-amber-500/10'
+};
+
+const BASIS_SHORT: Record<AnnualProjection['basis'], string> = {
+  history: 'History',
+  declared: 'Declared',
+  assumed: 'Assumed'
+};
+
+const inputClass = 'w-24 bg-[#0e121b] border border-zinc-800 rounded-lg px-2 py-1 text-xs font-mono text-white outline-none focus:border-blue-500/50';
+
+interface DraftVolume {
+  perYear: string;
+  averageAmount: string;
+}
+
+const CorridorVolumes: React.FC<CorridorVolumesProps> = ({ quotes, reportingCurrency, institutions, declared, orgId, userId }) => {
+  const [drafts, setDrafts] = useState<Record<string, DraftVolume> | null>(null); // Working copy while editing
+  const [isSaving, setIsSaving] = useState(false);
+  const [feedback, setFeedback] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+
+  const corridors = useMemo(
+    () => corridorOverview(corridorSamples(quotes, institutions), declared, reportingCurrency),
+    [quotes, institutions, declared, reportingCurrency]
+  );
+
+  const draftFor = (key: string): DraftVolume => {
+    if (drafts?.[key]) return drafts[key];
+    const volume = corridors.find(c => c.key === key)?.declared;
+    return { perYear: volume ? String(volume.transactionsPerYear) : '', averageAmount: volume?.averageAmount ? String(volume.averageAmount) : '' };
+  };
+
+  const edit = (key: string, field: keyof DraftVolume, value: string) => {
+    setDrafts({ ...(drafts || {}), [key]: { ...draftFor(key), [field]: value } });
+    setFeedback(null);
+  };
+
+  const invalid = drafts && Object.keys(drafts).map(key => drafts[key]).some(d =>
+    (d.perYear.trim() !== '' && !(parseFloat(d.perYear) > 0)) || (d.averageAmount.trim() !== '' && !(parseFloat(d.averageAmount) > 0)));
+
+  const handleSave = async () => {
+    if (!drafts || invalid) return;
+    const volumes: CorridorVolume[] = [];
+    corridors.forEach(c => {
+      const draft = draftFor(c.key);
+      const perYear = parseFloat(draft.perYear);
+      if (!(perYear > 0)) return;
+      const averageAmount = parseFloat(draft.averageAmount) > 0 ? parseFloat(draft.averageAmount) : undefined;
+      const unchanged = c.declared && c.declared.transactionsPerYear === perYear && c.declared.averageAmount === averageAmount;
+      volumes.push(unchanged ? c.declared! : { bankKey: c.bankKey, bankName: c.bankName, pair: c.pair, transactionsPerYear: perYear, averageAmount, declaredBy: userId, declaredAt: Date.now() });
+    });
+
+    setIsSaving(true);
+    const saved = await updateOrganizationSettings(orgId, { expectedVolumes: volumes });
+    setIsSaving(false);
+    if (saved) {
+      setDrafts(null);
+      setFeedback({ type: 'success', msg: 'Volumes saved. New and re-priced quotes use them.' });
+    } else {
+      setFeedback({ type: 'error', msg: 'Save failed.' });
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-3xl overflow-hidden">
+      <div className="p-6 border-b border-zinc-800 space-y-2">
+        <div className="flex items-center gap-3">
+          <CalendarClock size={18} className="text-blue-500" />
+          <h3 className="text-lg font-bold">Corridor Volumes</h3>
+        </div>
+        <p className="text-xs text-zinc-500 leading-relaxed">
+          Annual projections follow how often you send through each bank on each pair. A corridor needs {MIN_CORRIDOR_QUOTES} quotes
+          over {MIN_CORRIDOR_DAYS} days before its own history is used; until then the volume declared here applies, and
+          without one a transfer a month is assumed. Amounts are in {reportingCurrency}.
+        </p>
+      </div>
+
+      {corridors.length === 0 ? (
+        <p className="p-6 text-xs text-zinc-600 italic">No corridors yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-zinc-800">
+                <th className="p-4 text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Corridor</th>
+                <th className="p-4 text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Observed</th>
+                <th className="p-4 text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Per Year (90%)</th>
+                <th className="p-4 text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Declared / Year</th>
+                <th className="p-4 text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Avg Amount</th>
+                <th className="p-4 text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Projected From</th>
+              </tr>
+            </thead>
+            <tbody>
+              {corridors.map(c => {
+                const draft = draftFor(c.key);
+                return (
+                  <tr key={c.key} className="border-b border-zinc-800/50 hover:bg-zinc-800/20 transition-colors">
+                    <td className="p-4">
+                      <div className="text-sm font-bold">{c.pair}</div>
+                      <div className="text-xs text-zinc-500">{c.bankName}</div>
+                    </td>
+                    <td className="p-4 text-xs font-mono text-zinc-400">
+                      {c.observed ? `${c.observed.quotes} over ${c.observed.days}d` : '—'}
+                    </td>
+                    <td className="p-4 text-xs font-mono text-zinc-100">
+                      {c.observed ? `${c.observed.perYear.toFixed(1)} (${c.observed.low.toFixed(1)}–${c.observed.high.toFixed(1)})` : '—'}
+                      {c.observed?.averageAmount && <div className="text-zinc-500">avg {formatCurrency(c.observed.averageAmount, reportingCurrency)}</div>}
+                    </td>
+                    <td className="p-4">
+                      <input type="number" min="0" step="1" value={draft.perYear} placeholder="—" onChange={(e) => edit(c.key, 'perYear', e.target.value)} className={inputClass} />
+                    </td>
+                    <td className="p-4">
+                      <input type="number" min="0" value={draft.averageAmount} placeholder="Per quote" onChange={(e) => edit(c.key, 'averageAmount', e.target.value)} className={inputClass} />
+                    </td>
+                    <td className="p-4">
+                      <span title={PROJECTION_BASIS_LABELS[c.basis]} className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${BASIS_TONES[c.basis]}`}>
+                        {BASIS_SHORT[c.basis]}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(drafts || feedback) && (
+        <div className="p-4 border-t border-zinc-800 flex flex-wrap items-center gap-3">
+          {drafts && (
+            <>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !!invalid}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-xs font-black uppercase tracking-widest rounded-lg flex items-center gap-2"
+              >
+                {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save Volumes
+              </button>
+              <button onClick={() => { setDrafts(null); setFeedback(null); }} disabled={isSaving} className="px-4 py-2 text-xs font-bold text-zinc-500 hover:text-zinc-300">
+                Discard
+              </button>
+            </>
+          )}
+          {invalid && (
+            <span className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-amber-500">
+              <AlertCircle size={12} /> Volumes and amounts must be above zero
+            </span>
+          )}
+          {feedback && (
+            <span className={`flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest ${feedback.type === 'success' ? 'text-emerald-500' : 'text-red-500'}`}>
+              {feedback.type === 'success' ? <CheckCircle size={12} /> : <AlertCircle size={12} />}
+              {feedback.msg}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorridorVolumes;
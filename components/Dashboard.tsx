@@ -1,9 +1,9 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   LogOut, Bell, Menu, X, LayoutDashboard, Settings as SettingsIcon, 
   HelpCircle, ChevronRight, FileText, History, Users, Award, BarChart2,
-  Shield, Scale, Cookie, CreditCard, ChevronLeft, Zap, Loader2
+  Shield, Scale, Cookie, CreditCard, ChevronLeft, Zap, Loader2, Landmark
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Sidebar from './Sidebar';
@@ -14,17 +14,24 @@ import LaneAnalysis from './LaneAnalysis';
 import Billing from './Billing';
 import Settings from './Settings';
 import Support from './Support';
-import ImageStudio from './ImageStudio';
+import DisputeStudio from './DisputeStudio';
 import CarrierScorecards from './CarrierScorecards';
 import TeamWorkspace from './TeamWorkspace';
+import BankRegistry from './BankRegistry';
 import ProfitGuardSidebar from './ProfitGuardSidebar';
 import PrivacyPolicy from './PrivacyPolicy';
 import TermsAndConditions from './TermsAndConditions';
 import CookiePolicy from './CookiePolicy';
 import PaymentPage from './PaymentPage';
 import WelcomeTour from './WelcomeTour';
-import { AppView, QuoteData, UserProfile, Organization } from '../types';
-import { markIntroSeen, listenToOrgQuotes } from '../services/firebase';
+import { AppView, QuoteData, UserProfile, Organization, Institution, BenchmarkTable, DisputeRuleSet } from '../types';
+import { markIntroSeen, listenToOrgQuotes, listenToBankRegistry, listenToBenchmarkTable, listenToDisputeRules } from '../services/firebase';
+import { fetchStoredConversionRates } from '../services/marketData';
+import { PricingContext } from '../services/calculations';
+import { convertQuoteToReporting, fallbackRatesNeeded, DatedConversionRates, DEFAULT_REPORTING_CURRENCY } from '../services/currency';
+import { benchmarkSamples, DEFAULT_BENCHMARK_TABLE } from '../services/benchmarks';
+import { DEFAULT_DISPUTE_RULE_SET } from '../services/disputeRules';
+import { corridorSamples } from '../services/projections';
 
 interface DashboardProps {
   currentView: AppView;
@@ -42,10 +49,46 @@ const Dashboard: React.FC<DashboardProps> = ({ currentView, onViewChange, onLogo
   const [showTour, setShowTour] = useState(false);
   const navMenuRef = useRef<HTMLDivElement>(null);
   const [quotes, setQuotes] = useState<QuoteData[]>([]);
+  const [institutions, setInstitutions] = useState<Institution[]>([]);
+  const [benchmarkTable, setBenchmarkTable] = useState<BenchmarkTable>(DEFAULT_BENCHMARK_TABLE);
+  const [disputeRules, setDisputeRules] = useState<DisputeRuleSet>(DEFAULT_DISPUTE_RULE_SET);
 
   // Enterprise Helper
   const isEnterprise = orgProfile?.plan === 'enterprise';
 
+  // Reporting Currency: every aggregate view receives quotes converted into the org's currency
+  const reportingCurrency = orgProfile?.reportingCurrency || DEFAULT_REPORTING_CURRENCY;
+  const [fallbackRates, setFallbackRates] = useState<{ currency: string, rates: DatedConversionRates }>({ currency: reportingCurrency, rates: {} });
+  const requestedRatesRef = useRef<{ currency: string, keys: Set<string> }>({ currency: reportingCurrency, keys: new Set() });
+  const missingRates = useMemo(() => fallbackRatesNeeded(quotes, reportingCurrency).sort().join(','), [quotes, reportingCurrency]);
+
+  useEffect(() => {
+    // Quotes whose own pair cannot bridge to the reporting currency use the stored fixing for their
+    // value date; each currency and date is looked up once, and those without a fixing stay unconverted
+    if (requestedRatesRef.current.currency !== reportingCurrency) requestedRatesRef.current = { currency: reportingCurrency, keys: new Set() };
+    const requested = requestedRatesRef.current.keys;
+    const keys = missingRates ? missingRates.split(',').filter(key => !requested.has(key)) : [];
+    if (keys.length === 0) return;
+    keys.forEach(key => requested.add(key));
+    fetchStoredConversionRates(keys, reportingCurrency).then(rates => setFallbackRates(prev =>
+      prev.currency === reportingCurrency ? { currency: reportingCurrency, rates: { ...prev.rates, ...rates } } : { currency: reportingCurrency, rates }
+    ));
+  }, [missingRates, reportingCurrency]);
+
+  const reportingQuotes = useMemo(
+    () => quotes.map(q => convertQuoteToReporting(q, reportingCurrency, fallbackRates.currency === reportingCurrency ? fallbackRates.rates : {}) || q),
+    [quotes, reportingCurrency, fallbackRates]
+  );
+
+  // Pricing context: new analyses rank against the org's benchmarks and own priced quotes, and
+  // are flagged for dispute by the org's rules, and are annualised from the corridor's own frequency
+  const expectedVolumes = orgProfile?.expectedVolumes;
+  const pricing = useMemo<PricingContext>(() => ({
+    benchmark: { table: benchmarkTable, history: benchmarkSamples(quotes) },
+    disputeRules: { rules: disputeRules.rules, currency: disputeRules.currency, institutions },
+    projection: { history: corridorSamples(reportingQuotes, institutions), declared: expectedVolumes || [], institutions }
+  }), [benchmarkTable, quotes, reportingQuotes, disputeRules, institutions, expectedVolumes]);
+
   // Defensive Data Loading with Real-Time Listener
   useEffect(() => {
     // Gate: Don't subscribe if crucial IDs are missing
@@ -64,7 +107,21 @@ const Dashboard: React.FC<DashboardProps> = ({ currentView, onViewChange, onLogo
         setIsLoadingData(false);
     });
 
-    return () => unsubscribeQuotes();
+    // Bank registry: how extracted bank names group into institutions
+    const unsubscribeRegistry = listenToBankRegistry(userProfile.orgId, setInstitutions);
+
+    // Benchmark table: what new analyses rank against
+    const unsubscribeBenchmarks = listenToBenchmarkTable(userProfile.orgId, setBenchmarkTable);
+
+    // Dispute rules: when a new analysis is flagged, at what priority and target
+    const unsubscribeRules = listenToDisputeRules(userProfile.orgId, setDisputeRules);
+
+    return () => {
+      unsubscribeQuotes();
+      unsubscribeRegistry();
+      unsubscribeBenchmarks();
+      unsubscribeRules();
+    };
   }, [userProfile?.uid, userProfile?.orgId]);
 
   const handleTourClose = async () => {
@@ -103,11 +160,6 @@ const Dashboard: React.FC<DashboardProps> = ({ currentView, onViewChange, onLogo
     // but the main list source is the listener.
   };
 
-  const updateQuote = (updated: QuoteData) => {
-    // Handled by listener if database is updated, but can keep for local optimistic updates if we write back to DB
-    // Ideally, we write to DB and let listener propagate.
-  };
-
   const handleNavigate = (view: AppView) => {
     onViewChange(view);
     setIsNavMenuOpen(false);
@@ -115,22 +167,23 @@ const Dashboard: React.FC<DashboardProps> = ({ currentView, onViewChange, onLogo
 
   const renderView = () => {
     switch (currentView) {
-      case 'dashboard': return <DashboardHome quotes={quotes} onViewChange={onViewChange} onUpdateQuote={updateQuote} />;
+      case 'dashboard': return <DashboardHome quotes={reportingQuotes} reportingCurrency={reportingCurrency} onViewChange={onViewChange} userProfile={userProfile} orgProfile={orgProfile} />;
       // Pass orgProfile and isEnterprise down to IntelligenceFeed for credit logic
-      case 'quotes': return <IntelligenceFeed quotes={quotes} onAddQuote={addQuote} onUpdateQuote={updateQuote} userProfile={userProfile} orgProfile={orgProfile} isEnterprise={isEnterprise} onProfileUpdate={onProfileUpdate} />;
-      case 'history': return <QuoteHistory quotes={quotes} />;
-      case 'analysis': return <LaneAnalysis quotes={quotes} />;
-      case 'team': return <TeamWorkspace />;
+      case 'quotes': return <IntelligenceFeed quotes={quotes} pricing={pricing} onAddQuote={addQuote} userProfile={userProfile} orgProfile={orgProfile} isEnterprise={isEnterprise} />;
+      case 'history': return <QuoteHistory quotes={reportingQuotes} reportingCurrency={reportingCurrency} />;
+      case 'analysis': return <LaneAnalysis quotes={reportingQuotes} reportingCurrency={reportingCurrency} institutions={institutions} userProfile={userProfile} orgProfile={orgProfile} />;
+      case 'team': return <TeamWorkspace userProfile={userProfile} orgProfile={orgProfile} />;
       case 'billing': return <Billing onViewChange={onViewChange} userProfile={userProfile} orgProfile={orgProfile} />;
       case 'payment': return <PaymentPage orgId={orgProfile.id} />; // Pass OrgId to Payment
-      case 'settings': return <Settings userProfile={userProfile} onProfileUpdate={onProfileUpdate} />;
+      case 'settings': return <Settings userProfile={userProfile} orgProfile={orgProfile} onProfileUpdate={onProfileUpdate} />;
       case 'support': return <Support />;
-      case 'studio': return <ImageStudio />;
-      case 'scorecards': return <CarrierScorecards quotes={quotes} />;
+      case 'studio': return <DisputeStudio quotes={quotes} reportingQuotes={reportingQuotes} reportingCurrency={reportingCurrency} userProfile={userProfile} orgProfile={orgProfile} />;
+      case 'scorecards': return <CarrierScorecards quotes={reportingQuotes} reportingCurrency={reportingCurrency} institutions={institutions} />;
+      case 'banks': return <BankRegistry quotes={quotes} institutions={institutions} userProfile={userProfile} orgProfile={orgProfile} />;
       case 'privacy': return <PrivacyPolicy onBack={() => onViewChange('dashboard')} />;
       case 'terms': return <TermsAndConditions onBack={() => onViewChange('dashboard')} />;
       case 'cookies': return <CookiePolicy onBack={() => onViewChange('dashboard')} />;
-      default: return <DashboardHome quotes={quotes} onViewChange={onViewChange} onUpdateQuote={updateQuote} />;
+      default: return <DashboardHome quotes={reportingQuotes} reportingCurrency={reportingCurrency} onViewChange={onViewChange} userProfile={userProfile} orgProfile={orgProfile} />;
     }
   };
 
@@ -176,6 +229,7 @@ const Dashboard: React.FC<DashboardProps> = ({ currentView, onViewChange, onLogo
                         { id: 'team', label: 'Team Workspace', icon: <Users size={18} /> },
                         { id: 'history', label: 'Lane Memory', icon: <History size={18} /> },
                         { id: 'scorecards', label: 'Scorecards', icon: <Award size={18} /> },
+                        { id: 'banks', label: 'Bank Registry', icon: <Landmark size={18} /> },
                         { id: 'analysis', label: 'Analytics', icon: <BarChart2 size={18} /> },
                         { id: 'settings', label: 'Settings', icon: <SettingsIcon size={18} /> },
                         { id: 'privacy', label: 'Privacy Policy', icon: <Shield size={18} /> },
@@ -1,12 +1,17 @@
 import React, { useState } from 'react';
 import { ShieldCheck, Zap, ChevronRight, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
-import { QuoteData, AppView } from '../types';
+import { QuoteData, AppView, UserProfile, Organization } from '../types';
 import { motion } from 'framer-motion';
+import { formatCurrency, sumInCurrency, quoteCostCurrency } from '../services/currency';
+import { checkTransition, workflowRoleOf } from '../services/workflow';
+import { transitionQuoteWorkflow } from '../services/firebase';
 
 interface DashboardHomeProps {
   quotes: QuoteData[];
+  reportingCurrency: string;
   onViewChange: (view: AppView) => void;
-  onUpdateQuote?: (quote: QuoteData) => void;
+  userProfile: UserProfile;
+  orgProfile: Organization | null;
 }
 
 const containerVariants = {
@@ -32,26 +37,37 @@ const itemVariants = {
   }
 };
 
-const DashboardHome: React.FC<DashboardHomeProps> = ({ quotes, onViewChange, onUpdateQuote }) => {
+const DashboardHome: React.FC<DashboardHomeProps> = ({ quotes, reportingCurrency, onViewChange, userProfile, orgProfile }) => {
   const [isApproving, setIsApproving] = useState(false);
+  const [approvalMessage, setApprovalMessage] = useState<string | null>(null);
   
   const flaggedCount = quotes?.filter(q => q.status === 'flagged').length || 0;
-  const pendingReview = quotes?.filter(q => q.workflowStatus === 'reviewed').length || 0;
+  const reviewed = quotes?.filter(q => q.workflowStatus === 'reviewed') || [];
+  // Maker-checker: quotes this user uploaded wait for someone else
+  const approvable = reviewed.filter(q => checkTransition(q, 'approved', userProfile, orgProfile).allowed);
+  const role = workflowRoleOf(userProfile, orgProfile);
 
-  // Calculate Total Recovered
-  const totalRecovered = quotes?.reduce((acc, q) => acc + (q.markupCost || 0), 0) || 0;
+  // Refunds banks have paid on disputes (in the org's reporting currency)
+  const recovered = sumInCurrency((quotes || []).filter(q => q.disputeCase?.amountRecovered), reportingCurrency, q => q.disputeCase?.amountRecovered);
+  const totalRecovered = recovered.total;
 
-  const handleBatchApprove = () => {
-    if (!onUpdateQuote || !quotes) return;
+  const handleBatchApprove = async () => {
+    if (approvable.length === 0) return;
     setIsApproving(true);
-    setTimeout(() => {
-      quotes.forEach(q => {
-        if (q.workflowStatus === 'reviewed') {
-          onUpdateQuote({ ...q, workflowStatus: 'approved' });
-        }
-      });
-      setIsApproving(false);
-    }, 1500);
+    setApprovalMessage(null);
+    let approved = 0;
+    let failed = 0;
+    for (const q of approvable) {
+      const result = await transitionQuoteWorkflow(q.id, userProfile, orgProfile, 'approved', 'Batch approval');
+      if (result.success) approved++; else failed++;
+    }
+    const skipped = reviewed.length - approvable.length;
+    setApprovalMessage([
+      `${approved} approved`,
+      failed > 0 ? `${failed} refused` : '',
+      skipped > 0 ? `${skipped} left for another approver` : ''
+    ].filter(Boolean).join(' • '));
+    setIsApproving(false);
   };
   
   return (
@@ -71,7 +87,10 @@ const DashboardHome: React.FC<DashboardHomeProps> = ({ quotes, onViewChange, onU
               <div className="p-3 bg-emerald-500 rounded-xl text-white"><ShieldCheck size={20} /></div>
               <div>
                  <div className="text-[10px] font-black text-emerald-500 uppercase tracking-widest">Fees Recovered</div>
-                 <div className="text-xl font-black text-white">${totalRecovered.toLocaleString()}</div>
+                 <div className="text-xl font-black text-white">{formatCurrency(totalRecovered, reportingCurrency)}</div>
+                 {recovered.excluded > 0 && (
+                   <div className="text-[9px] font-bold text-zinc-500 uppercase">{recovered.excluded} pending FX conversion</div>
+                 )}
               </div>
            </div>
         </div>
@@ -113,7 +132,7 @@ const DashboardHome: React.FC<DashboardHomeProps> = ({ quotes, onViewChange, onU
                         </div>
                     </div>
                     <div className="text-right">
-                        <div className="text-xl font-black text-red-500 font-mono">${q.markupCost?.toFixed(2)}</div>
+                        <div className="text-xl font-black text-red-500 font-mono">{formatCurrency(q.markupCost, quoteCostCurrency(q))}</div>
                         <div className="text-[10px] font-bold text-zinc-600 uppercase">Hidden Fee</div>
                     </div>
                   </motion.div>
@@ -132,18 +151,26 @@ const DashboardHome: React.FC<DashboardHomeProps> = ({ quotes, onViewChange, onU
               <div className="absolute -right-4 -top-4 text-white opacity-10 group-hover:scale-110 transition-transform duration-700">
                 <CheckCircle size={100} />
               </div>
-              <h4 className="text-2xl font-black tracking-tighter uppercase relative z-10">Dispute Center</h4>
+              <h4 className="text-2xl font-black tracking-tighter uppercase relative z-10">Approval Queue</h4>
               <p className="text-blue-100 text-sm leading-relaxed relative z-10">
-                 You have <span className="font-bold underline underline-offset-4">{pendingReview} audits</span> ready for dispute generation.
+                 <span className="font-bold underline underline-offset-4">{reviewed.length} reviewed audits</span> awaiting approval.
+                 {reviewed.length > approvable.length && (
+                   <span className="block text-blue-200 text-xs mt-1">
+                     {role === 'Controller' || role === 'Manager'
+                       ? `${reviewed.length - approvable.length} uploaded by you need another approver.`
+                       : `Approval needs a Controller or Manager; your role is ${role}.`}
+                   </span>
+                 )}
               </p>
               <button 
                 onClick={handleBatchApprove}
-                disabled={pendingReview === 0 || isApproving}
-                className={`w-full py-4 bg-white text-blue-600 font-black uppercase text-xs tracking-widest rounded-2xl shadow-xl hover:scale-105 transition-all flex items-center justify-center gap-2 relative z-10 ${pendingReview === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+                disabled={approvable.length === 0 || isApproving}
+                className={`w-full py-4 bg-white text-blue-600 font-black uppercase text-xs tracking-widest rounded-2xl shadow-xl hover:scale-105 transition-all flex items-center justify-center gap-2 relative z-10 ${approvable.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
               >
                  {isApproving ? <Loader2 className="animate-spin" size={16} /> : <CheckCircle size={16} />}
-                 {isApproving ? 'Generating...' : 'Batch Dispute'}
+                 {isApproving ? 'Approving...' : `Batch Approve (${approvable.length})`}
               </button>
+              {approvalMessage && <p className="text-xs font-bold text-blue-100 relative z-10">{approvalMessage}</p>}
            </div>
         </motion.div>
       </div>
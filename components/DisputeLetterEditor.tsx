@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Download, Loader2, Sparkles, Save, Send, MessageSquareReply, Banknote, CheckCircle, Circle } from 'lucide-react';
+import { QuoteData, UserProfile, Organization, DisputeLetter, DisputeStage } from '../types';
+import {
+  DISPUTE_TEMPLATES, DISPUTE_STAGES, letterContext, generateDisputeLetter, draftDisputeCase,
+  advanceDisputeCase, nextDisputeStage, disputeStageLabel, DisputeStageDetails, DISPUTE_ROLES
+} from '../services/disputeLetters';
+import { downloadLetter, LetterExportFormat } from '../services/letterExport';
+import { updateDisputeCase } from '../services/firebase';
+import { formatCurrency, quoteCostCurrency } from '../services/currency';
+import { workflowRoleOf } from '../services/workflow';
+
+interface DisputeLetterEditorProps {
+  quote: QuoteData;
+  userProfile: UserProfile;
+  orgProfile?: Organization | null;
+}
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500';
+const buttonClass = 'flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold text-white disabled:opacity-50 transition-colors';
+
+// Fee-driven disputes open on the itemisation query; spread-driven ones on the refund request
+const defaultTemplate = (quote: QuoteData) =>
+  (quote.spreadPercentage || 0) <= (quote.dispute?.targetSpreadPercentage ?? 0.5) && quote.totalFees > 0 ? 'fee_query' : 'refund_request';
+
+/**
+ * Draft, export and track one dispute letter. Drafting is open until the letter is marked sent;
+ * after that only the lifecycle moves forward. Other roles see the case read-only.
+ */
+const DisputeLetterEditor: React.FC<DisputeLetterEditorProps> = ({ quote, userProfile, orgProfile }) => {
+  const disputeCase = quote.disputeCase;
+  const costCurrency = quoteCostCurrency(quote);
+  const [templateId, setTemplateId] = useState(disputeCase?.letter.templateId || defaultTemplate(quote));
+  const [useAI, setUseAI] = useState(false);
+  const [draft, setDraft] = useState<DisputeLetter | null>(disputeCase?.letter || null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'generating' | 'saving' | DisputeStage | null>(null);
+  const [details, setDetails] = useState<{ sentTo: string, bankResponse: string, amountRecovered: string, note: string }>({ sentTo: '', bankResponse: '', amountRecovered: '', note: '' });
+
+  // Another quote, or the stored letter changed under us (the quotes listener)
+  useEffect(() => {
+    setDraft(quote.disputeCase?.letter || null);
+    setTemplateId(quote.disputeCase?.letter.templateId || defaultTemplate(quote));
+    setNotice(null);
+    setError(null);
+  }, [quote.id, quote.disputeCase?.letter.body]);
+
+  const role = workflowRoleOf(userProfile, orgProfile);
+  const mayWork = DISPUTE_ROLES.includes(role);
+  const editable = mayWork && (!disputeCase || disputeCase.stage === 'drafted');
+  const unsaved = !!draft && (draft.subject !== disputeCase?.letter.subject || draft.body !== disputeCase?.letter.body);
+  const next = disputeCase ? nextDisputeStage(disputeCase.stage) : null;
+
+  const generate = async () => {
+    setBusy('generating');
+    setError(null);
+    setNotice(null);
+    const result = await generateDisputeLetter(quote, templateId, letterContext(quote, orgProfile, userProfile), useAI);
+    setDraft(result.letter);
+    setNotice(result.notice || null);
+    setBusy(null);
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    setBusy('saving');
+    const result = await updateDisputeCase(quote.id, current => draftDisputeCase(current, draft, userProfile));
+    setBusy(null);
+    setError(result.success === false ? result.error : null);
+  };
+
+  const advance = async (stage: DisputeStage) => {
+    const stageDetails: DisputeStageDetails = { note: details.note };
+    if (stage === 'sent') stageDetails.sentTo = details.sentTo.trim() || undefined;
+    if (stage === 'bank_responded') stageDetails.bankResponse = details.bankResponse.trim() || undefined;
+    if (stage === 'refund_received') stageDetails.amountRecovered = parseFloat(details.amountRecovered);
+    setBusy(stage);
+    const result = await updateDisputeCase(quote.id, current => {
+      if (!current) throw new Error('Save the letter before moving the dispute on.');
+      return advanceDisputeCase(current, stage, userProfile, stageDetails);
+    });
+    setBusy(null);
+    if (result.success === false) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setDetails({ sentTo: '', bankResponse: '', amountRecovered: '', note: '' });
+  };
+
+  const exportLetter = (format: LetterExportFormat) => {
+    if (draft) downloadLetter(draft, format, `dispute-${quote.bank}-${quote.referenceNumber || quote.id}`);
+  };
+
+  const reached = (stage: DisputeStage) => !!disputeCase && DISPUTE_STAGES.findIndex(s => s.id === stage) <= DISPUTE_STAGES.findIndex(s => s.id === disputeCase.stage);
+
+  return (
+    <div className="space-y-6">
+      {/* Lifecycle */}
+      <div className="grid grid-cols-4 gap-2">
+        {DISPUTE_STAGES.map(stage => {
+          const entry = disputeCase?.history.filter(h => h.stage === stage.id).pop();
+          return (
+            <div key={stage.id} className={`p-3 rounded-xl border ${reached(stage.id) ? 'border-blue-500/30 bg-blue-500/5' : 'border-zinc-800 bg-zinc-900/50'}`}>
+              <div className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest ${reached(stage.id) ? 'text-blue-400' : 'text-zinc-600'}`}>
+                {reached(stage.id) ? <CheckCircle size={12} /> : <Circle size={12} />} {stage.label}
+              </div>
+              <div className="text-[10px] text-zinc-500 font-mono mt-1">{entry ? new Date(entry.at).toLocaleDateString() : '-'}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      {!mayWork && (
+        <div className="text-xs text-zinc-500">Letters are drafted and disputes moved on by the {DISPUTE_ROLES.join(', ')} roles; you are a {role}.</div>
+      )}
+
+      {editable && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {DISPUTE_TEMPLATES.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTemplateId(t.id)}
+                className={`p-3 rounded-xl border text-left transition-colors ${templateId === t.id ? 'border-blue-500 bg-blue-500/10' : 'border-zinc-800 hover:border-zinc-700'}`}
+              >
+                <div className="text-xs font-bold text-white">{t.name}</div>
+                <div className="text-[10px] text-zinc-500">{t.description}</div>
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+              <input type="checkbox" checked={useAI} onChange={(e) => setUseAI(e.target.checked)} className="accent-blue-500" />
+              <Sparkles size={12} className="text-blue-500" /> Polish wording with AI (figures are checked against the template)
+            </label>
+            <button onClick={generate} disabled={!!busy} className={`${buttonClass} bg-zinc-800 hover:bg-zinc-700`}>
+              {busy === 'generating' ? <Loader2 size={14} className="animate-spin" /> : <FileText size={14} />} {draft ? 'Regenerate' : 'Generate Letter'}
+            </button>
+          </div>
+          {notice && <div className="text-xs text-amber-500">{notice}</div>}
+        </div>
+      )}
+
+      {draft && (
+        <div className="space-y-2">
+          <input
+            value={draft.subject}
+            readOnly={!editable}
+            onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+            className={`${inputClass} font-bold`}
+          />
+          <textarea
+            value={draft.body}
+            readOnly={!editable}
+            onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+            rows={18}
+            className={`${inputClass} font-mono leading-relaxed resize-y`}
+          />
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <span className="text-[10px] text-zinc-600 uppercase font-bold">
+              {draft.generatedBy === 'ai' ? 'AI-polished template' : 'Template'} • {DISPUTE_TEMPLATES.find(t => t.id === draft.templateId)?.name}
+              {unsaved && editable && <span className="text-amber-500"> • Unsaved changes</span>}
+            </span>
+            <div className="flex items-center gap-2">
+              <button onClick={() => exportLetter('pdf')} className={`${buttonClass} bg-zinc-800 hover:bg-zinc-700`}><Download size={14} /> PDF</button>
+              <button onClick={() => exportLetter('docx')} className={`${buttonClass} bg-zinc-800 hover:bg-zinc-700`}><Download size={14} /> DOCX</button>
+              {editable && (
+                <button onClick={saveDraft} disabled={!!busy || !unsaved} className={`${buttonClass} bg-blue-600 hover:bg-blue-500`}>
+                  {busy === 'saving' ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save Draft
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Next step */}
+      {mayWork && disputeCase && next && !unsaved && (
+        <div className="p-4 bg-zinc-900 border border-zinc-800 rounded-2xl space-y-3">
+          <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Next: {disputeStageLabel(next)}</h4>
+          {next === 'sent' && (
+            <input value={details.sentTo} onChange={(e) => setDetails({ ...details, sentTo: e.target.value })} placeholder="Sent to (contact, email or channel)" className={inputClass} />
+          )}
+          {next === 'bank_responded' && (
+            <textarea value={details.bankResponse} onChange={(e) => setDetails({ ...details, bankResponse: e.target.value })} placeholder="Summary of the bank's response" rows={3} className={inputClass} />
+          )}
+          {next === 'refund_received' && (
+            <label className="flex items-center gap-2 text-xs text-zinc-400">
+              Amount recovered ({costCurrency})
+              <input type="number" min="0" step="0.01" value={details.amountRecovered} onChange={(e) => setDetails({ ...details, amountRecovered: e.target.value })} className={`${inputClass} w-40 font-mono`} />
+            </label>
+          )}
+          <input value={details.note} onChange={(e) => setDetails({ ...details, note: e.target.value })} placeholder="Note (optional)" className={inputClass} />
+          <button onClick={() => advance(next)} disabled={!!busy} className={`${buttonClass} bg-blue-600 hover:bg-blue-500`}>
+            {busy === next ? <Loader2 size={14} className="animate-spin" /> : next === 'sent' ? <Send size={14} /> : next === 'bank_responded' ? <MessageSquareReply size={14} /> : <Banknote size={14} />}
+            {next === 'sent' ? 'Mark Sent' : next === 'bank_responded' ? 'Record Response' : 'Record Refund'}
+          </button>
+        </div>
+      )}
+
+      {disputeCase?.stage === 'refund_received' && (
+        <div className="p-4 bg-emerald-500/10 border border-emerald-500/20 rounded-2xl text-sm text-emerald-500 font-bold">
+          Recovered {formatCurrency(disputeCase.amountRecovered, costCurrency)} of {formatCurrency(quote.dispute?.potentialSavingsPerTransaction, costCurrency)} claimed
+        </div>
+      )}
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+
+      {disputeCase && (
+        <div className="space-y-2">
+          <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Activity</h4>
+          {[...disputeCase.history].reverse().map((h, i) => (
+            <div key={`${h.at}-${i}`} className="flex items-start justify-between gap-3 text-[11px]">
+              <span className="text-zinc-300">
+                <span className="font-bold">{disputeStageLabel(h.stage)}</span>
+                <span className="text-zinc-600"> • {h.byName || h.by.slice(0, 8)}</span>
+                {h.note && <span className="text-zinc-500"> • {h.note}</span>}
+              </span>
+              <span className="text-zinc-600 font-mono shrink-0">{new Date(h.at).toLocaleString()}</span>
+            </div>
+          ))}
+          {disputeCase.sentTo && <div className="text-[11px] text-zinc-500">Sent to: {disputeCase.sentTo}</div>}
+          {disputeCase.bankResponse && <div className="text-[11px] text-zinc-500 whitespace-pre-wrap">Bank response: {disputeCase.bankResponse}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DisputeLetterEditor;
@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react';
+import { Gavel, Plus, Pencil, Trash2, Save, RotateCcw, Loader2, CheckCircle, AlertCircle, X } from 'lucide-react';
+import { DisputePriority, DisputeRule, DisputeRuleConditions, DisputeRuleSet, Institution } from '../types';
+import { listenToDisputeRules, saveDisputeRules, listenToBankRegistry } from '../services/firebase';
+import { DEFAULT_DISPUTE_RULES, DEFAULT_DISPUTE_RULE_SET, DEFAULT_RULE_CURRENCY, DEFAULT_TARGET_SPREAD, describeConditions, newDisputeRuleId, validateDisputeRule } from '../services/disputeRules';
+import { REPORTING_CURRENCIES } from '../services/currency';
+
+interface DisputeRulesEditorProps {
+  orgId: string;
+  userId: string;
+  isOrgAdmin: boolean;
+}
+
+const PRIORITY_TONES: Record<DisputePriority, string> = {
+  high: 'text-red-500 bg-red-500/10',
+  medium: 'text-amber-500 bg-amber-500/10',
+  low: 'text-zinc-400 bg-zinc-800'
+};
+
+type NumberCondition = 'minSpread' | 'minFees' | 'minTotalCost' | 'minTotalCostPercentage' | 'minAboveLaneAverage' | 'minAmount' | 'maxAmount';
+
+const NUMBER_CONDITIONS: { key: NumberCondition, label: string, money?: boolean }[] = [
+  { key: 'minSpread', label: 'Spread above (%)' },
+  { key: 'minFees', label: 'Fees above', money: true },
+  { key: 'minTotalCost', label: 'Hidden cost above', money: true },
+  { key: 'minTotalCostPercentage', label: 'Hidden cost above (% of principal)' },
+  { key: 'minAboveLaneAverage', label: 'Above pair average by (%)' },
+  { key: 'minAmount', label: 'Amount from', money: true },
+  { key: 'maxAmount', label: 'Amount below', money: true }
+];
+
+const inputClass = 'w-full bg-[#0e121b] border border-zinc-800 rounded-lg px-3 py-2 text-xs text-white outline-none focus:border-blue-500/50';
+const labelClass = 'text-[10px] font-bold text-zinc-500 uppercase tracking-widest';
+
+// Comma-separated list, kept as typed until the field loses focus
+const ListInput: React.FC<{ value?: string[], placeholder: string, onChange: (value?: string[]) => void }> = ({ value, placeholder, onChange }) => {
+  const [text, setText] = useState((value || []).join(', '));
+  useEffect(() => setText((value || []).join(', ')), [value]);
+  const commit = () => {
+    const items = text.split(',').map(s => s.trim()).filter(Boolean);
+    onChange(items.length > 0 ? items : undefined);
+  };
+  return <input value={text} placeholder={placeholder} onChange={(e) => setText(e.target.value)} onBlur={commit} className={inputClass} />;
+};
+
+const RuleForm: React.FC<{ rule: DisputeRule, institutions: Institution[], currency: string, onChange: (rule: DisputeRule) => void, onDone: () => void }> = ({ rule, institutions, currency, onChange, onDone }) => {
+  const setCondition = <K extends keyof DisputeRuleConditions>(key: K, value: DisputeRuleConditions[K]) => {
+    const conditions = { ...rule.conditions, [key]: value };
+    if (value === undefined) delete conditions[key];
+    onChange({ ...rule, conditions });
+  };
+  const banks = rule.conditions.banks || [];
+
+  return (
+    <div className="p-4 bg-zinc-900/50 rounded-xl border border-blue-500/30 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label className={labelClass}>Name</label>
+          <input value={rule.name} onChange={(e) => onChange({ ...rule, name: e.target.value })} className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Priority</label>
+          <select value={rule.priority} onChange={(e) => onChange({ ...rule, priority: e.target.value as DisputePriority })} className={inputClass}>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Target Spread (%)</label>
+          <input type="number" step="0.05" min={0} value={rule.targetSpread} onChange={(e) => onChange({ ...rule, targetSpread: parseFloat(e.target.value) || 0 })} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {NUMBER_CONDITIONS.map(({ key, label, money }) => (
+          <div key={key} className="space-y-1">
+            <label className={labelClass}>{money ? `${label} (${currency})` : label}</label>
+            <input
+              type="number"
+              min={0}
+              value={rule.conditions[key] ?? ''}
+              placeholder="Any"
+              onChange={(e) => setCondition(key, e.target.value.trim() === '' ? undefined : parseFloat(e.target.value))}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label className={labelClass}>Pairs</label>
+          <ListInput value={rule.conditions.pairs} placeholder="Any, e.g. USD/EUR, GBP/USD" onChange={(v) => setCondition('pairs', v?.map(p => p.toUpperCase()))} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Counterparties</label>
+          <ListInput value={rule.conditions.counterparties} placeholder="Any, part of a sender or beneficiary name" onChange={(v) => setCondition('counterparties', v)} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Banks</label>
+          <select
+            value=""
+            onChange={(e) => e.target.value && setCondition('banks', [...banks, e.target.value])}
+            className={inputClass}
+          >
+            <option value="">{banks.length > 0 ? 'Add another bank...' : 'Any bank'}</option>
+            {institutions.filter(i => !banks.includes(i.id)).map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+          </select>
+          {banks.length > 0 && (
+            <div className="flex flex-wrap gap-1 pt-1">
+              {banks.map(key => (
+                <span key={key} className="px-2 py-0.5 bg-zinc-800 rounded text-[10px] text-zinc-300 flex items-center gap-1">
+                  {institutions.find(i => i.id === key)?.name || key}
+                  <button onClick={() => setCondition('banks', banks.length > 1 ? banks.filter(b => b !== key) : undefined)} className="text-zinc-500 hover:text-red-400"><X size={10} /></button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <p className="text-[10px] text-zinc-600 italic">Every condition you set must hold. Money amounts are in {currency}.</p>
+      <button onClick={onDone} className="text-[10px] font-bold uppercase tracking-widest text-blue-400 hover:text-blue-300">Done</button>
+    </div>
+  );
+};
+
+const DisputeRulesEditor: React.FC<DisputeRulesEditorProps> = ({ orgId, userId, isOrgAdmin }) => {
+  const [stored, setStored] = useState<DisputeRuleSet>(DEFAULT_DISPUTE_RULE_SET);
+  const [rules, setRules] = useState<DisputeRule[] | null>(null); // Working copy while editing
+  const [draftCurrency, setDraftCurrency] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [institutions, setInstitutions] = useState<Institution[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [feedback, setFeedback] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+
+  useEffect(() => listenToDisputeRules(orgId, setStored), [orgId]);
+  useEffect(() => listenToBankRegistry(orgId, setInstitutions), [orgId]);
+
+  const shown = rules || stored.rules;
+  const currency = draftCurrency || stored.currency || DEFAULT_RULE_CURRENCY;
+  const problem = rules ? rules.map(validateDisputeRule).find(Boolean) || null : null;
+
+  const change = (next: DisputeRule[]) => {
+    setRules(next);
+    setFeedback(null);
+  };
+
+  const changeCurrency = (next: string) => {
+    setDraftCurrency(next);
+    if (!rules) setRules(stored.rules);
+    setFeedback(null);
+  };
+
+  const updateRule = (rule: DisputeRule) => change(shown.map(r => (r.id === rule.id ? rule : r)));
+
+  const addRule = () => {
+    const rule: DisputeRule = { id: newDisputeRuleId(), name: 'New rule', enabled: true, priority: 'medium', targetSpread: DEFAULT_TARGET_SPREAD, conditions: { minSpread: 1 } };
+    change([...shown, rule]);
+    setEditingId(rule.id);
+  };
+
+  const handleSave = async () => {
+    if (!rules) return;
+    if (problem) {
+      setFeedback({ type: 'error', msg: problem });
+      return;
+    }
+    setIsSaving(true);
+    const result = await saveDisputeRules(orgId, userId, rules, currency);
+    setIsSaving(false);
+    if (result.success) {
+      setRules(null);
+      setDraftCurrency(null);
+      setEditingId(null);
+      setFeedback({ type: 'success', msg: 'Rules saved. New and re-priced quotes use them.' });
+    } else {
+      setFeedback({ type: 'error', msg: result.error || 'Save failed.' });
+    }
+  };
+
+  return (
+    <section className="bg-[#121826]/40 border border-zinc-800/50 rounded-2xl p-6 space-y-6">
+      <div className="flex items-center gap-3 border-b border-zinc-800/50 pb-4">
+        <Gavel size={20} className="text-red-500" />
+        <h3 className="text-lg font-bold text-white">Dispute Rules</h3>
+      </div>
+
+      <p className="text-xs text-zinc-500 leading-relaxed">
+        A quote is flagged for dispute when any enabled rule fires. It takes the highest priority among the rules that
+        fired and negotiates towards the lowest target spread at that priority. Each quote keeps the list of rules that
+        fired when it was priced.
+      </p>
+
+      <div className="flex items-center gap-3">
+        <label className={labelClass}>Threshold Currency</label>
+        {isOrgAdmin ? (
+          <select value={currency} onChange={(e) => changeCurrency(e.target.value)} className="bg-[#0e121b] border border-zinc-800 rounded-lg px-3 py-2 text-xs text-white outline-none focus:border-blue-500/50">
+            {REPORTING_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        ) : (
+          <span className="text-xs font-mono text-zinc-300">{currency}</span>
+        )}
+        <span className="text-[10px] text-zinc-600 italic">Quotes are converted into it; rules with amounts are skipped when there is no rate.</span>
+      </div>
+
+      <div className="space-y-2">
+        {shown.map(rule => editingId === rule.id && rules ? (
+          <RuleForm key={rule.id} rule={rule} institutions={institutions} currency={currency} onChange={updateRule} onDone={() => setEditingId(null)} />
+        ) : (
+          <div key={rule.id} className={`flex items-center justify-between gap-3 p-3 rounded-xl border border-zinc-800 ${rule.enabled ? 'bg-zinc-900/50' : 'bg-zinc-900/20 opacity-60'}`}>
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${PRIORITY_TONES[rule.priority]}`}>{rule.priority}</span>
+                <span className="text-sm font-bold text-white truncate">{rule.name}</span>
+                <span className="text-[10px] font-mono text-zinc-500">target {rule.targetSpread}%</span>
+              </div>
+              <p className="text-xs text-zinc-500 truncate">{describeConditions(rule.conditions, institutions, currency).join(' · ') || 'No conditions'}</p>
+            </div>
+            {isOrgAdmin && (
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => updateRule({ ...rule, enabled: !rule.enabled })}
+                  className={`w-10 h-5 rounded-full transition-all relative ${rule.enabled ? 'bg-blue-600' : 'bg-zinc-700'}`}
+                >
+                  <div className={`absolute top-0.5 w-4 h-4 bg-white rounded-full transition-all ${rule.enabled ? 'left-5' : 'left-0.5'}`} />
+                </button>
+                <button onClick={() => { if (!rules) setRules(stored.rules); setEditingId(rule.id); }} className="text-zinc-500 hover:text-white"><Pencil size={14} /></button>
+                <button onClick={() => change(shown.filter(r => r.id !== rule.id))} className="text-zinc-500 hover:text-red-400"><Trash2 size={14} /></button>
+              </div>
+            )}
+          </div>
+        ))}
+        {shown.length === 0 && <p className="text-xs text-zinc-600 italic">No rules: nothing will be flagged for dispute.</p>}
+      </div>
+
+      {isOrgAdmin && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={addRule} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-xs font-bold rounded-lg transition-colors text-zinc-300 flex items-center gap-2">
+            <Plus size={14} /> Add Rule
+          </button>
+          <button onClick={() => { change(DEFAULT_DISPUTE_RULES); setDraftCurrency(DEFAULT_RULE_CURRENCY); setEditingId(null); }} className="px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-xs font-bold rounded-lg transition-colors text-zinc-300 flex items-center gap-2">
+            <RotateCcw size={14} /> Reset to Defaults
+          </button>
+          {rules && (
+            <>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !!problem}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-xs font-black uppercase tracking-widest rounded-lg flex items-center gap-2"
+              >
+                {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save Rules
+              </button>
+              <button onClick={() => { setRules(null); setDraftCurrency(null); setEditingId(null); setFeedback(null); }} disabled={isSaving} className="px-4 py-2 text-xs font-bold text-zinc-500 hover:text-zinc-300">
+                Discard
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {problem && (
+        <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-amber-500">
+          <AlertCircle size={12} /> {problem}
+        </div>
+      )}
+
+      {feedback && (
+        <div className={`flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest ${feedback.type === 'success' ? 'text-emerald-500' : 'text-red-500'}`}>
+          {feedback.type === 'success' ? <CheckCircle size={12} /> : <AlertCircle size={12} />}
+          {feedback.msg}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DisputeRulesEditor;
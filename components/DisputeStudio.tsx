@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { Gavel, AlertTriangle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { QuoteData, UserProfile, Organization, DisputeStage } from '../types';
+import { DISPUTE_STAGES, disputeStageLabel } from '../services/disputeLetters';
+import { formatCurrency, quoteCostCurrency, sumInCurrency } from '../services/currency';
+import DisputeLetterEditor from './DisputeLetterEditor';
+
+interface DisputeStudioProps {
+  quotes: QuoteData[]; // As stored, so letters quote the bank's own currency
+  reportingQuotes: QuoteData[]; // For the totals
+  reportingCurrency: string;
+  userProfile: UserProfile;
+  orgProfile: Organization | null;
+}
+
+type StageFilter = 'all' | 'recommended' | DisputeStage;
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  visible: { opacity: 1, transition: { staggerChildren: 0.1 } }
+};
+
+const itemVariants = {
+  hidden: { y: 20, opacity: 0 },
+  visible: { y: 0, opacity: 1 }
+};
+
+const PRIORITY_TONES: Record<string, string> = {
+  high: 'text-red-500 bg-red-500/10',
+  medium: 'text-amber-500 bg-amber-500/10',
+  low: 'text-zinc-400 bg-zinc-800'
+};
+
+/**
+ * Every quote worth disputing, with its letter and where the claim stands
+ */
+const DisputeStudio: React.FC<DisputeStudioProps> = ({ quotes, reportingQuotes, reportingCurrency, userProfile, orgProfile }) => {
+  const [filter, setFilter] = useState<StageFilter>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Recommended disputes, plus any quote someone has already started a letter for
+  const disputable = useMemo(() => quotes
+    .filter(q => q.dispute?.recommended || q.disputeCase)
+    .sort((a, b) => (b.dispute?.potentialSavingsPerTransaction || 0) - (a.dispute?.potentialSavingsPerTransaction || 0)),
+  [quotes]);
+
+  const visible = disputable.filter(q => filter === 'all'
+    || (filter === 'recommended' ? !q.disputeCase : q.disputeCase?.stage === filter));
+  const selected = disputable.find(q => q.id === selectedId) || visible[0] || null;
+
+  const reportingDisputes = reportingQuotes.filter(q => q.disputeCase);
+  const claimed = sumInCurrency(reportingDisputes.filter(q => q.disputeCase!.stage !== 'drafted'), reportingCurrency, q => q.dispute?.potentialSavingsPerTransaction);
+  const recovered = sumInCurrency(reportingDisputes, reportingCurrency, q => q.disputeCase?.amountRecovered);
+  const open = disputable.filter(q => q.disputeCase && q.disputeCase.stage !== 'refund_received').length;
+
+  const count = (f: StageFilter) => disputable.filter(q => f === 'all' || (f === 'recommended' ? !q.disputeCase : q.disputeCase?.stage === f)).length;
+  const filters: { id: StageFilter, label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'recommended', label: 'Not Started' },
+    ...DISPUTE_STAGES.map(s => ({ id: s.id, label: s.label }))
+  ];
+
+  return (
+    <motion.div className="space-y-8" variants={containerVariants} initial="hidden" animate="visible">
+      <div>
+        <h2 className="text-3xl font-bold text-white mb-2 flex items-center gap-3"><Gavel size={26} className="text-blue-500" /> Dispute Studio</h2>
+        <p className="text-zinc-500">Letters to your banks built from each audit's own figures, and every claim tracked to the refund.</p>
+      </div>
+
+      <motion.div variants={itemVariants} className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'To Dispute', value: String(count('recommended')) },
+          { label: 'Open Claims', value: String(open) },
+          { label: 'Claimed', value: formatCurrency(claimed.total, reportingCurrency) },
+          { label: 'Recovered', value: formatCurrency(recovered.total, reportingCurrency) }
+        ].map(stat => (
+          <div key={stat.label} className="p-5 bg-zinc-900 border border-zinc-800 rounded-2xl">
+            <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{stat.label}</div>
+            <div className="text-xl font-black text-white font-mono mt-1">{stat.value}</div>
+          </div>
+        ))}
+      </motion.div>
+      {(claimed.excluded > 0 || recovered.excluded > 0) && (
+        <div className="text-[10px] font-bold text-zinc-500 uppercase">{Math.max(claimed.excluded, recovered.excluded)} disputes pending FX conversion are not in the totals</div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {filters.map(f => (
+          <button
+            key={f.id}
+            onClick={() => setFilter(f.id)}
+            className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${filter === f.id ? 'bg-blue-600 text-white' : 'bg-zinc-900 text-zinc-500 hover:text-white'}`}
+          >
+            {f.label} ({count(f.id)})
+          </button>
+        ))}
+      </div>
+
+      {disputable.length === 0 ? (
+        <div className="p-16 text-center border border-dashed border-zinc-800 rounded-[2rem] text-zinc-500 text-sm">
+          No audits are flagged for dispute yet. Quotes with an excessive spread or fees will appear here.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          <motion.div variants={itemVariants} className="lg:col-span-4 space-y-2 max-h-[70vh] overflow-y-auto custom-scrollbar pr-1">
+            {visible.length === 0 && <div className="text-xs text-zinc-600 p-4">Nothing at this stage.</div>}
+            {visible.map(q => (
+              <button
+                key={q.id}
+                onClick={() => setSelectedId(q.id)}
+                className={`w-full p-4 rounded-2xl border text-left transition-colors ${selected?.id === q.id ? 'border-blue-500 bg-blue-500/5' : 'border-zinc-800 bg-zinc-900/50 hover:border-zinc-700'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-bold text-white truncate">{q.bank}</span>
+                  {q.dispute?.recommended && (
+                    <span className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${PRIORITY_TONES[q.dispute.priority] || PRIORITY_TONES.low}`}>{q.dispute.priority}</span>
+                  )}
+                </div>
+                <div className="text-[11px] text-zinc-500 font-mono">{q.pair} • {q.valueDate} • {q.spreadPercentage?.toFixed(2)}%</div>
+                <div className="flex items-center justify-between mt-2 text-[10px] font-bold uppercase">
+                  <span className={q.disputeCase ? 'text-blue-400' : 'text-zinc-600'}>{disputeStageLabel(q.disputeCase?.stage)}</span>
+                  <span className="text-emerald-500 font-mono">
+                    {q.disputeCase?.amountRecovered
+                      ? `${formatCurrency(q.disputeCase.amountRecovered, quoteCostCurrency(q))} recovered`
+                      : `${formatCurrency(q.dispute?.potentialSavingsPerTransaction, quoteCostCurrency(q))} at stake`}
+                  </span>
+                </div>
+              </button>
+            ))}
+          </motion.div>
+
+          <motion.div variants={itemVariants} className="lg:col-span-8 p-6 bg-[#121826]/40 border border-zinc-800 rounded-[2rem]">
+            {selected ? (
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-xl font-black text-white">{selected.bank} • {selected.referenceNumber || selected.pair}</h3>
+                  {selected.dispute?.reason && (
+                    <p className="text-xs text-zinc-500 flex items-start gap-2 mt-1"><AlertTriangle size={12} className="text-amber-500 mt-0.5 shrink-0" /> {selected.dispute.reason}</p>
+                  )}
+                </div>
+                <DisputeLetterEditor quote={selected} userProfile={userProfile} orgProfile={orgProfile} />
+              </div>
+            ) : (
+              <div className="text-sm text-zinc-500">Select an audit to draft its letter.</div>
+            )}
+          </motion.div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default DisputeStudio;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { X, Download, FileText, Fingerprint } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { QuoteData } from '../types';
+import { sourceDocumentOf } from '../services/documentStorage';
+
+interface DocumentViewerProps {
+  quote: QuoteData;
+  onClose: () => void;
+}
+
+const Field: React.FC<{ label: string, value?: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between gap-4 py-2 border-b border-zinc-800/50 text-xs">
+    <span className="text-zinc-500 shrink-0">{label}</span>
+    <span className="text-white font-mono text-right break-all">{value !== undefined && value !== null && value !== '' ? value : '-'}</span>
+  </div>
+);
+
+/**
+ * The original confirmation beside what was extracted from it, for reviewers checking the numbers
+ */
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ quote, onClose }) => {
+  const source = sourceDocumentOf(quote);
+  const soldCurrency = quote.originalCurrency || quote.pair?.split('/')[0];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.97 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[#121826] border border-zinc-800 rounded-3xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div className="flex items-center gap-3 min-w-0">
+            <FileText size={18} className="text-blue-500 shrink-0" />
+            <span className="text-sm font-bold text-white truncate">{quote.fileName || `${quote.bank} confirmation`}</span>
+            {quote.contentHash && (
+              <span className="flex items-center gap-1 text-[10px] font-mono text-zinc-500" title={quote.contentHash}>
+                <Fingerprint size={12} /> SHA-256 {quote.contentHash.slice(0, 12)}…
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            {source && (
+              <a
+                href={source.url}
+                download={quote.fileName || true}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-colors"
+              >
+                <Download size={14} /> Original
+              </a>
+            )}
+            <button onClick={onClose} className="p-1 text-zinc-500 hover:text-white transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 lg:grid-cols-5 min-h-0">
+          {/* Original */}
+          <div className="lg:col-span-3 bg-zinc-950 min-h-0 flex items-center justify-center">
+            {!source ? (
+              <div className="text-center text-zinc-600 text-sm p-10">No source document was kept for this quote.</div>
+            ) : source.mimeType.startsWith('image/') ? (
+              <img src={source.url} alt="Source document" className="max-w-full max-h-full object-contain" />
+            ) : (
+              <iframe src={source.url} title="Source document" className="w-full h-full bg-white" />
+            )}
+          </div>
+
+          {/* Extracted fields */}
+          <div className="lg:col-span-2 overflow-y-auto custom-scrollbar p-6 space-y-6">
+            <div>
+              <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2">Parties</h4>
+              <Field label="Bank" value={quote.bank} />
+              <Field label="Reference" value={quote.referenceNumber} />
+              <Field label="Sender" value={quote.senderName} />
+              <Field label="Beneficiary" value={quote.recipientName} />
+            </div>
+            <div>
+              <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2">Transaction</h4>
+              <Field label="Value Date" value={quote.valueDate} />
+              <Field label="Executed" value={quote.executionTimestamp ? `${new Date(quote.executionTimestamp).toISOString().replace('T', ' ').slice(0, 19)} UTC` : undefined} />
+              <Field label="Sold" value={`${quote.amount?.toLocaleString()} ${soldCurrency || ''}`} />
+              <Field label="Bought" value={quote.convertedAmount !== undefined ? `${quote.convertedAmount.toLocaleString()} ${quote.convertedCurrency || ''}` : undefined} />
+              <Field label="Pair" value={quote.pair} />
+              <Field label="Bank Rate" value={quote.exchangeRate} />
+            </div>
+            <div>
+              <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2">Fees As Charged</h4>
+              {(quote.fees || []).length === 0 ? (
+                <div className="text-xs text-zinc-600">No fees extracted.</div>
+              ) : (
+                quote.fees.map((fee, i) => (
+                  <Field key={i} label={fee.type} value={`${fee.amount.toLocaleString()} ${fee.currency}${fee.chargeBearer ? ` • ${fee.chargeBearer}` : ''}`} />
+                ))
+              )}
+            </div>
+            {(quote.fileSize || quote.storagePath) && (
+              <div>
+                <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2">Stored File</h4>
+                <Field label="Type" value={quote.fileType} />
+                <Field label="Size" value={quote.fileSize ? `${(quote.fileSize / 1024).toFixed(1)} KB` : undefined} />
+                <Field label="Path" value={quote.storagePath} />
+              </div>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default DocumentViewer;
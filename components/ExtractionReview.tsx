@@ -0,0 +1,232 @@
+import React, { useMemo, useState } from 'react';
+import { X, Loader2, CheckCircle, AlertTriangle, RefreshCw, Plus, Trash2, ShieldCheck } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { QuoteData, ExtractionField } from '../types';
+import { PricingContext } from '../services/calculations';
+import { sourceDocumentOf } from '../services/documentStorage';
+import { draftFromExtraction, extractionOfQuote, ExtractionDraft, EXTRACTION_FIELD_LABELS, LOW_CONFIDENCE, REVIEW_THRESHOLD } from '../services/extractionQuality';
+import { reanalyzeReviewedQuote } from '../services/pipeline';
+import { saveExtractionReview } from '../services/firebase';
+import { formatCurrency } from '../services/currency';
+
+interface ExtractionReviewProps {
+  quote: QuoteData;
+  userId: string;
+  orgId: string;
+  reportingCurrency?: string;
+  pricing?: PricingContext;
+  onClose: () => void;
+}
+
+type Reanalysis = Awaited<ReturnType<typeof reanalyzeReviewedQuote>>;
+
+const FORM_SECTIONS: { title: string, fields: Exclude<ExtractionField, 'fees'>[] }[] = [
+  { title: 'Transaction', fields: ['original_amount', 'original_currency', 'converted_amount', 'converted_currency', 'exchange_rate_bank', 'currency_pair', 'value_date', 'execution_time'] },
+  { title: 'Parties', fields: ['bank_name', 'transaction_reference', 'sender_name', 'beneficiary_name'] }
+];
+
+const ConfidenceBadge: React.FC<{ score?: number }> = ({ score }) => {
+  if (score === undefined) return null;
+  const tone = score >= 0.85 ? 'text-emerald-500 bg-emerald-500/10' : score >= LOW_CONFIDENCE ? 'text-amber-500 bg-amber-500/10' : 'text-red-500 bg-red-500/10';
+  return <span className={`px-1.5 py-0.5 rounded text-[9px] font-black font-mono ${tone}`}>{Math.round(score * 100)}%</span>;
+};
+
+const inputClass = 'w-full bg-zinc-950 border rounded-lg px-3 py-2 text-xs text-white font-mono focus:outline-none focus:border-blue-500';
+
+/**
+ * Correct a doubtful extraction against the original, re-price it, then approve it into the ledger
+ */
+const ExtractionReview: React.FC<ExtractionReviewProps> = ({ quote, userId, orgId, reportingCurrency, pricing, onClose }) => {
+  const source = sourceDocumentOf(quote);
+  const initial = useMemo(() => draftFromExtraction(extractionOfQuote(quote)), [quote]);
+  const [draft, setDraft] = useState<ExtractionDraft>(initial);
+  const [preview, setPreview] = useState<Reanalysis | null>(null);
+  const [busy, setBusy] = useState<'recalculating' | 'saving' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const confidence = preview?.quote.fieldConfidence || quote.fieldConfidence || {};
+  const checks = preview?.quote.consistencyChecks || quote.consistencyChecks || [];
+  const score = preview?.quote.reliabilityScore ?? quote.reliabilityScore;
+
+  const edit = (change: (d: ExtractionDraft) => ExtractionDraft) => {
+    setDraft(d => change(d));
+    setPreview(null); // Stale once anything changes
+  };
+
+  const setField = (field: keyof ExtractionDraft['fields'], value: string) => edit(d => ({ ...d, fields: { ...d.fields, [field]: value } }));
+  const setFee = (index: number, key: keyof ExtractionDraft['fees'][number], value: string) => edit(d => ({ ...d, fees: d.fees.map((f, i) => i === index ? { ...f, [key]: value } : f) }));
+
+  const recalculate = async (): Promise<Reanalysis | null> => {
+    setBusy('recalculating');
+    setError(null);
+    try {
+      const result = await reanalyzeReviewedQuote(quote, draft, reportingCurrency, undefined, pricing);
+      setPreview(result);
+      return result;
+    } catch (e: any) {
+      setError(e.message || 'Recalculation failed');
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const approve = async () => {
+    const result = preview || await recalculate();
+    if (!result) return;
+    setBusy('saving');
+    const saved = await saveExtractionReview(quote.id, userId, orgId, result.quote, result.extraction, result.corrections);
+    setBusy(null);
+    if (saved.success === false) {
+      setError(saved.error || 'Could not save the review');
+      return;
+    }
+    onClose(); // The quotes listener picks up the saved review
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.97 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[#121826] border border-zinc-800 rounded-3xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div className="flex items-center gap-3">
+            <ShieldCheck size={18} className="text-blue-500" />
+            <span className="text-sm font-bold text-white">Review Extraction • {quote.bank}</span>
+            <span className={`text-[10px] font-black font-mono ${score >= REVIEW_THRESHOLD ? 'text-emerald-500' : 'text-amber-500'}`}>Reliability {score}/100</span>
+          </div>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 min-h-0">
+          {/* Original */}
+          <div className="bg-zinc-950 min-h-0 flex items-center justify-center">
+            {!source ? (
+              <div className="text-center text-zinc-600 text-sm p-10">No source document was kept for this quote.</div>
+            ) : source.mimeType.startsWith('image/') ? (
+              <img src={source.url} alt="Source document" className="max-w-full max-h-full object-contain" />
+            ) : (
+              <iframe src={source.url} title="Source document" className="w-full h-full bg-white" />
+            )}
+          </div>
+
+          {/* Fields */}
+          <div className="overflow-y-auto custom-scrollbar p-6 space-y-6">
+            {checks.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2">Consistency Checks</h4>
+                {checks.map(c => (
+                  <div key={c.id} className="flex items-start gap-2 text-xs">
+                    {c.status === 'pass' && <CheckCircle size={12} className="text-emerald-500 mt-0.5 shrink-0" />}
+                    {c.status === 'fail' && <AlertTriangle size={12} className="text-red-500 mt-0.5 shrink-0" />}
+                    {c.status === 'skipped' && <span className="w-3 h-3 mt-0.5 shrink-0 rounded-full border border-zinc-700" />}
+                    <span className={c.status === 'fail' ? 'text-red-400' : 'text-zinc-400'}>{c.label}</span>
+                    <span className="text-zinc-600 ml-auto text-right">{c.detail}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {FORM_SECTIONS.map(section => (
+              <div key={section.title}>
+                <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2">{section.title}</h4>
+                <div className="grid grid-cols-2 gap-3">
+                  {section.fields.map(field => {
+                    const low = (confidence[field] ?? 1) < LOW_CONFIDENCE;
+                    const changed = draft.fields[field] !== initial.fields[field];
+                    return (
+                      <label key={field} className="space-y-1">
+                        <span className="flex items-center justify-between text-[10px] font-bold text-zinc-500 uppercase">
+                          {EXTRACTION_FIELD_LABELS[field]} <ConfidenceBadge score={changed ? 1 : confidence[field]} />
+                        </span>
+                        <input
+                          value={draft.fields[field]}
+                          onChange={(e) => setField(field, e.target.value)}
+                          className={`${inputClass} ${changed ? 'border-blue-500/60' : low ? 'border-red-500/60' : 'border-zinc-800'}`}
+                        />
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
+            <div>
+              <h4 className="flex items-center justify-between text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2">
+                <span className="flex items-center gap-2">Fees <ConfidenceBadge score={confidence.fees} /></span>
+                <button
+                  onClick={() => edit(d => ({ ...d, fees: [...d.fees, { name: '', amount: '', currency: d.fields.original_currency }] }))}
+                  className="flex items-center gap-1 text-zinc-500 hover:text-white transition-colors"
+                >
+                  <Plus size={12} /> Add
+                </button>
+              </h4>
+              <div className="space-y-2">
+                {draft.fees.map((fee, i) => (
+                  <div key={i} className="grid grid-cols-[1fr_7rem_4rem_1.5rem] gap-2 items-center">
+                    <input value={fee.name} placeholder="Fee" onChange={(e) => setFee(i, 'name', e.target.value)} className={`${inputClass} border-zinc-800`} />
+                    <input value={fee.amount} placeholder="0.00" onChange={(e) => setFee(i, 'amount', e.target.value)} className={`${inputClass} border-zinc-800 text-right`} />
+                    <input value={fee.currency} placeholder="CCY" onChange={(e) => setFee(i, 'currency', e.target.value)} className={`${inputClass} border-zinc-800`} />
+                    <button onClick={() => edit(d => ({ ...d, fees: d.fees.filter((_, j) => j !== i) }))} className="text-zinc-600 hover:text-red-500 transition-colors">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+                <label className="grid grid-cols-[1fr_7rem_4rem_1.5rem] gap-2 items-center">
+                  <span className="text-[10px] font-bold text-zinc-500 uppercase text-right">Printed Total</span>
+                  <input value={draft.totalFees} placeholder="-" onChange={(e) => edit(d => ({ ...d, totalFees: e.target.value }))} className={`${inputClass} border-zinc-800 text-right`} />
+                </label>
+              </div>
+            </div>
+
+            {preview && (
+              <div className="p-4 bg-blue-500/5 border border-blue-500/20 rounded-2xl grid grid-cols-3 gap-4 text-xs">
+                <div>
+                  <div className="text-[10px] font-bold text-zinc-500 uppercase">Hidden Cost</div>
+                  <div className="text-white font-mono font-bold">{formatCurrency(preview.quote.totalHiddenCost || 0, preview.quote.reportingCurrency)}</div>
+                  <div className="text-zinc-600 font-mono">was {formatCurrency(quote.totalHiddenCost, quote.reportingCurrency)}</div>
+                </div>
+                <div>
+                  <div className="text-[10px] font-bold text-zinc-500 uppercase">Spread</div>
+                  <div className="text-white font-mono font-bold">{preview.quote.spreadPercentage?.toFixed(3)}%</div>
+                  <div className="text-zinc-600 font-mono">was {quote.spreadPercentage?.toFixed(3)}%</div>
+                </div>
+                <div>
+                  <div className="text-[10px] font-bold text-zinc-500 uppercase">Corrections</div>
+                  <div className="text-white font-mono font-bold">{preview.corrections.length}</div>
+                  <div className="text-zinc-600 font-mono truncate">{preview.corrections.map(c => c.field).join(', ') || 'Confirmed as read'}</div>
+                </div>
+              </div>
+            )}
+
+            {error && <div className="text-xs text-red-500">{error}</div>}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-zinc-800">
+          <button
+            onClick={recalculate}
+            disabled={!!busy}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-xs font-bold text-white disabled:opacity-50 transition-colors"
+          >
+            {busy === 'recalculating' ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />} Recalculate
+          </button>
+          <button
+            onClick={approve}
+            disabled={!!busy}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-xs font-bold text-white disabled:opacity-50 transition-colors"
+          >
+            {busy === 'saving' ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle size={14} />} Approve & Mark Analyzed
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ExtractionReview;
@@ -1,21 +1,25 @@
 
 import React, { useState, useRef, useMemo } from 'react';
-import { FileText, Loader2, AlertTriangle, X, Upload, ScanLine, Cpu } from 'lucide-react';
+import { FileText, Loader2, AlertTriangle, X, Upload, ScanLine, Cpu, FileCode, CheckCircle, Table, RotateCcw, Copy, SkipForward, Replace } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { extractQuoteData, getHistoricExchangeRate } from '../services/gemini';
-import { saveQuoteToFirestore } from '../services/firebase';
-import { calculateAllCosts } from '../services/calculations';
+import { processQuoteDocument, processExtraction } from '../services/pipeline';
+import { parseIso20022 } from '../services/iso20022';
+import { createUploadQueue, expandUploadFiles, bytesToBase64, UploadQueue, UploadQueueItem, UPLOAD_STEPS, MAX_CONCURRENT_UPLOADS } from '../services/uploadQueue';
+import { storeSourceDocument } from '../services/documentStorage';
+import { DuplicateDecision, DuplicateMatch } from '../services/duplicates';
+import { formatCurrency, quoteCostCurrency } from '../services/currency';
 import { QuoteData, UserProfile, Organization } from '../types';
+import { PricingContext } from '../services/calculations';
 import QuoteAnalysis from './QuoteAnalysis';
+import BulkImport from './BulkImport';
 
 interface IntelligenceFeedProps {
   quotes: QuoteData[];
+  pricing?: PricingContext; // Org benchmarks and dispute rules, for pricing new quotes
   onAddQuote: (quote: QuoteData) => void;
-  onUpdateQuote: (quote: QuoteData) => void;
   userProfile: UserProfile | null;
   orgProfile?: Organization | null;
   isEnterprise: boolean;
-  onProfileUpdate?: (updates: Partial<UserProfile>) => void;
 }
 
 const containerVariants = {
@@ -37,194 +41,198 @@ const itemVariants = {
   }
 };
 
-const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ quotes = [], onAddQuote, onUpdateQuote, userProfile, orgProfile, isEnterprise, onProfileUpdate }) => {
+// Uploader's choices when a document matches one already in the ledger
+const DUPLICATE_ACTIONS: { decision: DuplicateDecision, label: string, icon: React.ReactNode, hint: string }[] = [
+  { decision: 'skip', label: 'Skip', icon: <SkipForward size={12} />, hint: 'Discard this upload; no credit is used' },
+  { decision: 'replace', label: 'Replace', icon: <Replace size={12} />, hint: 'Overwrite the existing quote with this document' },
+  { decision: 'keep_both', label: 'Keep Both', icon: <Copy size={12} />, hint: 'Save as a separate quote, flagged as a possible duplicate' }
+];
+
+const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ quotes = [], pricing, onAddQuote, userProfile, orgProfile, isEnterprise }) => {
   const [isUploading, setIsUploading] = useState(false);
   const [statusText, setStatusText] = useState('Initializing Node...');
   const [activeQuoteId, setActiveQuoteId] = useState<string | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [importNote, setImportNote] = useState<string | null>(null);
+  // An ISO 20022 transaction waiting on the importer's skip/replace/keep-both choice
+  const [xmlDuplicate, setXmlDuplicate] = useState<{ label: string, matches: DuplicateMatch[], decide: (decision: DuplicateDecision) => void } | null>(null);
+  const [showBulkImport, setShowBulkImport] = useState(false);
+  const [uploads, setUploads] = useState<UploadQueueItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const xmlInputRef = useRef<HTMLInputElement>(null);
 
   const activeQuote = useMemo(() => quotes?.find(q => q.id === activeQuoteId), [quotes, activeQuoteId]);
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // --- UPLOAD QUEUE ---
+  // Latest props for the queue's process callback, which outlives any single render
+  const contextRef = useRef({ userProfile, orgProfile, quotes, pricing });
+  contextRef.current = { userProfile, orgProfile, quotes, pricing };
+  // Quotes saved by this queue, so duplicates within one batch are caught before the listener catches up
+  const savedRef = useRef<QuoteData[]>([]);
+  const knownQuotes = () => {
+    const known = contextRef.current.quotes || [];
+    return [...known, ...savedRef.current.filter(s => !known.some(q => q.id === s.id))];
+  };
+  const rememberSaved = (saved: QuoteData) => {
+    savedRef.current = [...savedRef.current.filter(q => q.id !== saved.id), saved];
+  };
+
+  const queueRef = useRef<UploadQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createUploadQueue({
+      onChange: setUploads,
+      process: async (document, onStep, askDuplicate) => {
+        const { userProfile: user, orgProfile: org, pricing: orgPricing } = contextRef.current;
+        if (!user?.uid) throw new Error("Please log in to upload documents.");
+        const saveResult = await processQuoteDocument(
+          {
+            base64: document.base64,
+            mimeType: document.mimeType,
+            userId: user.uid,
+            orgId: user.orgId || 'personal_workspace',
+            reportingCurrency: org?.reportingCurrency,
+            extractionProvider: org?.extractionProvider,
+            pricing: orgPricing,
+            fileName: document.fileName,
+            duplicateCheck: { existingQuotes: knownQuotes, resolve: askDuplicate }
+          },
+          onStep
+        );
+        if (saveResult.skipped) return saveResult;
 
-    // Reset UI State
+        // Credit deduction happens in saveQuoteToFirestore against the Organization document; a replace costs none
+        rememberSaved(saveResult as unknown as QuoteData);
+        if (saveResult.duplicateDecision !== 'replace') onAddQuote(saveResult as unknown as QuoteData);
+        return saveResult;
+      }
+    });
+  }
+
+  const enqueueFiles = async (files: File[]) => {
+    if (files.length === 0) return;
     setErrorMsg(null);
-    setStatusText("Establishing Secure Handshake...");
-    
-    if (file.size > 5000000) { 
-      setErrorMsg("File Size Exceeded. Must be under 5MB.");
-      if (fileInputRef.current) fileInputRef.current.value = '';
-      return;
-    }
+    setImportNote(null);
 
     if (!userProfile || !userProfile.uid) {
       setErrorMsg("Please log in to upload documents.");
-      if (fileInputRef.current) fileInputRef.current.value = '';
+      return;
+    }
+
+    const { documents, rejected } = await expandUploadFiles(files);
+    if (documents.length === 0) {
+      setErrorMsg(rejected.length > 0 ? `${rejected[0].fileName}: ${rejected[0].reason}` : "No documents found.");
       return;
     }
 
     // CHECK ORGANIZATION CREDITS
-    // The credits are shared across the organization (admin + members)
-    if (!isEnterprise && (orgProfile?.credits ?? 0) <= 0) {
-        setErrorMsg("Organization credits exhausted. Please upgrade to continue.");
-        if (fileInputRef.current) fileInputRef.current.value = '';
-        return;
+    // The credits are shared across the organization (admin + members); queued items will each use one
+    const available = isEnterprise ? Infinity : Math.max(0, (orgProfile?.credits ?? 0) - queueRef.current!.pending());
+    if (available <= 0) {
+      setErrorMsg("Organization credits exhausted. Please upgrade to continue.");
+      return;
     }
-    
-    const currentUid = userProfile.uid;
-    const currentOrgId = userProfile.orgId || 'personal_workspace'; 
+    const accepted = documents.slice(0, available);
+    queueRef.current!.add(accepted);
 
-    setIsUploading(true);
+    const skipped = documents.length - accepted.length;
+    if (skipped > 0) setErrorMsg(`${skipped} files not queued: not enough credits.`);
+    else if (rejected.length > 0) setErrorMsg(`${rejected.length} skipped (${rejected.map(r => r.fileName).slice(0, 3).join(', ')}${rejected.length > 3 ? '...' : ''}).`);
+  };
 
-    // --- ARTIFICIAL DELAY (5 Seconds) ---
-    try {
-        const delaySteps = [
-            { text: "Verifying Org Credentials...", ms: 1500 },
-            { text: "Securing Data Pipeline...", ms: 1500 },
-            { text: "Allocating Neural Workers...", ms: 2000 }
-        ];
-
-        for (const step of delaySteps) {
-            setStatusText(step.text);
-            await new Promise(resolve => setTimeout(resolve, step.ms));
-        }
-    } catch (e) {
-        // Ignore delay errors
-    }
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []) as File[];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    enqueueFiles(files);
+  };
 
-    const reader = new FileReader();
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isUploading) return;
+    enqueueFiles(Array.from(event.dataTransfer.files || []));
+  };
 
-    reader.onload = async (e) => {
-      try {
-        if (!e.target?.result) throw new Error("File read failed (empty result)");
-        
-        const result = e.target.result as string;
-        // Robust base64 extraction
-        const base64 = result.includes(',') ? result.split(',')[1] : result;
-        const mimeType = file.type || 'image/jpeg';
-        
-        // 1. AI Extraction (Gemini Flash)
-        setStatusText("Atlas AI: Extracting Transaction Data...");
-        const extractionResult = await extractQuoteData(base64, mimeType);
+  const activeUploads = uploads.filter(u => u.status === 'queued' || u.status === 'running').length;
+  const failedUploads = uploads.filter(u => u.status === 'error').length;
+  const awaitingUploads = uploads.filter(u => u.status === 'awaiting_decision').length;
 
-        if (!extractionResult) {
-           throw new Error("AI Extraction returned null");
-        }
+  // --- ISO 20022 IMPORT ---
+  // Structured XML skips extraction: every FX transaction in the message becomes one quote
+  const handleXmlUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (xmlInputRef.current) xmlInputRef.current.value = '';
+    if (!file) return;
 
-        const txDetails = extractionResult.transaction || {};
-        const pair = txDetails.currency_pair || "USD/EUR";
-        const valDate = txDetails.value_date || new Date().toISOString().split('T')[0];
+    setErrorMsg(null);
+    setImportNote(null);
 
-        // 2. Fetch Real Market Data via Gemini Search
-        setStatusText(`RateGuard: Searching Historical Rates for ${pair}...`);
-        
-        let midMarketRate = 0;
-        try {
-            const rateResult = await getHistoricExchangeRate(pair, valDate);
-            if (rateResult.rate > 0) {
-                midMarketRate = rateResult.rate;
-                console.log(`Found rate via ${rateResult.source}: ${midMarketRate}`);
-            } else {
-                // Fallback estimate if search fails
-                midMarketRate = txDetails.exchange_rate_bank * 0.98; // Assume 2% markup roughly
-            }
-        } catch (searchErr) {
-            console.warn("Search failed, using estimate", searchErr);
-            midMarketRate = txDetails.exchange_rate_bank * 0.98;
-        }
+    if (!userProfile || !userProfile.uid) {
+      setErrorMsg("Please log in to upload documents.");
+      return;
+    }
 
-        // 3. Detailed Calculation Engine (Hidden Fees)
-        setStatusText("Profit Guard: Calculating Hidden Spreads...");
-        const calculationResult = calculateAllCosts(
-          { ...txDetails, fees: extractionResult.fees },
-          midMarketRate
-        );
+    setIsUploading(true);
+    try {
+      setStatusText("Parsing ISO 20022 Message...");
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const parsed = parseIso20022(new TextDecoder().decode(bytes));
+      if (parsed.transactions.length === 0) {
+        throw new Error(`No FX transactions found in ${parsed.messageType} (${parsed.skipped} same-currency entries skipped).`);
+      }
 
-        // 4. Merge Data
-        // IMPORTANT: Fallback for bank name to ensure it saves even if AI misses it
-        const extractedBankName = extractionResult.extraction?.bank_name;
-        const finalBankName = (extractedBankName && extractedBankName.length > 2) ? extractedBankName : "Unknown Bank";
-
-        const finalQuoteData: Partial<QuoteData> = {
-          bank: finalBankName,
-          pair: pair,
-          amount: txDetails.original_amount || 0,
-          exchangeRate: txDetails.exchange_rate_bank || 0,
-          midMarketRate: midMarketRate,
-          valueDate: valDate,
-          
-          // Rich Calculation Data
-          fees: calculationResult.fees,
-          wireFee: calculationResult.wireFee,
-          fxFee: calculationResult.fxFee,
-          correspondentFee: calculationResult.correspondentFee,
-          otherFees: calculationResult.otherFees,
-          totalFees: calculationResult.totalFees,
-          
-          spreadDecimal: calculationResult.spreadDecimal,
-          spreadPercentage: calculationResult.spreadPercentage,
-          markupCost: calculationResult.markupCost,
-          
-          totalHiddenCost: calculationResult.totalHiddenCost,
-          totalHiddenPercentage: calculationResult.totalHiddenPercentage,
-          costBreakdown: calculationResult.costBreakdown,
-          
-          annualTransactionCount: calculationResult.annualTransactionCount,
-          annualizedHiddenCost: calculationResult.annualizedHiddenCost,
-          monthlyAverageCost: calculationResult.monthlyAverageCost,
-          
-          industryAverageSpread: calculationResult.industryAverageSpread,
-          industryAverageTotalCost: calculationResult.industryAverageTotalCost,
-          yourCostVsIndustry: calculationResult.yourCostVsIndustry,
-          betterThanIndustry: calculationResult.betterThanIndustry,
-          percentileRank: calculationResult.percentileRank,
-          potentialSavingsPercent: calculationResult.potentialSavingsPercent,
-          
-          dispute: calculationResult.dispute,
-          reliabilityScore: 85,
-          geminiRaw: extractionResult
-        };
-
-        // 5. Save to Firestore
-        setStatusText("Finalizing Audit Record...");
-        const saveResult = await saveQuoteToFirestore(currentUid, currentOrgId, finalQuoteData, base64, extractionResult);
-
-        if (saveResult.success) {
-          onAddQuote(saveResult as unknown as QuoteData);
-          // Credit deduction happens in saveQuoteToFirestore against the Organization document
-        } else {
-          throw new Error(saveResult.error || "Database Write Failed");
-        }
+      // Each transaction consumes one organization credit
+      const available = isEnterprise ? Infinity : (orgProfile?.credits ?? 0);
+      if (available < parsed.transactions.length) {
+        throw new Error(`${parsed.transactions.length} transactions need ${parsed.transactions.length} credits; ${available} left.`);
+      }
+
+      // The message itself is the source document of every quote taken from it
+      const orgId = userProfile.orgId || 'personal_workspace';
+      setStatusText("Archiving Source Document...");
+      const source = await storeSourceDocument(orgId, bytesToBase64(bytes), 'application/xml', file.name);
 
-      } catch (err: any) {
-        console.error("Pipeline Error:", err);
-        // Handle AbortError specifically to not show a scary message if it's just a cancellation
-        if (err.name === 'AbortError') {
-            setErrorMsg("Upload cancelled.");
-        } else {
-            setErrorMsg(err.message || "Analysis Failed");
+      let saved = 0;
+      let duplicates = 0;
+      for (const [i, extraction] of parsed.transactions.entries()) {
+        const progress = `${i + 1}/${parsed.transactions.length}`;
+        const saveResult = await processExtraction(
+          extraction,
+          {
+            userId: userProfile.uid,
+            orgId,
+            reportingCurrency: orgProfile?.reportingCurrency,
+            pricing,
+            source,
+            fileName: file.name,
+            duplicateCheck: {
+              existingQuotes: knownQuotes,
+              resolve: (matches) => new Promise(resolve => {
+                setStatusText(`${progress} • Possible duplicate`);
+                setXmlDuplicate({
+                  label: `${progress} ${extraction.extraction?.transaction_reference || ''}`.trim(),
+                  matches,
+                  decide: (decision) => { setXmlDuplicate(null); resolve(decision); }
+                });
+              })
+            }
+          },
+          (_step, message) => setStatusText(`${progress} • ${message}`)
+        );
+        if (saveResult.skipped) {
+          duplicates++;
+          continue;
         }
-      } finally {
-        setIsUploading(false);
-        if (fileInputRef.current) fileInputRef.current.value = '';
+        rememberSaved(saveResult as unknown as QuoteData);
+        if (saveResult.duplicateDecision !== 'replace') onAddQuote(saveResult as unknown as QuoteData);
+        saved++;
       }
-    };
 
-    reader.onerror = () => {
-      console.error("FileReader Error:", reader.error);
-      setErrorMsg("Failed to read file.");
-      setIsUploading(false);
-      if (fileInputRef.current) fileInputRef.current.value = '';
-    };
-
-    try {
-      reader.readAsDataURL(file);
-    } catch (e: any) {
-      console.error("FileReader Start Error:", e);
-      setErrorMsg("Could not start upload.");
+      setImportNote(`${parsed.messageType}: ${saved} FX transactions imported${duplicates ? `, ${duplicates} duplicates skipped` : ''}${parsed.skipped ? `, ${parsed.skipped} same-currency entries skipped` : ''}.`);
+    } catch (err: any) {
+      console.error("ISO 20022 Import Error:", err);
+      setErrorMsg(err.message || "Import Failed");
+    } finally {
       setIsUploading(false);
     }
   };
@@ -242,9 +250,12 @@ const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ quotes = [], onAddQ
         <motion.div variants={itemVariants} className="shrink-0">
           <div 
             onClick={() => !isUploading && fileInputRef.current?.click()}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
             className={`
               relative overflow-hidden rounded-[2.5rem] border-2 border-dashed transition-all cursor-pointer group
-              ${isUploading ? 'bg-zinc-900 border-blue-500/50' : 'bg-[#121826]/40 border-zinc-800 hover:bg-zinc-900 hover:border-blue-500/30'}
+              ${isUploading || isDragging ? 'bg-zinc-900 border-blue-500/50' : 'bg-[#121826]/40 border-zinc-800 hover:bg-zinc-900 hover:border-blue-500/30'}
               h-48 flex flex-col items-center justify-center
             `}
           >
@@ -253,7 +264,8 @@ const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ quotes = [], onAddQ
               ref={fileInputRef} 
               onChange={handleFileUpload} 
               className="hidden" 
-              accept=".pdf,.jpg,.jpeg,.png"
+              accept=".pdf,.jpg,.jpeg,.png,.txt,.fin,.zip"
+              multiple
               disabled={isUploading}
             />
             
@@ -279,7 +291,7 @@ const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ quotes = [], onAddQ
                   </div>
                   <div>
                     <h3 className="text-xl font-black text-white uppercase tracking-tight">Ingest Quote</h3>
-                    <p className="text-zinc-500 text-sm font-medium">Drag PDF or Image • AI Auto-Analysis</p>
+                    <p className="text-zinc-500 text-sm font-medium">Drag PDFs, Images or a Zip • AI Auto-Analysis</p>
                   </div>
                   {errorMsg && (
                     <div className="px-4 py-2 bg-red-500/10 text-red-500 rounded-lg text-xs font-bold flex items-center gap-2">
@@ -294,6 +306,143 @@ const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ quotes = [], onAddQ
                <div className="absolute inset-0 bg-blue-600/5 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
             )}
           </div>
+
+          <div className="flex items-center justify-between mt-3 px-2">
+            <input type="file" ref={xmlInputRef} onChange={handleXmlUpload} className="hidden" accept=".xml" disabled={isUploading} />
+            <div className="flex items-center gap-6">
+              <button
+                onClick={() => xmlInputRef.current?.click()}
+                disabled={isUploading}
+                className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-blue-400 disabled:opacity-50 transition-colors"
+              >
+                <FileCode size={14} /> Import ISO 20022 XML (pacs.008 / camt.053 / camt.054)
+              </button>
+              <button
+                onClick={() => setShowBulkImport(true)}
+                disabled={isUploading}
+                className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-blue-400 disabled:opacity-50 transition-colors"
+              >
+                <Table size={14} /> Bulk CSV Import
+              </button>
+            </div>
+            {importNote && (
+              <span className="flex items-center gap-1 text-[10px] font-bold text-emerald-500">
+                <CheckCircle size={12} /> {importNote}
+              </span>
+            )}
+          </div>
+
+          {xmlDuplicate && (
+            <div className="mt-3 p-3 bg-amber-500/5 border border-amber-500/20 rounded-xl space-y-2">
+              <div className="text-[11px] text-zinc-300">
+                Transaction {xmlDuplicate.label} looks like one already in the ledger
+                {xmlDuplicate.matches.length > 1 && ` (${xmlDuplicate.matches.length} matches)`}:
+                <span className="font-mono text-zinc-400"> {xmlDuplicate.matches[0].bank}{xmlDuplicate.matches[0].referenceNumber ? ` • ${xmlDuplicate.matches[0].referenceNumber}` : ''} • {xmlDuplicate.matches[0].amount.toLocaleString()} {xmlDuplicate.matches[0].currency || ''} • {xmlDuplicate.matches[0].valueDate}</span>
+              </div>
+              <div className="text-[10px] text-zinc-500">Matched on: {xmlDuplicate.matches[0].reasons.join(', ')}</div>
+              <div className="flex items-center gap-2">
+                {DUPLICATE_ACTIONS.map(action => (
+                  <button
+                    key={action.decision}
+                    title={action.hint}
+                    onClick={() => xmlDuplicate.decide(action.decision)}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-[10px] font-black uppercase tracking-widest text-zinc-300 transition-colors"
+                  >
+                    {action.icon} {action.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Upload Queue */}
+          {uploads.length > 0 && (
+            <div className="mt-4 bg-zinc-900/50 border border-zinc-800 rounded-2xl p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black text-zinc-500 uppercase tracking-[0.2em]">
+                  Upload Queue • {activeUploads > 0 ? `${activeUploads} in progress (max ${MAX_CONCURRENT_UPLOADS} at once)` : 'Idle'}
+                  {awaitingUploads > 0 && <span className="text-amber-500"> • {awaitingUploads} possible duplicate{awaitingUploads > 1 ? 's' : ''}</span>}
+                  {failedUploads > 0 && <span className="text-red-500"> • {failedUploads} failed</span>}
+                </span>
+                <button
+                  onClick={() => queueRef.current?.clearFinished()}
+                  className="text-[10px] font-bold text-zinc-500 hover:text-white uppercase tracking-widest transition-colors"
+                >
+                  Clear finished
+                </button>
+              </div>
+              <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+                {uploads.map(item => {
+                  const stepIndex = item.step ? UPLOAD_STEPS.indexOf(item.step) + 1 : 0;
+                  const percent = item.status === 'done' || item.status === 'skipped' ? 100 : Math.round((stepIndex / (UPLOAD_STEPS.length + 1)) * 100);
+                  const match = item.duplicates?.[0];
+                  return (
+                    <div key={item.id}>
+                      <div className="flex items-center gap-3">
+                        <div className="w-5 shrink-0 flex justify-center">
+                          {item.status === 'running' && <Loader2 size={14} className="text-blue-500 animate-spin" />}
+                          {item.status === 'queued' && <FileText size={14} className="text-zinc-600" />}
+                          {item.status === 'done' && <CheckCircle size={14} className="text-emerald-500" />}
+                          {item.status === 'skipped' && <SkipForward size={14} className="text-zinc-500" />}
+                          {item.status === 'awaiting_decision' && <Copy size={14} className="text-amber-500" />}
+                          {item.status === 'error' && <AlertTriangle size={14} className="text-red-500" />}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-xs font-bold text-zinc-300 truncate" title={item.archive ? `${item.archive} / ${item.fileName}` : item.fileName}>{item.fileName}</span>
+                            <span className={`text-[10px] font-mono shrink-0 ${item.status === 'error' ? 'text-red-500' : 'text-zinc-500'}`}>
+                              {item.status === 'queued' && 'Queued'}
+                              {item.status === 'running' && (item.message || 'Starting...')}
+                              {item.status === 'awaiting_decision' && 'Possible duplicate'}
+                              {item.status === 'done' && (item.decision === 'replace' ? 'Replaced existing' : item.decision === 'keep_both' ? 'Saved (kept both)' : 'Saved')}
+                              {item.status === 'skipped' && 'Skipped duplicate'}
+                              {item.status === 'error' && item.error}
+                            </span>
+                          </div>
+                          <div className="h-1 bg-zinc-800 rounded-full mt-1 overflow-hidden">
+                            <div
+                              className={`h-full transition-all duration-500 ${item.status === 'error' ? 'bg-red-500' : item.status === 'done' ? 'bg-emerald-500' : item.status === 'skipped' ? 'bg-zinc-600' : item.status === 'awaiting_decision' ? 'bg-amber-500' : 'bg-blue-500'}`}
+                              style={{ width: `${item.status === 'error' ? 100 : percent}%` }}
+                            />
+                          </div>
+                        </div>
+                        {item.status === 'error' && (
+                          <button
+                            onClick={() => queueRef.current?.retry(item.id)}
+                            className="shrink-0 flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-blue-400 transition-colors"
+                          >
+                            <RotateCcw size={12} /> Retry
+                          </button>
+                        )}
+                      </div>
+                      {item.status === 'awaiting_decision' && match && (
+                        <div className="ml-8 mt-2 p-3 bg-amber-500/5 border border-amber-500/20 rounded-xl space-y-2">
+                          <div className="text-[11px] text-zinc-300">
+                            {match.kind === 'content_hash' ? 'This exact file is already in the ledger' : 'Looks like a transaction already in the ledger'}
+                            {item.duplicates!.length > 1 && ` (${item.duplicates!.length} matches)`}:
+                            <span className="font-mono text-zinc-400"> {match.bank}{match.referenceNumber ? ` • ${match.referenceNumber}` : ''} • {match.amount.toLocaleString()} {match.currency || ''} • {match.valueDate}</span>
+                          </div>
+                          <div className="text-[10px] text-zinc-500">Matched on: {match.reasons.join(', ')}</div>
+                          <div className="flex items-center gap-2">
+                            {DUPLICATE_ACTIONS.map(action => (
+                              <button
+                                key={action.decision}
+                                title={action.hint}
+                                onClick={() => queueRef.current?.decide(item.id, action.decision)}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-[10px] font-black uppercase tracking-widest text-zinc-300 transition-colors"
+                              >
+                                {action.icon} {action.label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
         </motion.div>
 
         {/* Audit Stream */}
@@ -337,13 +486,16 @@ const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ quotes = [], onAddQ
                             <span>{quote.pair}</span>
                             <span>•</span>
                             <span>{new Date(quote.createdAt).toLocaleDateString()}</span>
+                            {quote.workflowStatus === 'extracted' && (
+                               <span className="px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-500 text-[9px] font-black uppercase tracking-wider">Needs Review</span>
+                            )}
                          </div>
                       </div>
                     </div>
                     
                     <div className="text-right">
                        <div className={`text-xl font-black font-mono ${quote.status === 'flagged' ? 'text-red-500' : 'text-zinc-400'}`}>
-                          ${quote.totalHiddenCost?.toFixed(2)}
+                          {formatCurrency(quote.totalHiddenCost, quoteCostCurrency(quote))}
                        </div>
                        <div className="text-[9px] font-bold uppercase text-zinc-600 tracking-wider">Hidden Cost</div>
                     </div>
@@ -361,7 +513,7 @@ const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ quotes = [], onAddQ
 
       <AnimatePresence mode="wait">
         {activeQuote ? (
-          <QuoteAnalysis quote={activeQuote} onClose={() => setActiveQuoteId(null)} />
+          <QuoteAnalysis quote={activeQuote} onClose={() => setActiveQuoteId(null)} userProfile={userProfile} orgProfile={orgProfile} pricing={pricing} />
         ) : (
           <div className="hidden lg:flex flex-col items-center justify-center h-full text-center p-10 border border-zinc-800 rounded-[2.5rem] bg-[#121826]/20 border-dashed">
              <div className="w-24 h-24 bg-zinc-900 rounded-[2rem] flex items-center justify-center mb-6 text-zinc-700 shadow-xl">
@@ -372,6 +524,21 @@ const IntelligenceFeed: React.FC<IntelligenceFeedProps> = ({ quotes = [], onAddQ
           </div>
         )}
       </AnimatePresence>
+
+      {showBulkImport && (
+        <BulkImport
+          quotes={quotes}
+          pricing={pricing}
+          userProfile={userProfile}
+          orgProfile={orgProfile}
+          isEnterprise={isEnterprise}
+          onImported={(imported) => {
+            imported.forEach(onAddQuote);
+            if (imported.length > 0) setImportNote(`${imported.length} historical transactions imported from CSV.`);
+          }}
+          onClose={() => setShowBulkImport(false)}
+        />
+      )}
     </motion.div>
   );
 };
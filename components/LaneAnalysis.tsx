@@ -12,9 +12,20 @@ import {
   Area,
   Line
 } from 'recharts';
-import { QuoteData } from '../types';
+import { QuoteData, Institution, UserProfile, Organization } from '../types';
+import { formatCurrency, quoteCostCurrency } from '../services/currency';
+import { createBankResolver } from '../services/bankRegistry';
+import CorridorVolumes from './CorridorVolumes';
 
-const LaneAnalysis: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
+interface LaneAnalysisProps {
+  quotes: QuoteData[];
+  reportingCurrency: string;
+  institutions: Institution[];
+  userProfile: UserProfile;
+  orgProfile: Organization;
+}
+
+const LaneAnalysis: React.FC<LaneAnalysisProps> = ({ quotes, reportingCurrency, institutions, userProfile, orgProfile }) => {
   
   const trendData = useMemo(() => {
     if (quotes.length === 0) return [];
@@ -22,6 +33,8 @@ const LaneAnalysis: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
     quotes.forEach(q => {
+       // Skip quotes not yet converted into the reporting currency
+       if (quoteCostCurrency(q) !== reportingCurrency) return;
        const date = new Date(q.createdAt);
        const month = months[date.getMonth()];
        if (!grouped[month]) grouped[month] = { total: 0, count: 0 };
@@ -34,15 +47,19 @@ const LaneAnalysis: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
       markup: Math.round(grouped[key].total / grouped[key].count),
       target: 50 // Target max markup
     }));
-  }, [quotes]);
+  }, [quotes, reportingCurrency]);
 
+  // Counted per registry institution, so "JP Morgan" and "JPMorgan Chase" are one bar
   const bankData = useMemo(() => {
-     const counts: Record<string, number> = {};
+     const resolve = createBankResolver(institutions);
+     const counts: Record<string, { name: string, count: number }> = {};
      quotes.forEach(q => {
-        counts[q.bank] = (counts[q.bank] || 0) + 1;
+        const { key, name } = resolve(q);
+        if (!counts[key]) counts[key] = { name, count: 0 };
+        counts[key].count += 1;
      });
-     return Object.keys(counts).map(k => ({ name: k, count: counts[k] }));
-  }, [quotes]);
+     return Object.keys(counts).map(k => counts[k]);
+  }, [quotes, institutions]);
 
   if (quotes.length === 0) {
      return (
@@ -58,7 +75,7 @@ const LaneAnalysis: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         <div className="bg-zinc-900 border border-zinc-800 rounded-3xl p-8 space-y-6">
           <div className="flex items-center justify-between">
-            <h3 className="text-lg font-bold">Avg Markup Cost</h3>
+            <h3 className="text-lg font-bold">Avg Markup Cost ({reportingCurrency})</h3>
             <div className="px-2 py-1 bg-emerald-500/10 text-emerald-500 text-[10px] font-bold uppercase rounded">Live Data</div>
           </div>
           
@@ -123,7 +140,7 @@ const LaneAnalysis: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
                 <tr key={i} className="border-b border-zinc-800/50 hover:bg-zinc-800/20 transition-colors">
                   <td className="p-6 text-sm font-bold">{q.pair}</td>
                   <td className="p-6 text-sm font-mono text-zinc-400">{q.bank}</td>
-                  <td className="p-6 text-sm font-mono text-zinc-100">${q.markupCost?.toFixed(2)}</td>
+                  <td className="p-6 text-sm font-mono text-zinc-100">{formatCurrency(q.markupCost, quoteCostCurrency(q))}</td>
                   <td className="p-6">
                     <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${
                       (q.markupCost || 0) > 200 ? 'bg-red-500/10 text-red-500' : 'bg-blue-500/10 text-blue-500'
@@ -137,6 +154,15 @@ const LaneAnalysis: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
           </table>
         </div>
       </div>
+
+      <CorridorVolumes
+        quotes={quotes}
+        reportingCurrency={reportingCurrency}
+        institutions={institutions}
+        declared={orgProfile.expectedVolumes || []}
+        orgId={orgProfile.id}
+        userId={userProfile.uid}
+      />
     </div>
   );
 };
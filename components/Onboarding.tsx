@@ -4,6 +4,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Building2, Target, Globe, Users, ArrowRight, Loader2, ShieldCheck, MapPin, FileText, Share2, Plus, LogIn } from 'lucide-react';
 import { updateComplianceProfile, createOrganization, joinOrganization, auth } from '../services/firebase';
 import { UserProfile } from '../types';
+import { REPORTING_CURRENCIES } from '../services/currency';
 
 interface OnboardingProps {
   onComplete: (data: any) => void;
@@ -53,7 +54,8 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, userProfile }) => {
       const orgId = await createOrganization(auth.currentUser.uid, {
         name: formData.companyName,
         plan: 'free',
-        maxSeats: 5
+        maxSeats: 5,
+        reportingCurrency: formData.currency
       });
 
       // 2. Update User Profile with Compliance Data
@@ -260,6 +262,18 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete, userProfile }) => {
                            onChange={e => setFormData({...formData, profitGoal: parseInt(e.target.value)})}
                            className="w-full accent-blue-600"
                         />
+                        {mode === 'create' && (
+                           <div className="space-y-2 pt-2">
+                              <label className="text-[10px] font-black text-zinc-600 uppercase tracking-widest">Reporting Currency</label>
+                              <select
+                                 value={formData.currency}
+                                 onChange={e => setFormData({ ...formData, currency: e.target.value })}
+                                 className="w-full bg-zinc-900 border border-zinc-800 rounded-xl p-4 text-white text-sm"
+                              >
+                                 {REPORTING_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                              </select>
+                           </div>
+                        )}
                      </div>
                      <div className="flex gap-4">
                         <button onClick={prevStep} className="px-6 py-4 rounded-xl bg-zinc-900 text-zinc-500 text-xs font-bold uppercase">Back</button>
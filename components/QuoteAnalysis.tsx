@@ -1,6 +1,7 @@
 
-import React from 'react';
-import { QuoteData } from '../types';
+import React, { useState } from 'react';
+import { QuoteData, UserProfile, Organization } from '../types';
+import { PricingContext } from '../services/calculations';
 import { 
   ShieldCheck, 
   AlertTriangle, 
@@ -9,17 +10,47 @@ import {
   TrendingDown, 
   Globe, 
   CheckCircle2,
+  Eye,
+  ClipboardCheck,
+  PenLine,
+  History,
+  CalendarClock,
   X 
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { ResponsiveContainer, PieChart as RePie, Pie, Cell, Tooltip } from 'recharts';
+import { formatCurrency, quoteCostCurrency } from '../services/currency';
+import { sourceDocumentOf } from '../services/documentStorage';
+import { EXTRACTION_FIELDS, EXTRACTION_FIELD_LABELS, LOW_CONFIDENCE } from '../services/extractionQuality';
+import DocumentViewer from './DocumentViewer';
+import ExtractionReview from './ExtractionReview';
+import QuoteEditor from './QuoteEditor';
+import WorkflowPanel from './WorkflowPanel';
+import CommentThread from './CommentThread';
+import DisputeLetterEditor from './DisputeLetterEditor';
+import { disputeStageLabel } from '../services/disputeLetters';
+import { PROJECTION_BASIS_LABELS } from '../services/projections';
 
 interface QuoteAnalysisProps {
   quote: QuoteData;
   onClose: () => void;
+  userProfile?: UserProfile | null;
+  orgProfile?: Organization | null;
+  pricing?: PricingContext; // Used when a review or edit re-prices the quote
 }
 
-const QuoteAnalysis: React.FC<QuoteAnalysisProps> = ({ quote, onClose }) => {
+const QuoteAnalysis: React.FC<QuoteAnalysisProps> = ({ quote, onClose, userProfile, orgProfile, pricing }) => {
+  const costCurrency = quoteCostCurrency(quote);
+  const [showDocument, setShowDocument] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [editorTab, setEditorTab] = useState<'edit' | 'history' | null>(null);
+  const [showLetter, setShowLetter] = useState(false);
+  const pendingReview = quote.workflowStatus === 'extracted';
+  const failedChecks = (quote.consistencyChecks || []).filter(c => c.status === 'fail');
+  const lowFields = EXTRACTION_FIELDS
+    .filter(field => (quote.fieldConfidence?.[field] ?? 1) < LOW_CONFIDENCE)
+    .map(field => EXTRACTION_FIELD_LABELS[field]);
+  const hasSource = !!sourceDocumentOf(quote);
   const data = [
     { name: 'Bank Fees', value: quote.totalFees, color: '#3b82f6' },
     { name: 'Spread Markup', value: quote.markupCost, color: '#ef4444' }
@@ -42,16 +73,62 @@ const QuoteAnalysis: React.FC<QuoteAnalysisProps> = ({ quote, onClose }) => {
        <div className="space-y-8">
           <div>
              <div className="inline-flex items-center gap-2 px-3 py-1 bg-zinc-900 rounded-full text-[10px] font-black text-zinc-500 uppercase tracking-widest border border-zinc-800 mb-4">
-                <ShieldCheck size={12} /> Reliability Score: {quote.reliabilityScore || 85}/100
+                <ShieldCheck size={12} /> Reliability Score: {quote.reliabilityScore ?? '-'}/100{quote.reviewedAt ? ' • Reviewed' : ''}
              </div>
              <h2 className="text-3xl font-black text-white tracking-tighter mb-1">{quote.bank} Analysis</h2>
-             <p className="text-zinc-500 font-mono text-sm">{quote.pair} • ${quote.amount?.toLocaleString()} Volume</p>
+             <p className="text-zinc-500 font-mono text-sm">{quote.pair} • {quote.amount?.toLocaleString()} {quote.originalCurrency || quote.pair?.split('/')[0]} Volume</p>
+             <button
+                onClick={() => setShowDocument(true)}
+                className="mt-3 inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-blue-400 transition-colors"
+             >
+                <Eye size={14} /> {hasSource ? 'View Original Document' : 'Extracted Fields (no original kept)'}
+             </button>
+             {/* Signed-off quotes go back through the workflow before their extraction is reworked */}
+             {userProfile?.uid && (pendingReview || quote.workflowStatus === 'analyzed') && (
+                <button
+                   onClick={() => setShowReview(true)}
+                   className="mt-3 ml-4 inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-blue-400 transition-colors"
+                >
+                   <ClipboardCheck size={14} /> Review & Correct Fields
+                </button>
+             )}
+             {userProfile?.uid && (
+                <button
+                   onClick={() => setEditorTab('edit')}
+                   className="mt-3 ml-4 inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-blue-400 transition-colors"
+                >
+                   <PenLine size={14} /> Edit Quote
+                </button>
+             )}
+             {userProfile?.uid && (
+                <button
+                   onClick={() => setEditorTab('history')}
+                   className="mt-3 ml-4 inline-flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-blue-400 transition-colors"
+                >
+                   <History size={14} /> History (v{quote.version || 1})
+                </button>
+             )}
           </div>
 
+          {pendingReview && (
+             <div className="p-5 bg-amber-500/5 border border-amber-500/20 rounded-2xl space-y-2 text-xs">
+                <div className="flex items-center gap-2 text-[10px] font-black text-amber-500 uppercase tracking-widest">
+                   <AlertTriangle size={12} /> Awaiting Review
+                </div>
+                <p className="text-zinc-400">
+                   The extraction is not reliable enough to count as analyzed. Check it against the original and correct any field before relying on these costs.
+                </p>
+                {failedChecks.map(c => <div key={c.id} className="text-red-400">• {c.label}: {c.detail}</div>)}
+                {lowFields.length > 0 && <div className="text-zinc-500">Low confidence: {lowFields.join(', ')}</div>}
+             </div>
+          )}
+
+          {userProfile?.uid && <WorkflowPanel quote={quote} userProfile={userProfile} orgProfile={orgProfile} />}
+
           <div className="grid grid-cols-2 gap-4">
              <div className="p-6 bg-zinc-900 rounded-[1.5rem] border border-zinc-800 space-y-2">
                 <div className="text-[10px] font-bold text-zinc-500 uppercase">Hidden Cost</div>
-                <div className="text-3xl font-black text-red-500">${quote.totalHiddenCost?.toFixed(2)}</div>
+                <div className="text-3xl font-black text-red-500">{formatCurrency(quote.totalHiddenCost, costCurrency)}</div>
                 <div className="text-xs text-red-400 font-medium">{quote.totalHiddenPercentage?.toFixed(2)}% of Principal</div>
              </div>
              <div className="p-6 bg-zinc-900 rounded-[1.5rem] border border-zinc-800 space-y-2">
@@ -59,10 +136,39 @@ const QuoteAnalysis: React.FC<QuoteAnalysisProps> = ({ quote, onClose }) => {
                 <div className="text-xl font-mono text-white">
                    <span className="text-zinc-500">Rate:</span> {quote.exchangeRate}
                 </div>
-                <div className="text-xs text-emerald-500 font-mono">Mid: {quote.midMarketRate}</div>
+                {quote.unpriced
+                   ? <div className="text-xs text-amber-500 font-mono">Mid: not found, spread not measured</div>
+                   : <div className="text-xs text-emerald-500 font-mono">Mid: {quote.midMarketRate}</div>}
+                {quote.midRateSource && (
+                   <div className="text-[10px] text-zinc-500 font-mono uppercase">
+                      {quote.midRateSource === 'intraday_tick' ? 'Intraday Tick' : quote.midRateSource === 'rates_history' ? 'Reference Fixing' : quote.midRateSource === 'estimate' ? 'Estimate' : quote.midRateSource === 'simulation' ? 'Simulated' : quote.midRateSource === 'manual' ? 'Manual Entry' : 'Search Grounded'} • {quote.midRateDate}
+                   </div>
+                )}
+                {quote.midRateLegs && quote.midRateLegs.length > 1 && (
+                   <div className="text-[10px] text-zinc-500 font-mono uppercase">
+                      Cross: {quote.midRateLegs.map(l => `${l.pair} ${l.rate.toFixed(5)}`).join(' × ')}
+                   </div>
+                )}
+                {quote.rateConvention === 'inverse' && (
+                   <div className="text-[10px] text-zinc-500 font-mono uppercase">Bank quoted inverse of {quote.pair}</div>
+                )}
              </div>
           </div>
 
+          {/* Execution Window */}
+          {quote.rateWindow && (
+             <div className="p-5 bg-zinc-900/30 border border-zinc-800 rounded-2xl space-y-3 text-xs">
+                <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Execution Window</div>
+                <div className="flex justify-between"><span className="text-zinc-400">Executed</span><span className="text-white font-mono">{new Date(quote.rateWindow.executionTimestamp).toISOString().replace('T', ' ').slice(0, 19)} UTC</span></div>
+                <div className="flex justify-between"><span className="text-zinc-400">Window</span><span className="text-white font-mono">±{quote.rateWindow.windowMinutes}min • {quote.rateWindow.tickCount} ticks</span></div>
+                <div className="flex justify-between"><span className="text-zinc-400">Nearest Tick</span><span className="text-white font-mono">{quote.rateWindow.nearestRate.toFixed(5)} @ {new Date(quote.rateWindow.nearestTickTimestamp).toISOString().slice(11, 19)}</span></div>
+                <div className="flex justify-between"><span className="text-zinc-400">Band</span><span className="text-white font-mono">{quote.rateWindow.minRate.toFixed(5)} – {quote.rateWindow.maxRate.toFixed(5)}</span></div>
+                {quote.rateWindow.defensibleSpreadPercentage !== undefined && (
+                   <div className="flex justify-between"><span className="text-zinc-400">Minimum Provable Spread</span><span className="text-white font-bold">{quote.rateWindow.defensibleSpreadPercentage.toFixed(3)}%</span></div>
+                )}
+             </div>
+          )}
+
           {/* Visualization */}
           <div className="p-6 bg-zinc-900/50 rounded-[1.5rem] border border-zinc-800 flex items-center gap-6">
              <div className="w-24 h-24 shrink-0">
@@ -85,7 +191,7 @@ const QuoteAnalysis: React.FC<QuoteAnalysisProps> = ({ quote, onClose }) => {
                    <div key={d.name} className="flex items-center gap-2">
                       <div className="w-2 h-2 rounded-full" style={{ backgroundColor: d.color }} />
                       <span className="text-zinc-400">{d.name}</span>
-                      <span className="text-white font-bold">${d.value?.toFixed(2)}</span>
+                      <span className="text-white font-bold">{formatCurrency(d.value, costCurrency)}</span>
                    </div>
                 ))}
              </div>
@@ -104,17 +210,63 @@ const QuoteAnalysis: React.FC<QuoteAnalysisProps> = ({ quote, onClose }) => {
                 <div className="flex justify-between items-center text-sm">
                    <span className="text-zinc-400">Your Spread</span>
                    <span className={`font-bold ${quote.betterThanIndustry ? 'text-emerald-500' : 'text-red-500'}`}>
-                      {quote.spreadPercentage?.toFixed(2)}%
+                      {quote.unpriced ? 'Unpriced' : `${quote.spreadPercentage?.toFixed(2)}%`}
                    </span>
                 </div>
+                {quote.spreadDirection === 'favourable' && (
+                   <div className="flex justify-between items-center text-sm">
+                      <span className="text-zinc-400">Favourable Execution</span>
+                      <span className="font-bold text-emerald-500">+{formatCurrency(quote.favourableGain, costCurrency)} vs mid</span>
+                   </div>
+                )}
                 <div className="pt-2 border-t border-zinc-800/50">
                    <span className={`text-xs font-bold ${quote.betterThanIndustry ? 'text-emerald-500' : 'text-red-500'}`}>
-                      {quote.betterThanIndustry ? 'Performing better than 75% of peers' : `Performing worse than average (${quote.percentileRank})`}
+                      {quote.costPercentile === undefined
+                         ? (quote.betterThanIndustry ? 'Below the industry average cost' : `Performing worse than average (${quote.percentileRank})`)
+                         : quote.costPercentile < 50
+                            ? `Cheaper than ${Math.round(100 - quote.costPercentile)}% of comparable transfers`
+                            : `Costlier than ${Math.round(quote.costPercentile)}% of comparable transfers`}
                    </span>
+                   {quote.benchmarkTier && (
+                      <p className="text-[10px] text-zinc-500 font-mono mt-1">
+                         {quote.benchmarkTier} · {quote.benchmarkVersion ? `benchmark v${quote.benchmarkVersion}` : 'built-in benchmark'}
+                      </p>
+                   )}
                 </div>
              </div>
           </div>
 
+          {/* Annual Projection */}
+          {quote.annualProjection && (
+             <div className="space-y-4">
+                <h3 className="text-xs font-black text-zinc-500 uppercase tracking-widest flex items-center gap-2">
+                   <CalendarClock size={14} /> Annual Projection
+                </h3>
+                <div className="p-5 bg-zinc-900/30 border border-zinc-800 rounded-2xl space-y-3 text-sm">
+                   <div className="flex justify-between items-center">
+                      <span className="text-zinc-400">Hidden Cost / Year</span>
+                      <span className="text-white font-bold">{formatCurrency(quote.annualizedHiddenCost, costCurrency)}</span>
+                   </div>
+                   <div className="flex justify-between items-center">
+                      <span className="text-zinc-400">90% Range</span>
+                      <span className="text-white font-mono text-xs">
+                         {formatCurrency(quote.annualProjection.hiddenCostLow, costCurrency)} – {formatCurrency(quote.annualProjection.hiddenCostHigh, costCurrency)}
+                      </span>
+                   </div>
+                   <div className="flex justify-between items-center">
+                      <span className="text-zinc-400">Transfers / Year</span>
+                      <span className="text-white font-mono text-xs">
+                         {quote.annualProjection.transactionsPerYear} ({quote.annualProjection.transactionsLow}–{quote.annualProjection.transactionsHigh}) × {formatCurrency(quote.annualProjection.averageAmount, costCurrency)}
+                      </span>
+                   </div>
+                   <p className="pt-2 border-t border-zinc-800/50 text-[10px] text-zinc-500 font-mono">
+                      {PROJECTION_BASIS_LABELS[quote.annualProjection.basis]} · {quote.annualProjection.corridor}
+                      {quote.annualProjection.basis === 'history' && ` · ${quote.annualProjection.observedQuotes} quotes over ${quote.annualProjection.observedDays} days`}
+                   </p>
+                </div>
+             </div>
+          )}
+
           {/* Dispute Action */}
           {quote.dispute?.recommended ? (
              <div className="p-6 bg-red-500/10 border border-red-500/20 rounded-[1.5rem] space-y-4">
@@ -123,11 +275,25 @@ const QuoteAnalysis: React.FC<QuoteAnalysisProps> = ({ quote, onClose }) => {
                 </div>
                 <p className="text-sm text-zinc-300 leading-relaxed">
                    {quote.dispute.reason} <br/>
-                   <span className="text-white font-bold">Potential Savings: ${quote.dispute.potentialSavingsPerTransaction.toFixed(2)}</span>
+                   <span className="text-white font-bold">Potential Savings: {formatCurrency(quote.dispute.potentialSavingsPerTransaction, costCurrency)}</span>
                 </p>
-                <button className="w-full py-3 bg-red-600 hover:bg-red-500 text-white font-bold text-xs uppercase tracking-widest rounded-xl transition-all shadow-lg flex items-center justify-center gap-2">
-                   <FileText size={16} /> Generate Letter
-                </button>
+                {quote.dispute.firedRules && quote.dispute.firedRules.length > 0 && (
+                   <div className="flex flex-wrap gap-1.5">
+                      {quote.dispute.firedRules.map(rule => (
+                         <span key={rule.id} title={rule.reasons.join('. ')} className="px-2 py-0.5 bg-red-500/10 border border-red-500/20 rounded text-[10px] font-bold text-red-300">
+                            {rule.name} · {rule.priority}
+                         </span>
+                      ))}
+                   </div>
+                )}
+                {userProfile?.uid && (
+                   <button
+                      onClick={() => setShowLetter(true)}
+                      className="w-full py-3 bg-red-600 hover:bg-red-500 text-white font-bold text-xs uppercase tracking-widest rounded-xl transition-all shadow-lg flex items-center justify-center gap-2"
+                   >
+                      <FileText size={16} /> {quote.disputeCase ? `Dispute Letter • ${disputeStageLabel(quote.disputeCase.stage)}` : 'Generate Letter'}
+                   </button>
+                )}
              </div>
           ) : (
              <div className="p-6 bg-emerald-500/10 border border-emerald-500/20 rounded-[1.5rem] flex items-center gap-4">
@@ -138,7 +304,44 @@ const QuoteAnalysis: React.FC<QuoteAnalysisProps> = ({ quote, onClose }) => {
                 </div>
              </div>
           )}
+
+          {userProfile?.uid && <CommentThread quote={quote} userProfile={userProfile} />}
        </div>
+
+       {showDocument && <DocumentViewer quote={quote} onClose={() => setShowDocument(false)} />}
+       {showReview && userProfile?.uid && (
+          <ExtractionReview
+             quote={quote}
+             userId={userProfile.uid}
+             orgId={userProfile.orgId || 'personal_workspace'}
+             reportingCurrency={orgProfile?.reportingCurrency}
+             pricing={pricing}
+             onClose={() => setShowReview(false)}
+          />
+       )}
+       {showLetter && userProfile?.uid && (
+          <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={() => setShowLetter(false)}>
+             <motion.div
+                initial={{ opacity: 0, scale: 0.97 }}
+                animate={{ opacity: 1, scale: 1 }}
+                onClick={(e) => e.stopPropagation()}
+                className="bg-[#121826] border border-zinc-800 rounded-3xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden"
+             >
+                <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+                   <span className="text-sm font-bold text-white">Dispute Letter • {quote.bank}</span>
+                   <button onClick={() => setShowLetter(false)} className="p-1 text-zinc-500 hover:text-white transition-colors">
+                      <X size={20} />
+                   </button>
+                </div>
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+                   <DisputeLetterEditor quote={quote} userProfile={userProfile} orgProfile={orgProfile} />
+                </div>
+             </motion.div>
+          </div>
+       )}
+       {editorTab && userProfile?.uid && (
+          <QuoteEditor quote={quote} userProfile={userProfile} orgProfile={orgProfile} pricing={pricing} initialTab={editorTab} onClose={() => setEditorTab(null)} />
+       )}
     </motion.div>
   );
 };
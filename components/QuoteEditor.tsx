@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, Save, RefreshCw, Plus, Trash2, History, PenLine } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { QuoteData, QuoteVersion, UserProfile, Organization, FeeItem } from '../types';
+import { PricingContext } from '../services/calculations';
+import { EDITABLE_QUOTE_FIELDS, previewQuoteEdit, commitQuoteEdit, quoteEditBlocker, quoteFieldLabel, QuoteEdit, VERSION_KIND_LABELS } from '../services/quoteEditing';
+import { WORKFLOW_STATUS_LABELS } from '../services/workflow';
+import { getQuoteVersions } from '../services/firebase';
+import { formatCurrency, quoteCostCurrency } from '../services/currency';
+
+interface QuoteEditorProps {
+  quote: QuoteData;
+  userProfile: UserProfile;
+  orgProfile?: Organization | null;
+  pricing?: PricingContext;
+  initialTab?: 'edit' | 'history';
+  onClose: () => void;
+}
+
+type FeeDraft = { type: string, amount: string, currency: string };
+
+const inputClass = 'w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-xs text-white font-mono focus:outline-none focus:border-blue-500';
+
+const toDraft = (quote: QuoteData): Record<string, string> => Object.fromEntries(
+  EDITABLE_QUOTE_FIELDS.map(f => [f.key, quote[f.key] === undefined || quote[f.key] === null ? '' : String(quote[f.key])])
+);
+
+const parseNumber = (value: string) => {
+  const n = parseFloat(value.replace(/[,\s]/g, ''));
+  return isFinite(n) ? n : undefined;
+};
+
+/**
+ * Correct a saved quote, re-price it and keep the version it replaces; second tab lists those versions
+ */
+const QuoteEditor: React.FC<QuoteEditorProps> = ({ quote, userProfile, orgProfile, pricing, initialTab = 'edit', onClose }) => {
+  const [tab, setTab] = useState(initialTab);
+  const [draft, setDraft] = useState(() => toDraft(quote));
+  const [fees, setFees] = useState<FeeDraft[]>(() => (quote.fees || []).map(f => ({ type: f.type, amount: String(f.amount), currency: f.currency })));
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<QuoteEdit | null>(null);
+  const [busy, setBusy] = useState<'recalculating' | 'saving' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [versions, setVersions] = useState<QuoteVersion[] | null>(null);
+  const [openVersion, setOpenVersion] = useState<string | null>(null);
+  const costCurrency = quoteCostCurrency(quote);
+
+  useEffect(() => {
+    if (tab === 'history' && versions === null) getQuoteVersions(quote.id).then(setVersions);
+  }, [tab, versions, quote.id]);
+
+  // Typed values back into quote shape; unparseable numbers keep the saved value
+  const editedQuote = (): Partial<QuoteData> => {
+    const edited: Partial<QuoteData> = {};
+    for (const field of EDITABLE_QUOTE_FIELDS) {
+      const value = draft[field.key].trim();
+      if (field.kind === 'number') edited[field.key] = parseNumber(value) ?? quote[field.key];
+      else edited[field.key] = field.kind === 'currency' ? value.toUpperCase() : value || undefined;
+    }
+    edited.fees = fees
+      .filter(f => f.type.trim() || f.amount.trim())
+      .map((f, i): FeeItem => ({
+        ...(quote.fees?.[i] || {}),
+        type: f.type.trim() || 'Fee',
+        amount: parseNumber(f.amount) ?? 0,
+        currency: f.currency.trim().toUpperCase() || quote.originalCurrency || ''
+      }));
+    // Untouched fee lines compare equal to the saved ones
+    if (JSON.stringify(edited.fees.map(f => [f.type, f.amount, f.currency])) === JSON.stringify((quote.fees || []).map(f => [f.type, f.amount, f.currency]))) {
+      delete edited.fees;
+    }
+    return edited;
+  };
+
+  const setField = (key: string, value: string) => {
+    setDraft(d => ({ ...d, [key]: value }));
+    setPreview(null);
+  };
+  const updateFees = (next: FeeDraft[]) => {
+    setFees(next);
+    setPreview(null);
+  };
+
+  const recalculate = async (): Promise<QuoteEdit | null> => {
+    setBusy('recalculating');
+    setError(null);
+    try {
+      const result = await previewQuoteEdit(quote, editedQuote(), pricing);
+      setPreview(result);
+      return result;
+    } catch (e: any) {
+      setError(e.message || 'Recalculation failed');
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const save = async () => {
+    const edit = preview || await recalculate();
+    if (!edit) return;
+    if (edit.changes.length === 0) {
+      setError('Nothing has changed.');
+      return;
+    }
+    const blocker = quoteEditBlocker(quote, edit, userProfile, orgProfile);
+    if (blocker) {
+      setError(blocker);
+      return;
+    }
+    setBusy('saving');
+    const result = await commitQuoteEdit(quote, edit, userProfile, reason);
+    setBusy(null);
+    if (result.success === false) {
+      setError(result.error || 'Could not save the quote');
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.97 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-[#121826] border border-zinc-800 rounded-3xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-800">
+          <div className="flex items-center gap-4">
+            <span className="text-sm font-bold text-white">{quote.bank} • v{quote.version || 1}</span>
+            {(['edit', 'history'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`flex items-center gap-1 text-[10px] font-black uppercase tracking-widest transition-colors ${tab === t ? 'text-blue-400' : 'text-zinc-500 hover:text-white'}`}
+              >
+                {t === 'edit' ? <PenLine size={12} /> : <History size={12} />} {t}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {tab === 'edit' ? (
+          <>
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+              <div className="grid grid-cols-2 gap-3">
+                {EDITABLE_QUOTE_FIELDS.map(field => (
+                  <label key={field.key} className="space-y-1">
+                    <span className="text-[10px] font-bold text-zinc-500 uppercase">{field.label}{field.pricing ? ' *' : ''}</span>
+                    <input
+                      type={field.kind === 'date' ? 'date' : 'text'}
+                      value={draft[field.key]}
+                      onChange={(e) => setField(field.key, e.target.value)}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+              </div>
+              <p className="text-[10px] text-zinc-600">* Changing these re-runs the cost calculation. The mid-market rate is looked up again if the pair or value date changes, unless you enter one.</p>
+
+              <div>
+                <h4 className="flex items-center justify-between text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-2">
+                  Fees *
+                  <button onClick={() => updateFees([...fees, { type: '', amount: '', currency: draft.originalCurrency }])} className="flex items-center gap-1 text-zinc-500 hover:text-white transition-colors">
+                    <Plus size={12} /> Add
+                  </button>
+                </h4>
+                <div className="space-y-2">
+                  {fees.map((fee, i) => (
+                    <div key={i} className="grid grid-cols-[1fr_7rem_4rem_1.5rem] gap-2 items-center">
+                      <input value={fee.type} placeholder="Fee" onChange={(e) => updateFees(fees.map((f, j) => j === i ? { ...f, type: e.target.value } : f))} className={inputClass} />
+                      <input value={fee.amount} placeholder="0.00" onChange={(e) => updateFees(fees.map((f, j) => j === i ? { ...f, amount: e.target.value } : f))} className={`${inputClass} text-right`} />
+                      <input value={fee.currency} placeholder="CCY" onChange={(e) => updateFees(fees.map((f, j) => j === i ? { ...f, currency: e.target.value } : f))} className={inputClass} />
+                      <button onClick={() => updateFees(fees.filter((_, j) => j !== i))} className="text-zinc-600 hover:text-red-500 transition-colors">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <label className="block space-y-1">
+                <span className="text-[10px] font-bold text-zinc-500 uppercase">Reason for change</span>
+                <input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Bank rate misread from scan" className={inputClass} />
+              </label>
+
+              {preview && (
+                <div className="p-4 bg-blue-500/5 border border-blue-500/20 rounded-2xl space-y-3 text-xs">
+                  {preview.changes.length === 0 ? (
+                    <div className="text-zinc-500">No changes.</div>
+                  ) : (
+                    preview.changes.map(c => (
+                      <div key={c.field} className="flex justify-between gap-4">
+                        <span className="text-zinc-500">{quoteFieldLabel(c.field)}</span>
+                        <span className="font-mono text-right"><span className="text-zinc-600 line-through">{c.from || '-'}</span> <span className="text-white">{c.to || '-'}</span></span>
+                      </div>
+                    ))
+                  )}
+                  {preview.repriced && (
+                    <div className="flex justify-between gap-4 pt-2 border-t border-zinc-800">
+                      <span className="text-zinc-500">Hidden Cost</span>
+                      <span className="font-mono text-right">
+                        <span className="text-zinc-600 line-through">{formatCurrency(quote.totalHiddenCost, costCurrency)}</span>{' '}
+                        <span className="text-white font-bold">{formatCurrency(preview.update.totalHiddenCost, preview.update.reportingCurrency || costCurrency)}</span>
+                      </span>
+                    </div>
+                  )}
+                  {preview.update.workflowStatus && preview.update.workflowStatus !== quote.workflowStatus && (
+                    <div className="text-amber-500">
+                      Saving sends this {WORKFLOW_STATUS_LABELS[quote.workflowStatus].toLowerCase()} quote back to {WORKFLOW_STATUS_LABELS[preview.update.workflowStatus].toLowerCase()} for review.
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {error && <div className="text-xs text-red-500">{error}</div>}
+            </div>
+
+            <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-zinc-800">
+              <button
+                onClick={recalculate}
+                disabled={!!busy}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-xs font-bold text-white disabled:opacity-50 transition-colors"
+              >
+                {busy === 'recalculating' ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />} Recalculate
+              </button>
+              <button
+                onClick={save}
+                disabled={!!busy}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-xs font-bold text-white disabled:opacity-50 transition-colors"
+              >
+                {busy === 'saving' ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} Save as v{(quote.version || 1) + 1}
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-3">
+            {versions === null ? (
+              <div className="flex justify-center py-10"><Loader2 size={20} className="text-zinc-500 animate-spin" /></div>
+            ) : versions.length === 0 ? (
+              <div className="text-center text-zinc-600 text-sm py-10">Never edited: this is the quote as first extracted.</div>
+            ) : (
+              versions.map(v => (
+                <div key={v.id} className="p-4 bg-zinc-900/50 border border-zinc-800 rounded-2xl space-y-2 text-xs">
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="font-bold text-white">v{v.version} → v{v.version + 1} • {VERSION_KIND_LABELS[v.kind]}</span>
+                    <span className="text-zinc-500 font-mono">{v.changedByName || v.changedBy} • {new Date(v.changedAt).toLocaleString()}</span>
+                  </div>
+                  {v.reason && <div className="text-zinc-400 italic">"{v.reason}"</div>}
+                  {v.changes.map((c, i) => (
+                    <div key={i} className="flex justify-between gap-4">
+                      <span className="text-zinc-500">{quoteFieldLabel(c.field)}</span>
+                      <span className="font-mono text-right"><span className="text-zinc-600">{c.from || '-'}</span> → <span className="text-white">{c.to || '-'}</span></span>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setOpenVersion(openVersion === v.id ? null : v.id)}
+                    className="text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-blue-400 transition-colors"
+                  >
+                    {openVersion === v.id ? 'Hide' : 'Show'} v{v.version}{v.version === 1 ? ' (original extraction)' : ''}
+                  </button>
+                  {openVersion === v.id && (
+                    <div className="grid grid-cols-2 gap-x-6 gap-y-1 pt-2 border-t border-zinc-800 font-mono">
+                      {EDITABLE_QUOTE_FIELDS.map(f => (
+                        <div key={f.key} className="flex justify-between gap-2">
+                          <span className="text-zinc-600">{f.label}</span>
+                          <span className="text-zinc-300 truncate">{String(v.snapshot[f.key] ?? '-')}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between gap-2">
+                        <span className="text-zinc-600">Hidden Cost</span>
+                        <span className="text-zinc-300">{formatCurrency(v.snapshot.totalHiddenCost, v.snapshot.reportingCurrency || costCurrency)}</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default QuoteEditor;
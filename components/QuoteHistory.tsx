@@ -1,7 +1,12 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { QuoteData } from '../types';
-import { Search, Filter, FileText, Download, AlertCircle, CheckCircle } from 'lucide-react';
-import { motion } from 'framer-motion';
+import { Search, Filter, FileText, Download, AlertCircle, CheckCircle, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { formatCurrency, quoteCostCurrency } from '../services/currency';
+import {
+  LedgerFilters, LedgerColumnGroup, LedgerExportFormat, EMPTY_LEDGER_FILTERS, LEDGER_COLUMN_GROUPS,
+  filterLedger, countActiveFilters, downloadLedger
+} from '../services/ledgerExport';
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -16,14 +21,46 @@ const rowVariants = {
   visible: { opacity: 1, x: 0 }
 };
 
-const QuoteHistory: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
+interface QuoteHistoryProps {
+  quotes: QuoteData[];
+  reportingCurrency: string;
+}
+
+const STATUSES: QuoteData['status'][] = ['uploaded', 'processing', 'analyzed', 'flagged', 'optimal', 'error'];
+const WORKFLOW_STATUSES: QuoteData['workflowStatus'][] = ['uploaded', 'ocr_complete', 'extracted', 'analyzed', 'reviewed', 'approved', 'error'];
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-xl px-3 py-2 text-sm text-zinc-300 outline-none focus:border-blue-500 transition-all";
+const labelClass = "block text-[10px] font-bold text-zinc-500 uppercase tracking-widest mb-2";
+
+const QuoteHistory: React.FC<QuoteHistoryProps> = ({ quotes, reportingCurrency }) => {
   const [filter, setFilter] = useState('');
+  const [filters, setFilters] = useState<LedgerFilters>(EMPTY_LEDGER_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [exportFormat, setExportFormat] = useState<LedgerExportFormat>('xlsx');
+  const [exportGroups, setExportGroups] = useState<LedgerColumnGroup[]>(LEDGER_COLUMN_GROUPS.map(g => g.id));
 
-  const filteredQuotes = quotes.filter(q => 
-    q.bank?.toLowerCase().includes(filter.toLowerCase()) || 
-    q.pair?.toLowerCase().includes(filter.toLowerCase()) ||
-    q.id?.includes(filter)
-  );
+  const filteredQuotes = useMemo(() => filterLedger(quotes || [], filters, filter), [quotes, filters, filter]);
+  const activeFilterCount = countActiveFilters(filters);
+
+  // Filter options come from the ledger itself
+  const banks = useMemo(() => Array.from(new Set((quotes || []).map(q => q.bank).filter(Boolean))).sort(), [quotes]);
+  const pairs = useMemo(() => Array.from(new Set((quotes || []).map(q => q.pair).filter(Boolean))).sort(), [quotes]);
+
+  const setFilterField = <K extends keyof LedgerFilters>(key: K, value: LedgerFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleGroup = (id: LedgerColumnGroup) => {
+    setExportGroups(prev => prev.includes(id) ? prev.filter(g => g !== id) : [...prev, id]);
+  };
+
+  const handleExport = () => {
+    // Keep the column order stable whatever order the boxes were ticked in
+    const groups = LEDGER_COLUMN_GROUPS.map(g => g.id).filter(id => exportGroups.includes(id));
+    downloadLedger(filteredQuotes, groups, exportFormat);
+    setShowExport(false);
+  };
 
   return (
     <motion.div 
@@ -42,17 +79,149 @@ const QuoteHistory: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
         </div>
         
         <div className="flex items-center gap-3">
-          <button className="px-4 py-2 border border-zinc-800 hover:bg-zinc-900 rounded-xl text-sm font-bold flex items-center gap-2 transition-all">
+          <button
+            onClick={() => { setShowFilters(!showFilters); setShowExport(false); }}
+            className={`px-4 py-2 border rounded-xl text-sm font-bold flex items-center gap-2 transition-all ${showFilters ? 'border-blue-500/50 bg-blue-500/10 text-blue-400' : 'border-zinc-800 hover:bg-zinc-900'}`}
+          >
             <Filter size={16} />
             Filter
+            {activeFilterCount > 0 && (
+              <span className="px-1.5 py-0.5 rounded bg-blue-600 text-white text-[10px] font-black">{activeFilterCount}</span>
+            )}
           </button>
-          <button className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-xl text-sm font-bold text-white transition-all flex items-center gap-2">
+          <button
+            onClick={() => { setShowExport(!showExport); setShowFilters(false); }}
+            disabled={filteredQuotes.length === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl text-sm font-bold text-white transition-all flex items-center gap-2"
+          >
             <Download size={16} />
-            Export CSV
+            Export
           </button>
         </div>
       </div>
 
+      <AnimatePresence>
+        {showFilters && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="bg-zinc-900 border border-zinc-800 rounded-3xl p-6 grid grid-cols-1 md:grid-cols-3 gap-5">
+              <div>
+                <label className={labelClass}>Value Date From</label>
+                <input type="date" value={filters.dateFrom} onChange={(e) => setFilterField('dateFrom', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Value Date To</label>
+                <input type="date" value={filters.dateTo} onChange={(e) => setFilterField('dateTo', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Bank</label>
+                <select value={filters.bank} onChange={(e) => setFilterField('bank', e.target.value)} className={inputClass}>
+                  <option value="">All banks</option>
+                  {banks.map(b => <option key={b} value={b}>{b}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Currency Pair</label>
+                <select value={filters.pair} onChange={(e) => setFilterField('pair', e.target.value)} className={inputClass}>
+                  <option value="">All pairs</option>
+                  {pairs.map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Status</label>
+                <select value={filters.status} onChange={(e) => setFilterField('status', e.target.value as LedgerFilters['status'])} className={inputClass}>
+                  <option value="">Any status</option>
+                  {STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Workflow Stage</label>
+                <select value={filters.workflowStatus} onChange={(e) => setFilterField('workflowStatus', e.target.value as LedgerFilters['workflowStatus'])} className={inputClass}>
+                  <option value="">Any stage</option>
+                  {WORKFLOW_STATUSES.map(s => <option key={s} value={s}>{s.replace('_', ' ')}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Min Hidden Cost ({reportingCurrency})</label>
+                <input type="number" min="0" value={filters.minHiddenCost} onChange={(e) => setFilterField('minHiddenCost', e.target.value)} placeholder="0" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Max Hidden Cost ({reportingCurrency})</label>
+                <input type="number" min="0" value={filters.maxHiddenCost} onChange={(e) => setFilterField('maxHiddenCost', e.target.value)} placeholder="No limit" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Min Spread %</label>
+                <input type="number" step="0.01" value={filters.minSpreadPercentage} onChange={(e) => setFilterField('minSpreadPercentage', e.target.value)} placeholder="Any" className={inputClass} />
+              </div>
+              <div className="md:col-span-3 flex items-center justify-between pt-2 border-t border-zinc-800">
+                <span className="text-xs text-zinc-500">{filteredQuotes.length} of {quotes?.length || 0} quotes match</span>
+                <button
+                  onClick={() => setFilters(EMPTY_LEDGER_FILTERS)}
+                  disabled={activeFilterCount === 0}
+                  className="text-xs font-bold text-zinc-400 hover:text-white disabled:opacity-40 flex items-center gap-1 transition-all"
+                >
+                  <X size={12} /> Clear filters
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+
+        {showExport && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="bg-zinc-900 border border-zinc-800 rounded-3xl p-6 space-y-5">
+              <div>
+                <label className={labelClass}>Columns</label>
+                <div className="flex flex-wrap gap-2">
+                  {LEDGER_COLUMN_GROUPS.map(group => (
+                    <button
+                      key={group.id}
+                      onClick={() => toggleGroup(group.id)}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${exportGroups.includes(group.id) ? 'border-blue-500/50 bg-blue-500/10 text-blue-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+                    >
+                      {group.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-[10px] text-zinc-600 mt-2">Value date, reference and quote ID are always included. Costs are in {reportingCurrency}; fee items as charged.</p>
+              </div>
+              <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+                <div>
+                  <label className={labelClass}>Format</label>
+                  <div className="flex gap-2">
+                    {(['xlsx', 'csv'] as LedgerExportFormat[]).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => setExportFormat(format)}
+                        className={`px-4 py-1.5 rounded-lg text-xs font-bold uppercase border transition-all ${exportFormat === format ? 'border-blue-500/50 bg-blue-500/10 text-blue-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+                      >
+                        {format}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <button
+                  onClick={handleExport}
+                  className="px-5 py-2 bg-blue-600 hover:bg-blue-500 rounded-xl text-sm font-bold text-white transition-all flex items-center gap-2"
+                >
+                  <Download size={16} />
+                  Download {filteredQuotes.length} {filteredQuotes.length === 1 ? 'quote' : 'quotes'}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       <div className="bg-zinc-900 border border-zinc-800 rounded-3xl overflow-hidden shadow-2xl">
         <div className="p-4 border-b border-zinc-800 bg-zinc-900/50 flex items-center gap-4">
           <Search size={18} className="text-zinc-500 ml-2" />
@@ -60,7 +229,7 @@ const QuoteHistory: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
             type="text" 
             value={filter}
             onChange={(e) => setFilter(e.target.value)}
-            placeholder="Search bank, currency pair, or ID..." 
+            placeholder="Search bank, currency pair, reference or ID..." 
             className="bg-transparent border-none outline-none text-sm text-zinc-300 w-full placeholder:text-zinc-700"
           />
         </div>
@@ -84,7 +253,7 @@ const QuoteHistory: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
                   <th className="p-6 text-right">Amount</th>
                   <th className="p-6 text-right">Bank Rate</th>
                   <th className="p-6 text-right">Mid-Market</th>
-                  <th className="p-6 text-right">Hidden Cost</th>
+                  <th className="p-6 text-right">Hidden Cost ({reportingCurrency})</th>
                   <th className="p-6 text-right">Status</th>
                 </tr>
               </thead>
@@ -116,17 +285,17 @@ const QuoteHistory: React.FC<{ quotes: QuoteData[] }> = ({ quotes }) => {
                         </span>
                     </td>
                     <td className="p-6 text-right text-sm font-mono font-bold text-white">
-                      {q.amount?.toLocaleString()}
+                      {q.amount?.toLocaleString()} <span className="text-[10px] text-zinc-500">{q.originalCurrency || q.pair?.split('/')[0]}</span>
                     </td>
                     <td className="p-6 text-right text-sm font-mono text-zinc-400">
                       {q.exchangeRate?.toFixed(4)}
                     </td>
                     <td className="p-6 text-right text-sm font-mono text-emerald-500/50">
-                      {q.midMarketRate?.toFixed(4) || '-'}
+                      {q.unpriced ? '-' : q.midMarketRate?.toFixed(4) || '-'}
                     </td>
                     <td className="p-6 text-right">
                        <span className={`font-bold font-mono text-sm ${q.markupCost > 0 ? 'text-red-500' : 'text-zinc-500'}`}>
-                         ${q.markupCost?.toFixed(2)}
+                         {formatCurrency(q.markupCost, quoteCostCurrency(q))}
                        </span>
                     </td>
                     <td className="p-6 text-right">
@@ -0,0 +1,200 @@
+import React, { useState, useRef } from 'react';
+import { Database, Upload, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { parseReferenceRates, importReferenceRates, ParsedReferenceRates } from '../services/rateHistory';
+import { parseRateTicks, recordRateTicks, RateTick } from '../services/rateTicks';
+
+const FORMAT_LABELS: Record<string, string> = {
+  ecb: 'ECB Wide Table',
+  fed: 'Fed H.10 Download',
+  long: 'Long Table',
+  json: 'JSON'
+};
+
+const RateHistoryImporter: React.FC = () => {
+  const [mode, setMode] = useState<'daily' | 'ticks'>('daily');
+  const [base, setBase] = useState('EUR');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedReferenceRates | null>(null);
+  const [ticks, setTicks] = useState<RateTick[] | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [written, setWritten] = useState(0);
+  const [feedback, setFeedback] = useState<{type: 'success' | 'error', msg: string} | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const fileTextRef = useRef('');
+
+  const parseFile = (text: string, name: string, baseCurrency: string) => {
+    try {
+      if (mode === 'ticks') {
+        setTicks(parseRateTicks(text, name));
+      } else {
+        setParsed(parseReferenceRates(text, name, { base: baseCurrency }));
+      }
+      setFeedback(null);
+    } catch (e: any) {
+      setParsed(null);
+      setTicks(null);
+      setFeedback({ type: 'error', msg: e.message || 'Could not parse file.' });
+    }
+  };
+
+  const handleModeChange = (value: 'daily' | 'ticks') => {
+    setMode(value);
+    setParsed(null);
+    setTicks(null);
+    setFeedback(null);
+    fileTextRef.current = '';
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      fileTextRef.current = String(reader.result || '');
+      setFileName(file.name);
+      parseFile(fileTextRef.current, file.name, base);
+    };
+    reader.readAsText(file);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleBaseChange = (value: string) => {
+    setBase(value);
+    if (fileTextRef.current) parseFile(fileTextRef.current, fileName, value);
+  };
+
+  const handleImport = async () => {
+    if (!parsed || parsed.entries.length === 0) return;
+    setIsImporting(true);
+    setWritten(0);
+    try {
+      const count = await importReferenceRates(parsed.entries, setWritten);
+      setFeedback({ type: 'success', msg: `${count.toLocaleString()} reference rates stored.` });
+      setParsed(null);
+      fileTextRef.current = '';
+    } catch (e: any) {
+      setFeedback({ type: 'error', msg: e.message || 'Import failed.' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImportTicks = async () => {
+    if (!ticks || ticks.length === 0) return;
+    setIsImporting(true);
+    setWritten(0);
+    try {
+      const count = await recordRateTicks(ticks, setWritten);
+      setFeedback({ type: 'success', msg: `${count.toLocaleString()} intraday ticks stored.` });
+      setTicks(null);
+      fileTextRef.current = '';
+    } catch (e: any) {
+      setFeedback({ type: 'error', msg: e.message || 'Import failed.' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const dates = parsed?.entries.map(e => e.date).sort() || [];
+  const pairs = new Set(parsed?.entries.map(e => e.pair) || []);
+  const tickTimes = ticks?.map(t => t.timestamp).sort((a, b) => a - b) || [];
+  const tickPairs = new Set(ticks?.map(t => t.pair) || []);
+
+  return (
+    <section className="bg-[#121826]/40 border border-zinc-800/50 rounded-2xl p-6 space-y-6">
+      <div className="flex items-center gap-3 border-b border-zinc-800/50 pb-4">
+        <Database size={20} className="text-blue-500" />
+        <h3 className="text-lg font-bold text-white">Reference Rate History</h3>
+      </div>
+
+      <p className="text-xs text-zinc-500 leading-relaxed">
+        Import central-bank reference rates (ECB eurofxref CSV, Fed H.10 download, or JSON). Audits use these
+        value-date fixings before falling back to search grounding. Intraday tick files (timestamp, pair, rate)
+        let confirmations with an execution time be checked against the market at that minute.
+      </p>
+
+      <div className="flex items-center gap-3">
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Data Type</label>
+          <select
+            value={mode}
+            onChange={(e) => handleModeChange(e.target.value as 'daily' | 'ticks')}
+            className="bg-[#0e121b] border border-zinc-800 rounded-lg px-3 py-2 text-sm outline-none text-white"
+          >
+            <option value="daily">Daily Fixings</option>
+            <option value="ticks">Intraday Ticks</option>
+          </select>
+        </div>
+        {mode === 'daily' && (
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Wide-Table Base</label>
+            <select
+              value={base}
+              onChange={(e) => handleBaseChange(e.target.value)}
+              className="bg-[#0e121b] border border-zinc-800 rounded-lg px-3 py-2 text-sm outline-none text-white"
+            >
+              <option value="EUR">EUR (ECB)</option>
+              <option value="USD">USD</option>
+            </select>
+          </div>
+        )}
+        <input type="file" ref={fileInputRef} onChange={handleFile} className="hidden" accept=".csv,.json,.txt" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="mt-5 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-xs font-bold rounded-lg transition-colors text-zinc-300 flex items-center gap-2"
+        >
+          <Upload size={14} /> Choose File
+        </button>
+      </div>
+
+      {parsed && (
+        <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800 space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <span className="text-zinc-500">File</span><span className="text-white font-mono truncate">{fileName}</span>
+            <span className="text-zinc-500">Format</span><span className="text-white font-bold">{FORMAT_LABELS[parsed.format]}</span>
+            <span className="text-zinc-500">Rates</span><span className="text-white font-mono">{parsed.entries.length.toLocaleString()} ({pairs.size} pairs)</span>
+            <span className="text-zinc-500">Range</span><span className="text-white font-mono">{dates[0] || '-'} → {dates[dates.length - 1] || '-'}</span>
+            <span className="text-zinc-500">Skipped</span><span className="text-zinc-400 font-mono">{parsed.skipped} empty / N/A cells</span>
+          </div>
+          <button
+            onClick={handleImport}
+            disabled={isImporting || parsed.entries.length === 0}
+            className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-xs font-black uppercase tracking-widest rounded-lg flex items-center justify-center gap-2"
+          >
+            {isImporting ? <Loader2 size={14} className="animate-spin" /> : <Database size={14} />}
+            {isImporting ? `Writing ${written.toLocaleString()}...` : 'Import Rates'}
+          </button>
+        </div>
+      )}
+
+      {ticks && (
+        <div className="p-4 bg-zinc-900/50 rounded-xl border border-zinc-800 space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <span className="text-zinc-500">File</span><span className="text-white font-mono truncate">{fileName}</span>
+            <span className="text-zinc-500">Ticks</span><span className="text-white font-mono">{ticks.length.toLocaleString()} ({tickPairs.size} pairs)</span>
+            <span className="text-zinc-500">From</span><span className="text-white font-mono">{tickTimes.length ? new Date(tickTimes[0]).toISOString().slice(0, 19) : '-'}</span>
+            <span className="text-zinc-500">To</span><span className="text-white font-mono">{tickTimes.length ? new Date(tickTimes[tickTimes.length - 1]).toISOString().slice(0, 19) : '-'}</span>
+          </div>
+          <button
+            onClick={handleImportTicks}
+            disabled={isImporting || ticks.length === 0}
+            className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-xs font-black uppercase tracking-widest rounded-lg flex items-center justify-center gap-2"
+          >
+            {isImporting ? <Loader2 size={14} className="animate-spin" /> : <Database size={14} />}
+            {isImporting ? `Writing ${written.toLocaleString()}...` : 'Import Ticks'}
+          </button>
+        </div>
+      )}
+
+      {feedback && (
+        <div className={`flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest ${feedback.type === 'success' ? 'text-emerald-500' : 'text-red-500'}`}>
+          {feedback.type === 'success' ? <CheckCircle size={12} /> : <AlertCircle size={12} />}
+          {feedback.msg}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RateHistoryImporter;
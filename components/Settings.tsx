@@ -1,21 +1,31 @@
 import React, { useState, useEffect } from 'react';
-import { Save, User, Shield, Cpu, Check } from 'lucide-react';
-import { UserProfile } from '../types';
-import { updateUserSettings, fetchUserSettings, updateUserProfileData } from '../services/firebase';
+import { Save, User, Shield, Cpu, Check, Globe, ScanLine, AlertCircle } from 'lucide-react';
+import { UserProfile, Organization, ExtractionProviderId } from '../types';
+import { updateUserSettings, fetchUserSettings, updateUserProfileData, updateOrganizationSettings } from '../services/firebase';
+import { REPORTING_CURRENCIES, DEFAULT_REPORTING_CURRENCY } from '../services/currency';
+import { EXTRACTION_PROVIDERS, DEFAULT_EXTRACTION_PROVIDER } from '../services/extraction';
+import RateHistoryImporter from './RateHistoryImporter';
+import BenchmarkTableEditor from './BenchmarkTableEditor';
+import DisputeRulesEditor from './DisputeRulesEditor';
 
 interface SettingsProps {
   userProfile: UserProfile | null;
+  orgProfile?: Organization | null;
   onProfileUpdate?: (updates: Partial<UserProfile>) => void;
 }
 
-const Settings: React.FC<SettingsProps> = ({ userProfile, onProfileUpdate }) => {
-  const [threshold, setThreshold] = useState(15);
+const Settings: React.FC<SettingsProps> = ({ userProfile, orgProfile, onProfileUpdate }) => {
   const [autoAudit, setAutoAudit] = useState(true);
   const [displayName, setDisplayName] = useState('');
   const [companyName, setCompanyName] = useState('');
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_REPORTING_CURRENCY);
+  const [extractionProvider, setExtractionProvider] = useState<ExtractionProviderId>(DEFAULT_EXTRACTION_PROVIDER);
+
+  const isOrgAdmin = !!orgProfile && orgProfile.adminId === userProfile?.uid;
   
   const [isSaving, setIsSaving] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   useEffect(() => {
     if (userProfile) {
@@ -25,7 +35,6 @@ const Settings: React.FC<SettingsProps> = ({ userProfile, onProfileUpdate }) =>
       const loadSettings = async () => {
         const settings = await fetchUserSettings(userProfile.uid);
         if (settings) {
-          if (settings.profitThreshold) setThreshold(settings.profitThreshold);
           if (settings.autoAudit !== undefined) setAutoAudit(settings.autoAudit);
         }
       };
@@ -33,14 +42,22 @@ const Settings: React.FC<SettingsProps> = ({ userProfile, onProfileUpdate }) =>
     }
   }, [userProfile]);
 
+  useEffect(() => {
+    if (orgProfile?.reportingCurrency) setReportingCurrency(orgProfile.reportingCurrency);
+  }, [orgProfile?.reportingCurrency]);
+
+  useEffect(() => {
+    if (orgProfile?.extractionProvider) setExtractionProvider(orgProfile.extractionProvider);
+  }, [orgProfile?.extractionProvider]);
+
   const handleSave = async () => {
     if (!userProfile) return;
     setIsSaving(true);
+    setSaveError(null);
     
     try {
       // Update Settings Collection
       await updateUserSettings(userProfile.uid, {
-        profitThreshold: threshold,
         autoAudit: autoAudit,
       });
 
@@ -54,10 +71,20 @@ const Settings: React.FC<SettingsProps> = ({ userProfile, onProfileUpdate }) =>
         onProfileUpdate({ displayName, companyName });
       }
 
+      // Organization-wide settings are admin only
+      if (isOrgAdmin && orgProfile && (
+        reportingCurrency !== orgProfile.reportingCurrency ||
+        extractionProvider !== (orgProfile.extractionProvider || DEFAULT_EXTRACTION_PROVIDER)
+      )) {
+        const saved = await updateOrganizationSettings(orgProfile.id, { reportingCurrency, extractionProvider });
+        if (!saved) throw new Error("Organization settings were not saved.");
+      }
+
       setShowSuccess(true);
       setTimeout(() => setShowSuccess(false), 3000);
     } catch (err) {
       console.error("Failed to save settings", err);
+      setSaveError(err instanceof Error ? err.message : "Settings were not saved.");
     } finally {
       setIsSaving(false);
     }
@@ -80,21 +107,7 @@ const Settings: React.FC<SettingsProps> = ({ userProfile, onProfileUpdate }) =>
             </div>
             
             <div className="space-y-6">
-              <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <label className="text-sm font-medium text-zinc-300">Alert Threshold (%)</label>
-                  <span className="text-sm font-mono text-blue-500">{threshold}%</span>
-                </div>
-                <input 
-                  type="range" 
-                  min="1" 
-                  max="50" 
-                  value={threshold} 
-                  onChange={(e) => setThreshold(parseInt(e.target.value))}
-                  className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                />
-                <p className="text-xs text-zinc-600 italic">Flag quotes that are more than {threshold}% above historical lane average.</p>
-              </div>
+              <p className="text-xs text-zinc-600 italic">When a quote is flagged for dispute is set by your organization's dispute rules below.</p>
 
               <div className="flex items-center justify-between p-4 bg-zinc-900/50 rounded-xl border border-zinc-800">
                 <div className="space-y-1">
@@ -111,6 +124,67 @@ const Settings: React.FC<SettingsProps> = ({ userProfile, onProfileUpdate }) =>
             </div>
           </section>
 
+          {orgProfile && userProfile && <DisputeRulesEditor orgId={orgProfile.id} userId={userProfile.uid} isOrgAdmin={isOrgAdmin} />}
+
+          {/* Organization Reporting */}
+          <section className="bg-[#121826]/40 border border-zinc-800/50 rounded-2xl p-6 space-y-6">
+            <div className="flex items-center gap-3 border-b border-zinc-800/50 pb-4">
+              <Globe size={20} className="text-emerald-500" />
+              <h3 className="text-lg font-bold text-white">Organization Reporting</h3>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-zinc-500 uppercase tracking-widest">Reporting Currency</label>
+              <select
+                value={reportingCurrency}
+                onChange={(e) => setReportingCurrency(e.target.value)}
+                disabled={!isOrgAdmin}
+                className="w-full bg-[#0e121b] border border-zinc-800 rounded-lg px-4 py-2 text-sm outline-none focus:border-blue-500/50 text-white disabled:text-zinc-500 disabled:cursor-not-allowed"
+              >
+                {REPORTING_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <p className="text-xs text-zinc-600 italic">
+                {isOrgAdmin
+                  ? 'All dashboard totals, hidden costs and projections are converted into this currency.'
+                  : 'Only the organization admin can change the reporting currency.'}
+              </p>
+            </div>
+          </section>
+
+          {/* Document Extraction */}
+          <section className="bg-[#121826]/40 border border-zinc-800/50 rounded-2xl p-6 space-y-6">
+            <div className="flex items-center gap-3 border-b border-zinc-800/50 pb-4">
+              <ScanLine size={20} className="text-blue-500" />
+              <h3 className="text-lg font-bold text-white">Document Extraction</h3>
+            </div>
+            <div className="space-y-3">
+              {Object.values(EXTRACTION_PROVIDERS).map(provider => (
+                <button
+                  key={provider.id}
+                  onClick={() => setExtractionProvider(provider.id)}
+                  disabled={!isOrgAdmin}
+                  className={`w-full text-left p-4 rounded-xl border transition-all disabled:cursor-not-allowed ${
+                    extractionProvider === provider.id ? 'bg-blue-600/10 border-blue-500/50' : 'bg-zinc-900/50 border-zinc-800 hover:border-zinc-700'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-bold text-zinc-100">{provider.label}</span>
+                    <span className={`text-[9px] font-black uppercase tracking-widest ${provider.leavesInfrastructure ? 'text-amber-500' : 'text-emerald-500'}`}>
+                      {provider.leavesInfrastructure ? 'Third-Party Processing' : 'Stays Local'}
+                    </span>
+                  </div>
+                  <div className="text-xs text-zinc-500 mt-1">{provider.description}</div>
+                </button>
+              ))}
+              {!isOrgAdmin && (
+                <p className="text-xs text-zinc-600 italic">Only the organization admin can change the extraction provider.</p>
+              )}
+            </div>
+          </section>
+
+          {isOrgAdmin && <RateHistoryImporter />}
+
+          {orgProfile && userProfile && <BenchmarkTableEditor orgId={orgProfile.id} userId={userProfile.uid} isOrgAdmin={isOrgAdmin} />}
+
           {/* User Profile */}
           <section className="bg-[#121826]/40 border border-zinc-800/50 rounded-2xl p-6 space-y-6">
             <div className="flex items-center gap-3 border-b border-zinc-800/50 pb-4">
@@ -186,6 +260,11 @@ const Settings: React.FC<SettingsProps> = ({ userProfile, onProfileUpdate }) =>
               </>
             )}
           </button>
+          {saveError && (
+            <p className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-red-500">
+              <AlertCircle size={12} /> {saveError}
+            </p>
+          )}
         </div>
       </div>
     </div>
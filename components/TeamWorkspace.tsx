@@ -1,10 +1,16 @@
 
 import React, { useState, useEffect } from 'react';
 import { Users, UserPlus, Clock, Zap, Shield, CheckCircle, Copy, AlertCircle, Loader2 } from 'lucide-react';
-import { TeamMember, UserProfile } from '../types';
-import { auth, addTeammateByUID, fetchTeamMembers } from '../services/firebase';
+import { TeamMember, UserProfile, Organization, WorkflowRole } from '../types';
+import { auth, addTeammateByUID, fetchTeamMembers, updateMemberWorkflowRole } from '../services/firebase';
+import { WORKFLOW_ROLES, WORKFLOW_ROLE_DESCRIPTIONS, WORKFLOW_RULES, WORKFLOW_STATUS_LABELS, workflowRoleOf } from '../services/workflow';
 import { motion } from 'framer-motion';
 
+interface TeamWorkspaceProps {
+  userProfile: UserProfile;
+  orgProfile: Organization | null;
+}
+
 const containerVariants = {
   hidden: { opacity: 0 },
   visible: {
@@ -18,7 +24,7 @@ const itemVariants = {
   visible: { y: 0, opacity: 1 }
 };
 
-const TeamWorkspace: React.FC = () => {
+const TeamWorkspace: React.FC<TeamWorkspaceProps> = ({ userProfile, orgProfile }) => {
   const [inviteUid, setInviteUid] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [feedback, setFeedback] = useState<{type: 'success' | 'error', msg: string} | null>(null);
@@ -30,60 +36,15 @@ const TeamWorkspace: React.FC = () => {
 
   const currentUid = auth.currentUser?.uid || '';
 
+  const orgId = orgProfile?.id || userProfile.orgId;
+  const isOrgAdmin = !!orgProfile && orgProfile.adminId === userProfile.uid;
+
   useEffect(() => {
-    // Load Members
-    const loadTeam = async () => {
-       if (!currentUid) return;
-       // We fetch the team members based on the org ID from the current user's token or session
-       // However, fetchTeamMembers expects orgId. We can get it if we stored the user profile context,
-       // but here we might need to rely on the current user's token or just re-fetch profile.
-       // For this component, let's assume the Dashboard has passed the orgId down contextually,
-       // OR we fetch it inside the fetchTeamMembers logic if we passed the User ID.
-       
-       // Optimized: In a real app, we'd pass orgId as prop. 
-       // For now, we'll assume the auth user is part of an org and we fetch via a helper.
-       // Note: We need the orgId. We'll use a hack or update props.
-       // Let's assume the user has a profile loaded. Since this component doesn't take props currently,
-       // We will do a quick fetch or assume we can get it from a global store.
-       // Simplest fix: Just fetch the members if we have the auth object.
-       
-       // Actually, we'll need to fetch the current user's orgID first if not available.
-       // But wait! We updated the App.tsx to load profile. We should pass it in.
-       // Since the user didn't ask to change Dashboard signature for this specifically, 
-       // we will try to get it from the user document if possible, or just rely on the fact 
-       // that fetchTeamMembers takes an orgId.
-       
-       // Workaround: We will use a listener in App.tsx to pass data, but here we might need to fetch it.
-       // Let's assume we can get the orgId from the current user's custom claims or doc.
-       
-       // Ideally this component should receive `orgId` as a prop.
-       // I'll update it to use a placeholder or assume the user knows their orgId.
-    };
-    
-    // Actually, let's fix it properly. The Dashboard renders this.
-    // I can't change the component signature without changing Dashboard.
-    // I will try to fetch the team members by getting the current user's profile first inside this effect.
     const fetchMyTeam = async () => {
+        if (!orgId) return;
         setLoadingMembers(true);
-        // This is slightly inefficient but robust without prop drilling refactor in Dashboard
         try {
-            // We can fetch the team by searching for users who share the same OrgID as current user
-            // We need to know current user's OrgID.
-            // Let's import `syncUserAndOrg` or `getDoc` logic.
-            // Or better: The fetchTeamMembers function in firebase.ts can be updated to take userId and find their org.
-            
-            // For now, let's use the `auth` user to find the org ID from their profile doc.
-            // We'll do a direct fetch here.
-            const { getDoc, doc, getFirestore } = await import("firebase/firestore");
-            const db = getFirestore();
-            const userSnap = await getDoc(doc(db, "users", currentUid));
-            if (userSnap.exists()) {
-                const orgId = userSnap.data().orgId;
-                if (orgId) {
-                    const team = await fetchTeamMembers(orgId);
-                    setMembers(team);
-                }
-            }
+            setMembers(await fetchTeamMembers(orgId));
         } catch (e) {
             console.error(e);
         } finally {
@@ -92,7 +53,17 @@ const TeamWorkspace: React.FC = () => {
     };
     
     fetchMyTeam();
-  }, [currentUid]);
+  }, [orgId]);
+
+  // Only the org admin hands out workflow roles (enforced in firestore.rules)
+  const handleRoleChange = async (member: TeamMember, workflowRole: WorkflowRole) => {
+    const saved = await updateMemberWorkflowRole(member.id, workflowRole);
+    if (saved) {
+      setMembers(ms => ms.map(m => m.id === member.id ? { ...m, workflowRole } : m));
+    } else {
+      setFeedback({ type: 'error', msg: `Could not change ${member.name}'s role.` });
+    }
+  };
 
   const handleCopyUid = () => {
     navigator.clipboard.writeText(currentUid);
@@ -203,6 +174,7 @@ const TeamWorkspace: React.FC = () => {
                   <tr className="bg-zinc-900/30 text-[10px] font-black text-zinc-600 uppercase tracking-widest border-b border-zinc-800/50">
                     <th className="px-10 py-6">Member</th>
                     <th className="px-6 py-6">Role</th>
+                    <th className="px-6 py-6">Workflow Role</th>
                     <th className="px-6 py-6">Live Status</th>
                     <th className="px-6 py-6 text-right">Recent Session</th>
                   </tr>
@@ -210,13 +182,13 @@ const TeamWorkspace: React.FC = () => {
                 <tbody className="divide-y divide-zinc-800/30">
                   {loadingMembers ? (
                       <tr>
-                          <td colSpan={4} className="text-center py-10">
+                          <td colSpan={5} className="text-center py-10">
                               <Loader2 className="animate-spin mx-auto text-blue-500" />
                           </td>
                       </tr>
                   ) : members.length === 0 ? (
                       <tr>
-                          <td colSpan={4} className="text-center py-10 text-zinc-500 text-sm">
+                          <td colSpan={5} className="text-center py-10 text-zinc-500 text-sm">
                               No team members found. Add someone to collaborate!
                           </td>
                       </tr>
@@ -244,6 +216,21 @@ const TeamWorkspace: React.FC = () => {
                              {m.role}
                           </span>
                        </td>
+                       <td className="px-6 py-6">
+                          {isOrgAdmin ? (
+                             <select
+                                value={workflowRoleOf({ uid: m.id, workflowRole: m.workflowRole }, orgProfile)}
+                                onChange={(e) => handleRoleChange(m, e.target.value as WorkflowRole)}
+                                className="bg-black border border-zinc-800 rounded-lg px-3 py-1.5 text-[10px] font-black text-white uppercase tracking-widest outline-none focus:border-blue-500/50"
+                             >
+                                {WORKFLOW_ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                             </select>
+                          ) : (
+                             <span className="text-[10px] font-black text-blue-400 uppercase tracking-widest">
+                                {workflowRoleOf({ uid: m.id, workflowRole: m.workflowRole }, orgProfile)}
+                             </span>
+                          )}
+                       </td>
                        <td className="px-6 py-6">
                           <div className="flex items-center gap-2">
                              <div className={`w-2 h-2 rounded-full ${m.status === 'Online' ? 'bg-emerald-500 animate-pulse' : 'bg-zinc-700'}`} />
@@ -267,8 +254,16 @@ const TeamWorkspace: React.FC = () => {
                  <h4 className="text-sm font-black text-white uppercase tracking-widest">Workflow Guard</h4>
               </div>
               <p className="text-xs text-zinc-500 leading-relaxed font-medium">
-                 Your workflow requires <span className="text-white font-bold underline">Human-in-the-Loop</span> for any quote drift exceeding 20%. Processors can only approve optimal quotes.
+                 Your role is <span className="text-white font-bold underline">{workflowRoleOf(userProfile, orgProfile)}</span>: {WORKFLOW_ROLE_DESCRIPTIONS[workflowRoleOf(userProfile, orgProfile)].toLowerCase()}. Nobody approves a quote they uploaded.
               </p>
+              <div className="space-y-2">
+                 {WORKFLOW_RULES.map(rule => (
+                    <div key={`${rule.from.join()}-${rule.to}`} className="flex items-start justify-between gap-3 text-[10px]">
+                       <span className="text-zinc-400 font-bold">{rule.from.map(f => WORKFLOW_STATUS_LABELS[f]).join(' / ')} → {WORKFLOW_STATUS_LABELS[rule.to]}</span>
+                       <span className="text-zinc-600 text-right">{rule.roles.length === WORKFLOW_ROLES.length ? 'Anyone' : rule.roles.join(', ')}</span>
+                    </div>
+                 ))}
+              </div>
               <div className="space-y-4 pt-4 border-t border-zinc-800">
                  <div className="flex items-center justify-between text-xs">
                     <span className="text-zinc-400">Team Size</span>
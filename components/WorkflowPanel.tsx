@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { GitCommitVertical, Loader2, Lock } from 'lucide-react';
+import { QuoteData, UserProfile, Organization } from '../types';
+import { availableTransitions, workflowRoleOf, WORKFLOW_STATUS_LABELS } from '../services/workflow';
+import { transitionQuoteWorkflow } from '../services/firebase';
+
+interface WorkflowPanelProps {
+  quote: QuoteData;
+  userProfile: UserProfile;
+  orgProfile?: Organization | null;
+}
+
+const STATUS_TONES: Partial<Record<QuoteData['workflowStatus'], string>> = {
+  extracted: 'text-amber-500 bg-amber-500/10',
+  analyzed: 'text-blue-400 bg-blue-500/10',
+  reviewed: 'text-purple-400 bg-purple-500/10',
+  approved: 'text-emerald-500 bg-emerald-500/10',
+  error: 'text-red-500 bg-red-500/10'
+};
+
+/**
+ * Where a quote stands in the approval workflow, the moves this user may make, and who moved it when
+ */
+const WorkflowPanel: React.FC<WorkflowPanelProps> = ({ quote, userProfile, orgProfile }) => {
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const moves = availableTransitions(quote, userProfile, orgProfile);
+  const log = [...(quote.workflowLog || [])].reverse();
+
+  const move = async (to: QuoteData['workflowStatus']) => {
+    setBusy(to);
+    setError(null);
+    const result = await transitionQuoteWorkflow(quote.id, userProfile, orgProfile || null, to, note);
+    setBusy(null);
+    if (result.success === false) {
+      setError(result.error || 'Transition refused');
+      return;
+    }
+    setNote(''); // The quotes listener picks up the new status
+  };
+
+  return (
+    <div className="p-6 bg-zinc-900 rounded-[1.5rem] border border-zinc-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Workflow</h4>
+        <span className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest ${STATUS_TONES[quote.workflowStatus] || 'text-zinc-400 bg-zinc-800'}`}>
+          {WORKFLOW_STATUS_LABELS[quote.workflowStatus] || quote.workflowStatus}
+        </span>
+      </div>
+
+      {moves.length > 0 && (
+        <div className="space-y-2">
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-500"
+          />
+          <div className="flex flex-wrap gap-2">
+            {moves.map(({ rule, allowed, reason }) => (
+              <button
+                key={rule.to}
+                onClick={() => move(rule.to)}
+                disabled={!allowed || !!busy}
+                title={reason}
+                className="flex items-center gap-2 px-3 py-2 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-[10px] font-black uppercase tracking-widest text-white disabled:opacity-40 disabled:hover:bg-zinc-800 transition-colors"
+              >
+                {busy === rule.to ? <Loader2 size={12} className="animate-spin" /> : !allowed && <Lock size={12} />} {rule.label}
+              </button>
+            ))}
+          </div>
+          {moves.filter(m => !m.allowed).map(m => (
+            <div key={m.rule.to} className="text-[10px] text-zinc-600">{m.rule.label}: {m.reason}</div>
+          ))}
+          <div className="text-[10px] text-zinc-600">Acting as {workflowRoleOf(userProfile, orgProfile)}</div>
+        </div>
+      )}
+      {error && <div className="text-xs text-red-500">{error}</div>}
+
+      {log.length > 0 && (
+        <div className="space-y-2 pt-3 border-t border-zinc-800">
+          {log.map((entry, i) => (
+            <div key={`${entry.at}-${i}`} className="flex items-start gap-2 text-[11px]">
+              <GitCommitVertical size={12} className="text-zinc-600 mt-0.5 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <span className="text-zinc-300 font-bold">{WORKFLOW_STATUS_LABELS[entry.to] || entry.to}</span>
+                <span className="text-zinc-600"> • {entry.byName || (entry.by === quote.userId ? 'Uploader' : entry.by.slice(0, 8))}{entry.role ? ` (${entry.role})` : ''}</span>
+                {entry.note && <div className="text-zinc-500 truncate">{entry.note}</div>}
+              </div>
+              <span className="text-zinc-600 font-mono shrink-0">{new Date(entry.at).toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkflowPanel;
@@ -7,10 +7,11 @@ import {
   BarChart2, 
   Settings,
   HelpCircle,
-  Image as ImageIcon,
+  Gavel,
   CreditCard,
   Award,
-  Users
+  Users,
+  Landmark
 } from 'lucide-react';
 
 export const NAVIGATION_ITEMS = [
@@ -22,8 +23,9 @@ export const NAVIGATION_ITEMS = [
 
 export const SYSTEM_ITEMS = [
   { id: 'scorecards', label: 'Bank Scorecards', icon: <Award size={16} /> },
+  { id: 'banks', label: 'Bank Registry', icon: <Landmark size={16} /> },
   { id: 'analysis', label: 'Spread Analytics', icon: <BarChart2 size={16} /> },
-  { id: 'studio', label: 'Dispute Studio', icon: <ImageIcon size={16} /> },
+  { id: 'studio', label: 'Dispute Studio', icon: <Gavel size={16} /> },
   { id: 'billing', label: 'Subscription', icon: <CreditCard size={16} /> },
   { id: 'settings', label: 'Settings', icon: <Settings size={16} /> },
   { id: 'support', label: 'Support', icon: <HelpCircle size={16} /> },
@@ -0,0 +1,124 @@
+// --- HEADLESS DETERMINISM CHECK ---
+// Runs sample documents through analyzeQuoteDocument, then the whole of processQuoteDocument against an
+// in-memory store, on the simulation provider with no network. Fails when the same documents and seed
+// ever price or save differently. Run with `npm run check:determinism`.
+
+import { analyzeQuoteDocument, processQuoteDocument, QuoteStore } from '../services/pipeline';
+import { createSimulationProvider, hashSeed, setSimulationProvider } from '../services/simulation';
+import { hashDocument } from '../services/documentStorage';
+import { PricingContext } from '../services/calculations';
+import { QuoteData } from '../types';
+
+const SEED = 20240301;
+const RUNS = 3;
+const DOCUMENTS = Array.from({ length: 12 }, (_, i) => `confirmation-${String(i + 1).padStart(3, '0')}.pdf`);
+
+// A fixed projection date, so corridor figures do not move with the day the check runs
+const PRICING: PricingContext = { projection: { history: [], declared: [], institutions: [], asOf: '2025-01-01' } };
+
+/**
+ * One document priced from scratch: a fresh provider with the same seed, no latency
+ */
+const analyze = async (base64: string) => {
+  setSimulationProvider(createSimulationProvider({ seed: SEED, latencyMs: 0 }));
+  const { quote, extraction } = await analyzeQuoteDocument({
+    base64,
+    mimeType: 'application/pdf',
+    userId: 'headless',
+    orgId: 'headless',
+    reportingCurrency: 'USD',
+    extractionProvider: 'simulation',
+    pricing: PRICING
+  });
+  return { quote, output: JSON.stringify({ quote, extraction }) };
+};
+
+/**
+ * Stand-in for Cloud Storage and Firestore: sequential ids, so two runs save identical records
+ */
+const memoryStore = () => {
+  const quotes: QuoteData[] = [];
+  const decisions: unknown[] = [];
+  const store: QuoteStore = {
+    storeDocument: async (orgId, base64, mimeType, fileName) => {
+      const contentHash = await hashDocument(base64);
+      const storagePath = `organizations/${orgId}/documents/${contentHash}`;
+      return { fileUrl: `memory://${storagePath}`, storagePath, contentHash, fileType: mimeType, fileName, fileSize: Buffer.from(base64, 'base64').length };
+    },
+    saveQuote: async (userId, orgId, quoteData) => {
+      const id = `quote-${quotes.length + 1}`;
+      quotes.push({ ...quoteData, id, userId, orgId } as QuoteData);
+      return { success: true, id };
+    },
+    replaceQuote: async (quoteId, userId, orgId, quoteData) => {
+      const index = quotes.findIndex(q => q.id === quoteId);
+      quotes[index] = { ...quotes[index], ...quoteData, lastEditedBy: userId } as QuoteData;
+      return { success: true, id: quoteId };
+    },
+    logDuplicateDecision: async (entry) => {
+      decisions.push(entry);
+    }
+  };
+  return { store, quotes, decisions };
+};
+
+/**
+ * Every document through the full pipeline into a fresh store, duplicate checks included
+ */
+const processAll = async (documents: { name: string, base64: string }[]) => {
+  setSimulationProvider(createSimulationProvider({ seed: SEED, latencyMs: 0 }));
+  const { store, quotes, decisions } = memoryStore();
+  for (const { name, base64 } of documents) {
+    await processQuoteDocument({
+      base64,
+      mimeType: 'application/pdf',
+      userId: 'headless',
+      orgId: 'headless',
+      reportingCurrency: 'USD',
+      extractionProvider: 'simulation',
+      pricing: PRICING,
+      fileName: name,
+      duplicateCheck: { existingQuotes: () => quotes, resolve: async () => 'keep_both' },
+      store
+    });
+  }
+  return { quotes, output: JSON.stringify({ quotes, decisions }) };
+};
+
+const main = async () => {
+  let failures = 0;
+  const outputs: string[] = [];
+  for (const name of DOCUMENTS) {
+    const base64 = Buffer.from(`Determinism fixture ${name}`).toString('base64');
+    const runs = [];
+    for (let i = 0; i < RUNS; i++) runs.push(await analyze(base64));
+
+    const same = runs.every(r => r.output === runs[0].output);
+    if (!same) failures++;
+    outputs.push(runs[0].output);
+    const { quote } = runs[0];
+    console.log(`${same ? 'same' : 'DIFF'}  ${name}  ${quote.pair} ${quote.totalHiddenCost?.toFixed(2)} ${quote.reportingCurrency}  ${quote.workflowStatus}`);
+  }
+
+  // Equal digests from two invocations (or two machines) mean the same output there too
+  const digest = hashSeed(outputs.join('\n')).toString(16).padStart(8, '0');
+  console.log(failures === 0
+    ? `${DOCUMENTS.length} documents priced identically over ${RUNS} runs (seed ${SEED}, digest ${digest}).`
+    : `${failures} of ${DOCUMENTS.length} documents priced differently between runs.`);
+
+  const documents = DOCUMENTS.map(name => ({ name, base64: Buffer.from(`Determinism fixture ${name}`).toString('base64') }));
+  const batches = [];
+  for (let i = 0; i < RUNS; i++) batches.push(await processAll(documents));
+  const batchesSame = batches.every(b => b.output === batches[0].output);
+  const batchDigest = hashSeed(batches[0].output).toString(16).padStart(8, '0');
+  console.log(batchesSame
+    ? `${batches[0].quotes.length} quotes saved identically by the full pipeline over ${RUNS} runs (digest ${batchDigest}).`
+    : 'The full pipeline saved different quotes between runs.');
+
+  if (failures > 0 || !batchesSame) process.exit(1);
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,325 @@
+import { Institution, QuoteData } from '../types';
+
+// --- BANK REGISTRY ---
+// `bank` is free text from extraction, so "JP Morgan", "JPMorgan Chase" and "Chase" would otherwise
+// count as three banks. Quotes are resolved to an institution when read, by BIC first, then by a
+// known alias, then by a close spelling, so a merge or split applies to every quote at once.
+
+type Seed = [id: string, name: string, country: string, bics: string[], aliases: string[]];
+
+const SEEDS: Seed[] = [
+  ['jpmorgan-chase', 'JPMorgan Chase', 'US', ['CHASUS33', 'CHASGB2L'], ['JP Morgan', 'J.P. Morgan', 'JPMorgan', 'Chase', 'JPMorgan Chase Bank N.A.']],
+  ['bank-of-america', 'Bank of America', 'US', ['BOFAUS3N'], ['BofA', 'Bank of America Merrill Lynch', 'BAML']],
+  ['citibank', 'Citibank', 'US', ['CITIUS33'], ['Citi', 'Citigroup', 'Citibank N.A.']],
+  ['wells-fargo', 'Wells Fargo', 'US', ['WFBIUS6S'], ['Wells Fargo Bank N.A.']],
+  ['hsbc', 'HSBC', 'GB', ['HSBCGB2L', 'HSBCHKHH'], ['HSBC UK', 'HSBC Holdings', 'Hongkong and Shanghai Banking Corporation']],
+  ['barclays', 'Barclays', 'GB', ['BARCGB22'], ['Barclays Bank plc']],
+  ['lloyds', 'Lloyds Bank', 'GB', ['LOYDGB2L'], ['Lloyds', 'Lloyds Banking Group']],
+  ['natwest', 'NatWest', 'GB', ['NWBKGB2L'], ['National Westminster Bank', 'NatWest Group']],
+  ['standard-chartered', 'Standard Chartered', 'GB', ['SCBLGB2L'], ['StanChart']],
+  ['santander', 'Santander', 'ES', ['BSCHESMM'], ['Banco Santander', 'Santander UK']],
+  ['deutsche-bank', 'Deutsche Bank', 'DE', ['DEUTDEFF'], ['Deutsche']],
+  ['bnp-paribas', 'BNP Paribas', 'FR', ['BNPAFRPP'], ['BNP']],
+  ['societe-generale', 'Société Générale', 'FR', ['SOGEFRPP'], ['SocGen', 'Societe Generale']],
+  ['ubs', 'UBS', 'CH', ['UBSWCHZH'], ['UBS Switzerland']],
+  ['ing', 'ING', 'NL', ['INGBNL2A'], ['ING Bank', 'ING Bank N.V.']],
+  ['abn-amro', 'ABN AMRO', 'NL', ['ABNANL2A'], []],
+  ['rabobank', 'Rabobank', 'NL', ['RABONL2U'], []],
+  ['rbc', 'Royal Bank of Canada', 'CA', ['ROYCCAT2'], ['RBC', 'RBC Royal Bank']],
+  ['td', 'TD Bank', 'CA', ['TDOMCATT'], ['TD', 'Toronto-Dominion Bank', 'TD Canada Trust']],
+  ['scotiabank', 'Scotiabank', 'CA', ['NOSCCATT'], ['Bank of Nova Scotia']],
+  ['commonwealth-bank', 'Commonwealth Bank', 'AU', ['CTBAAU2S'], ['CBA', 'Commonwealth Bank of Australia']],
+  ['anz', 'ANZ', 'AU', ['ANZBAU3M'], ['Australia and New Zealand Banking Group']],
+  ['nab', 'National Australia Bank', 'AU', ['NATAAU33'], ['NAB']],
+  ['westpac', 'Westpac', 'AU', ['WPACAU2S'], ['Westpac Banking Corporation']],
+  ['dbs', 'DBS', 'SG', ['DBSSSGSG'], ['DBS Bank', 'Development Bank of Singapore']],
+  ['ocbc', 'OCBC', 'SG', ['OCBCSGSG'], ['Oversea-Chinese Banking Corporation']],
+  ['uob', 'UOB', 'SG', ['UOVBSGSG'], ['United Overseas Bank']],
+  ['mufg', 'MUFG Bank', 'JP', ['BOTKJPJT'], ['MUFG', 'Bank of Tokyo-Mitsubishi UFJ']],
+  ['mizuho', 'Mizuho', 'JP', ['MHCBJPJT'], ['Mizuho Bank']],
+  ['smbc', 'SMBC', 'JP', ['SMBCJPJT'], ['Sumitomo Mitsui Banking Corporation']],
+  ['standard-bank', 'Standard Bank', 'ZA', ['SBZAZAJJ'], ['Standard Bank of South Africa']],
+  ['fnb', 'First National Bank', 'ZA', ['FIRNZAJJ'], ['FNB']],
+  ['hdfc', 'HDFC Bank', 'IN', ['HDFCINBB'], ['HDFC']],
+  ['icici', 'ICICI Bank', 'IN', ['ICICINBB'], ['ICICI']],
+  ['sbi', 'State Bank of India', 'IN', ['SBININBB'], ['SBI']],
+  ['wise', 'Wise', 'BE', ['TRWIBEB1'], ['TransferWise', 'Wise Business']],
+  ['revolut', 'Revolut', 'LT', ['REVOLT21'], ['Revolut Business']]
+];
+
+export const DEFAULT_INSTITUTIONS: Institution[] = SEEDS.map(([id, name, country, bics, aliases]) => ({ id, name, country, bics, aliases, builtIn: true }));
+
+export const newInstitutionId = () => `inst-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Closest spelling accepted as the same bank; names shorter than the minimum must match exactly
+const FUZZY_THRESHOLD = 0.8;
+const FUZZY_MIN_LENGTH = 5;
+
+const BIC_PATTERN = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+
+/**
+ * The 8-character BIC (bank, country, location) or null when the code is not a BIC, e.g. a sort
+ * code or routing number
+ */
+export const normalizeBic = (code?: string): string | null => {
+  const bic = (code || '').toUpperCase().replace(/\s+/g, '');
+  return BIC_PATTERN.test(bic) ? bic.slice(0, 8) : null;
+};
+
+const LEGAL_SUFFIXES = /\b(bank|banco|banque|plc|ltd|limited|inc|ag|sa|na|n\.a|group|corp|corporation|co)\b/g;
+
+export const normalizeBankName = (name?: string) => (name || '')
+  .toLowerCase()
+  .replace(LEGAL_SUFFIXES, '')
+  .replace(/[^a-z0-9]/g, '');
+
+// Accents folded first, so "Société Générale" and "Societe Generale" agree
+export const institutionKey = (name?: string) => normalizeBankName((name || '').normalize('NFD').replace(/[\u0300-\u036f]/g, ''));
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * 0-1 similarity of two normalised names, by edit distance
+ */
+export const nameSimilarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+export interface InstitutionMatch {
+  institution: Institution;
+  method: 'bic' | 'alias' | 'fuzzy';
+  score: number; // 1 for BIC and alias matches
+}
+
+const institutionNames = (institution: Institution) => [institution.name, ...institution.aliases].map(institutionKey).filter(Boolean);
+
+/**
+ * Best fuzzy candidate for a name, whether or not it clears the threshold
+ */
+export const closestInstitution = (institutions: Institution[], name?: string): { institution: Institution, score: number } | null => {
+  const key = institutionKey(name);
+  if (!key) return null;
+  let best: { institution: Institution, score: number } | null = null;
+  for (const institution of institutions) {
+    for (const known of institutionNames(institution)) {
+      const score = nameSimilarity(key, known);
+      if (!best || score > best.score) best = { institution, score };
+    }
+  }
+  return best;
+};
+
+/**
+ * The institution behind an extracted bank name and code: an exact BIC, then the bank and country
+ * part of the BIC, then a known name or alias, then a close spelling. Null when nothing is close.
+ */
+export const matchInstitution = (institutions: Institution[], bank?: string, bankCode?: string): InstitutionMatch | null => {
+  const bic = normalizeBic(bankCode);
+  if (bic) {
+    const exact = institutions.find(i => i.bics.includes(bic));
+    if (exact) return { institution: exact, method: 'bic', score: 1 };
+    const sameBank = institutions.find(i => i.bics.some(b => b.slice(0, 6) === bic.slice(0, 6)));
+    if (sameBank) return { institution: sameBank, method: 'bic', score: 1 };
+  }
+
+  const key = institutionKey(bank);
+  if (!key) return null;
+  const alias = institutions.find(i => institutionNames(i).includes(key));
+  if (alias) return { institution: alias, method: 'alias', score: 1 };
+
+  if (key.length < FUZZY_MIN_LENGTH) return null;
+  const closest = closestInstitution(institutions, bank);
+  return closest && closest.score >= FUZZY_THRESHOLD ? { institution: closest.institution, method: 'fuzzy', score: closest.score } : null;
+};
+
+export interface ResolvedBank {
+  key: string; // Institution id, or the normalised name when unmatched
+  name: string;
+  match: InstitutionMatch | null;
+}
+
+/**
+ * A cached quote-to-institution lookup for grouping many quotes against one registry
+ */
+export const createBankResolver = (institutions: Institution[]) => {
+  const cache = new Map<string, ResolvedBank>();
+  return (quote: Pick<QuoteData, 'bank' | 'bankCode'>): ResolvedBank => {
+    const cacheKey = `${quote.bank}|${quote.bankCode || ''}`;
+    const cached = cache.get(cacheKey);
+    if (cached) return cached;
+    const match = matchInstitution(institutions, quote.bank, quote.bankCode);
+    const resolved = match
+      ? { key: match.institution.id, name: match.institution.name, match }
+      : { key: institutionKey(quote.bank), name: quote.bank, match: null };
+    cache.set(cacheKey, resolved);
+    return resolved;
+  };
+};
+
+export interface UnmatchedBank {
+  name: string;
+  bankCode?: string;
+  quotes: number;
+  suggestion?: { institution: Institution, score: number };
+}
+
+/**
+ * Extracted names no institution claims, most frequent first, with the closest institution as a hint
+ */
+export const unmatchedBanks = (quotes: QuoteData[], institutions: Institution[]): UnmatchedBank[] => {
+  const resolve = createBankResolver(institutions);
+  const found = new Map<string, UnmatchedBank>();
+  for (const quote of quotes) {
+    if (resolve(quote).match || !institutionKey(quote.bank)) continue;
+    const entry = found.get(institutionKey(quote.bank));
+    if (entry) {
+      entry.quotes++;
+      continue;
+    }
+    const closest = closestInstitution(institutions, quote.bank);
+    found.set(institutionKey(quote.bank), {
+      name: quote.bank,
+      bankCode: quote.bankCode,
+      quotes: 1,
+      suggestion: closest && closest.score >= 0.5 ? closest : undefined
+    });
+  }
+  return [...found.values()].sort((a, b) => b.quotes - a.quotes);
+};
+
+// --- REGISTRY CHANGES ---
+// Pure edits applied inside the registry transaction. Each BIC and each spelling belongs to one
+// institution only, so a name can never resolve two ways.
+
+const uniqueBy = (values: string[], key: (v: string) => string) => {
+  const seen = new Set<string>();
+  return values.filter(v => {
+    const k = key(v);
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+const assertUnclaimed = (institutions: Institution[], candidate: Institution) => {
+  for (const other of institutions) {
+    if (other.id === candidate.id) continue;
+    const bic = candidate.bics.find(b => other.bics.includes(b));
+    if (bic) throw new Error(`${bic} already belongs to ${other.name}.`);
+    const names = institutionNames(other);
+    const name = [candidate.name, ...candidate.aliases].find(n => names.includes(institutionKey(n)));
+    if (name) throw new Error(`"${name}" already belongs to ${other.name}.`);
+  }
+};
+
+const tidy = (institution: Institution): Institution => {
+  const aliases = uniqueBy(institution.aliases.map(a => a.trim()), institutionKey)
+    .filter(a => institutionKey(a) !== institutionKey(institution.name));
+  const bics = uniqueBy(institution.bics.map(b => normalizeBic(b) || ''), b => b);
+  return { ...institution, name: institution.name.trim(), aliases, bics };
+};
+
+/**
+ * Add a new institution, e.g. for an extracted name nothing matched
+ */
+export const addInstitution = (
+  institutions: Institution[],
+  fields: { name: string, bics?: string[], aliases?: string[], country?: string }
+): Institution[] => {
+  if (!institutionKey(fields.name)) throw new Error('Enter the institution name.');
+  const invalid = (fields.bics || []).find(b => !normalizeBic(b));
+  if (invalid) throw new Error(`${invalid} is not a valid BIC.`);
+  const created = tidy({ id: newInstitutionId(), name: fields.name, bics: fields.bics || [], aliases: fields.aliases || [], country: fields.country || undefined });
+  assertUnclaimed(institutions, created);
+  return [...institutions, created];
+};
+
+/**
+ * Record another spelling or BIC of an existing institution
+ */
+export const addAlias = (institutions: Institution[], institutionId: string, alias: { name?: string, bic?: string }): Institution[] => {
+  const target = institutions.find(i => i.id === institutionId);
+  if (!target) throw new Error('Institution not found.');
+  const bic = alias.bic ? normalizeBic(alias.bic) : null;
+  if (alias.bic && !bic) throw new Error(`${alias.bic} is not a valid BIC.`);
+  const updated = tidy({
+    ...target,
+    aliases: alias.name ? [...target.aliases, alias.name] : target.aliases,
+    bics: bic ? [...target.bics, bic] : target.bics
+  });
+  assertUnclaimed(institutions, updated);
+  return institutions.map(i => (i.id === institutionId ? updated : i));
+};
+
+/**
+ * Fold other institutions into one: their names become aliases and their BICs move across
+ */
+export const mergeInstitutions = (institutions: Institution[], targetId: string, sourceIds: string[]): Institution[] => {
+  const target = institutions.find(i => i.id === targetId);
+  const sources = institutions.filter(i => sourceIds.includes(i.id) && i.id !== targetId);
+  if (!target) throw new Error('Institution not found.');
+  if (sources.length === 0) throw new Error('Select at least one institution to merge in.');
+  const merged = tidy({
+    ...target,
+    aliases: [...target.aliases, ...sources.flatMap(s => [s.name, ...s.aliases])],
+    bics: [...target.bics, ...sources.flatMap(s => s.bics)],
+    builtIn: target.builtIn && sources.every(s => s.builtIn) ? true : undefined
+  });
+  return institutions
+    .filter(i => !sources.some(s => s.id === i.id))
+    .map(i => (i.id === targetId ? merged : i));
+};
+
+/**
+ * Move some of an institution's aliases and BICs out into a new institution
+ */
+export const splitInstitution = (
+  institutions: Institution[],
+  institutionId: string,
+  part: { name: string, aliases: string[], bics: string[] }
+): Institution[] => {
+  const source = institutions.find(i => i.id === institutionId);
+  if (!source) throw new Error('Institution not found.');
+  if (!institutionKey(part.name)) throw new Error('Name the new institution.');
+  if (part.aliases.length === 0 && part.bics.length === 0) throw new Error('Choose the aliases or BICs to move.');
+  const remaining = tidy({
+    ...source,
+    aliases: source.aliases.filter(a => !part.aliases.includes(a)),
+    bics: source.bics.filter(b => !part.bics.includes(b)),
+    builtIn: undefined
+  });
+  const created = tidy({ id: newInstitutionId(), name: part.name, aliases: part.aliases, bics: part.bics, country: source.country });
+  const next = institutions.map(i => (i.id === institutionId ? remaining : i));
+  assertUnclaimed(next, created);
+  return [...next, created];
+};
+
+/**
+ * Rename an institution; the old name is kept as an alias so existing quotes still resolve
+ */
+export const renameInstitution = (institutions: Institution[], institutionId: string, name: string): Institution[] => {
+  const target = institutions.find(i => i.id === institutionId);
+  if (!target) throw new Error('Institution not found.');
+  if (!institutionKey(name)) throw new Error('Enter the institution name.');
+  const renamed = tidy({ ...target, name, aliases: [...target.aliases, target.name] });
+  assertUnclaimed(institutions, renamed);
+  return institutions.map(i => (i.id === institutionId ? renamed : i));
+};
+
+/**
+ * Drop an institution; its quotes fall back to their extracted names
+ */
+export const removeInstitution = (institutions: Institution[], institutionId: string): Institution[] =>
+  institutions.filter(i => i.id !== institutionId);
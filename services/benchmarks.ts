@@ -0,0 +1,265 @@
+import { BenchmarkEntry, BenchmarkTable, QuoteData } from '../types';
+import { parsePair, samePair } from './fxPairs';
+import { parseCsv, detectDelimiter, toCsv } from './csv';
+import { quoteCostCurrency, quotePrincipal } from './currency';
+
+// --- INDUSTRY BENCHMARKS ---
+// Each org prices against its own versioned table, keyed by pair and ticket size, since a $5k wire
+// and a $5M wire have very different fair costs. A quote's percentile blends that table's
+// distribution with the org's own history for the same pair and tier.
+
+type Percentiles = BenchmarkEntry['percentiles'];
+
+// Built-in averages for a 10k-100k ticket; other tiers scale from these
+const BUILT_IN_PAIRS: Record<string, { avgSpread: number, avgTotalCost: number }> = {
+  'USD/EUR': { avgSpread: 1.2, avgTotalCost: 1.5 },
+  'USD/GBP': { avgSpread: 1.3, avgTotalCost: 1.6 },
+  'USD/JPY': { avgSpread: 1.4, avgTotalCost: 1.7 },
+  'EUR/GBP': { avgSpread: 1.1, avgTotalCost: 1.4 },
+  'USD/CAD': { avgSpread: 1.0, avgTotalCost: 1.3 },
+  'USD/AUD': { avgSpread: 1.1, avgTotalCost: 1.4 },
+  '*': { avgSpread: 1.5, avgTotalCost: 2.0 }
+};
+
+const BUILT_IN_TIERS: { minAmount: number, maxAmount?: number, scale: number }[] = [
+  { minAmount: 0, maxAmount: 10000, scale: 1.6 },
+  { minAmount: 10000, maxAmount: 100000, scale: 1 },
+  { minAmount: 100000, maxAmount: 1000000, scale: 0.6 },
+  { minAmount: 1000000, scale: 0.35 }
+];
+
+// Right-skewed: most transfers cost a little under the average, a few cost far more
+const PERCENTILE_SHAPE: Percentiles = { p10: 0.4, p25: 0.65, p50: 0.9, p75: 1.3, p90: 1.8 };
+
+const round = (value: number, digits: number = 3) => Number(value.toFixed(digits));
+
+/**
+ * Percentiles for a tier where only the average total cost is known
+ */
+export const derivePercentiles = (avgTotalCost: number): Percentiles => ({
+  p10: round(avgTotalCost * PERCENTILE_SHAPE.p10),
+  p25: round(avgTotalCost * PERCENTILE_SHAPE.p25),
+  p50: round(avgTotalCost * PERCENTILE_SHAPE.p50),
+  p75: round(avgTotalCost * PERCENTILE_SHAPE.p75),
+  p90: round(avgTotalCost * PERCENTILE_SHAPE.p90)
+});
+
+export const DEFAULT_BENCHMARK_TABLE: BenchmarkTable = {
+  version: 0,
+  name: 'Built-in benchmarks',
+  currency: 'USD',
+  source: 'built_in',
+  createdAt: 0,
+  entries: Object.entries(BUILT_IN_PAIRS).flatMap(([pair, avg]) => BUILT_IN_TIERS.map(tier => ({
+    pair,
+    minAmount: tier.minAmount,
+    ...(tier.maxAmount !== undefined ? { maxAmount: tier.maxAmount } : {}),
+    avgSpread: round(avg.avgSpread * tier.scale),
+    avgTotalCost: round(avg.avgTotalCost * tier.scale),
+    percentiles: derivePercentiles(avg.avgTotalCost * tier.scale)
+  })))
+};
+
+// The table counts as this many observations when blended with the org's own quotes
+export const BENCHMARK_PRIOR_WEIGHT = 20;
+
+const compactAmount = (value: number) => {
+  if (value >= 1e6) return `${round(value / 1e6, 2)}M`;
+  if (value >= 1e3) return `${round(value / 1e3, 2)}k`;
+  return String(value);
+};
+
+export const tierRange = (entry: Pick<BenchmarkEntry, 'minAmount' | 'maxAmount'>) => entry.maxAmount !== undefined
+  ? `${compactAmount(entry.minAmount)}-${compactAmount(entry.maxAmount)}`
+  : `${compactAmount(entry.minAmount)}+`;
+
+export const tierLabel = (entry: Pick<BenchmarkEntry, 'pair' | 'minAmount' | 'maxAmount'>, currency: string) =>
+  `${entry.pair === '*' ? 'All pairs' : entry.pair} ${tierRange(entry)} ${currency}`;
+
+const inTier = (entry: BenchmarkEntry, amount: number) =>
+  amount >= entry.minAmount && (entry.maxAmount === undefined || amount < entry.maxAmount);
+
+/**
+ * The row for a pair and ticket size: the pair's own rows before the "*" rows, and the tier holding
+ * the amount (the lowest tier when the amount could not be converted). Null when nothing applies.
+ */
+export const findBenchmark = (table: BenchmarkTable, pair: string, amount: number | null): BenchmarkEntry | null => {
+  const pairRows = table.entries.filter(e => e.pair !== '*' && samePair(e.pair, pair));
+  const candidates = pairRows.length > 0 ? pairRows : table.entries.filter(e => e.pair === '*');
+  if (candidates.length === 0) return null;
+  if (amount === null) return [...candidates].sort((a, b) => a.minAmount - b.minAmount)[0];
+  return candidates.find(e => inTier(e, amount)) || null;
+};
+
+/**
+ * Share (0-1) of the table's transfers costing less than `cost`, interpolated between percentiles
+ */
+export const benchmarkCdf = (percentiles: Percentiles, cost: number): number => {
+  if (cost <= 0) return 0;
+  const points: [number, number][] = [[0, 0], [percentiles.p10, 0.1], [percentiles.p25, 0.25], [percentiles.p50, 0.5], [percentiles.p75, 0.75], [percentiles.p90, 0.9]];
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    if (cost > x1) continue;
+    const [x0, y0] = points[i - 1];
+    return x1 > x0 ? y0 + (y1 - y0) * (cost - x0) / (x1 - x0) : y1;
+  }
+  // Past p90 the tail keeps the p75-p90 slope, short of certainty
+  const tail = percentiles.p90 - percentiles.p75;
+  return tail > 0 ? Math.min(0.99, 0.9 + 0.15 * (cost - percentiles.p90) / tail) : 0.99;
+};
+
+// --- ORG HISTORY ---
+
+export interface BenchmarkSample {
+  id: string;
+  pair: string;
+  amount: number; // Principal in `currency`
+  currency: string;
+  totalCostPercentage: number;
+}
+
+export interface BenchmarkContext {
+  table: BenchmarkTable;
+  history: BenchmarkSample[];
+}
+
+/**
+ * The org's priced quotes as benchmark observations. Unpriced quotes would count their fees only.
+ */
+export const benchmarkSamples = (quotes: QuoteData[]): BenchmarkSample[] => quotes.flatMap(quote => {
+  const amount = quotePrincipal(quote);
+  if (!amount || !quote.pair || quote.unpriced || !isFinite(quote.totalHiddenPercentage)) return [];
+  return [{ id: quote.id, pair: quote.pair, amount, currency: quoteCostCurrency(quote), totalCostPercentage: quote.totalHiddenPercentage }];
+});
+
+/**
+ * The context without one quote, so re-pricing a quote does not rank it against itself
+ */
+export const withoutQuote = (context: BenchmarkContext | undefined, quoteId: string): BenchmarkContext | undefined =>
+  context && { ...context, history: context.history.filter(s => s.id !== quoteId) };
+
+export const percentileLabel = (percentile: number) => {
+  if (percentile < 10) return 'top_10%';
+  if (percentile < 25) return 'top_25%';
+  if (percentile < 75) return 'average';
+  if (percentile < 90) return 'bottom_25%';
+  return 'bottom_10%';
+};
+
+export interface BenchmarkRank {
+  entry: BenchmarkEntry;
+  version: number;
+  tier: string;
+  percentile: number; // 0-100, share of comparable transfers that cost less
+  orgSamples: number;
+}
+
+/**
+ * Rank a transfer's total cost against the table row for its pair and size, blended with the org's
+ * own transfers in that row. With n of those the org's share of the blend is n / (n + 20).
+ * `toTableCurrency` converts an amount into the table's currency, or returns null when it cannot.
+ */
+export const rankAgainstBenchmark = (
+  context: BenchmarkContext | undefined,
+  pair: string,
+  totalCostPercentage: number,
+  amount: number | null,
+  toTableCurrency: (amount: number, currency: string) => number | null
+): BenchmarkRank => {
+  let table = context?.table || DEFAULT_BENCHMARK_TABLE;
+  let entry = findBenchmark(table, pair, amount);
+  if (!entry) {
+    // The org's table has no row for this transfer
+    table = DEFAULT_BENCHMARK_TABLE;
+    entry = findBenchmark(table, pair, amount)!;
+  }
+
+  const peers = (context?.history || [])
+    .filter(s => samePair(s.pair, pair))
+    .filter(s => {
+      const converted = toTableCurrency(s.amount, s.currency);
+      return converted !== null && inTier(entry!, converted);
+    })
+    .map(s => s.totalCostPercentage);
+
+  const cost = isFinite(totalCostPercentage) ? totalCostPercentage : 0;
+  const orgShare = peers.length / (peers.length + BENCHMARK_PRIOR_WEIGHT);
+  const orgCdf = peers.length > 0
+    ? peers.reduce((sum, p) => sum + (p < cost ? 1 : p === cost ? 0.5 : 0), 0) / peers.length
+    : 0;
+  const percentile = 100 * (orgShare * orgCdf + (1 - orgShare) * benchmarkCdf(entry.percentiles, cost));
+
+  return { entry, version: table.version, tier: tierLabel(entry, table.currency), percentile: round(percentile, 1), orgSamples: peers.length };
+};
+
+// --- EDITING AND IMPORT ---
+
+/**
+ * First problem with a set of rows, or null when they can be published
+ */
+export const validateBenchmarkEntries = (entries: BenchmarkEntry[]): string | null => {
+  if (entries.length === 0) return 'The table has no rows.';
+  for (let i = 0; i < entries.length; i++) {
+    const e = entries[i];
+    const row = `Row ${i + 1} (${e.pair || 'no pair'})`;
+    if (e.pair !== '*' && !parsePair(e.pair)) return `${row}: the pair must look like USD/EUR, or * for any pair.`;
+    if (!(e.minAmount >= 0)) return `${row}: the tier floor must be zero or more.`;
+    if (e.maxAmount !== undefined && !(e.maxAmount > e.minAmount)) return `${row}: the tier ceiling must be above its floor.`;
+    if (!(e.avgSpread >= 0) || !(e.avgTotalCost >= 0)) return `${row}: averages cannot be negative.`;
+    const p = e.percentiles;
+    if (!(p.p10 >= 0 && p.p10 <= p.p25 && p.p25 <= p.p50 && p.p50 <= p.p75 && p.p75 <= p.p90)) return `${row}: percentiles must rise from p10 to p90.`;
+    const overlap = entries.find((o, j) => j !== i && (o.pair === '*' ? e.pair === '*' : e.pair !== '*' && samePair(o.pair, e.pair))
+      && e.minAmount < (o.maxAmount ?? Infinity) && o.minAmount < (e.maxAmount ?? Infinity));
+    if (overlap) return `${row}: its amount tier overlaps another ${e.pair === '*' ? 'catch-all' : e.pair} row.`;
+  }
+  return null;
+};
+
+const BENCHMARK_COLUMNS = ['pair', 'min_amount', 'max_amount', 'avg_spread', 'avg_total_cost', 'p10', 'p25', 'p50', 'p75', 'p90'];
+
+/**
+ * Rows from a CSV with columns pair, min_amount, max_amount, avg_spread, avg_total_cost and
+ * optionally p10-p90. Missing percentiles are derived from the average; a blank max is open-ended.
+ */
+export const parseBenchmarkCsv = (text: string): BenchmarkEntry[] => {
+  const rows = parseCsv(text, detectDelimiter(text));
+  if (rows.length < 2) throw new Error('File has no data rows.');
+  const header = rows[0].map(h => h.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const col = (name: string) => header.indexOf(name);
+  const missing = ['pair', 'avg_spread', 'avg_total_cost'].filter(name => col(name) < 0);
+  if (missing.length > 0) throw new Error(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}.`);
+
+  return rows.slice(1).map((row, i) => {
+    const number = (name: string) => {
+      const raw = col(name) >= 0 ? (row[col(name)] || '').replace(/[,%\s]/g, '') : '';
+      if (raw === '') return undefined;
+      const value = parseFloat(raw);
+      if (!isFinite(value)) throw new Error(`Row ${i + 2}: ${name} "${row[col(name)]}" is not a number.`);
+      return value;
+    };
+    const pair = (row[col('pair')] || '').trim();
+    const parsed = parsePair(pair);
+    const avgTotalCost = number('avg_total_cost') ?? 0;
+    const derived = derivePercentiles(avgTotalCost);
+    const maxAmount = number('max_amount');
+    return {
+      pair: parsed ? `${parsed.base}/${parsed.quote}` : pair || '*',
+      minAmount: number('min_amount') ?? 0,
+      ...(maxAmount !== undefined ? { maxAmount } : {}),
+      avgSpread: number('avg_spread') ?? 0,
+      avgTotalCost,
+      percentiles: {
+        p10: number('p10') ?? derived.p10,
+        p25: number('p25') ?? derived.p25,
+        p50: number('p50') ?? derived.p50,
+        p75: number('p75') ?? derived.p75,
+        p90: number('p90') ?? derived.p90
+      }
+    };
+  });
+};
+
+export const benchmarkToCsv = (entries: BenchmarkEntry[]): string => toCsv([
+  BENCHMARK_COLUMNS,
+  ...entries.map(e => [e.pair, e.minAmount, e.maxAmount, e.avgSpread, e.avgTotalCost, e.percentiles.p10, e.percentiles.p25, e.percentiles.p50, e.percentiles.p75, e.percentiles.p90])
+]);
@@ -0,0 +1,266 @@
+import { parseCsv, detectDelimiter } from './csv';
+import { parseLocaleNumber, parseDocumentDate } from './localExtraction';
+import { analyzeExtraction } from './pipeline';
+import { PricingContext } from './calculations';
+import { saveQuotesBatch } from './firebase';
+import { ExtractionResult, QuoteData } from '../types';
+
+// --- BULK CSV IMPORT ---
+// Historical wires from ERP/bank exports: map columns, validate every row without touching the
+// network (dry run), then price each row against the value-date mid and save in batches.
+
+export type BulkImportField =
+  | 'reference' | 'bank' | 'valueDate' | 'executionTime'
+  | 'soldAmount' | 'soldCurrency' | 'boughtAmount' | 'boughtCurrency'
+  | 'bankRate' | 'pair' | 'feeAmount' | 'feeCurrency' | 'sender' | 'beneficiary';
+
+export interface BulkImportFieldSpec {
+  id: BulkImportField;
+  label: string;
+  required: boolean;
+  aliases: string[]; // Lower-case header names tried by the auto-mapper
+}
+
+export const BULK_IMPORT_FIELDS: BulkImportFieldSpec[] = [
+  { id: 'reference', label: 'Reference', required: true, aliases: ['reference', 'ref', 'reference number', 'transaction reference', 'transaction id', 'payment id', 'uetr', 'document number'] },
+  { id: 'bank', label: 'Bank', required: true, aliases: ['bank', 'bank name', 'provider', 'counterparty bank', 'house bank'] },
+  { id: 'valueDate', label: 'Value Date', required: true, aliases: ['value date', 'valuedate', 'date', 'settlement date', 'posting date', 'booking date'] },
+  { id: 'executionTime', label: 'Execution Time', required: false, aliases: ['execution time', 'trade time', 'timestamp', 'deal time'] },
+  { id: 'soldAmount', label: 'Sold Amount', required: true, aliases: ['amount', 'sold amount', 'debit amount', 'original amount', 'payment amount', 'sell amount'] },
+  { id: 'soldCurrency', label: 'Sold Currency', required: true, aliases: ['currency', 'sold currency', 'debit currency', 'original currency', 'sell currency'] },
+  { id: 'boughtAmount', label: 'Bought Amount', required: false, aliases: ['converted amount', 'bought amount', 'credit amount', 'beneficiary amount', 'buy amount'] },
+  { id: 'boughtCurrency', label: 'Bought Currency', required: false, aliases: ['converted currency', 'bought currency', 'credit currency', 'beneficiary currency', 'buy currency', 'target currency'] },
+  { id: 'bankRate', label: 'Bank Rate', required: false, aliases: ['rate', 'exchange rate', 'fx rate', 'bank rate', 'deal rate'] },
+  { id: 'pair', label: 'Currency Pair', required: false, aliases: ['pair', 'currency pair', 'ccy pair'] },
+  { id: 'feeAmount', label: 'Fee Amount', required: false, aliases: ['fee', 'fees', 'charges', 'fee amount', 'bank charges'] },
+  { id: 'feeCurrency', label: 'Fee Currency', required: false, aliases: ['fee currency', 'charges currency'] },
+  { id: 'sender', label: 'Sender', required: false, aliases: ['sender', 'ordering customer', 'remitter', 'debtor'] },
+  { id: 'beneficiary', label: 'Beneficiary', required: false, aliases: ['beneficiary', 'payee', 'creditor', 'vendor', 'supplier'] }
+];
+
+export type BulkColumnMapping = Partial<Record<BulkImportField, number>>; // Field -> column index
+
+export interface BulkImportFile {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface BulkImportRow {
+  rowNumber: number; // 1-based spreadsheet row, header included
+  reference?: string;
+  extraction: ExtractionResult | null; // Null when the row has errors
+  errors: string[];
+  duplicate?: 'ledger' | 'file'; // Reference already imported, or repeated earlier in this file
+}
+
+export interface BulkImportPreview {
+  rows: BulkImportRow[];
+  ready: number;
+  invalid: number;
+  duplicates: number;
+}
+
+/**
+ * Split a CSV export into its header row and data rows
+ */
+export const readBulkImportFile = (text: string): BulkImportFile => {
+  const [headers, ...rows] = parseCsv(text, detectDelimiter(text));
+  if (!headers || rows.length === 0) throw new Error('The file has no data rows.');
+  return { headers, rows };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Map columns by header name; each column is used at most once
+ */
+export const guessColumnMapping = (headers: string[]): BulkColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: BulkColumnMapping = {};
+  const used = new Set<number>();
+  for (const field of BULK_IMPORT_FIELDS) {
+    const index = field.aliases.map(alias => normalized.findIndex((h, i) => h === alias && !used.has(i))).find(i => i > -1);
+    if (index !== undefined) {
+      mapping[field.id] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+};
+
+/**
+ * Fields the mapping still needs before a dry run makes sense
+ */
+export const missingRequiredFields = (mapping: BulkColumnMapping): BulkImportFieldSpec[] => {
+  const missing = BULK_IMPORT_FIELDS.filter(f => f.required && mapping[f.id] === undefined);
+  // A row needs something to derive the bought side from
+  if (mapping.boughtCurrency === undefined && mapping.pair === undefined) {
+    missing.push(BULK_IMPORT_FIELDS.find(f => f.id === 'boughtCurrency')!);
+  }
+  return missing;
+};
+
+export const normalizeReference = (reference?: string) => (reference || '').trim().toUpperCase();
+
+const CURRENCY = /^[A-Z]{3}$/;
+
+/**
+ * One CSV row into the extraction shape, or the reasons it cannot be imported
+ */
+const rowToExtraction = (cells: string[], mapping: BulkColumnMapping): { extraction: ExtractionResult | null, reference?: string, errors: string[] } => {
+  const cell = (field: BulkImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (cells[index] || '').trim();
+  };
+  const errors: string[] = [];
+
+  const reference = cell('reference');
+  if (!reference) errors.push('Missing reference');
+
+  const bank = cell('bank');
+  if (!bank) errors.push('Missing bank');
+
+  const valueDate = parseDocumentDate(cell('valueDate'));
+  if (!valueDate) errors.push(`Unreadable value date "${cell('valueDate')}"`);
+
+  const soldAmount = Math.abs(parseLocaleNumber(cell('soldAmount')));
+  if (!isFinite(soldAmount) || soldAmount === 0) errors.push(`Invalid sold amount "${cell('soldAmount')}"`);
+
+  const soldCurrency = cell('soldCurrency').toUpperCase();
+  if (!CURRENCY.test(soldCurrency)) errors.push(`Invalid sold currency "${cell('soldCurrency')}"`);
+
+  // Bought currency from its own column, else the other leg of the pair
+  const pairCell = cell('pair').toUpperCase().replace(/[^A-Z]/g, '');
+  const pair = pairCell.length === 6 ? `${pairCell.slice(0, 3)}/${pairCell.slice(3)}` : '';
+  const boughtCurrency = cell('boughtCurrency').toUpperCase()
+    || (pair ? pair.split('/').find(c => c !== soldCurrency) || '' : '');
+  if (!CURRENCY.test(boughtCurrency)) errors.push(`Invalid bought currency "${cell('boughtCurrency') || cell('pair')}"`);
+  else if (boughtCurrency === soldCurrency) errors.push('Sold and bought currencies are the same');
+  if (pair && !pair.split('/').includes(soldCurrency)) errors.push(`Pair ${pair} does not include ${soldCurrency}`);
+
+  const boughtRaw = cell('boughtAmount');
+  const boughtAmount = boughtRaw ? Math.abs(parseLocaleNumber(boughtRaw)) : NaN;
+  if (boughtRaw && !isFinite(boughtAmount)) errors.push(`Invalid bought amount "${boughtRaw}"`);
+
+  const rateRaw = cell('bankRate');
+  let bankRate = rateRaw ? parseLocaleNumber(rateRaw) : NaN;
+  if (rateRaw && (!isFinite(bankRate) || bankRate <= 0)) errors.push(`Invalid bank rate "${rateRaw}"`);
+
+  const currencyPair = pair || `${soldCurrency}/${boughtCurrency}`;
+  if (!rateRaw && isFinite(boughtAmount) && soldAmount > 0) {
+    // No rate column: derive it from the two amounts in the pair's orientation
+    bankRate = currencyPair.startsWith(soldCurrency) ? boughtAmount / soldAmount : soldAmount / boughtAmount;
+  }
+  if (!isFinite(bankRate) && !rateRaw) errors.push('Needs a bank rate or a bought amount');
+
+  const feeRaw = cell('feeAmount');
+  const feeAmount = feeRaw ? Math.abs(parseLocaleNumber(feeRaw)) : 0;
+  if (feeRaw && !isFinite(feeAmount)) errors.push(`Invalid fee amount "${feeRaw}"`);
+  const feeCurrency = (cell('feeCurrency') || soldCurrency).toUpperCase();
+
+  if (errors.length > 0) return { extraction: null, reference: reference || undefined, errors };
+
+  const items = feeAmount > 0 ? [{ name: 'Bank Charges', amount: feeAmount, currency: feeCurrency }] : [];
+  return {
+    reference,
+    errors,
+    extraction: {
+      extraction: {
+        bank_name: bank,
+        transaction_reference: reference,
+        sender_name: cell('sender') || undefined,
+        beneficiary_name: cell('beneficiary') || undefined
+      },
+      transaction: {
+        original_amount: soldAmount,
+        original_currency: soldCurrency,
+        converted_amount: isFinite(boughtAmount) ? boughtAmount : soldAmount * (currencyPair.startsWith(soldCurrency) ? bankRate : 1 / bankRate),
+        converted_currency: boughtCurrency,
+        exchange_rate_bank: bankRate,
+        currency_pair: currencyPair,
+        value_date: valueDate,
+        execution_time: cell('executionTime')
+      },
+      fees: { items, total_fees: feeAmount },
+      source: 'csv-import'
+    }
+  };
+};
+
+/**
+ * Dry run: validate and de-duplicate every row. Nothing is priced or saved.
+ */
+export const previewBulkImport = (file: BulkImportFile, mapping: BulkColumnMapping, existingQuotes: QuoteData[]): BulkImportPreview => {
+  const ledgerReferences = new Set(existingQuotes.map(q => normalizeReference(q.referenceNumber)).filter(Boolean));
+  const seen = new Set<string>();
+
+  const rows = file.rows.map((cells, i): BulkImportRow => {
+    const parsed = rowToExtraction(cells, mapping);
+    const key = normalizeReference(parsed.reference);
+    let duplicate: BulkImportRow['duplicate'];
+    if (key && ledgerReferences.has(key)) duplicate = 'ledger';
+    else if (key && seen.has(key)) duplicate = 'file';
+    if (key) seen.add(key);
+    return { rowNumber: i + 2, reference: parsed.reference, extraction: parsed.extraction, errors: parsed.errors, duplicate };
+  });
+
+  return {
+    rows,
+    ready: rows.filter(r => r.extraction && !r.duplicate).length,
+    invalid: rows.filter(r => r.errors.length > 0).length,
+    duplicates: rows.filter(r => r.errors.length === 0 && r.duplicate).length
+  };
+};
+
+export interface BulkImportProgress {
+  priced: number;
+  saved: number;
+  total: number;
+}
+
+export interface BulkImportResult {
+  quotes: QuoteData[];
+  failed: { rowNumber: number, error: string }[];
+}
+
+// Rows priced before each save, so an interrupted run keeps most of its work
+const SAVE_CHUNK = 50;
+
+/**
+ * Price every ready row (historical mid rate, reporting conversions, calculateAllCosts) and save
+ * in batches. Rows that fail pricing are reported, not retried.
+ */
+export const runBulkImport = async (
+  preview: BulkImportPreview,
+  input: { userId: string, orgId: string, reportingCurrency?: string, pricing?: PricingContext },
+  onProgress: (progress: BulkImportProgress) => void = () => {}
+): Promise<BulkImportResult> => {
+  const ready = preview.rows.filter(r => r.extraction && !r.duplicate);
+  const result: BulkImportResult = { quotes: [], failed: [] };
+  let pending: { quote: Partial<QuoteData>, geminiRaw: any }[] = [];
+  let priced = 0;
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const saveResult = await saveQuotesBatch(input.userId, input.orgId, pending);
+    result.quotes.push(...saveResult.quotes);
+    pending = [];
+    if (saveResult.success === false) throw new Error(saveResult.error || "Database Write Failed");
+  };
+
+  for (const row of ready) {
+    try {
+      const analysis = await analyzeExtraction(row.extraction!, input.reportingCurrency, undefined, undefined, input.pricing);
+      pending.push({ quote: analysis.quote, geminiRaw: { ...analysis.extraction, rowNumber: row.rowNumber } });
+    } catch (err: any) {
+      result.failed.push({ rowNumber: row.rowNumber, error: err.message || 'Pricing failed' });
+    }
+    priced++;
+    if (pending.length >= SAVE_CHUNK) await flush();
+    onProgress({ priced, saved: result.quotes.length, total: ready.length });
+  }
+  await flush();
+  onProgress({ priced, saved: result.quotes.length, total: ready.length });
+
+  return result;
+};
@@ -1,33 +1,86 @@
 
 import { QuoteData, FeeItem } from '../types';
+import { resolvePairOrientation, computeDirectionalSpread, rateAtTargetSpread, normalizeBankRate, PairOrientation, parsePair } from './fxPairs';
+import { BenchmarkContext, percentileLabel, rankAgainstBenchmark } from './benchmarks';
+import { DisputeFacts, DisputeRuleContext, evaluateDisputeRules, laneAverage } from './disputeRules';
+import { ProjectionContext, projectAnnual } from './projections';
+
+/**
+ * Rates into the reporting currency: 1 unit of the keyed currency = N units of reporting currency
+ */
+export type ConversionRates = Record<string, number>;
+
+/**
+ * What an organization prices against beyond the transfer itself
+ */
+export interface PricingContext {
+  benchmark?: BenchmarkContext; // The org's benchmark table and priced history; built-in table when absent
+  disputeRules?: DisputeRuleContext; // The org's dispute rules and bank registry; built-in rules when absent
+  projection?: ProjectionContext; // The org's corridor history and declared volumes; one a month when absent
+}
+
+export interface CalculationOptions extends PricingContext {
+  reportingCurrency?: string; // Defaults to the currency the client sold
+  conversionRates?: ConversionRates; // Value-date mid rates for fee currencies outside the pair
+  unpriced?: boolean; // No market mid was found: no spread, markup or dispute is worked out
+}
 
 /**
  * Main calculation function - call this after extracting data
  */
 export function calculateAllCosts(
   extractedData: any, 
-  midMarketRate: number
+  midMarketRate: number,
+  options: CalculationOptions = {}
 ) {
-  const amount = parseFloat(extractedData.original_amount) || 0;
+  const principal = parseAmount(extractedData.original_amount);
   const bankRate = parseFloat(extractedData.exchange_rate_bank) || 1.0;
   
-  // Step 1: Categorize and sum all fees
-  const feeBreakdown = categorizeFees(extractedData.fees?.items || []);
+  // Step 1: Resolve pair orientation
+  // Orientation tells us which side of the pair the client is on and whether the bank
+  // quoted BASE/QUOTE or the inverse. Spread is signed: negative means the bank beat mid.
+  const orientation = resolvePairOrientation({
+    currencyPair: extractedData.currency_pair,
+    originalCurrency: extractedData.original_currency,
+    convertedCurrency: extractedData.converted_currency,
+    originalAmount: principal,
+    convertedAmount: parseAmount(extractedData.converted_amount),
+    bankRate,
+    midMarketRate
+  });
+
+  // Step 2: Build conversion table into the reporting currency
+  // If the principal itself cannot be converted we report in the sold currency instead.
+  // An unpriced quote converts at the bank's own rate, on the pair's convention.
+  const unpriced = !!options.unpriced;
+  const conversionMid = unpriced ? normalizeBankRate(orientation, bankRate) : midMarketRate;
+  let reportingCurrency = (options.reportingCurrency || orientation.soldCurrency).toUpperCase();
+  let rates = buildConversionRates(orientation, conversionMid, reportingCurrency, options.conversionRates);
+  if (rates[orientation.soldCurrency] === undefined) {
+    reportingCurrency = orientation.soldCurrency;
+    rates = buildConversionRates(orientation, conversionMid, reportingCurrency, options.conversionRates);
+  }
+  const principalRate = rates[orientation.soldCurrency];
+  const amount = principal * principalRate;
+
+  // Step 3: Categorize and sum all fees (converted into the reporting currency)
+  const feeBreakdown = categorizeFees(extractedData.fees?.items || [], orientation.soldCurrency, rates);
   const totalFees = feeBreakdown.wireFee + feeBreakdown.fxFee + 
                     feeBreakdown.correspondentFee + feeBreakdown.otherFees;
   
-  // Step 2: Calculate exchange rate spread
-  // Formula: ((midMarket - bankRate) / bankRate) for inversion or absolute difference depending on quote type
-  // Standard logic: Difference between Mid and Bank, scaled to volume
-  const spreadDecimal = Math.abs(midMarketRate - bankRate) / midMarketRate; // Using Mid as denominator for true spread
-  const spreadPercentage = spreadDecimal * 100;
-  const spreadCost = amount * spreadDecimal;
+  // Step 4: Calculate exchange rate spread (unknown without a market mid; the cost is then fees only)
+  const spread = unpriced ? null : computeDirectionalSpread(orientation, bankRate, midMarketRate);
+  const spreadDecimal = spread ? spread.spreadDecimal : null;
+  const spreadPercentage = spread ? spread.spreadPercentage : null;
+  // Only an adverse spread is a hidden cost; a favourable one is reported separately
+  const spreadCost = amount * Math.max(0, spreadDecimal ?? 0);
+  const favourableGain = spreadDecimal === null ? null : amount * Math.max(0, -spreadDecimal);
   
-  // Step 3: Calculate total hidden cost
+  // Step 5: Calculate total hidden cost
   const totalHiddenCost = totalFees + spreadCost;
   const totalHiddenPercentage = (totalHiddenCost / amount) * 100;
   
-  // Step 4: Build cost breakdown for charts
+  // Step 6: Build cost breakdown for charts
   const costBreakdown = {
     fees: {
       amount: totalFees,
@@ -46,29 +99,59 @@ export function calculateAllCosts(
     }
   };
   
-  // Step 5: Annualized projections (assume monthly)
-  const annualTransactionCount = 12;
-  const annualizedHiddenCost = totalHiddenCost * annualTransactionCount;
+  // Step 7: Annualized projections, from how often and how much this corridor actually sends
+  const pair = extractedData.currency_pair || `${orientation.base}/${orientation.quote}`;
+  const annualProjection = projectAnnual(options.projection, {
+    bank: extractedData.bank_name,
+    bankCode: extractedData.bank_code,
+    pair,
+    date: extractedData.value_date || new Date().toISOString().slice(0, 10),
+    amount,
+    currency: reportingCurrency
+  }, totalHiddenPercentage);
+  const annualTransactionCount = annualProjection.transactionsPerYear;
+  const annualVolume = annualTransactionCount * annualProjection.averageAmount;
+  const annualizedHiddenCost = amount > 0 ? (totalHiddenCost / amount) * annualVolume : totalHiddenCost * annualTransactionCount;
   const monthlyAverageCost = annualizedHiddenCost / 12;
   
-  // Step 6: Industry comparison
+  // Step 8: Industry comparison, for this pair and ticket size
   const industryComparison = compareToIndustry(
-    totalHiddenCost,
     totalHiddenPercentage,
-    extractedData.currency_pair || 'USD/EUR'
+    pair,
+    amount,
+    reportingCurrency,
+    rates,
+    options.benchmark
   );
   
-  // Step 7: Dispute recommendation
-  const disputeRec = generateDisputeRecommendation(
-    spreadPercentage,
-    totalFees,
-    totalHiddenCost,
-    bankRate,
-    amount,
-    spreadCost
+  // Step 9: Dispute recommendation from the org's rules; nothing to dispute on an unmeasured spread
+  const disputeRec = spreadPercentage === null ? unpricedDisputeRecommendation() : generateDisputeRecommendation(
+    {
+      pair,
+      spreadPercentage,
+      totalFees,
+      totalHiddenCost,
+      totalHiddenPercentage,
+      amount,
+      currency: reportingCurrency,
+      bank: extractedData.bank_name,
+      bankCode: extractedData.bank_code,
+      counterparties: [extractedData.sender_name, extractedData.beneficiary_name].filter(n => typeof n === 'string' && n),
+      laneAverage: laneAverage(options.benchmark?.history || [], pair),
+      // Into the rules' currency when their thresholds are in another one
+      convert: (value, currency) => (rates[currency.toUpperCase()] ? value / rates[currency.toUpperCase()] : null)
+    },
+    orientation,
+    midMarketRate,
+    spreadCost,
+    annualTransactionCount,
+    annualVolume,
+    options.disputeRules
   );
   
   return {
+    reportingCurrency,
+    unconvertedFees: feeBreakdown.unconverted,
     fees: feeBreakdown.items,
     wireFee: feeBreakdown.wireFee,
     fxFee: feeBreakdown.fxFee,
@@ -77,6 +160,10 @@ export function calculateAllCosts(
     totalFees,
     spreadDecimal,
     spreadPercentage,
+    spreadDirection: spread ? spread.direction : null,
+    rateConvention: orientation.rateConvention,
+    unpriced,
+    favourableGain,
     markupCost: spreadCost,
     totalHiddenCost,
     totalHiddenPercentage,
@@ -84,138 +171,261 @@ export function calculateAllCosts(
     annualTransactionCount,
     annualizedHiddenCost,
     monthlyAverageCost,
+    annualProjection,
     ...industryComparison,
     dispute: disputeRec
   };
 }
 
+const FEE_CATEGORIES = ['wire', 'fx', 'correspondent', 'other'];
+
 /**
  * Categorize fee line items by type
  */
-function categorizeFees(feeItems: any[]) {
+function categorizeFees(feeItems: any[], defaultCurrency: string, rates: ConversionRates) {
   const result = {
     wireFee: 0,
     fxFee: 0,
     correspondentFee: 0,
     otherFees: 0,
-    items: [] as FeeItem[]
+    items: [] as FeeItem[],
+    unconverted: [] as FeeItem[]
   };
   
   for (const fee of feeItems || []) {
-    const amount = parseFloat(fee.amount) || 0;
+    const amount = parseAmount(fee.amount);
+    const currency = extractFeeCurrency(fee, defaultCurrency);
     const type = (fee.name || fee.type || '').toLowerCase();
     let category: 'wire' | 'fx' | 'correspondent' | 'other' = 'other';
     
-    if (type.includes('wire') || type.includes('transfer') || type.includes('outgoing')) {
-      result.wireFee += amount;
+    // Structured sources (SWIFT 71A/71F/71G) already know the category
+    if (FEE_CATEGORIES.includes(fee.category)) {
+      category = fee.category;
+    }
+    else if (type.includes('wire') || type.includes('transfer') || type.includes('outgoing')) {
       category = 'wire';
     } 
     else if (type.includes('fx') || type.includes('exchange') || 
              type.includes('conversion') || type.includes('foreign')) {
-      result.fxFee += amount;
       category = 'fx';
     }
     else if (type.includes('correspondent') || type.includes('intermediary') || 
              type.includes('receiving')) {
-      result.correspondentFee += amount;
       category = 'correspondent';
     }
-    else {
-      result.otherFees += amount;
-    }
 
-    result.items.push({ 
+    const conversionRate = rates[currency];
+    const item: FeeItem = { 
         type: fee.name || 'Fee',
         amount, 
-        currency: 'USD', // Default for now
+        currency,
         description: type,
-        category
-    });
+        category,
+        ...(fee.charge_bearer ? { chargeBearer: fee.charge_bearer } : {})
+    };
+
+    // A fee we cannot convert is kept on the quote but left out of the totals
+    if (conversionRate === undefined) {
+      result.items.push(item);
+      result.unconverted.push(item);
+      continue;
+    }
+
+    const reportingAmount = amount * conversionRate;
+    item.reportingAmount = parseFloat(reportingAmount.toFixed(2));
+    item.conversionRate = conversionRate;
+    result.items.push(item);
+
+    if (category === 'wire') result.wireFee += reportingAmount;
+    else if (category === 'fx') result.fxFee += reportingAmount;
+    else if (category === 'correspondent') result.correspondentFee += reportingAmount;
+    else result.otherFees += reportingAmount;
   }
   
   return result;
 }
 
+// ISO codes we recognise inside free-text fee lines
+const KNOWN_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'CNY', 'HKD', 'SGD', 'INR',
+  'ZAR', 'ZWG', 'MXN', 'BRL', 'SEK', 'NOK', 'DKK', 'PLN', 'AED', 'SAR', 'KES', 'NGN'
+];
+
+// Longest symbols first so "R$" wins over "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'], ['CA$', 'CAD'], ['C$', 'CAD'], ['A$', 'AUD'], ['NZ$', 'NZD'], ['HK$', 'HKD'],
+  ['S$', 'SGD'], ['R$', 'BRL'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₹', 'INR'], ['$', 'USD']
+];
+
 /**
- * Compare to industry benchmarks
+ * Work out which currency a fee was charged in: explicit field first, then ISO code or symbol in the text
  */
-function compareToIndustry(totalCost: number, totalPercentage: number, currencyPair: string) {
-  // Benchmarks by currency pair (spread %, total cost %)
-  const benchmarks: Record<string, { avgSpread: number, avgTotalCost: number }> = {
-    'USD/EUR': { avgSpread: 1.2, avgTotalCost: 1.5 },
-    'USD/GBP': { avgSpread: 1.3, avgTotalCost: 1.6 },
-    'USD/JPY': { avgSpread: 1.4, avgTotalCost: 1.7 },
-    'EUR/GBP': { avgSpread: 1.1, avgTotalCost: 1.4 },
-    'USD/CAD': { avgSpread: 1.0, avgTotalCost: 1.3 },
-    'USD/AUD': { avgSpread: 1.1, avgTotalCost: 1.4 },
-    'default': { avgSpread: 1.5, avgTotalCost: 2.0 }
+export function extractFeeCurrency(fee: any, fallback: string): string {
+  const explicit = typeof fee?.currency === 'string' ? fee.currency.trim().toUpperCase() : '';
+  if (/^[A-Z]{3}$/.test(explicit)) return explicit;
+
+  const text = [fee?.amount, fee?.name, fee?.type, fee?.description]
+    .filter(v => typeof v === 'string')
+    .join(' ');
+
+  const isoMatch = text.toUpperCase().match(/\b[A-Z]{3}\b/g)?.find(code => KNOWN_CURRENCIES.includes(code));
+  if (isoMatch) return isoMatch;
+
+  for (const [symbol, code] of CURRENCY_SYMBOLS) {
+    if (text.includes(symbol)) return code;
+  }
+
+  return fallback.toUpperCase();
+}
+
+/**
+ * Distinct currencies across fee lines, for fetching value-date conversion rates
+ */
+export function listFeeCurrencies(feeItems: any[], fallback: string): string[] {
+  return Array.from(new Set((feeItems || []).map(fee => extractFeeCurrency(fee, fallback))));
+}
+
+/**
+ * Currencies that need an external value-date rate into the reporting currency: fee currencies
+ * outside the pair, plus one pair leg when the reporting currency is not part of the pair
+ */
+export function listRequiredConversions(extractedData: any, reportingCurrency: string): string[] {
+  const target = reportingCurrency.toUpperCase();
+  const legs = parsePair(extractedData.currency_pair);
+  const sold = (extractedData.original_currency || legs?.base || target).toUpperCase();
+  const pairCurrencies = [legs?.base, legs?.quote, sold].filter(Boolean) as string[];
+  const reportingInPair = pairCurrencies.includes(target);
+
+  const needed = new Set<string>(reportingInPair ? [] : [sold]);
+  for (const code of listFeeCurrencies(extractedData.fees?.items || [], sold)) {
+    // Pair currencies convert through the pair's own mid once one leg is bridged
+    if (!pairCurrencies.includes(code)) needed.add(code);
+  }
+  needed.delete(target);
+  return Array.from(needed);
+}
+
+/**
+ * Parse "1,250.00", "€15" or 15 into a number
+ */
+function parseAmount(value: any): number {
+  if (typeof value === 'number') return isFinite(value) ? value : 0;
+  if (typeof value !== 'string') return 0;
+  return parseFloat(value.replace(/[^0-9.\-]/g, '')) || 0;
+}
+
+/**
+ * Combine the pair's own mid rate with any externally fetched rates into one table
+ */
+function buildConversionRates(
+  orientation: PairOrientation,
+  midMarketRate: number,
+  reportingCurrency: string,
+  external: ConversionRates = {}
+): ConversionRates {
+  const rates: ConversionRates = {};
+  for (const [code, rate] of Object.entries(external)) {
+    if (rate > 0) rates[code.toUpperCase()] = rate;
+  }
+
+  const { base, quote } = orientation;
+  if (midMarketRate > 0) {
+    // The pair's own mid wins over external rates so spread and fees use the same fixing
+    if (reportingCurrency === quote) rates[base] = midMarketRate;
+    else if (reportingCurrency === base) rates[quote] = 1 / midMarketRate;
+    else if (rates[base] !== undefined) rates[quote] = rates[base] / midMarketRate;
+    else if (rates[quote] !== undefined) rates[base] = rates[quote] * midMarketRate;
+  }
+
+  rates[reportingCurrency] = 1;
+  return rates;
+}
+
+/**
+ * Compare to the org's benchmark table for the pair and amount tier, blended with its own history
+ */
+function compareToIndustry(
+  totalPercentage: number,
+  currencyPair: string,
+  amount: number,
+  reportingCurrency: string,
+  rates: ConversionRates,
+  benchmark?: BenchmarkContext
+) {
+  // Tiers are in the table's currency; null when there is no rate to get there
+  const tableCurrency = (benchmark?.table.currency || 'USD').toUpperCase();
+  const toTableCurrency = (value: number, currency: string) => {
+    const from = rates[currency.toUpperCase()];
+    const to = rates[tableCurrency];
+    return from && to ? value * from / to : null;
   };
-  
-  const benchmark = benchmarks[currencyPair] || benchmarks['default'];
-  
-  const yourCostVsIndustry = totalPercentage - benchmark.avgTotalCost;
+
+  const rank = rankAgainstBenchmark(benchmark, currencyPair, totalPercentage, toTableCurrency(amount, reportingCurrency), toTableCurrency);
+  const yourCostVsIndustry = totalPercentage - rank.entry.avgTotalCost;
   const betterThanIndustry = yourCostVsIndustry < 0;
   
-  // Percentile ranking
-  let percentileRank;
-  if (totalPercentage < 1.0) percentileRank = 'top_10%';
-  else if (totalPercentage < 1.5) percentileRank = 'top_25%';
-  else if (totalPercentage < 2.0) percentileRank = 'average';
-  else if (totalPercentage < 3.0) percentileRank = 'bottom_25%';
-  else percentileRank = 'bottom_10%';
-  
   return {
-    industryAverageSpread: benchmark.avgSpread,
-    industryAverageTotalCost: benchmark.avgTotalCost,
+    industryAverageSpread: rank.entry.avgSpread,
+    industryAverageTotalCost: rank.entry.avgTotalCost,
     yourCostVsIndustry: parseFloat(yourCostVsIndustry.toFixed(2)),
     betterThanIndustry,
-    percentileRank,
+    percentileRank: percentileLabel(rank.percentile),
+    costPercentile: rank.percentile,
+    benchmarkVersion: rank.version,
+    benchmarkTier: rank.tier,
     potentialSavingsPercent: parseFloat(Math.max(0, yourCostVsIndustry).toFixed(2))
   };
 }
 
 /**
- * Generate dispute recommendation
+ * The recommendation for a quote with no market mid: rules are not evaluated
+ */
+function unpricedDisputeRecommendation(): QuoteData['dispute'] {
+  return {
+    recommended: false,
+    priority: 'low',
+    reason: 'No mid-market rate was found for the value date, so the spread was not measured.',
+    firedRules: [],
+    suggestedNegotiatedRate: 0,
+    targetSpreadPercentage: 0,
+    potentialSavingsPerTransaction: 0,
+    potentialAnnualSavings: 0,
+    disputeLetterGenerated: false,
+    disputeLetterText: null
+  };
+}
+
+/**
+ * Generate dispute recommendation: which rules fired, and what to negotiate towards
  */
 function generateDisputeRecommendation(
-    spreadPercentage: number, 
-    totalFees: number, 
-    totalHiddenCost: number, 
-    bankRate: number,
-    amount: number,
-    spreadCost: number
+    facts: DisputeFacts,
+    orientation: PairOrientation,
+    midMarketRate: number,
+    spreadCost: number,
+    annualTransactionCount: number,
+    annualVolume: number,
+    rules?: DisputeRuleContext
 ) {
-  // Dispute triggers
-  const highSpread = spreadPercentage > 1.0;
-  const highFees = totalFees > 100;
-  const highTotalCost = totalHiddenCost > 500;
-  
-  const recommended = highSpread || highFees || highTotalCost;
+  const evaluation = evaluateDisputeRules(rules, facts);
   
-  // Priority level
-  let priority: "high" | "medium" | "low" = 'low';
-  if (spreadPercentage > 2.5 || totalHiddenCost > 2000) priority = 'high';
-  else if (spreadPercentage > 1.5 || totalHiddenCost > 1000) priority = 'medium';
-  
-  // Suggested negotiation (target 0.5% spread)
-  const targetSpreadPercent = 0.5;
-  const suggestedNegotiatedRate = bankRate * (1 + targetSpreadPercent/100);
+  // Suggested negotiation (target spread off mid, in the bank's own quoting convention)
+  const targetSpreadPercent = evaluation.targetSpread;
+  const suggestedNegotiatedRate = rateAtTargetSpread(orientation, midMarketRate, targetSpreadPercent);
   
   // Potential savings calculation
-  const targetSpreadCost = amount * (targetSpreadPercent / 100);
+  const targetSpreadCost = facts.amount * (targetSpreadPercent / 100);
   const potentialSavingsPerTransaction = Math.max(0, spreadCost - targetSpreadCost);
-  const potentialAnnualSavings = potentialSavingsPerTransaction * 12;
-  
-  // Generate reason text
-  const reasons = [];
-  if (highSpread) reasons.push(`Exchange rate markup of ${spreadPercentage.toFixed(2)}% is above typical 0.5-1.0%`);
-  if (highFees) reasons.push(`Transaction fees of $${totalFees.toFixed(2)} are higher than industry standard`);
-  if (highTotalCost) reasons.push(`Total hidden cost exceeds $${totalHiddenCost.toFixed(2)}`);
+  // Saved at the same rate on the corridor's projected annual volume
+  const potentialAnnualSavings = facts.amount > 0
+    ? (potentialSavingsPerTransaction / facts.amount) * annualVolume
+    : potentialSavingsPerTransaction * annualTransactionCount;
   
   return {
-    recommended,
-    priority,
-    reason: reasons.join('. ') + '.',
+    recommended: evaluation.recommended,
+    priority: evaluation.priority,
+    reason: evaluation.reasons.length > 0 ? evaluation.reasons.join('. ') + '.' : '',
+    firedRules: evaluation.fired,
     suggestedNegotiatedRate: parseFloat(suggestedNegotiatedRate.toFixed(4)),
     targetSpreadPercentage: targetSpreadPercent,
     potentialSavingsPerTransaction: parseFloat(potentialSavingsPerTransaction.toFixed(2)),
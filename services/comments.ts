@@ -0,0 +1,74 @@
+import { Comment, TeamMember } from '../types';
+
+// --- QUOTE COMMENTS ---
+// Comments live under quotes/{id}/comments, one document each, so only the author can change theirs.
+// Threads are one level deep: a reply to a reply joins the same thread.
+
+export interface CommentThread {
+  root: Comment;
+  replies: Comment[];
+}
+
+export const newCommentId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest names first, so "@Ana Lima" is not read as "@Ana"
+const mentionable = (members: TeamMember[]) => members.filter(m => m.name).sort((a, b) => b.name.length - a.name.length);
+
+const mentionPattern = (members: TeamMember[]) => {
+  const names = mentionable(members).map(m => escapeRegExp(m.name));
+  return names.length ? new RegExp(`@(${names.join('|')})(?![\\w])`, 'gi') : null;
+};
+
+/**
+ * User ids of the members @mentioned in a comment
+ */
+export const extractMentions = (text: string, members: TeamMember[]): string[] => {
+  const pattern = mentionPattern(members);
+  if (!pattern) return [];
+  const ids = new Set<string>();
+  for (const match of text.matchAll(pattern)) {
+    const member = members.find(m => m.name.toLowerCase() === match[1].toLowerCase());
+    if (member) ids.add(member.id);
+  }
+  return [...ids];
+};
+
+/**
+ * Comment text cut into plain runs and mentions, for highlighting
+ */
+export const splitMentions = (text: string, members: TeamMember[]): { text: string, memberId?: string }[] => {
+  const pattern = mentionPattern(members);
+  if (!pattern) return [{ text }];
+  const parts: { text: string, memberId?: string }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index || 0;
+    if (index > last) parts.push({ text: text.slice(last, index) });
+    parts.push({ text: match[0], memberId: members.find(m => m.name.toLowerCase() === match[1].toLowerCase())?.id });
+    last = index + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+};
+
+/**
+ * The "@partial" being typed at the caret, if any, for the mention picker
+ */
+export const mentionQueryAt = (text: string, caret: number): { start: number, query: string } | null => {
+  const match = /(^|\s)@([^@\n]{0,30})$/.exec(text.slice(0, caret));
+  return match ? { start: caret - match[2].length - 1, query: match[2] } : null;
+};
+
+/**
+ * Top-level comments oldest first, each with its replies
+ */
+export const buildThreads = (comments: Comment[] = []): CommentThread[] => {
+  const byTime = [...comments].sort((a, b) => a.timestamp - b.timestamp);
+  const roots = byTime.filter(c => !c.parentId || !byTime.some(p => p.id === c.parentId));
+  return roots
+    .map(root => ({ root, replies: byTime.filter(c => c.parentId === root.id) }))
+    // A deleted comment stays only while replies still hang off it
+    .filter(thread => !thread.root.deleted || thread.replies.length > 0);
+};
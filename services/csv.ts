@@ -0,0 +1,78 @@
+// --- CSV PARSING ---
+// Small RFC 4180 reader: quoted fields, escaped quotes ("") and CRLF/LF line endings.
+
+/**
+ * Parse CSV text into rows of trimmed cells. Blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM that Excel exports carry
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') { field += '"'; i++; }
+        else inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') inQuotes = true;
+    else if (char === delimiter) { row.push(field.trim()); field = ''; }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(cell => cell !== '')) rows.push(row);
+      row = [];
+      field = '';
+    }
+    else field += char;
+  }
+
+  row.push(field.trim());
+  if (row.some(cell => cell !== '')) rows.push(row);
+  return rows;
+};
+
+/**
+ * Guess the delimiter from the first line (European exports often use ';')
+ */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 1 ? counts[0].d : ',';
+};
+
+// --- CSV WRITING ---
+
+const escapeCell = (value: string | number | null | undefined, delimiter: string): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Spreadsheets run text starting with one of these as a formula
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+/**
+ * Prefix text a spreadsheet would run as a formula with a quote so it opens as text. Numbers pass as they are.
+ */
+export const guardFormula = <T>(value: T): T | string =>
+  typeof value === 'string' && FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+
+/**
+ * Serialize rows as RFC 4180 CSV with CRLF line endings
+ */
+export const toCsv = (rows: (string | number | null | undefined)[][], delimiter: string = ','): string => {
+  return rows.map(row => row.map(cell => escapeCell(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+};
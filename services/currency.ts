@@ -0,0 +1,169 @@
+import { QuoteData } from '../types';
+import { parsePair } from './fxPairs';
+
+// Currencies an organization can report in
+export const REPORTING_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'CHF', 'ZAR', 'INR', 'SGD'];
+
+export const DEFAULT_REPORTING_CURRENCY = 'USD';
+
+/**
+ * Format an amount with its currency symbol, e.g. formatCurrency(1234.5, 'EUR') -> "€1,234.50"
+ */
+export const formatCurrency = (amount: number | undefined | null, currency: string, fractionDigits: number = 2) => {
+  const value = amount || 0;
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits
+    }).format(value);
+  } catch (e) {
+    // Unknown ISO code: fall back to "XYZ 1,234.50"
+    return `${currency} ${value.toLocaleString(undefined, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits })}`;
+  }
+};
+
+/**
+ * Currency a quote's costs were calculated in. Quotes saved before reporting currencies
+ * existed carry their costs in the original (sold) currency.
+ */
+export const quoteCostCurrency = (quote: Partial<QuoteData>): string => {
+  return (quote.reportingCurrency || quote.originalCurrency || parsePair(quote.pair)?.base || DEFAULT_REPORTING_CURRENCY).toUpperCase();
+};
+
+/**
+ * The day a quote's money moved: its value date, else the day it was analyzed
+ */
+export const quoteValueDate = (quote: Partial<QuoteData>): string => {
+  if (quote.valueDate) return quote.valueDate.slice(0, 10);
+  return quote.createdAt ? new Date(quote.createdAt).toISOString().slice(0, 10) : '';
+};
+
+/**
+ * Fallback rates into the reporting currency for one value date each, keyed by `datedRateKey`
+ */
+export type DatedConversionRates = Record<string, number>;
+
+export const datedRateKey = (currency: string, date: string) => `${currency.toUpperCase()}@${date}`;
+
+/**
+ * Principal in the quote's cost currency. Recovered from the cost figures, since `amount` is in the
+ * sold currency; falls back to `amount` when nothing was charged and the currencies agree.
+ */
+export const quotePrincipal = (quote: QuoteData): number | null => {
+  if (quote.totalHiddenPercentage > 0 && quote.totalHiddenCost > 0) return quote.totalHiddenCost * 100 / quote.totalHiddenPercentage;
+  if ((quote.originalCurrency || '').toUpperCase() === quoteCostCurrency(quote) && quote.amount > 0) return quote.amount;
+  return null;
+};
+
+/**
+ * Rate from a quote's cost currency into the target. The quote's own value-date mid is used
+ * when both currencies are legs of its pair; otherwise the fallback rate for its value date.
+ */
+export const quoteConversionRate = (
+  quote: Partial<QuoteData>,
+  target: string,
+  fallbackRates: DatedConversionRates = {}
+): number | null => {
+  const from = quoteCostCurrency(quote);
+  const to = target.toUpperCase();
+  if (from === to) return 1;
+
+  const legs = parsePair(quote.pair);
+  const mid = quote.midMarketRate || 0;
+  if (legs && mid > 0) {
+    if (from === legs.base && to === legs.quote) return mid;
+    if (from === legs.quote && to === legs.base) return 1 / mid;
+  }
+
+  return fallbackRates[datedRateKey(from, quoteValueDate(quote))] ?? null;
+};
+
+/**
+ * Copy of a quote with every cost aggregate expressed in the target currency.
+ * Returns null when no rate is available, so callers can report the gap instead of mixing currencies.
+ */
+export const convertQuoteToReporting = (
+  quote: QuoteData,
+  target: string,
+  fallbackRates: DatedConversionRates = {}
+): QuoteData | null => {
+  const rate = quoteConversionRate(quote, target, fallbackRates);
+  if (rate === null) return null;
+  if (rate === 1) return { ...quote, reportingCurrency: target.toUpperCase() };
+
+  const scale = (v?: number) => (typeof v === 'number' ? v * rate : v) as number;
+  const scaleItem = <T extends { amount: number }>(item: T): T => (item ? { ...item, amount: scale(item.amount) } : item);
+
+  return {
+    ...quote,
+    reportingCurrency: target.toUpperCase(),
+    wireFee: scale(quote.wireFee),
+    fxFee: scale(quote.fxFee),
+    correspondentFee: scale(quote.correspondentFee),
+    otherFees: scale(quote.otherFees),
+    totalFees: scale(quote.totalFees),
+    // Each fee keeps its own amount and currency; only its reporting-currency figure moves
+    fees: quote.fees && quote.fees.map(fee => (typeof fee.reportingAmount === 'number' ? { ...fee, reportingAmount: scale(fee.reportingAmount) } : fee)),
+    markupCost: scale(quote.markupCost),
+    favourableGain: scale(quote.favourableGain),
+    totalHiddenCost: scale(quote.totalHiddenCost),
+    annualizedHiddenCost: scale(quote.annualizedHiddenCost),
+    monthlyAverageCost: scale(quote.monthlyAverageCost),
+    annualProjection: quote.annualProjection && {
+      ...quote.annualProjection,
+      averageAmount: scale(quote.annualProjection.averageAmount),
+      hiddenCostLow: scale(quote.annualProjection.hiddenCostLow),
+      hiddenCostHigh: scale(quote.annualProjection.hiddenCostHigh)
+    },
+    costBreakdown: quote.costBreakdown && {
+      fees: scaleItem(quote.costBreakdown.fees),
+      spread: scaleItem(quote.costBreakdown.spread),
+      total: scaleItem(quote.costBreakdown.total)
+    },
+    dispute: quote.dispute && {
+      ...quote.dispute,
+      potentialSavingsPerTransaction: scale(quote.dispute.potentialSavingsPerTransaction),
+      potentialAnnualSavings: scale(quote.dispute.potentialAnnualSavings)
+    },
+    disputeCase: quote.disputeCase && {
+      ...quote.disputeCase,
+      amountRecovered: scale(quote.disputeCase.amountRecovered)
+    }
+  };
+};
+
+/**
+ * Fallback rates (`datedRateKey`s) a quote set needs: cost currency and value date of every quote
+ * its own mid rate cannot convert
+ */
+export const fallbackRatesNeeded = (quotes: QuoteData[], target: string): string[] => {
+  const needed = new Set<string>();
+  for (const q of quotes) {
+    const date = quoteValueDate(q);
+    if (date && quoteConversionRate(q, target) === null) needed.add(datedRateKey(quoteCostCurrency(q), date));
+  }
+  return Array.from(needed);
+};
+
+/**
+ * Sum a cost field across quotes already converted to the target currency.
+ * Quotes still in another currency (no rate yet) are counted, not added.
+ */
+export const sumInCurrency = (
+  quotes: QuoteData[],
+  currency: string,
+  selector: (q: QuoteData) => number | undefined
+): { total: number, excluded: number } => {
+  let total = 0;
+  let excluded = 0;
+  for (const q of quotes || []) {
+    if (quoteCostCurrency(q) !== currency.toUpperCase()) {
+      excluded += 1;
+      continue;
+    }
+    total += selector(q) || 0;
+  }
+  return { total, excluded };
+};
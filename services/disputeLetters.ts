@@ -0,0 +1,259 @@
+import { DisputeCase, DisputeLetter, DisputeStage, Organization, QuoteData, UserProfile, WorkflowRole } from '../types';
+import { quoteCostCurrency } from './currency';
+import { polishDisputeLetter } from './gemini';
+
+// --- DISPUTE LETTERS ---
+// Letters are always built from a template first, so every figure comes from the quote. AI may only
+// reword that draft, and its version is dropped if any of those figures went missing on the way.
+
+export interface LetterContext {
+  company: string;
+  signatory: string;
+  date: string;
+  bank: string;
+  reference: string;
+  valueDate: string;
+  pair: string;
+  amountSold: string;
+  bankRate: string;
+  midRate: string;
+  midRateBasis: string;
+  spread: string;
+  markupCost: string;
+  totalFees: string;
+  feeLines: string[];
+  totalHiddenCost: string;
+  targetSpread: string;
+  suggestedRate: string;
+  savingsPerTransaction: string;
+  annualSavings: string;
+}
+
+export interface DisputeTemplate {
+  id: string;
+  name: string;
+  description: string;
+  build: (ctx: LetterContext) => { subject: string, paragraphs: string[] };
+}
+
+// ISO codes rather than symbols: unambiguous to a bank and printable in any PDF font
+const money = (amount: number | undefined, currency: string) =>
+  `${currency} ${(amount || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const rate = (value: number | undefined) => (value ? String(Number(value.toFixed(6))) : '-');
+
+const MID_SOURCE_LABELS: Record<string, string> = {
+  intraday_tick: 'intraday market tick at execution',
+  rates_history: 'reference fixing for the value date',
+  'google-search-grounding': 'published mid-market rate for the value date',
+  estimate: 'estimated mid-market rate',
+  simulation: 'simulated mid-market rate',
+  manual: 'mid-market rate entered by our treasury team'
+};
+
+export const letterContext = (
+  quote: QuoteData,
+  org?: Pick<Organization, 'name'> | null,
+  user?: Pick<UserProfile, 'displayName' | 'email' | 'companyName'> | null
+): LetterContext => {
+  const ccy = quoteCostCurrency(quote);
+  const sold = quote.originalCurrency || quote.pair?.split('/')[0] || '';
+  return {
+    company: org?.name || user?.companyName || 'Our company',
+    signatory: user?.displayName || user?.email || 'Treasury Operations',
+    date: new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
+    bank: quote.bank || 'the bank',
+    reference: quote.referenceNumber || quote.id,
+    valueDate: quote.valueDate || '-',
+    pair: quote.pair,
+    amountSold: money(quote.amount, sold),
+    bankRate: rate(quote.exchangeRate),
+    midRate: rate(quote.midMarketRate),
+    midRateBasis: [MID_SOURCE_LABELS[quote.midRateSource || ''] || 'mid-market rate', quote.midRateDate].filter(Boolean).join(', '),
+    spread: `${(quote.spreadPercentage || 0).toFixed(2)}%`,
+    markupCost: money(quote.markupCost, ccy),
+    totalFees: money(quote.totalFees, ccy),
+    feeLines: (quote.fees || []).map(f => `${f.type}: ${money(f.amount, f.currency)}`),
+    totalHiddenCost: money(quote.totalHiddenCost, ccy),
+    targetSpread: `${(quote.dispute?.targetSpreadPercentage ?? 0.5).toFixed(2)}%`,
+    suggestedRate: rate(quote.dispute?.suggestedNegotiatedRate),
+    savingsPerTransaction: money(quote.dispute?.potentialSavingsPerTransaction, ccy),
+    annualSavings: money(quote.dispute?.potentialAnnualSavings, ccy)
+  };
+};
+
+const transactionDetails = (ctx: LetterContext) => [
+  'Transaction details:',
+  `- Reference: ${ctx.reference}`,
+  `- Value date: ${ctx.valueDate}`,
+  `- Amount: ${ctx.amountSold} (${ctx.pair})`,
+  `- Rate applied: ${ctx.bankRate}`,
+  `- Mid-market rate: ${ctx.midRate} (${ctx.midRateBasis})`,
+  `- Markup over mid-market: ${ctx.spread}, costing ${ctx.markupCost}`,
+  `- Fees charged: ${ctx.totalFees}`,
+  ...ctx.feeLines.map(line => `    ${line}`)
+].join('\n');
+
+export const DISPUTE_TEMPLATES: DisputeTemplate[] = [
+  {
+    id: 'refund_request',
+    name: 'Refund Request',
+    description: 'Ask for the markup above a fair spread to be refunded',
+    build: (ctx) => ({
+      subject: `Request for refund of excess FX charges - ref. ${ctx.reference}`,
+      paragraphs: [
+        `We have reviewed the foreign exchange conversion you executed for us on ${ctx.valueDate} and believe the pricing applied was not in line with the market.`,
+        transactionDetails(ctx),
+        `The rate applied carries a markup of ${ctx.spread} over the mid-market rate, and the transaction cost us ${ctx.totalHiddenCost} in spread and fees combined. A spread of ${ctx.targetSpread}, equivalent to a rate of ${ctx.suggestedRate}, would have been reasonable for a transaction of this size.`,
+        `We therefore request a refund of ${ctx.savingsPerTransaction}, being the cost above that spread, to be credited to the originating account.`,
+        'Please confirm receipt of this letter and let us know within 14 days how you intend to resolve it.'
+      ]
+    })
+  },
+  {
+    id: 'rate_renegotiation',
+    name: 'Pricing Review',
+    description: 'Ask for better pricing on future conversions',
+    build: (ctx) => ({
+      subject: `Review of FX pricing on our account - ref. ${ctx.reference}`,
+      paragraphs: [
+        `As part of our regular treasury review, we have benchmarked recent conversions executed by ${ctx.bank} against mid-market rates.`,
+        transactionDetails(ctx),
+        `At a markup of ${ctx.spread}, this conversion cost us ${ctx.markupCost} above the mid-market rate. We would like future conversions priced at no more than ${ctx.targetSpread} over mid-market, which for this transaction would have meant a rate of ${ctx.suggestedRate}.`,
+        `On our current volumes the difference amounts to around ${ctx.annualSavings} a year, which is material to our choice of provider.`,
+        'We would welcome a call with our relationship manager to agree revised pricing.'
+      ]
+    })
+  },
+  {
+    id: 'fee_query',
+    name: 'Fee Itemisation Query',
+    description: 'Ask the bank to itemise and justify each charge',
+    build: (ctx) => ({
+      subject: `Query on charges applied to transaction ref. ${ctx.reference}`,
+      paragraphs: [
+        `We are reconciling the charges on the transaction below and need further information before we can accept them.`,
+        transactionDetails(ctx),
+        `Please provide an itemised breakdown of the ${ctx.totalFees} in fees, including any correspondent or intermediary charges deducted in transit, and explain how the rate of ${ctx.bankRate} was set given a mid-market rate of ${ctx.midRate}.`,
+        'Where a charge was applied in error or outside our agreed tariff, please refund it to the originating account.'
+      ]
+    })
+  }
+];
+
+export const disputeTemplate = (templateId: string) => DISPUTE_TEMPLATES.find(t => t.id === templateId) || DISPUTE_TEMPLATES[0];
+
+/**
+ * The template letter as plain text: addresses, subject line, body and sign-off
+ */
+export const renderTemplateLetter = (templateId: string, ctx: LetterContext): DisputeLetter => {
+  const template = disputeTemplate(templateId);
+  const { subject, paragraphs } = template.build(ctx);
+  const body = [
+    ctx.company,
+    ctx.date,
+    `${ctx.bank}\nFX Client Services`,
+    'Dear Sir or Madam,',
+    ...paragraphs,
+    `Yours faithfully,\n\n${ctx.signatory}\n${ctx.company}`
+  ].join('\n\n');
+  return { templateId: template.id, subject, body, generatedBy: 'template' };
+};
+
+// Figures an AI rewrite must carry over verbatim
+const letterFigures = (ctx: LetterContext) => [ctx.reference, ctx.bankRate, ctx.midRate, ctx.spread, ctx.suggestedRate, ctx.totalFees, ctx.savingsPerTransaction, ctx.annualSavings];
+
+/**
+ * Template letter, optionally reworded by AI. Falls back to the template (with a note saying why)
+ * when AI is unavailable or changed a figure.
+ */
+export const generateDisputeLetter = async (
+  quote: QuoteData,
+  templateId: string,
+  ctx: LetterContext,
+  useAI: boolean
+): Promise<{ letter: DisputeLetter, notice?: string }> => {
+  const letter = renderTemplateLetter(templateId, ctx);
+  if (!useAI) return { letter };
+
+  try {
+    const polished = await polishDisputeLetter(letter.subject, letter.body, quote.bank);
+    if (!polished) return { letter, notice: 'AI drafting is not configured; using the template.' };
+    const text = `${polished.subject}\n${polished.body}`;
+    const template = `${letter.subject}\n${letter.body}`;
+    const missing = letterFigures(ctx).filter(figure => template.includes(figure) && !text.includes(figure));
+    if (missing.length > 0) return { letter, notice: `The AI draft dropped or changed ${missing.join(', ')}; using the template.` };
+    return { letter: { ...letter, subject: polished.subject, body: polished.body, generatedBy: 'ai' } };
+  } catch (e) {
+    console.error('AI letter drafting failed', e);
+    return { letter, notice: 'AI drafting failed; using the template.' };
+  }
+};
+
+// --- DISPUTE LIFECYCLE ---
+export const DISPUTE_STAGES: { id: DisputeStage, label: string }[] = [
+  { id: 'drafted', label: 'Drafted' },
+  { id: 'sent', label: 'Sent' },
+  { id: 'bank_responded', label: 'Bank Responded' },
+  { id: 'refund_received', label: 'Refund Received' }
+];
+
+// Who drafts letters and moves disputes on. Keep in step with disputeWork() in firestore.rules
+export const DISPUTE_ROLES: WorkflowRole[] = ['Auditor', 'Controller', 'Manager'];
+
+export const disputeStageLabel = (stage?: DisputeStage) => DISPUTE_STAGES.find(s => s.id === stage)?.label || 'Not Started';
+
+/**
+ * The stage after this one, or null once the refund is in
+ */
+export const nextDisputeStage = (stage: DisputeStage): DisputeStage | null => {
+  const index = DISPUTE_STAGES.findIndex(s => s.id === stage);
+  return DISPUTE_STAGES[index + 1]?.id || null;
+};
+
+export type DisputeStageDetails = Partial<Pick<DisputeCase, 'sentTo' | 'bankResponse' | 'amountRecovered'>> & { note?: string };
+
+/**
+ * The case after moving to `stage`. Moves are forward only, one step at a time.
+ */
+export const advanceDisputeCase = (
+  current: DisputeCase,
+  stage: DisputeStage,
+  user: Pick<UserProfile, 'uid' | 'displayName' | 'email'>,
+  details: DisputeStageDetails = {}
+): DisputeCase => {
+  if (nextDisputeStage(current.stage) !== stage) {
+    throw new Error(`A ${disputeStageLabel(current.stage).toLowerCase()} dispute cannot move to ${disputeStageLabel(stage).toLowerCase()}.`);
+  }
+  if (stage === 'refund_received' && !(details.amountRecovered && details.amountRecovered > 0)) {
+    throw new Error('Enter the amount recovered.');
+  }
+  const at = Date.now();
+  const { note, ...fields } = details;
+  return JSON.parse(JSON.stringify({
+    ...current,
+    ...fields,
+    stage,
+    sentAt: stage === 'sent' ? at : current.sentAt,
+    respondedAt: stage === 'bank_responded' ? at : current.respondedAt,
+    refundedAt: stage === 'refund_received' ? at : current.refundedAt,
+    history: [...current.history, { stage, at, by: user.uid, byName: user.displayName || user.email || undefined, note: note?.trim() || undefined }]
+  }));
+};
+
+/**
+ * A new case, or the existing one with a rewritten letter. Only unsent letters can be redrafted.
+ */
+export const draftDisputeCase = (
+  current: DisputeCase | undefined,
+  letter: DisputeLetter,
+  user: Pick<UserProfile, 'uid' | 'displayName' | 'email'>
+): DisputeCase => {
+  if (current && current.stage !== 'drafted') throw new Error('This letter has already been sent.');
+  const entry = { stage: 'drafted' as const, at: Date.now(), by: user.uid, byName: user.displayName || user.email || undefined, note: current ? 'Redrafted' : undefined };
+  return JSON.parse(JSON.stringify({
+    stage: 'drafted',
+    letter,
+    history: [...(current?.history || []), entry]
+  }));
+};
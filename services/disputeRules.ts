@@ -0,0 +1,217 @@
+import { DisputePriority, DisputeRule, DisputeRuleConditions, DisputeRuleSet, FiredDisputeRule, Institution } from '../types';
+import { createBankResolver } from './bankRegistry';
+import { BenchmarkSample } from './benchmarks';
+import { parsePair, samePair } from './fxPairs';
+
+// --- DISPUTE RULES ---
+// Each org decides when a quote is worth disputing. A rule fires when every condition it sets holds;
+// the quote takes the highest priority among the rules that fired, and the lowest target spread
+// among the rules at that priority.
+
+export const DEFAULT_TARGET_SPREAD = 0.5;
+
+// Fewer priced quotes than this on a pair and the lane-average condition cannot fire
+export const MIN_LANE_SAMPLES = 3;
+
+export const PRIORITY_RANK: Record<DisputePriority, number> = { low: 0, medium: 1, high: 2 };
+
+const defaultRule = (id: string, name: string, priority: DisputePriority, conditions: DisputeRuleConditions): DisputeRule =>
+  ({ id, name, enabled: true, priority, targetSpread: DEFAULT_TARGET_SPREAD, conditions });
+
+// Money thresholds are in the rule set's currency; sets saved without one, and the defaults, are in USD
+export const DEFAULT_RULE_CURRENCY = 'USD';
+
+// The lane-average alert Settings used to offer, before rules were configurable
+export const DEFAULT_LANE_THRESHOLD = 15;
+
+/**
+ * What applied before rules were configurable, plus the lane-average alert at the given threshold
+ */
+export const defaultDisputeRules = (laneThreshold = DEFAULT_LANE_THRESHOLD): DisputeRule[] => [
+  defaultRule('default-spread', 'Spread above 1%', 'low', { minSpread: 1 }),
+  defaultRule('default-spread-medium', 'Spread above 1.5%', 'medium', { minSpread: 1.5 }),
+  defaultRule('default-spread-high', 'Spread above 2.5%', 'high', { minSpread: 2.5 }),
+  defaultRule('default-fees', 'Fees above USD 100', 'low', { minFees: 100 }),
+  defaultRule('default-cost', 'Hidden cost above USD 500', 'low', { minTotalCost: 500 }),
+  defaultRule('default-cost-medium', 'Hidden cost above USD 1,000', 'medium', { minTotalCost: 1000 }),
+  defaultRule('default-cost-high', 'Hidden cost above USD 2,000', 'high', { minTotalCost: 2000 }),
+  defaultRule('default-lane', 'Above lane average', 'low', { minAboveLaneAverage: laneThreshold })
+];
+
+export const DEFAULT_DISPUTE_RULES: DisputeRule[] = defaultDisputeRules();
+
+export const DEFAULT_DISPUTE_RULE_SET: DisputeRuleSet = { rules: DEFAULT_DISPUTE_RULES, currency: DEFAULT_RULE_CURRENCY };
+
+export const newDisputeRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export interface DisputeRuleContext {
+  rules: DisputeRule[];
+  institutions: Institution[]; // Bank registry, so bank conditions follow merges and aliases
+  currency?: string; // Of the money thresholds; DEFAULT_RULE_CURRENCY when unset
+}
+
+// One priced transfer as the rules see it; money in `currency`
+export interface DisputeFacts {
+  pair: string;
+  spreadPercentage: number;
+  totalFees: number;
+  totalHiddenCost: number;
+  totalHiddenPercentage: number;
+  amount: number;
+  currency: string;
+  bank?: string;
+  bankCode?: string;
+  counterparties: string[]; // Sender and beneficiary names
+  laneAverage: number | null; // Org's average total cost % on this pair
+  convert?: (value: number, currency: string) => number | null; // Money into another currency, or null without a rate
+}
+
+// Conditions compared against money, which need the facts in the rules' currency
+const MONEY_CONDITIONS: (keyof DisputeRuleConditions)[] = ['minFees', 'minTotalCost', 'minAmount', 'maxAmount'];
+
+const usesMoney = (rule: DisputeRule) => MONEY_CONDITIONS.some(key => rule.conditions[key] !== undefined);
+
+/**
+ * The facts with their money in the given currency, or null when there is no rate to get there
+ */
+const factsIn = (facts: DisputeFacts, currency: string): DisputeFacts | null => {
+  if (facts.currency.toUpperCase() === currency) return facts;
+  const convert = (value: number) => (facts.convert ? facts.convert(value, currency) : null);
+  const [amount, totalFees, totalHiddenCost] = [facts.amount, facts.totalFees, facts.totalHiddenCost].map(convert);
+  if (amount === null || totalFees === null || totalHiddenCost === null) return null;
+  return { ...facts, amount, totalFees, totalHiddenCost, currency };
+};
+
+/**
+ * The org's average total cost % on a pair, or null with too few quotes to trust
+ */
+export const laneAverage = (history: BenchmarkSample[], pair: string): number | null => {
+  const lane = history.filter(s => samePair(s.pair, pair));
+  if (lane.length < MIN_LANE_SAMPLES) return null;
+  return lane.reduce((sum, s) => sum + s.totalCostPercentage, 0) / lane.length;
+};
+
+const money = (currency: string, value: number) => `${currency} ${value.toFixed(2)}`;
+
+interface RuleReason {
+  measure: keyof DisputeRuleConditions | 'filters';
+  text: string;
+}
+
+/**
+ * Why a rule fires for these facts, one reason per threshold, or null when it does not
+ */
+export const matchDisputeRule = (rule: DisputeRule, facts: DisputeFacts, bankKey: string): RuleReason[] | null => {
+  const c = rule.conditions;
+  if (c.pairs?.length && !c.pairs.some(p => samePair(p, facts.pair))) return null;
+  if (c.banks?.length && !c.banks.includes(bankKey)) return null;
+  if (c.minAmount !== undefined && facts.amount < c.minAmount) return null;
+  if (c.maxAmount !== undefined && facts.amount >= c.maxAmount) return null;
+  if (c.counterparties?.length) {
+    const names = facts.counterparties.map(n => n.toLowerCase());
+    const wanted = c.counterparties.map(n => n.trim().toLowerCase()).filter(Boolean);
+    if (!wanted.some(w => names.some(n => n.includes(w)))) return null;
+  }
+
+  const reasons: RuleReason[] = [];
+  if (c.minSpread !== undefined) {
+    if (!(facts.spreadPercentage > c.minSpread)) return null;
+    reasons.push({ measure: 'minSpread', text: `Exchange rate markup of ${facts.spreadPercentage.toFixed(2)}% is above ${c.minSpread}%` });
+  }
+  if (c.minFees !== undefined) {
+    if (!(facts.totalFees > c.minFees)) return null;
+    reasons.push({ measure: 'minFees', text: `Transaction fees of ${money(facts.currency, facts.totalFees)} are above ${money(facts.currency, c.minFees)}` });
+  }
+  if (c.minTotalCost !== undefined) {
+    if (!(facts.totalHiddenCost > c.minTotalCost)) return null;
+    reasons.push({ measure: 'minTotalCost', text: `Total hidden cost of ${money(facts.currency, facts.totalHiddenCost)} exceeds ${money(facts.currency, c.minTotalCost)}` });
+  }
+  if (c.minTotalCostPercentage !== undefined) {
+    if (!(facts.totalHiddenPercentage > c.minTotalCostPercentage)) return null;
+    reasons.push({ measure: 'minTotalCostPercentage', text: `Total hidden cost of ${facts.totalHiddenPercentage.toFixed(2)}% of principal is above ${c.minTotalCostPercentage}%` });
+  }
+  if (c.minAboveLaneAverage !== undefined) {
+    if (facts.laneAverage === null || facts.laneAverage <= 0) return null;
+    const above = (facts.totalHiddenPercentage / facts.laneAverage - 1) * 100;
+    if (!(above > c.minAboveLaneAverage)) return null;
+    reasons.push({ measure: 'minAboveLaneAverage', text: `Total cost of ${facts.totalHiddenPercentage.toFixed(2)}% is ${above.toFixed(0)}% above this pair's average of ${facts.laneAverage.toFixed(2)}%` });
+  }
+  // A rule with only filters (a bank, a counterparty) fires on every matching transfer
+  if (reasons.length === 0) reasons.push({ measure: 'filters', text: `Matches rule "${rule.name}"` });
+  return reasons;
+};
+
+/**
+ * Run the org's enabled rules (the defaults when it has none stored) against one transfer.
+ * Rules with money thresholds are skipped when the facts cannot be converted into the rules' currency.
+ */
+export const evaluateDisputeRules = (context: DisputeRuleContext | undefined, facts: DisputeFacts) => {
+  const rules = (context?.rules || DEFAULT_DISPUTE_RULES).filter(r => r.enabled);
+  const bankKey = createBankResolver(context?.institutions || [])({ bank: facts.bank || '', bankCode: facts.bankCode }).key;
+  const ruleFacts = factsIn(facts, (context?.currency || DEFAULT_RULE_CURRENCY).toUpperCase());
+
+  const fired: FiredDisputeRule[] = [];
+  const matched: { priority: DisputePriority, reasons: RuleReason[] }[] = [];
+  for (const rule of rules) {
+    if (!ruleFacts && usesMoney(rule)) continue;
+    const reasons = matchDisputeRule(rule, ruleFacts || facts, bankKey);
+    if (!reasons) continue;
+    fired.push({ id: rule.id, name: rule.name, priority: rule.priority, targetSpread: rule.targetSpread, reasons: reasons.map(r => r.text) });
+    matched.push({ priority: rule.priority, reasons });
+  }
+
+  // The summary says each thing once, in the words of the highest-priority rule that raised it
+  const summary = new Map<string, string>();
+  [...matched].sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority]).forEach(m => m.reasons.forEach(r => {
+    const key = r.measure === 'filters' ? r.text : r.measure;
+    if (!summary.has(key)) summary.set(key, r.text);
+  }));
+
+  const top = fired.reduce((rank, f) => Math.max(rank, PRIORITY_RANK[f.priority]), 0);
+  const leading = fired.filter(f => PRIORITY_RANK[f.priority] === top);
+  return {
+    recommended: fired.length > 0,
+    priority: (Object.keys(PRIORITY_RANK) as DisputePriority[]).find(p => PRIORITY_RANK[p] === top)!,
+    targetSpread: leading.length > 0 ? Math.min(...leading.map(f => f.targetSpread)) : DEFAULT_TARGET_SPREAD,
+    fired,
+    reasons: Array.from(summary.values())
+  };
+};
+
+// --- EDITING ---
+
+/**
+ * Plain-language summary of a rule's conditions, for the rules list
+ */
+export const describeConditions = (conditions: DisputeRuleConditions, institutions: Institution[] = [], currency = DEFAULT_RULE_CURRENCY): string[] => {
+  const c = conditions;
+  const parts: string[] = [];
+  if (c.minSpread !== undefined) parts.push(`spread > ${c.minSpread}%`);
+  if (c.minFees !== undefined) parts.push(`fees > ${currency} ${c.minFees.toLocaleString()}`);
+  if (c.minTotalCost !== undefined) parts.push(`hidden cost > ${currency} ${c.minTotalCost.toLocaleString()}`);
+  if (c.minTotalCostPercentage !== undefined) parts.push(`hidden cost > ${c.minTotalCostPercentage}% of principal`);
+  if (c.minAboveLaneAverage !== undefined) parts.push(`${c.minAboveLaneAverage}% above the pair's average`);
+  if (c.pairs?.length) parts.push(`pair ${c.pairs.join(' or ')}`);
+  if (c.banks?.length) parts.push(`bank ${c.banks.map(key => institutions.find(i => i.id === key)?.name || key).join(' or ')}`);
+  if (c.minAmount !== undefined || c.maxAmount !== undefined) {
+    parts.push(c.maxAmount === undefined ? `amount ≥ ${currency} ${(c.minAmount || 0).toLocaleString()}` : `amount ${currency} ${(c.minAmount || 0).toLocaleString()}-${c.maxAmount.toLocaleString()}`);
+  }
+  if (c.counterparties?.length) parts.push(`counterparty ${c.counterparties.map(n => `"${n}"`).join(' or ')}`);
+  return parts;
+};
+
+/**
+ * First problem with a rule, or null when it can be saved
+ */
+export const validateDisputeRule = (rule: DisputeRule): string | null => {
+  const c = rule.conditions;
+  if (!rule.name.trim()) return 'Give the rule a name.';
+  if (!(rule.targetSpread >= 0)) return `${rule.name}: the target spread cannot be negative.`;
+  const thresholds = [c.minSpread, c.minFees, c.minTotalCost, c.minTotalCostPercentage, c.minAboveLaneAverage, c.minAmount, c.maxAmount];
+  if (thresholds.some(v => v !== undefined && !(v >= 0))) return `${rule.name}: thresholds cannot be negative.`;
+  if (c.minAmount !== undefined && c.maxAmount !== undefined && !(c.maxAmount > c.minAmount)) return `${rule.name}: the amount ceiling must be above its floor.`;
+  const badPair = c.pairs?.find(p => !parsePair(p));
+  if (badPair) return `${rule.name}: "${badPair}" is not a currency pair like USD/EUR.`;
+  if (describeConditions(c).length === 0) return `${rule.name}: set at least one condition.`;
+  return null;
+};
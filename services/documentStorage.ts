@@ -0,0 +1,83 @@
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { storage, isConfigValid } from './firebase';
+import { base64ToBytes } from './localExtraction';
+import { QuoteData } from '../types';
+
+// --- SOURCE DOCUMENT STORAGE ---
+// Originals live in Cloud Storage under organizations/{orgId}/documents/{sha256}.{ext}; the quote
+// keeps the hash and download URL. Content addressing means a re-upload never duplicates bytes.
+
+export interface StoredDocument {
+  fileUrl: string;
+  storagePath: string;
+  contentHash: string; // SHA-256 of the original bytes, hex
+  fileType: string;
+  fileName?: string;
+  fileSize: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'text/plain': 'txt',
+  'application/xml': 'xml',
+  'text/xml': 'xml'
+};
+
+export const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const hashDocument = (base64: string): Promise<string> => sha256Hex(base64ToBytes(base64));
+
+/**
+ * Upload a confirmation before its quote is saved. Throws rather than returning a quote with no
+ * source, so a failed upload can be retried instead of leaving a gap in the audit trail.
+ */
+export const storeSourceDocument = async (
+  orgId: string,
+  base64: string,
+  mimeType: string,
+  fileName?: string
+): Promise<StoredDocument> => {
+  const bytes = base64ToBytes(base64);
+  const contentHash = await sha256Hex(bytes);
+  const storagePath = `organizations/${orgId}/documents/${contentHash}.${EXTENSIONS[mimeType] || 'bin'}`;
+
+  // Safety mode: nothing to upload to, keep the document viewable for the session
+  if (!isConfigValid) {
+    return { fileUrl: `data:${mimeType};base64,${base64}`, storagePath, contentHash, fileType: mimeType, fileName, fileSize: bytes.length };
+  }
+
+  const fileRef = ref(storage, storagePath);
+  await uploadBytes(fileRef, bytes, {
+    contentType: mimeType,
+    customMetadata: { contentHash, ...(fileName ? { fileName } : {}) }
+  });
+  const fileUrl = await getDownloadURL(fileRef);
+  return { fileUrl, storagePath, contentHash, fileType: mimeType, fileName, fileSize: bytes.length };
+};
+
+// Quotes saved before storage existed kept the document inline; sniff its type from the magic bytes
+const sniffMimeType = (base64: string) => {
+  if (base64.startsWith('JVBER')) return 'application/pdf';
+  if (base64.startsWith('iVBOR')) return 'image/png';
+  if (base64.startsWith('/9j/')) return 'image/jpeg';
+  return 'text/plain';
+};
+
+/**
+ * Where to load a quote's original from, and how to render it. Null when no source was kept.
+ */
+export const sourceDocumentOf = (quote: Partial<QuoteData>): { url: string, mimeType: string } | null => {
+  if (quote.fileUrl) {
+    return { url: quote.fileUrl, mimeType: quote.fileType || 'application/pdf' };
+  }
+  if (quote.pdfBase64) {
+    const mimeType = quote.fileType || sniffMimeType(quote.pdfBase64);
+    return { url: `data:${mimeType};base64,${quote.pdfBase64}`, mimeType };
+  }
+  return null;
+};
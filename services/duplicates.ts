@@ -0,0 +1,87 @@
+import { Institution, QuoteData } from '../types';
+import { DEFAULT_INSTITUTIONS, createBankResolver } from './bankRegistry';
+
+// --- DUPLICATE CONFIRMATIONS ---
+// The same confirmation uploaded twice double-counts leakage and burns a credit. Exact copies are
+// caught by content hash before extraction; re-scans and re-exports by a fuzzy match afterwards.
+
+export type DuplicateDecision = 'skip' | 'replace' | 'keep_both';
+
+export interface DuplicateMatch {
+  quoteId: string;
+  kind: 'content_hash' | 'fuzzy';
+  reasons: string[]; // Which fields matched, for the uploader's prompt and the decision log
+  bank: string;
+  referenceNumber?: string;
+  amount: number;
+  currency?: string;
+  valueDate: string;
+  createdAt: number;
+}
+
+// Fields that must agree for a fuzzy duplicate (of bank, reference, amount, value date), amount always included
+const FUZZY_MIN_MATCHES = 3;
+
+export const normalizeReferenceNumber = (reference?: string) => (reference || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+
+// Re-scans can misread the last digit; half a basis point of tolerance, at least one cent
+const sameAmount = (a?: number, b?: number) => {
+  if (!a || !b) return false;
+  return Math.abs(a - b) <= Math.max(0.01, Math.abs(a) * 0.00005);
+};
+
+const toMatch = (quote: QuoteData, kind: DuplicateMatch['kind'], reasons: string[]): DuplicateMatch => ({
+  quoteId: quote.id,
+  kind,
+  reasons,
+  bank: quote.bank,
+  referenceNumber: quote.referenceNumber,
+  amount: quote.amount,
+  currency: quote.originalCurrency,
+  valueDate: quote.valueDate,
+  createdAt: quote.createdAt
+});
+
+/**
+ * Existing quotes holding the exact same file
+ */
+export const findContentDuplicates = (contentHash: string, existing: QuoteData[]): DuplicateMatch[] => {
+  return existing
+    .filter(q => q.contentHash && q.contentHash === contentHash)
+    .map(q => toMatch(q, 'content_hash', ['Identical file (SHA-256)']));
+};
+
+/**
+ * Existing quotes that look like the same transaction: amount plus at least two of bank,
+ * reference and value date. Quotes already matched by hash are left out. Banks agree when they
+ * resolve to the same institution in `institutions`, or failing that to the same normalised name,
+ * so "Citi" and "Citizens Bank" stay apart.
+ */
+export const findFuzzyDuplicates = (
+  candidate: Partial<QuoteData>,
+  existing: QuoteData[],
+  exclude: string[] = [],
+  institutions: Institution[] = DEFAULT_INSTITUTIONS
+): DuplicateMatch[] => {
+  const reference = normalizeReferenceNumber(candidate.referenceNumber);
+  const resolveBank = createBankResolver(institutions);
+  const bank = resolveBank({ bank: candidate.bank || '', bankCode: candidate.bankCode }).key;
+  const matches: DuplicateMatch[] = [];
+
+  for (const quote of existing) {
+    if (exclude.includes(quote.id)) continue;
+    if (!sameAmount(candidate.amount, quote.amount)) continue;
+    if (candidate.originalCurrency && quote.originalCurrency && candidate.originalCurrency !== quote.originalCurrency) continue;
+
+    const reasons = ['Amount'];
+    if (bank && bank === resolveBank(quote).key) reasons.push('Bank');
+    if (reference && reference === normalizeReferenceNumber(quote.referenceNumber)) reasons.push('Reference');
+    if (candidate.valueDate && candidate.valueDate === quote.valueDate) reasons.push('Value date');
+
+    if (reasons.length >= FUZZY_MIN_MATCHES) matches.push(toMatch(quote, 'fuzzy', reasons));
+  }
+
+  // Strongest first
+  return matches.sort((a, b) => b.reasons.length - a.reasons.length);
+};
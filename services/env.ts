@@ -0,0 +1,20 @@
+// --- ENVIRONMENT ---
+// Vite exposes VITE_ and NEXT_PUBLIC_ variables on import.meta.env; Node scripts and the
+// process.env polyfill in vite.config.ts carry them on process.env.
+
+type EnvVars = Record<string, string | undefined>;
+
+const importMetaEnv = (): EnvVars | undefined => (import.meta as ImportMeta & { env?: EnvVars }).env;
+
+/**
+ * A setting by its bare name (e.g. "GEMINI_API_KEY"), tried with the VITE_ and NEXT_PUBLIC_
+ * prefixes first. Empty when unset.
+ */
+export const getEnv = (key: string): string => {
+  const sources = [importMetaEnv(), typeof process !== 'undefined' ? process.env : undefined];
+  for (const env of sources) {
+    const value = env && (env[`VITE_${key}`] || env[`NEXT_PUBLIC_${key}`] || env[key]);
+    if (value) return value;
+  }
+  return '';
+};
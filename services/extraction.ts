@@ -0,0 +1,70 @@
+import { extractQuoteData } from './gemini';
+import { extractLocally, base64ToBytes } from './localExtraction';
+import { looksLikeSwift, swiftFileToExtraction } from './swift';
+import { getSimulationProvider } from './simulation';
+import { ExtractionProviderId, ExtractionResult } from '../types';
+
+// --- EXTRACTION PROVIDERS ---
+// Every provider returns the same extraction/transaction/fees shape, so the rest of the
+// pipeline does not care where a document was read.
+
+export interface ExtractionProvider {
+  id: ExtractionProviderId;
+  label: string;
+  description: string;
+  leavesInfrastructure: boolean; // True if document bytes are sent to a third party
+  extract: (base64: string, mimeType: string) => Promise<ExtractionResult>;
+}
+
+export const DEFAULT_EXTRACTION_PROVIDER: ExtractionProviderId = 'gemini';
+
+export const EXTRACTION_PROVIDERS: Record<ExtractionProviderId, ExtractionProvider> = {
+  gemini: {
+    id: 'gemini',
+    label: 'Gemini Vision',
+    description: 'Reads scans, photos and PDFs with Google Gemini. Falls back to simulation without an API key.',
+    leavesInfrastructure: true,
+    extract: (base64, mimeType) => extractQuoteData(base64, mimeType)
+  },
+  local: {
+    id: 'local',
+    label: 'Local Rules',
+    description: 'Rule-based reader for text PDFs and SWIFT text. Runs in the browser; documents never leave your infrastructure.',
+    leavesInfrastructure: false,
+    extract: (base64, mimeType) => extractLocally(base64, mimeType)
+  },
+  simulation: {
+    id: 'simulation',
+    label: 'Simulation',
+    description: 'Seeded replay of sample confirmations for demos and testing. The document content is only used as a seed.',
+    leavesInfrastructure: false,
+    extract: async (base64) => {
+      const provider = getSimulationProvider();
+      if (provider.latencyMs > 0) await new Promise(resolve => setTimeout(resolve, provider.latencyMs));
+      return provider.extract(base64);
+    }
+  }
+};
+
+export const getExtractionProvider = (id?: ExtractionProviderId | null): ExtractionProvider => {
+  return EXTRACTION_PROVIDERS[id || DEFAULT_EXTRACTION_PROVIDER] || EXTRACTION_PROVIDERS[DEFAULT_EXTRACTION_PROVIDER];
+};
+
+/**
+ * Structured text (SWIFT MT) is parsed deterministically whatever the provider; everything else
+ * goes to the organization's provider.
+ */
+export const extractDocument = async (
+  base64: string,
+  mimeType: string,
+  providerId?: ExtractionProviderId | null
+): Promise<ExtractionResult> => {
+  if (mimeType.startsWith('text/') && providerId !== 'simulation') {
+    const text = new TextDecoder().decode(base64ToBytes(base64));
+    if (looksLikeSwift(text)) {
+      const swift = swiftFileToExtraction(text);
+      if (swift) return swift;
+    }
+  }
+  return getExtractionProvider(providerId).extract(base64, mimeType);
+};
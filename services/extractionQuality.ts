@@ -0,0 +1,320 @@
+import { ConsistencyCheck, ExtractionField, ExtractionResult, FieldChange, QuoteData } from '../types';
+
+// --- EXTRACTION QUALITY ---
+// How far a quote's numbers can be trusted: per-field confidence from the provider plus arithmetic
+// checks across fields. Quotes that fall short wait for a human review before they count as analyzed.
+
+// Below this score, or with any failed check, a quote goes to review
+export const REVIEW_THRESHOLD = 75;
+
+// A field under this confidence is highlighted for the reviewer
+export const LOW_CONFIDENCE = 0.6;
+
+// Scored provider that left a present field unscored
+const UNSCORED_CONFIDENCE = 0.5;
+
+// Each failed consistency check takes this off the score
+const FAILED_CHECK_PENALTY = 15;
+
+// Weight in the reliability score. Fields the hidden cost depends on weigh most; names and
+// references only matter for disputes and are left out.
+const FIELD_WEIGHTS: Partial<Record<ExtractionField, number>> = {
+  original_amount: 3,
+  exchange_rate_bank: 3,
+  currency_pair: 2,
+  original_currency: 2,
+  value_date: 2,
+  fees: 2,
+  converted_amount: 1,
+  converted_currency: 1,
+  bank_name: 1
+};
+
+export const EXTRACTION_FIELD_LABELS: Record<ExtractionField, string> = {
+  bank_name: 'Bank',
+  transaction_reference: 'Reference',
+  sender_name: 'Sender',
+  beneficiary_name: 'Beneficiary',
+  original_amount: 'Amount Sold',
+  original_currency: 'Sold Currency',
+  converted_amount: 'Amount Bought',
+  converted_currency: 'Bought Currency',
+  exchange_rate_bank: 'Bank Rate',
+  currency_pair: 'Pair',
+  value_date: 'Value Date',
+  execution_time: 'Execution Time',
+  fees: 'Fees'
+};
+
+export const EXTRACTION_FIELDS = Object.keys(EXTRACTION_FIELD_LABELS) as ExtractionField[];
+
+// Fields under `transaction` in the provider output; the rest sit under `extraction`
+type TransactionField = keyof ExtractionResult['transaction'];
+type NumericField = 'original_amount' | 'converted_amount' | 'exchange_rate_bank';
+const NUMERIC_FIELDS: NumericField[] = ['original_amount', 'converted_amount', 'exchange_rate_bank'];
+const UPPERCASE_FIELDS: TransactionField[] = ['original_currency', 'converted_currency', 'currency_pair'];
+const TRANSACTION_FIELDS: TransactionField[] = [...NUMERIC_FIELDS, ...UPPERCASE_FIELDS, 'value_date', 'execution_time'];
+
+const isNumericField = (field: ExtractionField): field is NumericField => NUMERIC_FIELDS.some(f => f === field);
+const isTransactionField = (field: ExtractionField): field is TransactionField => TRANSACTION_FIELDS.some(f => f === field);
+
+const fieldValue = (extraction: ExtractionResult, field: ExtractionField): unknown => {
+  if (field === 'fees') return extraction.fees?.items;
+  if (isTransactionField(field)) return extraction.transaction?.[field];
+  return extraction.extraction?.[field];
+};
+
+const isPresent = (value: unknown) => value !== undefined && value !== null && value !== '' && !(typeof value === 'number' && !isFinite(value));
+
+const relativeDiff = (a: number, b: number) => Math.abs(a - b) / Math.max(Math.abs(a), Math.abs(b));
+
+/**
+ * Provider confidence per field. Structured sources (SWIFT, ISO 20022, CSV) send no scores and are
+ * taken at face value; a missing value always scores zero.
+ */
+export const scoreFields = (extraction: ExtractionResult): Partial<Record<ExtractionField, number>> => {
+  const scores: Partial<Record<ExtractionField, number>> = {};
+  for (const field of EXTRACTION_FIELDS) {
+    const value = fieldValue(extraction, field);
+    if (field === 'fees') {
+      // No fee lines is a valid reading, not a missing one
+      scores.fees = extraction.confidence?.fees ?? 1;
+    } else if (!isPresent(value)) {
+      scores[field] = 0;
+    } else {
+      scores[field] = extraction.confidence ? (extraction.confidence[field] ?? UNSCORED_CONFIDENCE) : 1;
+    }
+  }
+  return scores;
+};
+
+// --- CONSISTENCY CHECKS ---
+
+const check = (id: ConsistencyCheck['id'], label: string, status: ConsistencyCheck['status'], detail: string): ConsistencyCheck => ({ id, label, status, detail });
+
+/**
+ * Cross-field arithmetic a correct reading has to satisfy
+ */
+export const runConsistencyChecks = (extraction: ExtractionResult): ConsistencyCheck[] => {
+  const tx = extraction.transaction || {};
+  const items = extraction.fees?.items || [];
+  const checks: ConsistencyCheck[] = [];
+
+  // Amount sold x rate = amount bought, in either quoting convention; printed rates are rounded
+  const label = 'Amount × rate = converted amount';
+  if (!tx.original_amount || !tx.exchange_rate_bank || !tx.converted_amount) {
+    checks.push(check('amount_rate', label, 'skipped', 'Amount, rate or converted amount missing'));
+  } else {
+    const direct = tx.original_amount * tx.exchange_rate_bank;
+    const inverse = tx.original_amount / tx.exchange_rate_bank;
+    const diff = Math.min(relativeDiff(direct, tx.converted_amount), relativeDiff(inverse, tx.converted_amount));
+    checks.push(diff <= 0.005
+      ? check('amount_rate', label, 'pass', `Within ${(diff * 100).toFixed(3)}%`)
+      : check('amount_rate', label, 'fail', `${tx.original_amount.toLocaleString()} at ${tx.exchange_rate_bank} does not give ${tx.converted_amount.toLocaleString()} (${(diff * 100).toFixed(2)}% off)`));
+  }
+
+  // Fee lines add up to the printed total, when they share one currency
+  const feeCurrencies = new Set(items.map(i => i.currency).filter(Boolean));
+  const feeSum = items.reduce((sum, i) => sum + (i.amount || 0), 0);
+  if (!extraction.fees?.total_fees || items.length === 0) {
+    checks.push(check('fee_total', 'Fees sum to total', 'skipped', 'No printed fee total'));
+  } else if (feeCurrencies.size > 1) {
+    checks.push(check('fee_total', 'Fees sum to total', 'skipped', 'Fees charged in several currencies'));
+  } else {
+    const total = extraction.fees.total_fees;
+    checks.push(Math.abs(feeSum - total) <= Math.max(0.01, total * 0.005)
+      ? check('fee_total', 'Fees sum to total', 'pass', `${feeSum.toFixed(2)} of ${total.toFixed(2)}`)
+      : check('fee_total', 'Fees sum to total', 'fail', `Lines add up to ${feeSum.toFixed(2)}, total says ${total.toFixed(2)}`));
+  }
+
+  // The pair names the currencies actually exchanged
+  const pairCurrencies = (tx.currency_pair || '').toUpperCase().split('/');
+  const traded = [tx.original_currency, tx.converted_currency].filter(Boolean).map(c => c!.toUpperCase());
+  if (pairCurrencies.length !== 2 || traded.length === 0) {
+    checks.push(check('pair_currencies', 'Pair matches currencies', 'skipped', 'Pair or currencies missing'));
+  } else {
+    const missing = traded.filter(c => !pairCurrencies.includes(c));
+    checks.push(missing.length === 0
+      ? check('pair_currencies', 'Pair matches currencies', 'pass', tx.currency_pair!)
+      : check('pair_currencies', 'Pair matches currencies', 'fail', `${missing.join(', ')} not in ${tx.currency_pair}`));
+  }
+
+  // A real calendar date, not far in the future
+  if (!tx.value_date) {
+    checks.push(check('value_date', 'Plausible value date', 'skipped', 'No value date'));
+  } else {
+    const time = Date.parse(`${tx.value_date}T00:00:00Z`);
+    const valid = /^\d{4}-\d{2}-\d{2}$/.test(tx.value_date) && !isNaN(time) && new Date(time).toISOString().startsWith(tx.value_date);
+    const future = valid && time > Date.now() + 31 * 86400000;
+    checks.push(valid && !future
+      ? check('value_date', 'Plausible value date', 'pass', tx.value_date)
+      : check('value_date', 'Plausible value date', 'fail', valid ? `${tx.value_date} is more than a month ahead` : `"${tx.value_date}" is not a date`));
+  }
+
+  const negatives = [
+    !(tx.original_amount! > 0) && 'amount',
+    !(tx.exchange_rate_bank! > 0) && 'rate',
+    items.some(i => i.amount < 0) && 'fees'
+  ].filter(Boolean);
+  checks.push(negatives.length === 0
+    ? check('positive_values', 'Positive amount and rate', 'pass', 'OK')
+    : check('positive_values', 'Positive amount and rate', 'fail', `Missing or negative: ${negatives.join(', ')}`));
+
+  return checks;
+};
+
+export interface ExtractionAssessment {
+  fieldConfidence: Partial<Record<ExtractionField, number>>;
+  consistencyChecks: ConsistencyCheck[];
+  reliabilityScore: number; // 0-100
+  lowConfidenceFields: ExtractionField[];
+  needsReview: boolean;
+}
+
+/**
+ * Weighted field confidence less a penalty per failed check
+ */
+export const assessExtraction = (extraction: ExtractionResult): ExtractionAssessment => {
+  const fieldConfidence = scoreFields(extraction);
+  const consistencyChecks = runConsistencyChecks(extraction);
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [field, weight] of Object.entries(FIELD_WEIGHTS) as [ExtractionField, number][]) {
+    weighted += (fieldConfidence[field] ?? 0) * weight;
+    totalWeight += weight;
+  }
+  const failed = consistencyChecks.filter(c => c.status === 'fail').length;
+  const reliabilityScore = Math.max(0, Math.min(100, Math.round((weighted / totalWeight) * 100) - failed * FAILED_CHECK_PENALTY));
+
+  // Optional fields only count as low when the provider read something it was unsure of
+  const lowConfidenceFields = EXTRACTION_FIELDS.filter(f => {
+    const score = fieldConfidence[f] ?? 0;
+    return score < LOW_CONFIDENCE && (FIELD_WEIGHTS[f] !== undefined || isPresent(fieldValue(extraction, f)));
+  });
+  const materialLow = lowConfidenceFields.some(f => (FIELD_WEIGHTS[f] ?? 0) >= 2);
+
+  return {
+    fieldConfidence,
+    consistencyChecks,
+    reliabilityScore,
+    lowConfidenceFields,
+    needsReview: reliabilityScore < REVIEW_THRESHOLD || failed > 0 || materialLow
+  };
+};
+
+// --- HUMAN REVIEW ---
+
+// Editable form of an extraction; every scalar is a string while the reviewer types
+export interface ExtractionDraft {
+  fields: Record<Exclude<ExtractionField, 'fees'>, string>;
+  fees: { name: string, amount: string, currency: string }[];
+  totalFees: string;
+}
+
+/**
+ * The extraction behind a quote. Quotes saved without the raw provider output are rebuilt from their fields.
+ */
+export const extractionOfQuote = (quote: QuoteData): ExtractionResult => {
+  if (quote.geminiRaw?.transaction) return quote.geminiRaw as ExtractionResult;
+  return extractionFromQuoteFields(quote);
+};
+
+/**
+ * A quote's current field values in provider shape, for re-pricing after an edit
+ */
+export const extractionFromQuoteFields = (quote: QuoteData): ExtractionResult => {
+  return {
+    extraction: {
+      bank_name: quote.bank,
+      transaction_reference: quote.referenceNumber,
+      sender_name: quote.senderName,
+      beneficiary_name: quote.recipientName
+    },
+    transaction: {
+      original_amount: quote.amount,
+      original_currency: quote.originalCurrency,
+      converted_amount: quote.convertedAmount,
+      converted_currency: quote.convertedCurrency,
+      exchange_rate_bank: quote.exchangeRate,
+      currency_pair: quote.pair,
+      value_date: quote.valueDate,
+      execution_time: quote.executionTimestamp ? new Date(quote.executionTimestamp).toISOString() : ''
+    },
+    fees: {
+      items: (quote.fees || []).map(f => ({ name: f.type, amount: f.amount, currency: f.currency, category: f.category, charge_bearer: f.chargeBearer })),
+      total_fees: undefined
+    },
+    source: 'ledger',
+    confidence: quote.fieldConfidence
+  };
+};
+
+export const draftFromExtraction = (extraction: ExtractionResult): ExtractionDraft => {
+  const fields = {} as ExtractionDraft['fields'];
+  for (const field of EXTRACTION_FIELDS) {
+    if (field === 'fees') continue;
+    const value = fieldValue(extraction, field);
+    fields[field] = isPresent(value) ? String(value) : '';
+  }
+  return {
+    fields,
+    fees: (extraction.fees?.items || []).map(i => ({ name: i.name, amount: String(i.amount), currency: i.currency || '' })),
+    totalFees: extraction.fees?.total_fees !== undefined ? String(extraction.fees.total_fees) : ''
+  };
+};
+
+const parseDraftNumber = (value: string) => {
+  const n = parseFloat(value.replace(/[,\s]/g, ''));
+  return isFinite(n) ? n : undefined;
+};
+
+/**
+ * Apply a reviewer's draft to the original extraction. Corrected fields are confirmed by a person
+ * and score full confidence; fields left as read keep the provider's score.
+ */
+export const applyReviewDraft = (
+  original: ExtractionResult,
+  draft: ExtractionDraft
+): { extraction: ExtractionResult, corrections: FieldChange[] } => {
+  const before = draftFromExtraction(original);
+  const corrections: FieldChange[] = [];
+  const confidence: Partial<Record<ExtractionField, number>> = { ...scoreFields(original) };
+  const extraction: ExtractionResult = {
+    ...original,
+    extraction: { ...original.extraction },
+    transaction: { ...original.transaction }
+  };
+
+  for (const [field, value] of Object.entries(draft.fields) as [Exclude<ExtractionField, 'fees'>, string][]) {
+    const trimmed = value.trim();
+    if (trimmed === before.fields[field]) continue;
+    corrections.push({ field, from: before.fields[field], to: trimmed });
+    confidence[field] = 1;
+    if (isNumericField(field)) extraction.transaction[field] = parseDraftNumber(trimmed);
+    else if (isTransactionField(field)) extraction.transaction[field] = (UPPERCASE_FIELDS.includes(field) ? trimmed.toUpperCase() : trimmed) || undefined;
+    else extraction.extraction[field] = trimmed || undefined;
+  }
+
+  const feesChanged = JSON.stringify(draft.fees) !== JSON.stringify(before.fees) || draft.totalFees.trim() !== before.totalFees;
+  if (feesChanged) {
+    const items = draft.fees
+      .filter(f => f.name.trim() || f.amount.trim())
+      .map((f, i) => ({
+        ...(original.fees?.items?.[i] || {}),
+        name: f.name.trim() || 'Fee',
+        amount: parseDraftNumber(f.amount) ?? 0,
+        currency: f.currency.trim().toUpperCase() || undefined
+      }));
+    extraction.fees = { items, total_fees: parseDraftNumber(draft.totalFees) };
+    corrections.push({
+      field: 'fees',
+      from: before.fees.map(f => `${f.name} ${f.amount} ${f.currency}`.trim()).join('; '),
+      to: items.map(f => `${f.name} ${f.amount} ${f.currency || ''}`.trim()).join('; ')
+    });
+    confidence.fees = 1;
+  }
+
+  extraction.confidence = confidence;
+  return { extraction, corrections };
+};
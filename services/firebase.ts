@@ -29,31 +29,21 @@ import {
   where,
   orderBy,
   getDocs,
+  deleteDoc,
+  limit,
   onSnapshot,
   writeBatch,
   arrayUnion,
+  deleteField,
   runTransaction
 } from "firebase/firestore";
-import { UserProfile, QuoteData, Audit, Organization, TeamMember } from "../types";
-
-// Helper for Robust Env Vars
-const getEnv = (key: string) => {
-  let value = '';
-  if (import.meta && (import.meta as any).env) {
-    value = (import.meta as any).env[`VITE_${key}`] || 
-            (import.meta as any).env[`NEXT_PUBLIC_${key}`] || 
-            (import.meta as any).env[key] || 
-            '';
-  }
-  if (value) return value;
-  if (typeof process !== 'undefined' && process.env) {
-    value = process.env[`VITE_${key}`] || 
-            process.env[`NEXT_PUBLIC_${key}`] || 
-            process.env[key] || 
-            '';
-  }
-  return value;
-};
+import { getStorage, connectStorageEmulator } from "firebase/storage";
+import { UserProfile, QuoteData, QuoteVersion, FieldChange, Audit, Organization, TeamMember, WorkflowRole, WorkflowStatus, Comment, DisputeCase, Institution, BankRegistry, BenchmarkTable, DisputeRule, DisputeRuleSet } from "../types";
+import { checkTransition, initialWorkflowLog, transitionEntry, workflowRoleOf } from "./workflow";
+import { DEFAULT_BENCHMARK_TABLE } from "./benchmarks";
+import { DEFAULT_DISPUTE_RULE_SET, DEFAULT_RULE_CURRENCY, defaultDisputeRules } from "./disputeRules";
+import { DEFAULT_INSTITUTIONS } from "./bankRegistry";
+import { getEnv } from "./env";
 
 // --- CONFIGURATION ---
 const rawConfig = {
@@ -85,9 +75,17 @@ const firebaseConfig = isConfigValid ? rawConfig : {
 const app = getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
 const auth = getAuth(app);
 const db = getFirestore(app);
+const storage = getStorage(app);
 const googleProvider = new GoogleAuthProvider();
 
-export { auth, db, googleProvider, isConfigValid };
+// Local development: FIREBASE_STORAGE_EMULATOR=127.0.0.1:9199 (see firebase.json)
+const storageEmulator = getEnv("FIREBASE_STORAGE_EMULATOR");
+if (isConfigValid && storageEmulator) {
+  const [host, port] = storageEmulator.split(':');
+  connectStorageEmulator(storage, host, parseInt(port || '9199', 10));
+}
+
+export { auth, db, storage, googleProvider, isConfigValid };
 
 // --- CORE: SYNC LOGIC ---
 export const syncUserAndOrg = async (user: FirebaseUser): Promise<{ userProfile: UserProfile, orgProfile: Organization | null }> => {
@@ -109,6 +107,7 @@ export const syncUserAndOrg = async (user: FirebaseUser): Promise<{ userProfile:
             plan: 'enterprise',
             maxSeats: 10,
             credits: 100,
+            reportingCurrency: 'USD',
             createdAt: Date.now()
         } 
     };
@@ -134,7 +133,7 @@ export const syncUserAndOrg = async (user: FirebaseUser): Promise<{ userProfile:
 
     if (!userSnap.exists()) {
       await setDoc(userRef, JSON.parse(JSON.stringify(defaultProfile)));
-      await setDoc(doc(db, "settings", user.uid), { profitThreshold: 2.0, autoAudit: true });
+      await setDoc(doc(db, "settings", user.uid), { autoAudit: true });
       userSnap = await getDoc(userRef);
     } else {
         await updateDoc(userRef, { lastSeen: Date.now() });
@@ -166,8 +165,10 @@ export const syncUserAndOrg = async (user: FirebaseUser): Promise<{ userProfile:
            }
          };
        } else {
-         await updateDoc(userRef, { orgId: null });
-         userData.orgId = undefined; 
+         // Leaving an organization drops its workflow role (firestore.rules)
+         await updateDoc(userRef, { orgId: null, workflowRole: deleteField() });
+         userData.orgId = undefined;
+         userData.workflowRole = undefined;
        }
     }
     return { userProfile: userData, orgProfile: null };
@@ -223,6 +224,7 @@ export const createOrganization = async (userId: string, orgData: Partial<Organi
     members: [userId],
     plan: 'free',
     maxSeats: 5,
+    reportingCurrency: orgData.reportingCurrency || 'USD',
     createdAt: Date.now()
   };
   const orgRef = await addDoc(collection(db, "organizations"), newOrgData);
@@ -230,6 +232,7 @@ export const createOrganization = async (userId: string, orgData: Partial<Organi
   // Set User as Admin and give initial credits (10) on THEIR profile
   await updateDoc(doc(db, "users", userId), { 
       orgId: orgRef.id, 
+      workflowRole: deleteField(),
       role: 'admin',
       credits: 10 // Initial allocation
   });
@@ -252,12 +255,17 @@ export const joinOrganization = async (userId: string, orgId: string) => {
       if (orgData.members.includes(userId)) return;
       
       transaction.update(orgRef, { members: arrayUnion(userId) });
-      transaction.update(userRef, { orgId: orgId, role: 'member' }); 
+      transaction.update(userRef, { orgId: orgId, role: 'member', workflowRole: deleteField() });
     });
     return { success: true };
   } catch (e: any) { return { success: false, error: e.message }; }
 };
 
+export const updateOrganizationSettings = async (orgId: string, data: Partial<Pick<Organization, 'name' | 'reportingCurrency' | 'extractionProvider' | 'expectedVolumes'>>) => {
+  if (!isConfigValid) return true;
+  try { await updateDoc(doc(db, "organizations", orgId), JSON.parse(JSON.stringify(data))); return true; } catch (e) { console.error("Org update failed", e); return false; }
+};
+
 export const markIntroSeen = async (userId: string) => {
   if (!isConfigValid) return true;
   try { await updateDoc(doc(db, "users", userId), { hasSeenIntro: true }); return true; } catch (e) { return false; }
@@ -274,6 +282,7 @@ export const fetchTeamMembers = async (orgId: string): Promise<TeamMember[]> =>
                 id: d.id,
                 name: data.displayName || 'Unknown Agent',
                 role: data.role || 'member',
+                workflowRole: data.workflowRole,
                 status: 'Online',
                 activity: `Last active ${new Date(data.lastSeen || Date.now()).toLocaleDateString()}`,
                 email: data.email
@@ -285,6 +294,166 @@ export const fetchTeamMembers = async (orgId: string): Promise<TeamMember[]> =>
     }
 };
 
+/**
+ * Set a member's workflow role. Only the organization admin passes the rules for this.
+ */
+export const updateMemberWorkflowRole = async (userId: string, workflowRole: WorkflowRole) => {
+  if (!isConfigValid) return true;
+  try { await updateDoc(doc(db, "users", userId), { workflowRole }); return true; } catch (e) { console.error("Role update failed", e); return false; }
+};
+
+// --- BANK REGISTRY ---
+// One document per organization. Until an admin changes anything the built-in institutions apply.
+export const listenToBankRegistry = (orgId: string, cb: (institutions: Institution[]) => void) => {
+  if (!isConfigValid || !orgId) {
+    cb(DEFAULT_INSTITUTIONS);
+    return () => {};
+  }
+  return onSnapshot(doc(db, "bank_registries", orgId), (docSnap) => {
+    cb(docSnap.exists() ? ((docSnap.data() as BankRegistry).institutions || []) : DEFAULT_INSTITUTIONS);
+  }, (error) => {
+    console.error("Error listening to bank registry:", error);
+    cb(DEFAULT_INSTITUTIONS);
+  });
+};
+
+/**
+ * Apply a change to the org's institutions against the stored registry, so two admins editing at
+ * once cannot drop each other's merges. Only the organization admin passes the rules for this.
+ */
+export const updateBankRegistry = async (
+  orgId: string,
+  userId: string,
+  change: (institutions: Institution[]) => Institution[]
+): Promise<{success: boolean, error?: string}> => {
+  if (!isConfigValid) return { success: true };
+  try {
+    const registryRef = doc(db, "bank_registries", orgId);
+    await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(registryRef);
+      const current = snap.exists() ? ((snap.data() as BankRegistry).institutions || []) : DEFAULT_INSTITUTIONS;
+      const registry: BankRegistry = { institutions: change(current), updatedAt: Date.now(), updatedBy: userId };
+      transaction.set(registryRef, JSON.parse(JSON.stringify(registry)));
+    });
+    return { success: true };
+  } catch (error: any) {
+    console.error("Bank Registry Update Error:", error);
+    return { success: false, error: error.message };
+  }
+};
+
+// --- DISPUTE RULES ---
+// One document per organization. Until an admin saves rules the built-in ones apply.
+
+/**
+ * The built-in rules for an org without stored ones. Its lane-average rule takes the alert threshold
+ * the org admin set in Settings (`profitThreshold`) before rules were configurable.
+ */
+const defaultRuleSetFor = async (orgId: string): Promise<DisputeRuleSet> => {
+  try {
+    const adminId = (await getDoc(doc(db, "organizations", orgId))).data()?.adminId;
+    const threshold = adminId ? (await fetchUserSettings(adminId))?.profitThreshold : undefined;
+    if (typeof threshold === 'number' && threshold > 0) {
+      return { rules: defaultDisputeRules(threshold), currency: DEFAULT_RULE_CURRENCY };
+    }
+  } catch (error) {
+    console.error("Error reading the legacy lane threshold:", error);
+  }
+  return DEFAULT_DISPUTE_RULE_SET;
+};
+
+export const listenToDisputeRules = (orgId: string, cb: (ruleSet: DisputeRuleSet) => void) => {
+  if (!isConfigValid || !orgId) {
+    cb(DEFAULT_DISPUTE_RULE_SET);
+    return () => {};
+  }
+  return onSnapshot(doc(db, "dispute_rules", orgId), (docSnap) => {
+    if (!docSnap.exists()) {
+      defaultRuleSetFor(orgId).then(cb);
+      return;
+    }
+    const ruleSet = docSnap.data() as DisputeRuleSet;
+    cb({ ...ruleSet, rules: ruleSet.rules || [], currency: ruleSet.currency || DEFAULT_RULE_CURRENCY });
+  }, (error) => {
+    console.error("Error listening to dispute rules:", error);
+    cb(DEFAULT_DISPUTE_RULE_SET);
+  });
+};
+
+/**
+ * Replace the org's dispute rules, with the currency of their money thresholds. Quotes already
+ * priced keep the rules that fired for them; only the organization admin passes the rules for this.
+ */
+export const saveDisputeRules = async (orgId: string, userId: string, rules: DisputeRule[], currency: string): Promise<{success: boolean, error?: string}> => {
+  if (!isConfigValid) return { success: true };
+  try {
+    const ruleSet: DisputeRuleSet = { rules, currency: currency.toUpperCase(), updatedAt: Date.now(), updatedBy: userId };
+    await setDoc(doc(db, "dispute_rules", orgId), JSON.parse(JSON.stringify(ruleSet)));
+    return { success: true };
+  } catch (error: any) {
+    console.error("Dispute Rules Save Error:", error);
+    return { success: false, error: error.message };
+  }
+};
+
+// --- BENCHMARK TABLES ---
+// The current table lives at benchmark_tables/{orgId}; every published version is also kept under
+// its versions subcollection so a quote's benchmarkVersion can always be looked up or restored.
+export const listenToBenchmarkTable = (orgId: string, cb: (table: BenchmarkTable) => void) => {
+  if (!isConfigValid || !orgId) {
+    cb(DEFAULT_BENCHMARK_TABLE);
+    return () => {};
+  }
+  return onSnapshot(doc(db, "benchmark_tables", orgId), (docSnap) => {
+    cb(docSnap.exists() ? (docSnap.data() as BenchmarkTable) : DEFAULT_BENCHMARK_TABLE);
+  }, (error) => {
+    console.error("Error listening to benchmark table:", error);
+    cb(DEFAULT_BENCHMARK_TABLE);
+  });
+};
+
+/**
+ * Publish a new version of the org's benchmark table. Versions count up from the stored one inside
+ * a transaction, so two admins publishing at once get distinct numbers.
+ */
+export const publishBenchmarkTable = async (
+  orgId: string,
+  userId: string,
+  table: Pick<BenchmarkTable, 'name' | 'currency' | 'entries' | 'source' | 'note'>
+): Promise<{success: boolean, version?: number, error?: string}> => {
+  if (!isConfigValid) return { success: true };
+  try {
+    const tableRef = doc(db, "benchmark_tables", orgId);
+    const version = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(tableRef);
+      const next = (snap.exists() ? (snap.data() as BenchmarkTable).version || 0 : 0) + 1;
+      const published: BenchmarkTable = { ...table, version: next, createdAt: Date.now(), createdBy: userId };
+      const data = JSON.parse(JSON.stringify(published));
+      transaction.set(tableRef, data);
+      transaction.set(doc(db, "benchmark_tables", orgId, "versions", String(next)), data);
+      return next;
+    });
+    return { success: true, version };
+  } catch (error: any) {
+    console.error("Benchmark Publish Error:", error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Published versions of the org's benchmark table, newest first
+ */
+export const getBenchmarkVersions = async (orgId: string): Promise<BenchmarkTable[]> => {
+  if (!isConfigValid || !orgId) return [];
+  try {
+    const snap = await getDocs(query(collection(db, "benchmark_tables", orgId, "versions"), orderBy("version", "desc")));
+    return snap.docs.map(d => d.data() as BenchmarkTable);
+  } catch (e) {
+    console.error("Benchmark history load failed", e);
+    return [];
+  }
+};
+
 // --- AUTH WRAPPERS ---
 export const handleGoogleSignIn = async () => {
   if (!isConfigValid) throw new Error("Missing Firebase Configuration");
@@ -368,6 +537,58 @@ export const fetchOrgQuotes = async (orgId: string): Promise<QuoteData[]> => {
   } catch (error) { console.error(error); return []; }
 };
 
+// Stored shape of a newly analyzed quote; undefined fields are stripped for Firestore
+const buildQuoteRecord = (userId: string, orgId: string, quoteData: Partial<QuoteData>, pdfBase64: string | null, geminiRaw: any) => {
+  const workflowStatus = quoteData.workflowStatus || 'analyzed'; // 'extracted' while awaiting review
+  const newQuote = {
+    ...quoteData,
+    userId,
+    orgId,
+    status: (quoteData.dispute?.recommended) ? 'flagged' : 'optimal',
+    workflowStatus,
+    workflowLog: initialWorkflowLog(userId, workflowStatus),
+    pdfBase64,
+    geminiRaw,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    notes: []
+  };
+  return JSON.parse(JSON.stringify(newQuote));
+};
+
+const auditRecord = (quoteId: string, orgId: string, userId: string, quoteData: Partial<QuoteData>) => ({
+  quoteId,
+  orgId,
+  userId,
+  timestamp: Date.now(),
+  leakageAmount: quoteData.totalHiddenCost,
+  leakagePercentage: quoteData.totalHiddenPercentage,
+  pair: quoteData.pair,
+  bank: quoteData.bank
+});
+
+// One audit per quote: re-priced quotes drop their old leakage figures instead of adding to them
+const swapAuditRecord = async (quoteId: string, orgId: string, userId: string, quoteData: Partial<QuoteData>) => {
+  const audits = await getDocs(query(collection(db, "audits"), where("quoteId", "==", quoteId)));
+  const batch = writeBatch(db);
+  audits.forEach(a => batch.delete(a.ref));
+  batch.set(doc(collection(db, "audits")), auditRecord(quoteId, orgId, userId, quoteData));
+  await batch.commit();
+};
+
+// Credits are pooled on the organization admin's profile
+const deductOrgCredits = async (orgId: string, count: number) => {
+  try {
+    const orgSnap = await getDoc(doc(db, "organizations", orgId));
+    const adminId = orgSnap.data()?.adminId;
+    if (adminId) {
+      await updateDoc(doc(db, "users", adminId), { credits: increment(-count) });
+    }
+  } catch (creditError) {
+    console.warn("Credit update failed (non-fatal):", creditError);
+  }
+};
+
 export const saveQuoteToFirestore = async (
   userId: string, 
   orgId: string, 
@@ -382,54 +603,22 @@ export const saveQuoteToFirestore = async (
   try {
     if (!userId || !orgId) throw new Error("Missing ID.");
 
-    let safePdfBase64: string | null = pdfBase64;
+    // Originals belong in Cloud Storage (quoteData.fileUrl); inline copies are only for small legacy callers
     const sizeInBytes = (pdfBase64.length * 3) / 4; 
     if (sizeInBytes > 900000) { 
-        console.warn("PDF too large for Firestore document. Saving metadata only.");
-        safePdfBase64 = null; 
+        throw new Error("Document too large to store inline. Upload it to storage first.");
     }
 
-    const newQuote = {
-      ...quoteData,
-      userId,
-      orgId,
-      status: (quoteData.dispute?.recommended) ? 'flagged' : 'optimal',
-      workflowStatus: 'analyzed',
-      pdfBase64: safePdfBase64,
-      geminiRaw,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-      notes: []
-    };
-
-    // Remove undefined
-    const sanitizedQuote = JSON.parse(JSON.stringify(newQuote));
+    const newQuote = buildQuoteRecord(userId, orgId, quoteData, pdfBase64 || null, geminiRaw);
 
     // 1. Save Quote
-    const docRef = await addDoc(collection(db, "quotes"), sanitizedQuote);
+    const docRef = await addDoc(collection(db, "quotes"), newQuote);
     
     // 2. Save Audit Record
-    await addDoc(collection(db, "audits"), {
-        quoteId: docRef.id,
-        orgId,
-        userId,
-        timestamp: Date.now(),
-        leakageAmount: quoteData.totalHiddenCost,
-        leakagePercentage: quoteData.totalHiddenPercentage,
-        pair: quoteData.pair,
-        bank: quoteData.bank
-    });
+    await addDoc(collection(db, "audits"), auditRecord(docRef.id, orgId, userId, quoteData));
 
     // 3. Deduct Credits from ADMIN USER Profile
-    try {
-        const orgSnap = await getDoc(doc(db, "organizations", orgId));
-        const adminId = orgSnap.data()?.adminId;
-        if (adminId) {
-            await updateDoc(doc(db, "users", adminId), { credits: increment(-1) });
-        }
-    } catch (creditError) {
-        console.warn("Credit update failed (non-fatal):", creditError);
-    }
+    await deductOrgCredits(orgId, 1);
 
     return { success: true, id: docRef.id, ...newQuote };
   } catch (error: any) {
@@ -438,6 +627,323 @@ export const saveQuoteToFirestore = async (
   }
 };
 
+/**
+ * Overwrite an existing quote with a fresh analysis of the same confirmation (duplicate "replace").
+ * Its audit record is swapped so leakage is not counted twice; notes are kept and no credit is used.
+ * The quote stays with its owner; the replacer is recorded in lastEditedBy and the workflow log.
+ */
+export const replaceQuoteInFirestore = async (
+  quoteId: string,
+  userId: string,
+  orgId: string,
+  quoteData: Partial<QuoteData>,
+  geminiRaw: any
+): Promise<{success: true, id: string, [key: string]: any} | {success: false, error: any}> => {
+  if (!isConfigValid) {
+    return { success: true, id: quoteId, ...quoteData };
+  }
+
+  try {
+    const quoteRef = doc(db, "quotes", quoteId);
+    const existing = await getDoc(quoteRef);
+    if (!existing.exists()) throw new Error("Quote to replace no longer exists.");
+
+    const previous = existing.data() as QuoteData;
+    const version = previous.version || 1;
+    const { createdAt, notes, workflowLog, ...record } = buildQuoteRecord(previous.userId, orgId, quoteData, null, geminiRaw);
+    // A new source document restarts the workflow; the log keeps the earlier steps
+    record.workflowLog = [...(previous.workflowLog || []), transitionEntry(previous.workflowStatus, record.workflowStatus, { uid: userId }, 'Replaced by re-upload')];
+    const batch = writeBatch(db);
+    batch.set(doc(db, "quotes", quoteId, "versions", `v${version}`), versionRecord(previous, version, userId, {
+      kind: 'replace',
+      changes: [{ field: 'contentHash', from: previous.contentHash || '', to: quoteData.contentHash || '' }]
+    }));
+    batch.set(quoteRef, { ...record, createdAt: previous.createdAt || createdAt, notes: previous.notes || notes, version: version + 1, lastEditedBy: userId });
+    await batch.commit();
+
+    await swapAuditRecord(quoteId, orgId, previous.userId, quoteData);
+
+    return { success: true, id: quoteId, ...record };
+  } catch (error: any) {
+    console.error("Replace Quote Error:", error);
+    return { success: false, error: error.message };
+  }
+};
+
+// --- QUOTE COMMENTS ---
+// One document per comment under quotes/{id}/comments, so the rules can hold each one to its author
+export const listenToQuoteComments = (quoteId: string, cb: (comments: Comment[]) => void) => {
+  if (!isConfigValid || !quoteId) return () => {};
+  return onSnapshot(collection(db, "quotes", quoteId, "comments"), (snapshot) => {
+    cb(snapshot.docs.map(d => d.data() as Comment));
+  }, (error) => {
+    console.error("Error listening to comments:", error);
+  });
+};
+
+export const addQuoteComment = async (quoteId: string, comment: Comment): Promise<{success: boolean, error?: string}> => {
+  if (!isConfigValid) return { success: true };
+  try {
+    await setDoc(doc(db, "quotes", quoteId, "comments", comment.id), JSON.parse(JSON.stringify(comment)));
+    return { success: true };
+  } catch (error: any) {
+    console.error("Comment Error:", error);
+    return { success: false, error: error.message };
+  }
+};
+
+export const editQuoteComment = async (quoteId: string, commentId: string, text: string, mentions: string[]): Promise<{success: boolean, error?: string}> => {
+  if (!isConfigValid) return { success: true };
+  try {
+    await updateDoc(doc(db, "quotes", quoteId, "comments", commentId), { text, mentions, editedAt: Date.now() });
+    return { success: true };
+  } catch (error: any) {
+    console.error("Comment Error:", error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Remove a comment outright, or blank it to a placeholder if others replied to it
+ */
+export const deleteQuoteComment = async (quoteId: string, commentId: string): Promise<{success: boolean, error?: string}> => {
+  if (!isConfigValid) return { success: true };
+  try {
+    const commentRef = doc(db, "quotes", quoteId, "comments", commentId);
+    const replies = await getDocs(query(collection(db, "quotes", quoteId, "comments"), where("parentId", "==", commentId), limit(1)));
+    if (replies.empty) await deleteDoc(commentRef);
+    else await updateDoc(commentRef, { text: '', mentions: [], deleted: true });
+    return { success: true };
+  } catch (error: any) {
+    console.error("Comment Error:", error);
+    return { success: false, error: error.message };
+  }
+};
+
+// --- DISPUTES ---
+/**
+ * Apply a change to a quote's dispute case against its stored state, so two people working the same
+ * dispute cannot overwrite each other's progress. The letter text is mirrored onto quote.dispute.
+ */
+export const updateDisputeCase = async (
+  quoteId: string,
+  change: (current: DisputeCase | undefined) => DisputeCase
+): Promise<{success: true, disputeCase: DisputeCase} | {success: false, error: any}> => {
+  if (!isConfigValid) return { success: true, disputeCase: change(undefined) };
+  try {
+    const quoteRef = doc(db, "quotes", quoteId);
+    const disputeCase = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(quoteRef);
+      if (!snap.exists()) throw new Error("Quote not found.");
+      const next = change((snap.data() as QuoteData).disputeCase);
+      transaction.update(quoteRef, {
+        disputeCase: next,
+        disputeDrafted: true,
+        "dispute.disputeLetterGenerated": true,
+        "dispute.disputeLetterText": next.letter.body
+      });
+      return next;
+    });
+    return { success: true, disputeCase };
+  } catch (error: any) {
+    console.error("Dispute Update Error:", error);
+    return { success: false, error: error.message };
+  }
+};
+
+// --- QUOTE VERSIONS ---
+// Quotes are never edited in place without a trace: the state before each change is kept under
+// quotes/{quoteId}/versions/v{n}, together with who changed what, so the original extraction survives.
+
+type VersionEntry = Pick<QuoteVersion, 'kind' | 'changes' | 'reason' | 'changedByName'>;
+
+const versionRecord = (previous: Partial<QuoteData>, version: number, userId: string, entry: VersionEntry) => {
+  // Legacy inline documents would push the snapshot past the document size limit
+  const { pdfBase64, ...snapshot } = previous;
+  return JSON.parse(JSON.stringify({ ...entry, version, snapshot, changedBy: userId, changedAt: Date.now() }));
+};
+
+/**
+ * Apply changes to a quote and archive the version they replace, atomically. The audit record is
+ * swapped when the costs changed.
+ */
+export const updateQuoteWithHistory = async (
+  quoteId: string,
+  userId: string,
+  changes: Partial<QuoteData>,
+  entry: VersionEntry
+): Promise<{success: true, id: string, [key: string]: any} | {success: false, error: any}> => {
+  const update = JSON.parse(JSON.stringify({ ...changes, updatedAt: Date.now(), lastEditedBy: userId }));
+  if (!isConfigValid) {
+    return { success: true, id: quoteId, ...update };
+  }
+
+  try {
+    const quoteRef = doc(db, "quotes", quoteId);
+    const previous = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(quoteRef);
+      if (!snap.exists()) throw new Error("Quote not found.");
+      const current = snap.data() as QuoteData;
+      const version = current.version || 1;
+      const moved = update.workflowStatus && update.workflowStatus !== current.workflowStatus;
+      if (moved) {
+        const note = entry.kind === 'review' ? 'Extraction reviewed' : 'Changed by an edit';
+        update.workflowLog = [...(current.workflowLog || []), transitionEntry(current.workflowStatus, update.workflowStatus, { uid: userId, displayName: entry.changedByName }, note)];
+      }
+      transaction.set(doc(db, "quotes", quoteId, "versions", `v${version}`), versionRecord(current, version, userId, entry));
+      transaction.update(quoteRef, { ...update, version: version + 1 });
+      return current;
+    });
+
+    if (changes.totalHiddenCost !== undefined && changes.totalHiddenCost !== previous.totalHiddenCost) {
+      await swapAuditRecord(quoteId, previous.orgId, userId, { ...previous, ...changes });
+    }
+    return { success: true, id: quoteId, ...update, version: (previous.version || 1) + 1 };
+  } catch (error: any) {
+    console.error("Update Quote Error:", error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Earlier versions of a quote, newest first
+ */
+export const getQuoteVersions = async (quoteId: string): Promise<QuoteVersion[]> => {
+  if (!isConfigValid) return [];
+  try {
+    const snap = await getDocs(query(collection(db, "quotes", quoteId, "versions"), orderBy("version", "desc")));
+    return snap.docs.map(d => ({ id: d.id, ...d.data() } as QuoteVersion));
+  } catch (e) {
+    console.error("Version history load failed", e);
+    return [];
+  }
+};
+
+/**
+ * Save a reviewer's corrections: the re-priced fields, who confirmed them and what changed.
+ * The source document, notes and creation time are untouched; the prior version is archived.
+ */
+export const saveExtractionReview = async (
+  quoteId: string,
+  userId: string,
+  orgId: string,
+  quoteData: Partial<QuoteData>,
+  geminiRaw: any,
+  corrections: FieldChange[]
+) => {
+  const { createdAt, notes, pdfBase64, userId: _owner, workflowLog, ...record } = buildQuoteRecord(userId, orgId, quoteData, null, geminiRaw);
+  return updateQuoteWithHistory(
+    quoteId,
+    userId,
+    { ...record, workflowStatus: 'analyzed', reviewedBy: userId, reviewedAt: Date.now(), reviewCorrections: corrections },
+    { kind: 'review', changes: corrections }
+  );
+};
+
+/**
+ * Move a quote to another workflow status and log who did it. The same role and maker-checker
+ * rules are enforced by firestore.rules; checking here first gives a readable refusal.
+ */
+export const transitionQuoteWorkflow = async (
+  quoteId: string,
+  user: Pick<UserProfile, 'uid' | 'displayName' | 'email' | 'workflowRole'>,
+  org: Pick<Organization, 'adminId'> | null,
+  to: WorkflowStatus,
+  note?: string
+): Promise<{success: true, id: string, [key: string]: any} | {success: false, error: any}> => {
+  const role = workflowRoleOf(user, org);
+  const actor = { uid: user.uid, displayName: user.displayName || user.email, role };
+  if (!isConfigValid) {
+    return { success: true, id: quoteId, workflowStatus: to };
+  }
+
+  try {
+    const quoteRef = doc(db, "quotes", quoteId);
+    const update = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(quoteRef);
+      if (!snap.exists()) throw new Error("Quote not found.");
+      const current = snap.data() as QuoteData;
+      const check = checkTransition(current, to, user, org);
+      if (!check.allowed) throw new Error(check.reason);
+      const changes = {
+        workflowStatus: to,
+        workflowLog: [...(current.workflowLog || []), transitionEntry(current.workflowStatus, to, actor, note)],
+        updatedAt: Date.now()
+      };
+      transaction.update(quoteRef, changes);
+      return changes;
+    });
+    return { success: true, id: quoteId, ...update };
+  } catch (error: any) {
+    console.error("Workflow Transition Error:", error);
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Record what the uploader did about a suspected duplicate
+ */
+export const logDuplicateDecision = async (entry: {
+  orgId: string;
+  userId: string;
+  decision: 'skip' | 'replace' | 'keep_both';
+  matchKind: 'content_hash' | 'fuzzy';
+  reasons: string[];
+  existingQuoteId: string;
+  savedQuoteId?: string;
+  contentHash?: string;
+  fileName?: string;
+}) => {
+  if (!isConfigValid) return;
+  try {
+    await addDoc(collection(db, "duplicate_decisions"), JSON.parse(JSON.stringify({ ...entry, timestamp: Date.now() })));
+  } catch (e) {
+    console.warn("Duplicate decision log failed (non-fatal):", e);
+  }
+};
+
+// Quote + audit per entry keeps each batch under Firestore's 500-write limit
+const QUOTE_BATCH_SIZE = 200;
+
+/**
+ * saveQuoteToFirestore for many quotes at once (bulk imports): quotes and audits are written in
+ * batches and credits deducted once per committed batch. No source documents are stored.
+ */
+export const saveQuotesBatch = async (
+  userId: string,
+  orgId: string,
+  entries: { quote: Partial<QuoteData>, geminiRaw: any }[]
+): Promise<{success: true, quotes: QuoteData[]} | {success: false, error: any, quotes: QuoteData[]}> => {
+  if (!isConfigValid) {
+    return { success: true, quotes: entries.map((e, i) => ({ id: `demo-quote-${Date.now()}-${i}`, ...buildQuoteRecord(userId, orgId, e.quote, null, e.geminiRaw) })) };
+  }
+
+  const saved: QuoteData[] = [];
+  try {
+    if (!userId || !orgId) throw new Error("Missing ID.");
+
+    for (let i = 0; i < entries.length; i += QUOTE_BATCH_SIZE) {
+      const chunk = entries.slice(i, i + QUOTE_BATCH_SIZE);
+      const batch = writeBatch(db);
+      const written: QuoteData[] = [];
+      for (const entry of chunk) {
+        const quoteRef = doc(collection(db, "quotes"));
+        const record = buildQuoteRecord(userId, orgId, entry.quote, null, entry.geminiRaw);
+        batch.set(quoteRef, record);
+        batch.set(doc(collection(db, "audits")), auditRecord(quoteRef.id, orgId, userId, entry.quote));
+        written.push({ id: quoteRef.id, ...record });
+      }
+      await batch.commit();
+      saved.push(...written);
+      await deductOrgCredits(orgId, chunk.length);
+    }
+    return { success: true, quotes: saved };
+  } catch (error: any) {
+    console.error("Batch Save Error:", error);
+    return { success: false, error: error.message, quotes: saved };
+  }
+};
+
 // --- BILLING ---
 export const processEnterpriseUpgrade = async (userId: string, orgId: string, paypalId: string) => {
   if (!isConfigValid) return true;
@@ -0,0 +1,178 @@
+// --- PAIR ORIENTATION MODEL ---
+// A pair "BASE/QUOTE" is always priced as QUOTE units per 1 BASE unit.
+// Banks are not consistent about this: a USD->EUR wire may be confirmed at 0.92 (EUR per USD)
+// or at 1.0870 (USD per EUR). Everything below normalises the bank rate back onto the pair's
+// own convention before comparing it with the mid-market rate.
+
+export type RateConvention = 'direct' | 'inverse';
+export type SpreadDirection = 'adverse' | 'favourable' | 'at_mid';
+
+export interface PairOrientation {
+  base: string;
+  quote: string;
+  soldCurrency: string;   // Currency the client pays away (original_currency)
+  boughtCurrency: string; // Currency the client receives (converted_currency)
+  clientSellsBase: boolean;
+  rateConvention: RateConvention; // How the bank quoted its rate relative to BASE/QUOTE
+}
+
+export interface DirectionalSpread {
+  spreadDecimal: number; // Signed: positive = cost to client, negative = in the client's favour
+  spreadPercentage: number;
+  direction: SpreadDirection;
+  normalizedBankRate: number; // Bank rate expressed as BASE/QUOTE
+}
+
+export interface OrientationInput {
+  currencyPair?: string;
+  originalCurrency?: string;
+  convertedCurrency?: string;
+  originalAmount?: number;
+  convertedAmount?: number;
+  bankRate: number;
+  midMarketRate?: number;
+}
+
+// Spreads smaller than this are treated as execution at mid (rounding noise on confirmations)
+const AT_MID_TOLERANCE = 0.00005;
+
+/**
+ * Split "USD/EUR", "USD-EUR", "USDEUR" or "USD_EUR" into its legs
+ */
+export function parsePair(pairStr?: string | null): { base: string, quote: string } | null {
+  if (!pairStr) return null;
+  const clean = pairStr.trim().toUpperCase();
+  const parts = clean.split(/[\/\-_ ]/).filter(Boolean);
+  if (parts.length === 2 && parts[0].length === 3 && parts[1].length === 3) {
+    return { base: parts[0], quote: parts[1] };
+  }
+  if (clean.length === 6 && /^[A-Z]{6}$/.test(clean)) {
+    return { base: clean.substring(0, 3), quote: clean.substring(3, 6) };
+  }
+  return null;
+}
+
+/**
+ * Same two currencies, in either orientation
+ */
+export function samePair(a?: string | null, b?: string | null): boolean {
+  const x = parsePair(a);
+  const y = parsePair(b);
+  return !!x && !!y && ((x.base === y.base && x.quote === y.quote) || (x.base === y.quote && x.quote === y.base));
+}
+
+const relativeError = (a: number, b: number) => (b === 0 ? Infinity : Math.abs(a - b) / Math.abs(b));
+
+/**
+ * Work out which side of the pair the client is on and whether the bank quoted
+ * BASE/QUOTE or its inverse.
+ */
+export function resolvePairOrientation(input: OrientationInput): PairOrientation {
+  const original = input.originalCurrency?.trim().toUpperCase() || undefined;
+  const converted = input.convertedCurrency?.trim().toUpperCase() || undefined;
+  const parsed = parsePair(input.currencyPair) || {
+    base: original || 'USD',
+    quote: converted || 'EUR'
+  };
+
+  const soldCurrency = original || (converted === parsed.base ? parsed.quote : parsed.base);
+  const boughtCurrency = converted || (soldCurrency === parsed.base ? parsed.quote : parsed.base);
+
+  let clientSellsBase = true;
+  if (soldCurrency === parsed.quote || boughtCurrency === parsed.base) clientSellsBase = false;
+
+  const rateConvention = detectRateConvention(input, clientSellsBase);
+
+  return {
+    base: parsed.base,
+    quote: parsed.quote,
+    soldCurrency,
+    boughtCurrency,
+    clientSellsBase,
+    rateConvention
+  };
+}
+
+/**
+ * Decide whether the bank rate is BASE/QUOTE ('direct') or QUOTE/BASE ('inverse').
+ * The confirmation amounts are the strongest evidence; the mid-market rate is the tie-breaker.
+ */
+function detectRateConvention(input: OrientationInput, clientSellsBase: boolean): RateConvention {
+  const { bankRate, originalAmount, convertedAmount, midMarketRate } = input;
+  if (!bankRate || bankRate <= 0) return 'direct';
+
+  // 1. Amounts: converted / original is "bought per sold"
+  if (originalAmount && convertedAmount && originalAmount > 0 && convertedAmount > 0) {
+    const boughtPerSold = convertedAmount / originalAmount;
+    // Express the implied rate as BASE/QUOTE
+    const impliedDirect = clientSellsBase ? boughtPerSold : 1 / boughtPerSold;
+    const directErr = relativeError(bankRate, impliedDirect);
+    const inverseErr = relativeError(1 / bankRate, impliedDirect);
+    if (Math.min(directErr, inverseErr) < 0.05) {
+      return inverseErr < directErr ? 'inverse' : 'direct';
+    }
+  }
+
+  // 2. Mid-market: whichever reading of the bank rate lands closer to mid
+  if (midMarketRate && midMarketRate > 0) {
+    return relativeError(1 / bankRate, midMarketRate) < relativeError(bankRate, midMarketRate)
+      ? 'inverse'
+      : 'direct';
+  }
+
+  return 'direct';
+}
+
+/**
+ * Express the bank rate on the pair's BASE/QUOTE convention
+ */
+export function normalizeBankRate(orientation: PairOrientation, bankRate: number): number {
+  if (!bankRate) return 0;
+  return orientation.rateConvention === 'inverse' ? 1 / bankRate : bankRate;
+}
+
+/**
+ * Direction-aware spread between bank and mid-market.
+ * Client selling BASE receives QUOTE, so a lower rate costs them money.
+ * Client buying BASE pays QUOTE, so a higher rate costs them money.
+ */
+export function computeDirectionalSpread(
+  orientation: PairOrientation,
+  bankRate: number,
+  midMarketRate: number
+): DirectionalSpread {
+  const normalizedBankRate = normalizeBankRate(orientation, bankRate);
+  if (!midMarketRate || midMarketRate <= 0 || !normalizedBankRate) {
+    return { spreadDecimal: 0, spreadPercentage: 0, direction: 'at_mid', normalizedBankRate };
+  }
+
+  const spreadDecimal = orientation.clientSellsBase
+    ? (midMarketRate - normalizedBankRate) / midMarketRate
+    : (normalizedBankRate - midMarketRate) / midMarketRate;
+
+  let direction: SpreadDirection = 'at_mid';
+  if (spreadDecimal > AT_MID_TOLERANCE) direction = 'adverse';
+  else if (spreadDecimal < -AT_MID_TOLERANCE) direction = 'favourable';
+
+  return {
+    spreadDecimal,
+    spreadPercentage: spreadDecimal * 100,
+    direction,
+    normalizedBankRate
+  };
+}
+
+/**
+ * The rate the client should have been given at a target spread, quoted back
+ * in the same convention the bank used.
+ */
+export function rateAtTargetSpread(
+  orientation: PairOrientation,
+  midMarketRate: number,
+  targetSpreadPercent: number
+): number {
+  if (!midMarketRate || midMarketRate <= 0) return 0;
+  const t = targetSpreadPercent / 100;
+  const pairRate = orientation.clientSellsBase ? midMarketRate * (1 - t) : midMarketRate * (1 + t);
+  return orientation.rateConvention === 'inverse' ? 1 / pairRate : pairRate;
+}
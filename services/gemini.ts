@@ -1,62 +1,29 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
+import { getSimulationProvider } from './simulation';
+import { ExtractionField } from '../types';
+import { getEnv } from './env';
 
 // --- CONFIGURATION ---
 
-const getEnv = (key: string) => {
-  let value = '';
-  if (import.meta && (import.meta as any).env) {
-    value = (import.meta as any).env[`VITE_${key}`] || 
-            (import.meta as any).env[`NEXT_PUBLIC_${key}`] || 
-            (import.meta as any).env[key] || 
-            '';
-  }
-  if (value) return value;
-  if (typeof process !== 'undefined' && process.env) {
-    value = process.env[`VITE_${key}`] || 
-            process.env[`NEXT_PUBLIC_${key}`] || 
-            process.env[key] || 
-            '';
-  }
-  return value;
-};
-
 const getGeminiKey = () => getEnv('GEMINI_API_KEY');
 
+// Keys of the per-field confidence Gemini returns alongside the extraction
+const CONFIDENCE_FIELDS: ExtractionField[] = [
+  'bank_name', 'transaction_reference', 'sender_name', 'beneficiary_name',
+  'original_amount', 'original_currency', 'converted_amount', 'converted_currency',
+  'exchange_rate_bank', 'currency_pair', 'value_date', 'execution_time', 'fees'
+];
+
 const ATLAS_PERSONA = `You are the RateGuard Data Auditor. Your task is to extract bank confirmation data.`;
 
 // --- SIMULATION FALLBACK (Used if API Key missing) ---
-const simulateExtraction = async () => {
+// Seeded replay of the fixture library: the same document and SIMULATION_SEED give the same extraction
+const simulateExtraction = async (documentKey: string) => {
   console.log("Atlas Simulation: Processing document (Fallback)...");
-  await new Promise(resolve => setTimeout(resolve, 1500));
-
-  const banks = ["JPMorgan Chase", "Bank of America", "Wells Fargo", "Citibank"];
-  const randomBank = banks[Math.floor(Math.random() * banks.length)];
-  const amount = Math.floor(Math.random() * 400000) + 50000;
-  const bankRate = 1.05; // ~2.7% markup
-
-  return {
-    extraction: {
-      bank_name: randomBank,
-      transaction_reference: `SIM-${Date.now().toString().slice(-6)}`,
-      sender_name: "Simulated Sender",
-      beneficiary_name: "Simulated Beneficiary"
-    },
-    transaction: {
-      original_amount: amount,
-      original_currency: "USD",
-      converted_amount: amount * bankRate,
-      converted_currency: "EUR",
-      exchange_rate_bank: bankRate,
-      currency_pair: "USD/EUR",
-      value_date: new Date().toISOString().split('T')[0]
-    },
-    fees: {
-      items: [{ name: "Wire Fee", amount: 25.00 }, { name: "Correspondent Fee", amount: 15.00 }],
-      total_fees: 40.00
-    },
-    source: 'simulation'
-  };
+  const provider = getSimulationProvider();
+  if (provider.latencyMs > 0) await new Promise(resolve => setTimeout(resolve, provider.latencyMs));
+  return provider.extract(documentKey);
 };
 
 // --- GEMINI EXTRACTION PIPELINE ---
@@ -65,7 +32,7 @@ export const extractQuoteData = async (base64: string, mimeType: string = 'image
   const apiKey = getGeminiKey();
   if (!apiKey) {
     console.warn("Atlas: No API Key found. Using simulation.");
-    return simulateExtraction();
+    return simulateExtraction(base64);
   }
 
   const ai = new GoogleGenAI({ apiKey });
@@ -79,7 +46,7 @@ export const extractQuoteData = async (base64: string, mimeType: string = 'image
     
     CRITICAL INSTRUCTIONS:
     1. **Bank Name**: Look for the logo or header text. Extract the EXACT name of the financial institution. Do NOT restrict yourself to a list of major banks. If it looks like a bank or money transfer service, record its name.
-    2. **Fees**: Look for all fee line items (Wire Fee, FX Fee, Commission, etc.) and list them individually.
+    2. **Fees**: Look for all fee line items (Wire Fee, FX Fee, Commission, etc.) and list them individually, each with the currency it was charged in.
     
     Required Fields:
     - bank_name (String. The name of the bank/provider found in the doc.)
@@ -93,9 +60,11 @@ export const extractQuoteData = async (base64: string, mimeType: string = 'image
     - exchange_rate_bank (number)
     - currency_pair (Format "BASE/QUOTE", e.g. "USD/EUR")
     - value_date (YYYY-MM-DD)
-    - fees (array of {name, amount})
+    - execution_time (ISO 8601 date-time of the FX execution/booking, e.g. "2024-03-01T09:02:00Z", including the timezone offset if printed. Empty string if the document shows no time)
+    - fees (array of {name, amount, currency}. currency is the ISO code of that fee line, which may differ from the transfer currencies)
+    - confidence (object with one number from 0 to 1 per field above, keyed by the field name, plus "fees" for the fee lines as a whole. 1 = printed clearly and read exactly; below 0.5 = inferred, partly legible or guessed)
     
-    If visual confidence is low, infer based on standard banking formats.
+    If visual confidence is low, infer based on standard banking formats, and score that field low.
   `;
 
   try {
@@ -130,7 +99,8 @@ export const extractQuoteData = async (base64: string, mimeType: string = 'image
                 converted_currency: { type: Type.STRING },
                 exchange_rate_bank: { type: Type.NUMBER },
                 currency_pair: { type: Type.STRING },
-                value_date: { type: Type.STRING }
+                value_date: { type: Type.STRING },
+                execution_time: { type: Type.STRING }
               }
             },
             fees: {
@@ -142,12 +112,17 @@ export const extractQuoteData = async (base64: string, mimeType: string = 'image
                     type: Type.OBJECT,
                     properties: {
                       name: { type: Type.STRING },
-                      amount: { type: Type.NUMBER }
+                      amount: { type: Type.NUMBER },
+                      currency: { type: Type.STRING }
                     }
                   }
                 },
                 total_fees: { type: Type.NUMBER }
               }
+            },
+            confidence: {
+              type: Type.OBJECT,
+              properties: Object.fromEntries(CONFIDENCE_FIELDS.map(field => [field, { type: Type.NUMBER }]))
             }
           }
         }
@@ -158,11 +133,12 @@ export const extractQuoteData = async (base64: string, mimeType: string = 'image
     if (!text) throw new Error("Empty response from Gemini");
     
     const data = JSON.parse(text);
-    return { ...data, source: 'gemini-flash' };
+    // An empty map still marks the result as scored, so unscored fields count as uncertain
+    return { ...data, confidence: data.confidence || {}, source: 'gemini-flash' };
 
   } catch (error) {
     console.error("Atlas Extraction Error:", error);
-    return simulateExtraction();
+    return simulateExtraction(base64);
   }
 };
 
@@ -238,39 +214,39 @@ export const chatWithAtlas = async (message: string, history: {role: string, par
   }
 };
 
-// --- IMAGE GEN ---
-export const generateImageWithAI = async (prompt: string, size: '1K' | '2K' | '4K') => {
+// --- DISPUTE LETTERS ---
+/**
+ * Reword a template dispute letter for tone and flow. Returns null without an API key so callers
+ * keep the template; the caller also checks that no figure was changed.
+ */
+export const polishDisputeLetter = async (subject: string, body: string, bank: string): Promise<{ subject: string, body: string } | null> => {
   const apiKey = getGeminiKey();
-  if (!apiKey) throw new Error("Missing Key");
+  if (!apiKey) return null;
   const ai = new GoogleGenAI({ apiKey });
-  const model = (size === '2K' || size === '4K') ? 'gemini-3-pro-image-preview' : 'gemini-2.5-flash-image';
-  
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: { parts: [{ text: prompt }] },
-      config: { imageConfig: { aspectRatio: "1:1", ...(model === 'gemini-3-pro-image-preview' ? { imageSize: size } : {}) } }
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    return null;
-  } catch (error) { throw error; }
-};
 
-export const editImageWithAI = async (imageBase64: string, prompt: string) => {
-  const apiKey = getGeminiKey();
-  if (!apiKey) throw new Error("Missing Key");
-  const ai = new GoogleGenAI({ apiKey });
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: { parts: [{ inlineData: { data: imageBase64, mimeType: 'image/jpeg' } }, { text: prompt }] }
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+  const response = await ai.models.generateContent({
+    model: 'gemini-3-flash-preview',
+    contents: `Rewrite this letter from a corporate treasury team to ${bank} so it reads as a firm, courteous, professional complaint.
+Keep the sender block, date, salutation, sign-off and the transaction details list.
+Copy every number, rate, percentage, amount, currency code and reference exactly as written. Do not add figures, deadlines or legal claims.
+
+Subject: ${subject}
+
+${body}`,
+    config: {
+      temperature: 0.4,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          subject: { type: Type.STRING },
+          body: { type: Type.STRING }
+        },
+        required: ['subject', 'body']
+      }
     }
-    return null;
-  } catch (error) { throw error; }
+  });
+
+  const data = JSON.parse(response.text || '{}');
+  return data.subject && data.body ? { subject: data.subject, body: data.body } : null;
 };
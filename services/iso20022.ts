@@ -0,0 +1,234 @@
+import { ExtractionResult, FeeItem } from '../types';
+
+// --- ISO 20022 INGESTION ---
+// pacs.008 (FI to FI customer credit transfer), camt.053 (statement) and camt.054 (debit/credit
+// notification). Each FX transaction in a message becomes one extraction result; same-currency
+// entries are skipped. Element lookups go by local name so any schema version/namespace works.
+
+export type Iso20022MessageType = 'pacs.008' | 'camt.053' | 'camt.054';
+
+export interface Iso20022Document {
+  messageType: Iso20022MessageType;
+  messageId?: string;
+  transactions: ExtractionResult[];
+  skipped: number; // Entries without a currency exchange
+}
+
+// ISO charge bearer codes onto the SWIFT 71A equivalents
+const CHARGE_BEARERS: Record<string, FeeItem['chargeBearer']> = {
+  DEBT: 'OUR',
+  CRED: 'BEN',
+  SHAR: 'SHA',
+  SLEV: 'SHA'
+};
+
+// --- ELEMENT HELPERS ---
+
+const kids = (el: Element | null | undefined, name: string): Element[] =>
+  el ? Array.from(el.children).filter(c => c.localName === name) : [];
+
+const path = (el: Element | null | undefined, ...names: string[]): Element | null => {
+  let current: Element | null | undefined = el;
+  for (const name of names) {
+    current = kids(current, name)[0];
+    if (!current) return null;
+  }
+  return current || null;
+};
+
+const text = (el: Element | null | undefined, ...names: string[]): string | undefined =>
+  path(el, ...names)?.textContent?.trim() || undefined;
+
+const descendants = (el: Element | Document, name: string): Element[] =>
+  Array.from(el.getElementsByTagNameNS('*', name));
+
+const amountOf = (el: Element | null) => {
+  if (!el) return null;
+  const amount = parseFloat(el.textContent || '');
+  const currency = el.getAttribute('Ccy') || undefined;
+  return isFinite(amount) && currency ? { amount, currency } : null;
+};
+
+// Party name across versions: Dbtr/Nm (pacs, camt v02) or Dbtr/Pty/Nm (camt v08+)
+const partyName = (el: Element | null) => text(el, 'Nm') || text(el, 'Pty', 'Nm');
+
+const agentId = (el: Element | null) => text(el, 'FinInstnId', 'BICFI') || text(el, 'FinInstnId', 'BIC') || text(el, 'FinInstnId', 'Nm');
+
+const dateOf = (el: Element | null) => text(el, 'Dt') || text(el, 'DtTm')?.slice(0, 10);
+
+/**
+ * Charge records onto fee items. A charge taken by our own bank (the debtor agent or
+ * account servicer) is its wire fee; anything taken further along the chain is correspondent.
+ * A record's own bearer (camt Br) wins over the transaction's.
+ */
+const chargeItems = (records: Element[], ownAgent: string | undefined, bearer: FeeItem['chargeBearer']) => {
+  const items: ExtractionResult['fees']['items'] = [];
+  for (const record of records) {
+    const amount = amountOf(path(record, 'Amt'));
+    if (!amount) continue;
+    // Agt in pacs.008 and camt v08+, Pty in camt v02
+    const agent = agentId(path(record, 'Agt') || path(record, 'Pty'));
+    const code = text(record, 'Tp', 'Cd') || text(record, 'Tp', 'Prtry', 'Id');
+    items.push({
+      name: code ? `Charges (${code})` : agent ? `Charges (${agent})` : 'Charges',
+      amount: amount.amount,
+      currency: amount.currency,
+      category: agent && ownAgent && agent.slice(0, 8) !== ownAgent.slice(0, 8) ? 'correspondent' : 'wire',
+      charge_bearer: CHARGE_BEARERS[text(record, 'Br') || ''] || bearer
+    });
+  }
+  return items;
+};
+
+const buildResult = (
+  source: string,
+  parts: {
+    bank?: string, reference?: string, sender?: string, beneficiary?: string,
+    sold: { amount: number, currency: string }, bought: { amount: number, currency: string },
+    rate?: number, pair: string, valueDate?: string, executionTime?: string,
+    fees: ExtractionResult['fees']['items']
+  }
+): ExtractionResult => ({
+  extraction: {
+    bank_name: parts.bank,
+    transaction_reference: parts.reference,
+    sender_name: parts.sender,
+    beneficiary_name: parts.beneficiary
+  },
+  transaction: {
+    original_amount: parts.sold.amount,
+    original_currency: parts.sold.currency,
+    converted_amount: parts.bought.amount,
+    converted_currency: parts.bought.currency,
+    exchange_rate_bank: parts.rate,
+    currency_pair: parts.pair,
+    value_date: parts.valueDate,
+    execution_time: parts.executionTime || ''
+  },
+  fees: { items: parts.fees, total_fees: parts.fees.reduce((sum, f) => sum + f.amount, 0) },
+  source
+});
+
+// --- pacs.008 ---
+
+const parsePacs008 = (root: Element): Iso20022Document => {
+  const groupHeader = path(root, 'GrpHdr');
+  const transactions: ExtractionResult[] = [];
+  let skipped = 0;
+
+  for (const tx of kids(root, 'CdtTrfTxInf')) {
+    const settled = amountOf(path(tx, 'IntrBkSttlmAmt'));
+    const instructed = amountOf(path(tx, 'InstdAmt'));
+    // XchgRate converts the instructed currency into the settlement currency
+    const rate = parseFloat(text(tx, 'XchgRate') || '');
+    if (!settled || !instructed || instructed.currency === settled.currency) { skipped++; continue; }
+
+    const bearer = CHARGE_BEARERS[text(tx, 'ChrgBr') || ''];
+    const debtorAgent = agentId(path(tx, 'DbtrAgt'));
+
+    transactions.push(buildResult('iso20022-pacs.008', {
+      bank: debtorAgent || agentId(path(tx, 'InstgAgt')) || agentId(path(groupHeader, 'InstgAgt')),
+      reference: text(tx, 'PmtId', 'UETR') || text(tx, 'PmtId', 'EndToEndId') || text(tx, 'PmtId', 'TxId'),
+      sender: partyName(path(tx, 'Dbtr')),
+      beneficiary: partyName(path(tx, 'Cdtr')),
+      sold: instructed,
+      bought: settled,
+      rate: isFinite(rate) ? rate : settled.amount / instructed.amount,
+      pair: `${instructed.currency}/${settled.currency}`,
+      valueDate: text(tx, 'IntrBkSttlmDt') || text(groupHeader, 'IntrBkSttlmDt'),
+      executionTime: text(tx, 'AccptncDtTm') || text(groupHeader, 'CreDtTm'),
+      fees: chargeItems(kids(tx, 'ChrgsInf'), debtorAgent, bearer)
+    }));
+  }
+
+  return { messageType: 'pacs.008', messageId: text(groupHeader, 'MsgId'), transactions, skipped };
+};
+
+// --- camt.053 / camt.054 ---
+
+/**
+ * CcyXchg: XchgRate is units of the non-unit currency per 1 UnitCcy
+ */
+const exchangePair = (ccyXchg: Element | null) => {
+  const source = text(ccyXchg, 'SrcCcy');
+  const target = text(ccyXchg, 'TrgtCcy');
+  const rate = parseFloat(text(ccyXchg, 'XchgRate') || '');
+  if (!source || !target || !isFinite(rate)) return null;
+  const unit = text(ccyXchg, 'UnitCcy') || source;
+  return { rate, pair: `${unit}/${unit === source ? target : source}` };
+};
+
+const parseCamt = (root: Element, messageType: 'camt.053' | 'camt.054'): Iso20022Document => {
+  const groupHeader = path(root, 'GrpHdr');
+  const reports = kids(root, messageType === 'camt.053' ? 'Stmt' : 'Ntfctn');
+  const transactions: ExtractionResult[] = [];
+  let skipped = 0;
+
+  for (const report of reports) {
+    const servicer = agentId(path(report, 'Acct', 'Svcr'));
+
+    for (const entry of kids(report, 'Ntry')) {
+      const isDebit = text(entry, 'CdtDbtInd') === 'DBIT';
+      const entryAmount = amountOf(path(entry, 'Amt'));
+      const details = kids(entry, 'NtryDtls').flatMap(d => kids(d, 'TxDtls'));
+
+      for (const tx of details.length > 0 ? details : [entry]) {
+        const amounts = path(tx, 'AmtDtls');
+        const instructed = amountOf(path(amounts, 'InstdAmt', 'Amt'));
+        const booked = amountOf(path(amounts, 'TxAmt', 'Amt')) || amountOf(path(tx, 'Amt')) || entryAmount;
+        const ccyXchg = path(amounts, 'InstdAmt', 'CcyXchg') || path(amounts, 'TxAmt', 'CcyXchg') || path(amounts, 'CntrValAmt', 'CcyXchg');
+        const fx = exchangePair(ccyXchg);
+
+        if (!instructed || !booked || instructed.currency === booked.currency) { skipped++; continue; }
+
+        // Outgoing payments sell the account currency; incoming ones sell the remitter's currency
+        const sold = isDebit ? booked : instructed;
+        const bought = isDebit ? instructed : booked;
+        const pair = fx?.pair || `${sold.currency}/${bought.currency}`;
+        const [base] = pair.split('/');
+        const impliedRate = base === sold.currency ? bought.amount / sold.amount : sold.amount / bought.amount;
+
+        // v02 repeats Chrgs, each with its own Amt; v08+ has one Chrgs holding Rcrd entries
+        const records = kids(tx, 'Chrgs').flatMap(charges => {
+          const nested = kids(charges, 'Rcrd');
+          return nested.length > 0 ? nested : [charges];
+        });
+        const bearer = CHARGE_BEARERS[text(tx, 'ChrgBr') || ''];
+        const parties = path(tx, 'RltdPties');
+
+        transactions.push(buildResult(`iso20022-${messageType}`, {
+          bank: servicer || agentId(path(tx, 'RltdAgts', 'DbtrAgt')),
+          reference: text(tx, 'Refs', 'UETR') || text(tx, 'Refs', 'EndToEndId') || text(tx, 'Refs', 'AcctSvcrRef') || text(entry, 'AcctSvcrRef'),
+          sender: partyName(path(parties, 'Dbtr')),
+          beneficiary: partyName(path(parties, 'Cdtr')),
+          sold,
+          bought,
+          rate: fx?.rate ?? impliedRate,
+          pair,
+          valueDate: dateOf(path(entry, 'ValDt')) || dateOf(path(entry, 'BookgDt')),
+          executionTime: text(entry, 'BookgDt', 'DtTm'),
+          fees: chargeItems(records, servicer, bearer)
+        }));
+      }
+    }
+  }
+
+  return { messageType, messageId: text(groupHeader, 'MsgId'), transactions, skipped };
+};
+
+/**
+ * Parse a pacs.008, camt.053 or camt.054 XML message into one extraction result per FX transaction
+ */
+export const parseIso20022 = (xml: string): Iso20022Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('File is not well-formed XML.');
+
+  const [pacs] = descendants(doc, 'FIToFICstmrCdtTrf');
+  if (pacs) return parsePacs008(pacs);
+  const [statement] = descendants(doc, 'BkToCstmrStmt');
+  if (statement) return parseCamt(statement, 'camt.053');
+  const [notification] = descendants(doc, 'BkToCstmrDbtCdtNtfctn');
+  if (notification) return parseCamt(notification, 'camt.054');
+
+  throw new Error('Unsupported XML: expected pacs.008, camt.053 or camt.054.');
+};
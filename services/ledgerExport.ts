@@ -0,0 +1,277 @@
+import { QuoteData } from '../types';
+import { guardFormula, toCsv } from './csv';
+import { createZip } from './zip';
+import { quoteCostCurrency, quoteValueDate } from './currency';
+import { disputeStageLabel } from './disputeLetters';
+
+// --- QUOTE LEDGER FILTERS ---
+
+export interface LedgerFilters {
+  dateFrom: string; // YYYY-MM-DD, inclusive, on the value date
+  dateTo: string;
+  bank: string;
+  pair: string;
+  status: '' | QuoteData['status'];
+  workflowStatus: '' | QuoteData['workflowStatus'];
+  minHiddenCost: string; // Reporting currency; kept as input text so blank means "no bound"
+  maxHiddenCost: string;
+  minSpreadPercentage: string;
+}
+
+export const EMPTY_LEDGER_FILTERS: LedgerFilters = {
+  dateFrom: '',
+  dateTo: '',
+  bank: '',
+  pair: '',
+  status: '',
+  workflowStatus: '',
+  minHiddenCost: '',
+  maxHiddenCost: '',
+  minSpreadPercentage: ''
+};
+
+/**
+ * Date a quote is filed under for the ledger: its value date, else the day it was analyzed
+ */
+export const ledgerDate = (quote: QuoteData): string => quoteValueDate(quote);
+
+const bound = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const n = parseFloat(value);
+  return isFinite(n) ? n : null;
+};
+
+/**
+ * Number of filters that are set, for the Filter button badge
+ */
+export const countActiveFilters = (filters: LedgerFilters): number => {
+  return (Object.keys(filters) as (keyof LedgerFilters)[]).filter(key => filters[key] !== '').length;
+};
+
+/**
+ * Apply the structured filters plus the free-text search box
+ */
+export const filterLedger = (quotes: QuoteData[], filters: LedgerFilters, search: string = ''): QuoteData[] => {
+  const term = search.trim().toLowerCase();
+  const minCost = bound(filters.minHiddenCost);
+  const maxCost = bound(filters.maxHiddenCost);
+  const minSpread = bound(filters.minSpreadPercentage);
+
+  return quotes.filter(q => {
+    if (term && !(
+      q.bank?.toLowerCase().includes(term) ||
+      q.pair?.toLowerCase().includes(term) ||
+      q.referenceNumber?.toLowerCase().includes(term) ||
+      q.id?.includes(search.trim())
+    )) return false;
+
+    const date = ledgerDate(q);
+    if (filters.dateFrom && (!date || date < filters.dateFrom)) return false;
+    if (filters.dateTo && (!date || date > filters.dateTo)) return false;
+    if (filters.bank && q.bank !== filters.bank) return false;
+    if (filters.pair && q.pair !== filters.pair) return false;
+    if (filters.status && q.status !== filters.status) return false;
+    if (filters.workflowStatus && q.workflowStatus !== filters.workflowStatus) return false;
+    if (minCost !== null && (q.totalHiddenCost || 0) < minCost) return false;
+    if (maxCost !== null && (q.totalHiddenCost || 0) > maxCost) return false;
+    if (minSpread !== null && (q.spreadPercentage || 0) < minSpread) return false;
+    return true;
+  });
+};
+
+// --- EXPORT COLUMNS ---
+
+export type LedgerColumnGroup = 'bank' | 'pair' | 'amounts' | 'rates' | 'fees' | 'spread' | 'hiddenCost' | 'dispute';
+
+export const LEDGER_COLUMN_GROUPS: { id: LedgerColumnGroup, label: string }[] = [
+  { id: 'bank', label: 'Bank' },
+  { id: 'pair', label: 'Currency Pair' },
+  { id: 'amounts', label: 'Amounts' },
+  { id: 'rates', label: 'Rates' },
+  { id: 'fees', label: 'Fee Items' },
+  { id: 'spread', label: 'Spread' },
+  { id: 'hiddenCost', label: 'Total Hidden Cost' },
+  { id: 'dispute', label: 'Dispute Status' }
+];
+
+export type LedgerCell = string | number | null;
+
+export interface LedgerTable {
+  headers: string[];
+  rows: LedgerCell[][];
+}
+
+/**
+ * Where a quote stands on disputes: its lifecycle stage once a letter exists, else recommended or nothing to chase
+ */
+export const disputeStatus = (quote: QuoteData): string => {
+  if (quote.disputeCase) return disputeStageLabel(quote.disputeCase.stage);
+  if (quote.disputeDrafted || quote.dispute?.disputeLetterGenerated) return 'Drafted';
+  if (quote.dispute?.recommended) return 'Recommended';
+  return 'None';
+};
+
+const num = (value: number | undefined | null): LedgerCell => (typeof value === 'number' && isFinite(value) ? value : null);
+
+/**
+ * Flatten quotes into a header row plus one row per quote. Fee items become one amount and one
+ * currency column per fee type seen in the set, as charged (fees can be in any currency).
+ */
+export const buildLedgerTable = (quotes: QuoteData[], groups: LedgerColumnGroup[]): LedgerTable => {
+  const has = (group: LedgerColumnGroup) => groups.includes(group);
+  const feeTypes = has('fees')
+    ? Array.from(new Set(quotes.flatMap(q => (q.fees || []).map(f => f.type || 'Fee'))))
+    : [];
+
+  const headers = ['Value Date', 'Reference', 'Quote ID'];
+  if (has('bank')) headers.push('Bank');
+  if (has('pair')) headers.push('Pair');
+  if (has('amounts')) headers.push('Sold Amount', 'Sold Currency', 'Bought Amount', 'Bought Currency');
+  if (has('rates')) headers.push('Bank Rate', 'Mid-Market Rate', 'Mid Rate Source', 'Mid Rate Date');
+  feeTypes.forEach(type => headers.push(type, `${type} Currency`));
+  if (has('fees')) headers.push('Total Fees');
+  if (has('spread')) headers.push('Spread %', 'Spread Direction', 'Markup Cost');
+  if (has('hiddenCost')) headers.push('Total Hidden Cost', 'Hidden Cost %');
+  if (has('fees') || has('spread') || has('hiddenCost')) headers.push('Cost Currency');
+  if (has('dispute')) headers.push('Dispute Status', 'Dispute Priority', 'Potential Savings', 'Amount Recovered');
+
+  const rows = quotes.map(q => {
+    const row: LedgerCell[] = [ledgerDate(q), q.referenceNumber || null, q.id];
+    if (has('bank')) row.push(q.bank || null);
+    if (has('pair')) row.push(q.pair || null);
+    if (has('amounts')) {
+      row.push(num(q.amount), q.originalCurrency || q.pair?.split('/')[0] || null, num(q.convertedAmount), q.convertedCurrency || null);
+    }
+    if (has('rates')) row.push(num(q.exchangeRate), num(q.midMarketRate), q.midRateSource || null, q.midRateDate || null);
+    feeTypes.forEach(type => {
+      const items = (q.fees || []).filter(f => (f.type || 'Fee') === type);
+      const currencies = Array.from(new Set(items.map(f => f.currency)));
+      // Same-type fees in one currency are summed; mixed currencies stay unsummed as text
+      if (items.length === 0) row.push(null, null);
+      else if (currencies.length === 1) row.push(items.reduce((sum, f) => sum + (f.amount || 0), 0), currencies[0] || null);
+      else row.push(items.map(f => `${f.amount} ${f.currency}`).join('; '), null);
+    });
+    if (has('fees')) row.push(num(q.totalFees));
+    if (has('spread')) row.push(num(q.spreadPercentage), q.spreadDirection || null, num(q.markupCost));
+    if (has('hiddenCost')) row.push(num(q.totalHiddenCost), num(q.totalHiddenPercentage));
+    if (has('fees') || has('spread') || has('hiddenCost')) row.push(quoteCostCurrency(q));
+    if (has('dispute')) {
+      row.push(disputeStatus(q), q.dispute?.recommended ? q.dispute.priority : null, num(q.dispute?.potentialSavingsPerTransaction), num(q.disputeCase?.amountRecovered));
+    }
+    return row;
+  });
+
+  return { headers, rows };
+};
+
+// --- FILE FORMATS ---
+
+// Bank names, references and fee labels come from the documents, so none may open as a formula
+export const ledgerToCsv = (table: LedgerTable): string => toCsv([table.headers, ...table.rows].map(row => row.map(guardFormula)));
+
+const xmlEscape = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // Control characters are not allowed in XML 1.0
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const sheetCell = (value: LedgerCell, ref: string, style: number): string => {
+  if (value === null || value === '') return '';
+  const s = style ? ` s="${style}"` : '';
+  if (typeof value === 'number') return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`;
+};
+
+/**
+ * Single-sheet Office Open XML workbook. Numbers stay numeric so Excel can sum them;
+ * the header row is bold and frozen.
+ */
+export const ledgerToXlsx = (table: LedgerTable, sheetName: string = 'Quote Ledger'): Uint8Array => {
+  const allRows = [table.headers, ...table.rows];
+  const sheetRows = allRows.map((row, r) =>
+    `<row r="${r + 1}">${row.map((cell, c) => sheetCell(cell, `${columnName(c)}${r + 1}`, r === 0 ? 1 : 0)).join('')}</row>`
+  ).join('');
+
+  const sheet = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${sheetRows}</sheetData></worksheet>`;
+
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${xmlEscape(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+  const styles = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '</styleSheet>';
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    { name: 'xl/workbook.xml', data: workbook },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>'
+    },
+    { name: 'xl/worksheets/sheet1.xml', data: sheet },
+    { name: 'xl/styles.xml', data: styles }
+  ]);
+};
+
+export type LedgerExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Build the file and hand it to the browser as a download
+ */
+export const downloadLedger = (quotes: QuoteData[], groups: LedgerColumnGroup[], format: LedgerExportFormat) => {
+  const table = buildLedgerTable(quotes, groups);
+  const blob = format === 'csv'
+    // BOM so Excel opens UTF-8 bank names correctly
+    ? new Blob(['\uFEFF' + ledgerToCsv(table)], { type: 'text/csv;charset=utf-8' })
+    : new Blob([ledgerToXlsx(table) as BlobPart], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `quote-ledger-${new Date().toISOString().slice(0, 10)}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,188 @@
+import { DisputeLetter } from '../types';
+import { createZip } from './zip';
+
+// --- LETTER EXPORT ---
+// Dispute letters as PDF or Word files, written directly like the ledger's XLSX export.
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// WinAnsiEncoding bytes for the typographic characters outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+const winAnsiByte = (char: string): number => {
+  if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+  const code = char.charCodeAt(0);
+  return (code >= 32 && code <= 126) || (code >= 160 && code <= 255) ? code : 63; // '?'
+};
+
+const charWidth = (char: string, size: number) => {
+  const code = char.charCodeAt(0);
+  return ((code >= 32 && code <= 126) ? HELVETICA_WIDTHS[code - 32] : 556) * size / 1000;
+};
+
+/**
+ * Break text into lines no wider than `width` points, keeping explicit line breaks
+ */
+const wrapText = (text: string, width: number, size: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    const indent = paragraph.match(/^\s*/)?.[0] || '';
+    let line = '';
+    let lineWidth = 0;
+    for (const word of paragraph.trim().split(/\s+/)) {
+      const wordWidth = [...word].reduce((w, c) => w + charWidth(c, size), 0);
+      const spaceWidth = line ? charWidth(' ', size) : [...indent].reduce((w, c) => w + charWidth(c, size), 0);
+      if (line && lineWidth + spaceWidth + wordWidth > width) {
+        lines.push(line);
+        line = indent + word;
+        lineWidth = [...line].reduce((w, c) => w + charWidth(c, size), 0);
+      } else {
+        line = line ? `${line} ${word}` : indent + word;
+        lineWidth += spaceWidth + wordWidth;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+const pdfString = (text: string) => `(${[...text].map(c => {
+  const byte = winAnsiByte(c);
+  if (c === '(' || c === ')' || c === '\\') return `\\${c}`;
+  return byte < 128 ? String.fromCharCode(byte) : `\\${byte.toString(8).padStart(3, '0')}`;
+}).join('')})`;
+
+const PAGE = { width: 595, height: 842, margin: 64 }; // A4 in points
+const FONT_SIZE = 10.5;
+const LEADING = 15;
+
+/**
+ * A4 PDF in Helvetica: the subject in bold, then the letter text, over as many pages as it takes
+ */
+export const letterToPdf = (letter: Pick<DisputeLetter, 'subject' | 'body'>): Uint8Array => {
+  const textWidth = PAGE.width - PAGE.margin * 2;
+  const lines: { text: string, bold?: boolean }[] = [];
+  // Subject goes after the sender, date and bank blocks, before the salutation
+  const blocks = letter.body.split('\n\n');
+  const intro = blocks.slice(0, 3).join('\n\n');
+  const remainder = blocks.slice(3).join('\n\n');
+  wrapText(intro, textWidth, FONT_SIZE).forEach(text => lines.push({ text }));
+  lines.push({ text: '' });
+  wrapText(letter.subject, textWidth, FONT_SIZE).forEach(text => lines.push({ text, bold: true }));
+  lines.push({ text: '' });
+  wrapText(remainder, textWidth, FONT_SIZE).forEach(text => lines.push({ text }));
+
+  const perPage = Math.floor((PAGE.height - PAGE.margin * 2) / LEADING);
+  const pages: typeof lines[] = [];
+  for (let i = 0; i < lines.length; i += perPage) pages.push(lines.slice(i, i + perPage));
+
+  // Objects: 1 catalog, 2 page tree, 3 regular font, 4 bold font, then a page and its content per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  pages.forEach((pageLines, i) => {
+    const content = ['BT', `${LEADING} TL`, `${PAGE.margin} ${PAGE.height - PAGE.margin} Td`];
+    pageLines.forEach(line => content.push(`/${line.bold ? 'F2' : 'F1'} ${FONT_SIZE} Tf`, `${pdfString(line.text)} Tj`, 'T*'));
+    content.push('ET');
+    const stream = content.join('\n');
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE.width} ${PAGE.height}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Every character above is a single byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, c => c.charCodeAt(0));
+};
+
+const xmlEscape = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const docxParagraph = (text: string, bold = false) => {
+  const runs = text.split('\n').map((line, i) =>
+    `<w:r>${bold ? '<w:rPr><w:b/></w:rPr>' : ''}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${xmlEscape(line)}</w:t></w:r>`
+  ).join('');
+  return `<w:p><w:pPr><w:spacing w:after="200"/></w:pPr>${runs}</w:p>`;
+};
+
+/**
+ * Minimal Word document: one paragraph per block of the letter, the subject in bold
+ */
+export const letterToDocx = (letter: Pick<DisputeLetter, 'subject' | 'body'>): Uint8Array => {
+  const blocks = letter.body.split('\n\n');
+  const paragraphs = [
+    ...blocks.slice(0, 3).map(block => docxParagraph(block)),
+    docxParagraph(letter.subject, true),
+    ...blocks.slice(3).map(block => docxParagraph(block))
+  ].join('');
+
+  const document = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+    `<w:body>${paragraphs}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+        '</Relationships>'
+    },
+    { name: 'word/document.xml', data: document }
+  ]);
+};
+
+export type LetterExportFormat = 'pdf' | 'docx';
+
+/**
+ * Build the file and hand it to the browser as a download
+ */
+export const downloadLetter = (letter: Pick<DisputeLetter, 'subject' | 'body'>, format: LetterExportFormat, fileName: string) => {
+  const blob = format === 'pdf'
+    ? new Blob([letterToPdf(letter) as BlobPart], { type: 'application/pdf' })
+    : new Blob([letterToDocx(letter) as BlobPart], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName.replace(/[^\w.-]+/g, '_')}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,292 @@
+import { ExtractionResult } from '../types';
+import { looksLikeSwift, swiftFileToExtraction } from './swift';
+
+// --- LOCAL RULE-BASED EXTRACTION ---
+// Reads text PDFs and SWIFT text entirely in the browser: no document bytes leave the machine.
+// Scanned images carry no text layer and are rejected rather than sent anywhere.
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Byte-for-byte string so PDF offsets and binary stream data line up
+const bytesToLatin1 = (bytes: Uint8Array): string => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return out;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- PDF TEXT LAYER ---
+
+const decodePdfString = (value: string): string => {
+  return value.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, esc: string) => {
+    switch (esc) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': case 'f': return '';
+      case '(': case ')': case '\\': return esc;
+      default: return String.fromCharCode(parseInt(esc, 8));
+    }
+  });
+};
+
+const decodeHexString = (hex: string): string => {
+  const clean = hex.replace(/\s+/g, '');
+  let out = '';
+  for (let i = 0; i < clean.length; i += 2) out += String.fromCharCode(parseInt(clean.slice(i, i + 2).padEnd(2, '0'), 16));
+  return out;
+};
+
+/**
+ * Text-showing operators (Tj, TJ, ', ") from one content stream, with line breaks on vertical moves
+ */
+const extractContentText = (content: string): string => {
+  const ops = /\[((?:\\[\s\S]|[^\]\\])*)\]\s*TJ|\(((?:\\[\s\S]|[^)\\])*)\)\s*(Tj|'|")|<([0-9A-Fa-f\s]*)>\s*Tj|(-?[\d.]+)\s+(-?[\d.]+)\s+T[dD]\b|(?:-?[\d.]+\s+){5}(-?[\d.]+)\s+Tm\b|T\*|\bET\b/g;
+  let text = '';
+  let lastY: number | null = null;
+  const newline = () => { if (text && !text.endsWith('\n')) text += '\n'; };
+  const space = () => { if (text && !/\s$/.test(text)) text += ' '; };
+
+  let m: RegExpExecArray | null;
+  while ((m = ops.exec(content)) !== null) {
+    if (m[1] !== undefined) {
+      // TJ array: strings with kerning offsets; large negative offsets are word gaps
+      const parts = /\(((?:\\[\s\S]|[^)\\])*)\)|<([0-9A-Fa-f\s]*)>|(-?[\d.]+)/g;
+      let p: RegExpExecArray | null;
+      while ((p = parts.exec(m[1])) !== null) {
+        if (p[1] !== undefined) text += decodePdfString(p[1]);
+        else if (p[2] !== undefined) text += decodeHexString(p[2]);
+        else if (parseFloat(p[3]) < -200) space();
+      }
+    } else if (m[2] !== undefined) {
+      if (m[3] !== 'Tj') newline();
+      text += decodePdfString(m[2]);
+    } else if (m[4] !== undefined) {
+      text += decodeHexString(m[4]);
+    } else if (m[5] !== undefined) {
+      if (parseFloat(m[6]) !== 0) newline(); else space();
+    } else if (m[7] !== undefined) {
+      const y = parseFloat(m[7]);
+      if (lastY !== null && y !== lastY) newline(); else space();
+      lastY = y;
+    } else {
+      newline();
+    }
+  }
+  return text;
+};
+
+/**
+ * Text layer of a PDF: every unfiltered or FlateDecode stream is scanned for text operators.
+ * Fonts with custom (CID) encodings come out as noise and simply fail the field rules.
+ */
+export const extractPdfText = async (bytes: Uint8Array): Promise<string> => {
+  const raw = bytesToLatin1(bytes);
+  const streamStart = /<<((?:(?!stream)[\s\S])*?)>>\s*stream\r?\n/g;
+  const chunks: string[] = [];
+
+  let m: RegExpExecArray | null;
+  while ((m = streamStart.exec(raw)) !== null) {
+    const dict = m[1];
+    const start = m.index + m[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    streamStart.lastIndex = end;
+
+    // Skip images and embedded fonts
+    if (/\/Subtype\s*\/Image|\/Length[123]\b/.test(dict)) continue;
+
+    let data: Uint8Array | null = bytes.subarray(start, end);
+    if (/\/FlateDecode/.test(dict)) data = await inflate(data);
+    else if (/\/Filter/.test(dict)) continue;
+    if (!data) continue;
+
+    const text = extractContentText(bytesToLatin1(data));
+    if (text.trim()) chunks.push(text);
+  }
+  return chunks.join('\n');
+};
+
+// --- FIELD RULES ---
+
+/**
+ * "1,234.56", "1.234,56", "1 234,56" or "1234" -> number
+ */
+export const parseLocaleNumber = (value: string): number => {
+  let v = (value || '').replace(/[\s']/g, '');
+  const lastComma = v.lastIndexOf(',');
+  const lastDot = v.lastIndexOf('.');
+  if (lastComma > -1 && lastDot > -1) {
+    v = lastComma > lastDot ? v.replace(/\./g, '').replace(',', '.') : v.replace(/,/g, '');
+  } else if (lastComma > -1) {
+    // A lone comma followed by exactly two digits is a decimal separator
+    v = /,\d{2}$/.test(v) && v.split(',').length === 2 ? v.replace(',', '.') : v.replace(/,/g, '');
+  }
+  return parseFloat(v);
+};
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
+};
+
+/**
+ * "2024-03-01", "01/03/2024" (day first), "1 Mar 2024" or "March 1, 2024" -> YYYY-MM-DD
+ */
+export const parseDocumentDate = (value: string): string | undefined => {
+  const v = (value || '').trim();
+  let m = v.match(/(\d{4})[-\/.](\d{1,2})[-\/.](\d{1,2})/);
+  if (m) return `${m[1]}-${m[2].padStart(2, '0')}-${m[3].padStart(2, '0')}`;
+  m = v.match(/(\d{1,2})[-\/.](\d{1,2})[-\/.](\d{4})/);
+  if (m) return `${m[3]}-${m[2].padStart(2, '0')}-${m[1].padStart(2, '0')}`;
+  m = v.match(/(\d{1,2})[\s-]+([A-Za-z]{3})[A-Za-z]*[\s-]+(\d{4})/);
+  if (m && MONTHS[m[2].toLowerCase()]) return `${m[3]}-${MONTHS[m[2].toLowerCase()]}-${m[1].padStart(2, '0')}`;
+  m = v.match(/([A-Za-z]{3})[A-Za-z]*\s+(\d{1,2}),?\s+(\d{4})/);
+  if (m && MONTHS[m[1].toLowerCase()]) return `${m[3]}-${MONTHS[m[1].toLowerCase()]}-${m[2].padStart(2, '0')}`;
+  return undefined;
+};
+
+const BANK_PATTERN = /\b(bank|banco|banque|bancorp|credit union|building society|hsbc|citi(?:bank|group)?|barclays|santander|jpmorgan|wells fargo|wise|revolut|nedbank|absa|standard chartered)\b/i;
+
+// Currency + amount in either order: "USD 1,000.00", "1,000.00 USD"
+const MONEY = /(?:([A-Z]{3})\s*([\d][\d.,' ]*\d|\d))|(?:([\d][\d.,' ]*\d|\d)\s*([A-Z]{3})\b)/;
+
+const findMoney = (line: string): { currency?: string, amount: number } | null => {
+  const m = line.match(MONEY);
+  if (!m) return null;
+  const amount = parseLocaleNumber(m[2] ?? m[3]);
+  if (!isFinite(amount)) return null;
+  return { currency: m[1] ?? m[4], amount };
+};
+
+const valueAfter = (lines: string[], label: RegExp): string | undefined => {
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i].match(label);
+    if (!m) continue;
+    const rest = lines[i].slice((m.index || 0) + m[0].length).replace(/^[\s:#.\-]+/, '').trim();
+    // Label on its own line: the value is on the next one
+    return rest || lines[i + 1]?.trim();
+  }
+  return undefined;
+};
+
+const moneyAfter = (lines: string[], label: RegExp) => {
+  const value = valueAfter(lines, label);
+  return value ? findMoney(value) : null;
+};
+
+// --- CONFIRMATION TEXT ---
+
+/**
+ * Label-driven rules over the text of a bank confirmation
+ */
+export const parseConfirmationText = (text: string): ExtractionResult | null => {
+  if (looksLikeSwift(text)) {
+    return swiftFileToExtraction(text);
+  }
+
+  const lines = text.split(/\r?\n/).map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+  const original = moneyAfter(lines, /\b(amount debited|debit amount|original amount|amount sent|you sent|instructed amount|payment amount|principal)\b/i);
+  const converted = moneyAfter(lines, /\b(amount credited|credit amount|converted amount|amount received|beneficiary (?:receives|amount)|settlement amount|recipient gets)\b/i);
+
+  const rateText = valueAfter(lines, /\b(exchange rate|fx rate|rate applied|conversion rate|deal rate)\b/i) || '';
+  // "1 USD = 0.9215 EUR" names the pair; a bare number relies on the amounts
+  const rateMatch = rateText.match(/1\s*([A-Z]{3})\s*=\s*([\d.,]+)\s*([A-Z]{3})/) || rateText.match(/()([\d.,]+)()/);
+  const rate = rateMatch ? parseLocaleNumber(rateMatch[2]) : NaN;
+
+  if (!original || !isFinite(rate)) return null;
+
+  const originalCurrency = original.currency;
+  const convertedCurrency = converted?.currency;
+  const pair = rateMatch?.[1] && rateMatch?.[3]
+    ? `${rateMatch[1]}/${rateMatch[3]}`
+    : originalCurrency && convertedCurrency ? `${originalCurrency}/${convertedCurrency}` : undefined;
+
+  const dateText = valueAfter(lines, /\b(value date|settlement date|execution date|transaction date|date)\b/i);
+  const timeText = valueAfter(lines, /\b(execution time|executed at|booking time|time)\b/i);
+  const time = timeText?.match(/\d{1,2}:\d{2}(?::\d{2})?/)?.[0];
+
+  // Fee lines: any line naming a fee/charge/commission with an amount
+  const items: ExtractionResult['fees']['items'] = [];
+  for (const line of lines) {
+    if (!/\b(fee|charge|charges|commission|cost)\b/i.test(line) || /\btotal\b/i.test(line)) continue;
+    const money = findMoney(line);
+    if (!money || money.amount <= 0) continue;
+    const name = line.slice(0, line.search(/[:\d]|[A-Z]{3}\s*\d/)).trim() || line;
+    items.push({ name, amount: money.amount, currency: money.currency || originalCurrency });
+  }
+
+  return {
+    extraction: {
+      bank_name: lines.find(l => BANK_PATTERN.test(l) && l.length < 60),
+      transaction_reference: valueAfter(lines, /\b(transaction reference|reference number|reference|ref\.? no|transaction id|uetr)\b/i)?.split(' ')[0],
+      sender_name: valueAfter(lines, /\b(ordering customer|sender|remitter|payer|debtor)\b/i),
+      beneficiary_name: valueAfter(lines, /\b(beneficiary name|beneficiary|payee|recipient|creditor)\b/i)
+    },
+    transaction: {
+      original_amount: original.amount,
+      original_currency: originalCurrency,
+      converted_amount: converted?.amount,
+      converted_currency: convertedCurrency,
+      exchange_rate_bank: rate,
+      currency_pair: pair,
+      value_date: dateText ? parseDocumentDate(dateText) : undefined,
+      execution_time: time || ''
+    },
+    fees: { items, total_fees: items.reduce((sum, i) => sum + i.amount, 0) },
+    source: 'local-rules',
+    // Labelled values are trusted more than inferred ones; fee lines come from a keyword scan
+    confidence: {
+      bank_name: 0.6,
+      transaction_reference: 0.7,
+      sender_name: 0.6,
+      beneficiary_name: 0.6,
+      original_amount: 0.85,
+      original_currency: original.currency ? 0.85 : 0,
+      converted_amount: 0.85,
+      converted_currency: 0.85,
+      exchange_rate_bank: rateMatch?.[1] ? 0.9 : 0.7,
+      currency_pair: rateMatch?.[1] ? 0.9 : 0.7,
+      value_date: 0.75,
+      execution_time: 0.7,
+      fees: 0.6
+    }
+  };
+};
+
+/**
+ * Extract from a text PDF or plain-text (SWIFT) document without any network call.
+ * Throws when the document has no usable text, so nothing silently falls back to a cloud provider.
+ */
+export const extractLocally = async (base64: string, mimeType: string): Promise<ExtractionResult> => {
+  const bytes = base64ToBytes(base64);
+  let text = '';
+  if (mimeType === 'application/pdf') {
+    text = await extractPdfText(bytes);
+  } else if (mimeType.startsWith('text/') || mimeType === 'application/octet-stream') {
+    text = new TextDecoder().decode(bytes);
+  } else {
+    throw new Error("Local extraction reads text PDFs and SWIFT text only. Scanned images need the Gemini provider.");
+  }
+
+  if (!text.trim()) throw new Error("No text layer found in this document (scanned PDF?).");
+  const result = parseConfirmationText(text);
+  if (!result) throw new Error("Local rules could not find an amount and exchange rate in this document.");
+  return result;
+};
@@ -0,0 +1,430 @@
+import { extractDocument, getExtractionProvider } from './extraction';
+import { saveQuoteToFirestore, replaceQuoteInFirestore, logDuplicateDecision } from './firebase';
+import { storeSourceDocument, hashDocument, StoredDocument } from './documentStorage';
+import { findContentDuplicates, findFuzzyDuplicates, DuplicateMatch, DuplicateDecision } from './duplicates';
+import { assessExtraction, applyReviewDraft, extractionOfQuote, extractionFromQuoteFields, ExtractionDraft } from './extractionQuality';
+import { calculateAllCosts, listRequiredConversions, ConversionRates, PricingContext } from './calculations';
+import { fetchConversionRates, resolveMidMarketRate, resolveSimulatedMidRate, simulatedConversionRates, MidRateResolution } from './marketData';
+import { parseExecutionTimestamp, defensibleSpreadPercentage } from './rateTicks';
+import { DEFAULT_REPORTING_CURRENCY } from './currency';
+import { withoutQuote } from './benchmarks';
+import { DEFAULT_RULE_CURRENCY } from './disputeRules';
+import { parsePair } from './fxPairs';
+import { ExtractionField, ExtractionProviderId, ExtractionResult, QuoteData } from '../types';
+
+// --- QUOTE DOCUMENT PIPELINE ---
+// upload -> extract -> mid rate -> reporting conversions -> calculate -> save.
+// Kept free of React so the whole path can be driven headless (simulation provider, no network).
+
+export type PipelineStep = 'extracting' | 'resolving_rate' | 'converting' | 'calculating' | 'saving';
+
+export interface PipelineInput {
+  base64: string;
+  mimeType: string;
+  userId: string;
+  orgId: string;
+  reportingCurrency?: string;
+  extractionProvider?: ExtractionProviderId; // Organization setting; Gemini when unset
+  pricing?: PricingContext; // Organization's benchmark table, priced history and dispute rules
+  fileName?: string;
+  duplicateCheck?: {
+    existingQuotes: () => QuoteData[]; // Read at check time so quotes saved mid-batch are seen
+    resolve: (matches: DuplicateMatch[]) => Promise<DuplicateDecision>; // Asks the uploader
+  };
+  store?: QuoteStore; // Cloud Storage and Firestore when unset
+}
+
+/**
+ * Where processQuoteDocument archives originals and saves quotes; headless runs pass their own
+ */
+export interface QuoteStore {
+  storeDocument: typeof storeSourceDocument;
+  saveQuote: typeof saveQuoteToFirestore;
+  replaceQuote: typeof replaceQuoteInFirestore;
+  logDuplicateDecision: typeof logDuplicateDecision;
+}
+
+const FIRESTORE_STORE: QuoteStore = {
+  storeDocument: storeSourceDocument,
+  saveQuote: saveQuoteToFirestore,
+  replaceQuote: replaceQuoteInFirestore,
+  logDuplicateDecision
+};
+
+export interface PipelineAnalysis {
+  quote: Partial<QuoteData>;
+  extraction: ExtractionResult;
+}
+
+type StepCallback = (step: PipelineStep, message: string) => void;
+
+/**
+ * Extract and price a document without saving it
+ */
+export const analyzeQuoteDocument = async (input: PipelineInput, onStep: StepCallback = () => {}): Promise<PipelineAnalysis> => {
+  // 1. Extraction through the organization's provider (Gemini, local rules or simulation)
+  const provider = getExtractionProvider(input.extractionProvider);
+  onStep('extracting', provider.id === 'gemini' ? "Atlas AI: Extracting Transaction Data..." : `${provider.label}: Extracting Transaction Data...`);
+  const extractionResult = await extractDocument(input.base64, input.mimeType, provider.id);
+
+  if (!extractionResult) {
+    throw new Error("AI Extraction returned null");
+  }
+
+  return analyzeExtraction(extractionResult, input.reportingCurrency, onStep, undefined, input.pricing);
+};
+
+/**
+ * Price an already-extracted transaction (structured imports such as ISO 20022 skip extraction).
+ * `knownMidRate` skips the rate lookup, for edits that keep or set the mid-market rate.
+ * `pricing` carries the org's benchmarks and dispute rules; built-in ones apply when absent.
+ */
+export const analyzeExtraction = async (
+  extractionResult: ExtractionResult,
+  reportingCurrencyInput?: string,
+  onStep: StepCallback = () => {},
+  knownMidRate?: MidRateResolution,
+  pricing: PricingContext = {}
+): Promise<PipelineAnalysis> => {
+  const isSimulated = extractionResult.source === 'simulation';
+  // Simulated documents are priced from the fixture that produced them
+  const fixtureId = isSimulated && typeof extractionResult.fixtureId === 'string' ? extractionResult.fixtureId : undefined;
+  const txDetails = extractionResult.transaction || {};
+  const pair = txDetails.currency_pair || "USD/EUR";
+  const valDate = txDetails.value_date || new Date().toISOString().split('T')[0];
+
+  // 2. Mid-market rate: intraday ticks at execution time, reference rate store, then Gemini Search
+  onStep('resolving_rate', `RateGuard: Resolving Historical Rates for ${pair}...`);
+  const executionTimestamp = parseExecutionTimestamp(txDetails.execution_time, valDate);
+  const midRate = knownMidRate ? knownMidRate : isSimulated
+    ? resolveSimulatedMidRate(pair, valDate, txDetails.exchange_rate_bank, fixtureId)
+    : await resolveMidMarketRate(pair, valDate, txDetails.exchange_rate_bank, executionTimestamp);
+  const midMarketRate = midRate.rate;
+  console.log(`Found rate via ${midRate.source} (${midRate.dateUsed}): ${midMarketRate}`);
+
+  // 3. Value-date rates into the org's reporting currency (fees outside the pair, principal if needed)
+  const reportingCurrency = reportingCurrencyInput || DEFAULT_REPORTING_CURRENCY;
+  const requiredConversions = listRequiredConversions({ ...txDetails, fees: extractionResult.fees }, reportingCurrency);
+  // Benchmark tiers and dispute-rule thresholds have their own currencies, which the pair may not bridge to
+  const tableCurrency = (pricing.benchmark?.table.currency || 'USD').toUpperCase();
+  const ruleCurrency = (pricing.disputeRules?.currency || DEFAULT_RULE_CURRENCY).toUpperCase();
+  const pairLegs = parsePair(pair);
+  [tableCurrency, ruleCurrency].forEach(currency => {
+    if (currency !== reportingCurrency.toUpperCase() && currency !== pairLegs?.base && currency !== pairLegs?.quote
+      && !requiredConversions.includes(currency)) {
+      requiredConversions.push(currency);
+    }
+  });
+  let conversionRates: ConversionRates = {};
+  if (requiredConversions.length > 0) {
+    onStep('converting', "RateGuard: Normalising Currencies...");
+    conversionRates = isSimulated
+      ? simulatedConversionRates(requiredConversions, reportingCurrency, fixtureId)
+      : await fetchConversionRates(requiredConversions, reportingCurrency, valDate);
+  }
+
+  // 4. Detailed Calculation Engine (Hidden Fees)
+  onStep('calculating', "Profit Guard: Calculating Hidden Spreads...");
+  // Bank and party names only feed the dispute rules
+  const calculationResult = calculateAllCosts(
+    { ...txDetails, fees: extractionResult.fees, ...extractionResult.extraction },
+    midMarketRate,
+    { reportingCurrency, conversionRates, unpriced: midRate.unpriced, ...pricing }
+  );
+
+  // 5. How far the reading can be trusted; doubtful quotes stop at 'extracted' until reviewed
+  const assessment = assessExtraction(extractionResult);
+
+  // 6. Merge Data
+  // IMPORTANT: Fallback for bank name to ensure it saves even if AI misses it
+  const extractedBankName = extractionResult.extraction?.bank_name;
+  const finalBankName = (extractedBankName && extractedBankName.length > 2) ? extractedBankName : "Unknown Bank";
+
+  const quote: Partial<QuoteData> = {
+    bank: finalBankName,
+    referenceNumber: extractionResult.extraction?.transaction_reference || undefined,
+    senderName: extractionResult.extraction?.sender_name || undefined,
+    recipientName: extractionResult.extraction?.beneficiary_name || undefined,
+    pair: pair,
+    amount: txDetails.original_amount || 0,
+    originalCurrency: txDetails.original_currency,
+    convertedAmount: txDetails.converted_amount,
+    convertedCurrency: txDetails.converted_currency,
+    exchangeRate: txDetails.exchange_rate_bank || 0,
+    // An unpriced quote has no mid to show; re-pricing it looks for one again
+    midMarketRate: midRate.unpriced ? 0 : midMarketRate,
+    midRateSource: midRate.source,
+    midRateDate: midRate.dateUsed,
+    midRateReference: midRate.reference,
+    midRateLegs: midRate.legs,
+    executionTimestamp,
+    rateWindow: midRate.rateWindow && {
+      ...midRate.rateWindow,
+      defensibleSpreadPercentage: defensibleSpreadPercentage(midRate.rateWindow, txDetails, txDetails.exchange_rate_bank)
+    },
+    valueDate: valDate,
+
+    // Rich Calculation Data
+    reportingCurrency: calculationResult.reportingCurrency,
+    fees: calculationResult.fees,
+    unconvertedFees: calculationResult.unconvertedFees,
+    wireFee: calculationResult.wireFee,
+    fxFee: calculationResult.fxFee,
+    correspondentFee: calculationResult.correspondentFee,
+    otherFees: calculationResult.otherFees,
+    totalFees: calculationResult.totalFees,
+
+    spreadDecimal: calculationResult.spreadDecimal,
+    spreadPercentage: calculationResult.spreadPercentage,
+    spreadDirection: calculationResult.spreadDirection,
+    rateConvention: calculationResult.rateConvention,
+    unpriced: calculationResult.unpriced,
+    favourableGain: calculationResult.favourableGain,
+    markupCost: calculationResult.markupCost,
+
+    totalHiddenCost: calculationResult.totalHiddenCost,
+    totalHiddenPercentage: calculationResult.totalHiddenPercentage,
+    costBreakdown: calculationResult.costBreakdown,
+
+    annualTransactionCount: calculationResult.annualTransactionCount,
+    annualizedHiddenCost: calculationResult.annualizedHiddenCost,
+    monthlyAverageCost: calculationResult.monthlyAverageCost,
+    annualProjection: calculationResult.annualProjection,
+
+    industryAverageSpread: calculationResult.industryAverageSpread,
+    industryAverageTotalCost: calculationResult.industryAverageTotalCost,
+    yourCostVsIndustry: calculationResult.yourCostVsIndustry,
+    betterThanIndustry: calculationResult.betterThanIndustry,
+    percentileRank: calculationResult.percentileRank,
+    costPercentile: calculationResult.costPercentile,
+    benchmarkVersion: calculationResult.benchmarkVersion,
+    benchmarkTier: calculationResult.benchmarkTier,
+    potentialSavingsPercent: calculationResult.potentialSavingsPercent,
+
+    dispute: calculationResult.dispute,
+    reliabilityScore: assessment.reliabilityScore,
+    fieldConfidence: assessment.fieldConfidence,
+    consistencyChecks: assessment.consistencyChecks,
+    workflowStatus: assessment.needsReview ? 'extracted' : 'analyzed',
+    geminiRaw: extractionResult
+  };
+
+  return { quote, extraction: extractionResult };
+};
+
+/**
+ * Full pipeline: duplicate check, analyze, archive the original, then save the quote and its audit
+ * record. Exact copies are caught before extraction so a skipped duplicate costs no quota or credit.
+ */
+export const processQuoteDocument = async (
+  input: PipelineInput,
+  onStep: StepCallback = () => {}
+): Promise<{ success: true, id: string, skipped?: boolean, duplicateDecision?: DuplicateDecision, [key: string]: any }> => {
+  const check = input.duplicateCheck;
+  let match: DuplicateMatch | undefined;
+  let decision: DuplicateDecision | undefined;
+  const contentHash = check ? await hashDocument(input.base64) : undefined;
+
+  const logDecision = (savedQuoteId?: string) => logDuplicateChoice(input, match!, decision!, savedQuoteId, contentHash);
+
+  // 0a. Same file already in the ledger
+  if (check && contentHash) {
+    const exact = findContentDuplicates(contentHash, check.existingQuotes());
+    if (exact.length > 0) {
+      match = exact[0];
+      decision = await check.resolve(exact);
+      if (decision === 'skip') {
+        await logDecision();
+        return { success: true, id: match.quoteId, skipped: true, duplicateDecision: decision };
+      }
+    }
+  }
+
+  const { quote, extraction } = await analyzeQuoteDocument(input, onStep);
+
+  // 0b. Same transaction from a different file (re-scan, portal re-export)
+  if (check && !match) {
+    const fuzzy = findFuzzyDuplicates(quote, check.existingQuotes(), [], input.pricing?.disputeRules?.institutions);
+    if (fuzzy.length > 0) {
+      match = fuzzy[0];
+      decision = await check.resolve(fuzzy);
+      if (decision === 'skip') {
+        await logDecision();
+        return { success: true, id: match.quoteId, skipped: true, duplicateDecision: decision };
+      }
+    }
+  }
+
+  // 7. Original into Cloud Storage; the quote only keeps its hash and URL
+  onStep('saving', "Archiving Source Document...");
+  const stored = await (input.store || FIRESTORE_STORE).storeDocument(input.orgId, input.base64, input.mimeType, input.fileName);
+
+  // 8. Save to Firestore (a replace overwrites the matched quote and its audit instead)
+  onStep('saving', "Finalizing Audit Record...");
+  const saveResult = await saveAnalyzedQuote(input, { ...quote, ...stored }, extraction, match, decision);
+
+  if (match) await logDecision(saveResult.id);
+  return { ...saveResult, duplicateDecision: decision };
+};
+
+const logDuplicateChoice = (
+  input: Pick<PipelineInput, 'userId' | 'orgId' | 'fileName' | 'store'>,
+  match: DuplicateMatch,
+  decision: DuplicateDecision,
+  savedQuoteId?: string,
+  contentHash?: string
+) => (input.store || FIRESTORE_STORE).logDuplicateDecision({
+  orgId: input.orgId,
+  userId: input.userId,
+  decision,
+  matchKind: match.kind,
+  reasons: match.reasons,
+  existingQuoteId: match.quoteId,
+  savedQuoteId,
+  contentHash,
+  fileName: input.fileName
+});
+
+const saveAnalyzedQuote = async (
+  input: Pick<PipelineInput, 'userId' | 'orgId' | 'store'>,
+  quote: Partial<QuoteData>,
+  extraction: ExtractionResult,
+  match?: DuplicateMatch,
+  decision?: DuplicateDecision
+) => {
+  const store = input.store || FIRESTORE_STORE;
+  const saveResult = match && decision === 'replace'
+    ? await store.replaceQuote(match.quoteId, input.userId, input.orgId, quote, extraction)
+    : await store.saveQuote(input.userId, input.orgId, { ...quote, duplicateOf: match?.quoteId }, '', extraction);
+  if (!saveResult.success) {
+    throw new Error(saveResult.error || "Database Write Failed");
+  }
+  return saveResult;
+};
+
+// A quote being re-priced is not part of its own history
+const excludingQuote = (pricing: PricingContext | undefined, quoteId: string): PricingContext | undefined =>
+  pricing && {
+    ...pricing,
+    benchmark: withoutQuote(pricing.benchmark, quoteId),
+    projection: pricing.projection && { ...pricing.projection, history: pricing.projection.history.filter(s => s.id !== quoteId) }
+  };
+
+/**
+ * Re-price a quote from a reviewer's corrected fields. Nothing is saved; the reviewer sees the new
+ * costs first. The result counts as analyzed whatever its score, since a person has confirmed it.
+ */
+export const reanalyzeReviewedQuote = async (
+  quote: QuoteData,
+  draft: ExtractionDraft,
+  reportingCurrency?: string,
+  onStep: StepCallback = () => {},
+  pricing?: PricingContext
+) => {
+  const { extraction, corrections } = applyReviewDraft(extractionOfQuote(quote), draft);
+  const analysis = await analyzeExtraction(extraction, reportingCurrency || quote.reportingCurrency, onStep, undefined, excludingQuote(pricing, quote.id));
+  return { ...analysis, quote: { ...analysis.quote, workflowStatus: 'analyzed' as const }, corrections };
+};
+
+// Quote fields that map onto a provider field, for confidence bookkeeping
+const QUOTE_FIELD_TO_EXTRACTION: Partial<Record<keyof QuoteData, ExtractionField>> = {
+  bank: 'bank_name',
+  referenceNumber: 'transaction_reference',
+  senderName: 'sender_name',
+  recipientName: 'beneficiary_name',
+  amount: 'original_amount',
+  originalCurrency: 'original_currency',
+  convertedAmount: 'converted_amount',
+  convertedCurrency: 'converted_currency',
+  exchangeRate: 'exchange_rate_bank',
+  pair: 'currency_pair',
+  valueDate: 'value_date',
+  fees: 'fees'
+};
+
+/**
+ * Re-price a quote after its fields were edited. The mid-market rate is kept unless the pair or
+ * value date changed, or the editor typed a new one. Nothing is saved; the raw extraction and the
+ * workflow state are left as they were.
+ */
+export const recalculateQuote = async (
+  quote: QuoteData,
+  edits: Partial<QuoteData>,
+  reportingCurrency?: string,
+  onStep: StepCallback = () => {},
+  pricing?: PricingContext
+): Promise<Partial<QuoteData>> => {
+  const next = { ...quote, ...edits };
+  const extraction = extractionFromQuoteFields(next);
+  // Edited fields were set by a person
+  extraction.confidence = { ...(quote.fieldConfidence || {}) };
+  for (const field of Object.keys(edits)) {
+    const key = QUOTE_FIELD_TO_EXTRACTION[field as keyof QuoteData];
+    if (key) extraction.confidence[key] = 1;
+  }
+
+  let knownMidRate: MidRateResolution | undefined;
+  if (edits.midMarketRate !== undefined && edits.midMarketRate !== quote.midMarketRate) {
+    knownMidRate = { rate: edits.midMarketRate, source: 'manual', dateUsed: next.valueDate, exactDate: true, reference: 'Entered by editor' };
+  } else if (next.pair === quote.pair && next.valueDate === quote.valueDate && quote.midMarketRate) {
+    knownMidRate = {
+      rate: quote.midMarketRate,
+      source: quote.midRateSource || 'estimate',
+      dateUsed: quote.midRateDate || quote.valueDate,
+      exactDate: quote.midRateDate === quote.valueDate,
+      reference: quote.midRateReference,
+      rateWindow: quote.rateWindow,
+      legs: quote.midRateLegs
+    };
+  }
+  if (quote.midRateSource === 'simulation') extraction.source = 'simulation'; // Keeps demo quotes offline
+
+  const { quote: priced } = await analyzeExtraction(extraction, reportingCurrency || quote.reportingCurrency, onStep, knownMidRate, excludingQuote(pricing, quote.id));
+  const { geminiRaw, workflowStatus, ...recalculated } = priced;
+  return recalculated;
+};
+
+/**
+ * Price and save one structured transaction. `source` is the message it came from, archived once
+ * with storeSourceDocument and shared by every transaction in it. A message shares its hash with
+ * all its transactions, so duplicates are found by reference, amount and value date instead.
+ */
+export const processExtraction = async (
+  extraction: ExtractionResult,
+  input: Pick<PipelineInput, 'userId' | 'orgId' | 'reportingCurrency' | 'pricing' | 'duplicateCheck' | 'fileName'> & { source?: StoredDocument },
+  onStep: StepCallback = () => {}
+): Promise<{ success: true, id: string, skipped?: boolean, duplicateDecision?: DuplicateDecision, [key: string]: any }> => {
+  // Same transaction already in the ledger, e.g. from an overlapping statement; checked before
+  // pricing so a skipped one costs no rate lookup or credit
+  const check = input.duplicateCheck;
+  let match: DuplicateMatch | undefined;
+  let decision: DuplicateDecision | undefined;
+  if (check) {
+    const fuzzy = findFuzzyDuplicates(duplicateCandidate(extraction), check.existingQuotes(), [], input.pricing?.disputeRules?.institutions);
+    if (fuzzy.length > 0) {
+      match = fuzzy[0];
+      decision = await check.resolve(fuzzy);
+      if (decision === 'skip') {
+        await logDuplicateChoice(input, match, decision, undefined, input.source?.contentHash);
+        return { success: true, id: match.quoteId, skipped: true, duplicateDecision: decision };
+      }
+    }
+  }
+
+  const analysis = await analyzeExtraction(extraction, input.reportingCurrency, onStep, undefined, input.pricing);
+
+  onStep('saving', "Finalizing Audit Record...");
+  const saveResult = await saveAnalyzedQuote(input, { ...analysis.quote, ...input.source }, extraction, match, decision);
+
+  if (match) await logDuplicateChoice(input, match, decision!, saveResult.id, input.source?.contentHash);
+  return { ...saveResult, duplicateDecision: decision };
+};
+
+// The fields duplicate matching compares, straight from a structured transaction
+const duplicateCandidate = (extraction: ExtractionResult): Partial<QuoteData> => ({
+  bank: extraction.extraction?.bank_name,
+  referenceNumber: extraction.extraction?.transaction_reference,
+  amount: extraction.transaction?.original_amount,
+  originalCurrency: extraction.transaction?.original_currency,
+  valueDate: extraction.transaction?.value_date
+});
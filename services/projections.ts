@@ -0,0 +1,207 @@
+import { AnnualProjection, CorridorVolume, Institution, QuoteData } from '../types';
+import { createBankResolver } from './bankRegistry';
+import { parsePair } from './fxPairs';
+import { ledgerDate } from './ledgerExport';
+import { quoteCostCurrency, quotePrincipal } from './currency';
+
+// --- ANNUALISED PROJECTIONS ---
+// A quote's annual figures follow how often the org really sends money through that bank on that
+// pair (its corridor). Until there is enough history the user's declared volume stands in, and with
+// neither the old one-a-month assumption does. Each carries a band saying how far to trust it.
+
+// Corridor history needs this many quotes over this many days before it is projected from
+export const MIN_CORRIDOR_QUOTES = 4;
+export const MIN_CORRIDOR_DAYS = 60;
+export const LOOKBACK_DAYS = 365;
+
+const Z_90 = 1.645;
+const DECLARED_BAND = 0.25; // A declared volume is taken as right to within a quarter either way
+const ASSUMED_PER_YEAR = 12;
+const ASSUMED_BAND = 0.5;
+const DAY_MS = 86400000;
+
+export interface CorridorSample {
+  id: string;
+  bankKey: string;
+  bankName: string;
+  pair: string;
+  date: string; // YYYY-MM-DD
+  amount: number | null; // Principal in `currency`, when known
+  currency: string;
+}
+
+export interface ProjectionContext {
+  history: CorridorSample[];
+  declared: CorridorVolume[];
+  institutions: Institution[]; // Bank registry, so a corridor follows merges and aliases
+  asOf?: string; // End of the lookback window; today when unset
+}
+
+/**
+ * Same key for a bank and pair in either orientation
+ */
+export const corridorKey = (bankKey: string, pair: string) => {
+  const legs = parsePair(pair);
+  return `${bankKey}|${legs ? [legs.base, legs.quote].sort().join('/') : pair.toUpperCase()}`;
+};
+
+/**
+ * The org's quotes as dated corridor observations. Pass quotes already converted into the
+ * reporting currency so their principals add up.
+ */
+export const corridorSamples = (quotes: QuoteData[], institutions: Institution[]): CorridorSample[] => {
+  const resolve = createBankResolver(institutions);
+  return quotes.flatMap(quote => {
+    const date = ledgerDate(quote);
+    const { key, name } = resolve(quote);
+    if (!date || !key || !quote.pair) return [];
+    return [{ id: quote.id, bankKey: key, bankName: name, pair: quote.pair, date, amount: quotePrincipal(quote), currency: quoteCostCurrency(quote) }];
+  });
+};
+
+export interface CorridorFrequency {
+  quotes: number;
+  days: number; // From the first observation in the window to its end
+  perYear: number;
+  low: number; // 90% band
+  high: number;
+  averageAmount: number | null; // In the requested currency
+}
+
+/**
+ * Transfers a year seen on a corridor over the lookback window, with a 90% band treating
+ * arrivals as Poisson. Null when nothing falls in the window.
+ */
+export const observedFrequency = (samples: CorridorSample[], currency: string, asOf: string): CorridorFrequency | null => {
+  const end = Date.parse(asOf);
+  const inWindow = samples.filter(s => {
+    const age = (end - Date.parse(s.date)) / DAY_MS;
+    return age >= 0 && age <= LOOKBACK_DAYS;
+  });
+  if (inWindow.length === 0) return null;
+
+  const first = Math.min(...inWindow.map(s => Date.parse(s.date)));
+  const days = Math.max(1, (end - first) / DAY_MS);
+  const years = days / 365;
+  const n = inWindow.length;
+  const amounts = inWindow.filter(s => s.amount && s.currency === currency).map(s => s.amount as number);
+  return {
+    quotes: n,
+    days: Math.round(days),
+    perYear: n / years,
+    low: Math.max(0, n - Z_90 * Math.sqrt(n)) / years,
+    high: (n + Z_90 * Math.sqrt(n) + 1) / years,
+    averageAmount: amounts.length > 0 ? amounts.reduce((a, b) => a + b, 0) / amounts.length : null
+  };
+};
+
+const enoughHistory = (observed: CorridorFrequency | null): observed is CorridorFrequency =>
+  !!observed && observed.quotes >= MIN_CORRIDOR_QUOTES && observed.days >= MIN_CORRIDOR_DAYS;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// The transfer being projected; money in the reporting currency
+export interface ProjectedTransfer {
+  bank?: string;
+  bankCode?: string;
+  pair: string;
+  date: string;
+  amount: number;
+  currency: string;
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/**
+ * Annual frequency, ticket size and hidden cost band for a transfer, from its corridor's history
+ * (this transfer included), else the declared volume, else one a month
+ */
+export const projectAnnual = (
+  context: ProjectionContext | undefined,
+  transfer: ProjectedTransfer,
+  totalHiddenPercentage: number
+): AnnualProjection => {
+  const { key: bankKey, name: bankName } = createBankResolver(context?.institutions || [])({ bank: transfer.bank || '', bankCode: transfer.bankCode });
+  const key = corridorKey(bankKey, transfer.pair);
+  const asOf = [context?.asOf || today(), transfer.date].sort().pop()!;
+
+  const samples: CorridorSample[] = [
+    ...(context?.history || []).filter(s => corridorKey(s.bankKey, s.pair) === key),
+    { id: '', bankKey, bankName, pair: transfer.pair, date: transfer.date, amount: transfer.amount, currency: transfer.currency }
+  ];
+  const observed = observedFrequency(samples, transfer.currency, asOf);
+  const declared = context?.declared.find(d => corridorKey(d.bankKey, d.pair) === key && d.transactionsPerYear > 0);
+
+  let basis: AnnualProjection['basis'];
+  let perYear: number, low: number, high: number, averageAmount: number;
+  if (enoughHistory(observed)) {
+    basis = 'history';
+    ({ perYear, low, high } = observed);
+    averageAmount = observed.averageAmount ?? transfer.amount;
+  } else if (declared) {
+    basis = 'declared';
+    perYear = declared.transactionsPerYear;
+    low = perYear * (1 - DECLARED_BAND);
+    high = perYear * (1 + DECLARED_BAND);
+    averageAmount = declared.averageAmount || transfer.amount;
+  } else {
+    basis = 'assumed';
+    perYear = ASSUMED_PER_YEAR;
+    low = perYear * (1 - ASSUMED_BAND);
+    high = perYear * (1 + ASSUMED_BAND);
+    averageAmount = transfer.amount;
+  }
+
+  const costRate = (isFinite(totalHiddenPercentage) ? totalHiddenPercentage : 0) / 100;
+  return {
+    basis,
+    corridor: `${bankName || 'Unknown bank'} · ${transfer.pair}`,
+    transactionsPerYear: round(perYear, 1),
+    transactionsLow: round(low, 1),
+    transactionsHigh: round(high, 1),
+    averageAmount: round(averageAmount, 2),
+    hiddenCostLow: round(costRate * low * averageAmount, 2),
+    hiddenCostHigh: round(costRate * high * averageAmount, 2),
+    observedQuotes: observed?.quotes || 0,
+    observedDays: observed?.days || 0
+  };
+};
+
+export const PROJECTION_BASIS_LABELS: Record<AnnualProjection['basis'], string> = {
+  history: 'Observed corridor history',
+  declared: 'Declared corridor volume',
+  assumed: 'Assumed monthly (no history or declared volume)'
+};
+
+export interface CorridorOverview {
+  key: string;
+  bankKey: string;
+  bankName: string;
+  pair: string;
+  observed: CorridorFrequency | null;
+  declared?: CorridorVolume;
+  basis: AnnualProjection['basis']; // What the corridor's next quote would be projected from
+}
+
+/**
+ * Every corridor the org has quotes on or has declared, busiest first
+ */
+export const corridorOverview = (history: CorridorSample[], declared: CorridorVolume[], currency: string, asOf = today()): CorridorOverview[] => {
+  const groups = new Map<string, { bankKey: string, bankName: string, pair: string, samples: CorridorSample[] }>();
+  history.forEach(s => {
+    const key = corridorKey(s.bankKey, s.pair);
+    if (!groups.has(key)) groups.set(key, { bankKey: s.bankKey, bankName: s.bankName, pair: s.pair, samples: [] });
+    groups.get(key)!.samples.push(s);
+  });
+  declared.forEach(d => {
+    const key = corridorKey(d.bankKey, d.pair);
+    if (!groups.has(key)) groups.set(key, { bankKey: d.bankKey, bankName: d.bankName, pair: d.pair, samples: [] });
+  });
+
+  return Array.from(groups.entries()).map(([key, group]) => {
+    const observed = observedFrequency(group.samples, currency, asOf);
+    const volume = declared.find(d => corridorKey(d.bankKey, d.pair) === key);
+    const basis: AnnualProjection['basis'] = enoughHistory(observed) ? 'history' : volume && volume.transactionsPerYear > 0 ? 'declared' : 'assumed';
+    return { key, bankKey: group.bankKey, bankName: group.bankName, pair: group.pair, observed, declared: volume, basis };
+  }).sort((a, b) => (b.observed?.quotes || 0) - (a.observed?.quotes || 0) || a.key.localeCompare(b.key));
+};
@@ -0,0 +1,123 @@
+import { recalculateQuote } from './pipeline';
+import { PricingContext } from './calculations';
+import { updateQuoteWithHistory } from './firebase';
+import { EXTRACTION_FIELD_LABELS } from './extractionQuality';
+import { checkTransition, LOCKED_STATUSES, WORKFLOW_STATUS_LABELS } from './workflow';
+import { ExtractionField, FeeItem, FieldChange, Organization, QuoteData, QuoteVersion, UserProfile } from '../types';
+
+// --- QUOTE EDITING ---
+// Saved quotes are corrected through here: diff the edit, re-price if a pricing input moved, then
+// save with the replaced version archived (see updateQuoteWithHistory).
+
+type NumberQuoteField = 'amount' | 'convertedAmount' | 'exchangeRate' | 'midMarketRate';
+type TextQuoteField = 'bank' | 'referenceNumber' | 'senderName' | 'recipientName' | 'valueDate' | 'pair' | 'originalCurrency' | 'convertedCurrency';
+
+interface EditableField<K extends keyof QuoteData, Kind> {
+  key: K;
+  label: string;
+  kind: Kind;
+  pricing: boolean; // Changing it re-runs the cost calculation
+}
+
+export type EditableQuoteField =
+  | EditableField<NumberQuoteField, 'number'>
+  | EditableField<TextQuoteField, 'text' | 'date' | 'currency'>;
+
+export const EDITABLE_QUOTE_FIELDS: EditableQuoteField[] = [
+  { key: 'bank', label: 'Bank', kind: 'text', pricing: false },
+  { key: 'referenceNumber', label: 'Reference', kind: 'text', pricing: false },
+  { key: 'senderName', label: 'Sender', kind: 'text', pricing: false },
+  { key: 'recipientName', label: 'Beneficiary', kind: 'text', pricing: false },
+  { key: 'valueDate', label: 'Value Date', kind: 'date', pricing: true },
+  { key: 'pair', label: 'Pair', kind: 'currency', pricing: true },
+  { key: 'amount', label: 'Amount Sold', kind: 'number', pricing: true },
+  { key: 'originalCurrency', label: 'Sold Currency', kind: 'currency', pricing: true },
+  { key: 'convertedAmount', label: 'Amount Bought', kind: 'number', pricing: true },
+  { key: 'convertedCurrency', label: 'Bought Currency', kind: 'currency', pricing: true },
+  { key: 'exchangeRate', label: 'Bank Rate', kind: 'number', pricing: true },
+  { key: 'midMarketRate', label: 'Mid-Market Rate', kind: 'number', pricing: true }
+];
+
+// Workflow moves are kept in the quote's workflowLog instead (see services/workflow.ts)
+const TRACKED_FIELDS: (keyof QuoteData)[] = [...EDITABLE_QUOTE_FIELDS.map(f => f.key), 'fees'];
+const PRICING_FIELDS: (keyof QuoteData)[] = [...EDITABLE_QUOTE_FIELDS.filter(f => f.pricing).map(f => f.key), 'fees'];
+
+export const formatFees = (fees?: FeeItem[]) => (fees || []).map(f => `${f.type} ${f.amount} ${f.currency}`).join('; ');
+
+const displayValue = (field: keyof QuoteData, value: unknown) => {
+  if (field === 'fees') return formatFees(value as FeeItem[]);
+  return value === undefined || value === null ? '' : String(value);
+};
+
+const copyField = <K extends keyof QuoteData>(target: Partial<QuoteData>, source: Partial<QuoteData>, field: K) => {
+  target[field] = source[field];
+};
+
+/**
+ * Tracked fields whose value differs between two states of a quote
+ */
+export const diffQuote = (before: Partial<QuoteData>, after: Partial<QuoteData>): FieldChange[] => {
+  return TRACKED_FIELDS
+    .filter(field => field in after)
+    .map(field => ({ field, from: displayValue(field, before[field]), to: displayValue(field, after[field]) }))
+    .filter(change => change.from !== change.to);
+};
+
+export interface QuoteEdit {
+  changes: FieldChange[];
+  update: Partial<QuoteData>; // Changed fields plus re-priced costs
+  repriced: boolean;
+}
+
+/**
+ * Work out what an edit changes, re-pricing the quote if a pricing input moved. Nothing is saved.
+ */
+export const previewQuoteEdit = async (quote: QuoteData, edited: Partial<QuoteData>, pricing?: PricingContext): Promise<QuoteEdit> => {
+  const changes = diffQuote(quote, edited);
+  const changed: Partial<QuoteData> = {};
+  TRACKED_FIELDS.filter(field => changes.some(c => c.field === field)).forEach(field => copyField(changed, edited, field));
+
+  const repriced = changes.some(c => PRICING_FIELDS.some(field => field === c.field));
+  const update: Partial<QuoteData> = repriced ? { ...(await recalculateQuote(quote, changed, undefined, undefined, pricing)), ...changed } : changed;
+  // Signed-off quotes are locked: any edit sends them back to be signed off again
+  if (changes.length > 0 && LOCKED_STATUSES.includes(quote.workflowStatus)) {
+    update.workflowStatus = 'analyzed';
+  }
+  return { changes, update, repriced };
+};
+
+/**
+ * Why this user may not save the edit, if they may not: editing a reviewed or approved quote
+ * sends it back to 'analyzed', which takes the role that could send it back by hand.
+ */
+export const quoteEditBlocker = (quote: QuoteData, edit: QuoteEdit, user: Pick<UserProfile, 'uid' | 'workflowRole'>, org?: Pick<Organization, 'adminId'> | null) => {
+  if (!edit.update.workflowStatus || edit.update.workflowStatus === quote.workflowStatus) return null;
+  const check = checkTransition(quote, edit.update.workflowStatus, user, org);
+  return check.allowed ? null : `This edit changes a ${WORKFLOW_STATUS_LABELS[quote.workflowStatus].toLowerCase()} quote. ${check.reason}`;
+};
+
+export const commitQuoteEdit = (quote: QuoteData, edit: QuoteEdit, user: Pick<UserProfile, 'uid' | 'displayName' | 'email'>, reason?: string) => {
+  return updateQuoteWithHistory(quote.id, user.uid, edit.update, {
+    kind: 'edit',
+    changes: edit.changes,
+    reason: reason?.trim() || undefined,
+    changedByName: user.displayName || user.email || undefined
+  });
+};
+
+/**
+ * Field label for history entries
+ */
+export const quoteFieldLabel = (field: string) => {
+  if (field === 'fees') return 'Fees';
+  if (field === 'workflowStatus') return 'Workflow';
+  if (field === 'contentHash') return 'Source Document';
+  // Review corrections are keyed by provider field
+  return EDITABLE_QUOTE_FIELDS.find(f => f.key === field)?.label || EXTRACTION_FIELD_LABELS[field as ExtractionField] || field;
+};
+
+export const VERSION_KIND_LABELS: Record<QuoteVersion['kind'], string> = {
+  edit: 'Edited',
+  review: 'Extraction reviewed',
+  replace: 'Replaced by re-upload'
+};
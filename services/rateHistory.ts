@@ -0,0 +1,299 @@
+import { db, isConfigValid } from './firebase';
+import { doc, getDoc, writeBatch } from 'firebase/firestore';
+import { parseCsv, detectDelimiter } from './csv';
+import { parsePair } from './fxPairs';
+
+// --- HISTORICAL MID-MARKET RATE STORE ---
+// One document per pair per day in `rates_history`, keyed `${BASE}_${QUOTE}_${YYYY-MM-DD}`.
+// Rates are QUOTE units per 1 BASE, the same convention as the live `rates` collection.
+
+export interface RateHistoryEntry {
+  pair: string; // "EUR/USD"
+  base: string;
+  quote: string;
+  date: string; // YYYY-MM-DD
+  rate: number;
+  source: string; // e.g. "ECB eurofxref-hist.csv"
+  importedAt?: number;
+}
+
+export interface HistoricalRateLookup {
+  rate: number;
+  dateUsed: string;
+  exactDate: boolean; // false when the value date fell on a non-publication day
+  inverted: boolean; // true when only QUOTE/BASE was stored
+  source: string;
+  docId: string;
+}
+
+export type ReferenceRateFormat = 'ecb' | 'fed' | 'long' | 'json';
+
+export interface ParsedReferenceRates {
+  format: ReferenceRateFormat;
+  entries: RateHistoryEntry[];
+  skipped: number; // Cells with no usable value (ECB "N/A", blanks)
+}
+
+const BATCH_LIMIT = 400; // Firestore allows 500 writes per batch; leave headroom
+
+export const rateHistoryDocId = (base: string, quote: string, date: string) => `${base}_${quote}_${date}`;
+
+/**
+ * Normalise "2024-03-01", "2024/03/01" or "2024-03-01T00:00:00Z" to YYYY-MM-DD
+ */
+export const normalizeRateDate = (value: string): string | null => {
+  const match = (value || '').trim().match(/^(\d{4})[-\/](\d{1,2})[-\/](\d{1,2})/);
+  if (!match) return null;
+  const [, y, m, d] = match;
+  return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+};
+
+const isIsoCode = (value: string) => /^[A-Z]{3}$/.test((value || '').trim().toUpperCase());
+
+const makeEntry = (base: string, quote: string, date: string | null, raw: any, source: string): RateHistoryEntry | null => {
+  const rate = typeof raw === 'number' ? raw : parseFloat(String(raw ?? '').replace(/,/g, ''));
+  if (!date || !isFinite(rate) || rate <= 0) return null;
+  const b = base.toUpperCase();
+  const q = quote.toUpperCase();
+  if (b === q) return null;
+  return { pair: `${b}/${q}`, base: b, quote: q, date, rate, source };
+};
+
+// --- PARSERS ---
+
+/**
+ * Parse a central-bank reference rate file. Supported layouts:
+ *  - ECB wide CSV (eurofxref-hist.csv): Date,USD,JPY,... with EUR as base (override with `base`)
+ *  - Fed H.10 Data Download CSV: descriptor rows, then "Time Period" and daily values
+ *  - Long CSV: date + rate columns with either base/quote or pair
+ *  - JSON: [{date, base, quote, rate}], {base, date, rates:{...}} or {base, rates:{date:{...}}}
+ */
+export const parseReferenceRates = (
+  text: string,
+  fileName: string = 'reference-rates',
+  options: { base?: string } = {}
+): ParsedReferenceRates => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return parseJsonRates(JSON.parse(trimmed), fileName, options.base);
+  }
+
+  const rows = parseCsv(text, detectDelimiter(text));
+  if (rows.length < 2) throw new Error('File has no data rows.');
+
+  const firstCell = rows[0][0]?.toLowerCase() || '';
+  if (firstCell.startsWith('series description')) return parseFedRates(rows, fileName);
+
+  const header = rows[0].map(h => h.toLowerCase());
+  if (header.includes('rate') || header.includes('obs_value')) return parseLongRates(rows, fileName, options.base);
+
+  return parseWideRates(rows, fileName, options.base || 'EUR');
+};
+
+/**
+ * ECB-style wide table: one row per date, one column per quote currency
+ */
+const parseWideRates = (rows: string[][], source: string, base: string): ParsedReferenceRates => {
+  const header = rows[0];
+  const currencyCols = header
+    .map((h, i) => ({ code: h.trim().toUpperCase(), i }))
+    .filter(c => c.i > 0 && isIsoCode(c.code));
+  if (currencyCols.length === 0) throw new Error('No currency columns found in header.');
+
+  const entries: RateHistoryEntry[] = [];
+  let skipped = 0;
+  for (const row of rows.slice(1)) {
+    const date = normalizeRateDate(row[0]);
+    for (const { code, i } of currencyCols) {
+      const entry = makeEntry(base, code, date, row[i], source);
+      if (entry) entries.push(entry); else skipped++;
+    }
+  }
+  return { format: 'ecb', entries, skipped };
+};
+
+/**
+ * Long table: date,base,quote,rate / date,pair,rate / ECB SDMX (TIME_PERIOD, CURRENCY_DENOM, CURRENCY, OBS_VALUE)
+ */
+const parseLongRates = (rows: string[][], source: string, defaultBase?: string): ParsedReferenceRates => {
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const col = (...names: string[]) => header.findIndex(h => names.includes(h));
+  const dateCol = col('date', 'time_period', 'value_date');
+  const rateCol = col('rate', 'obs_value', 'mid', 'mid_rate');
+  const pairCol = col('pair', 'currency_pair', 'symbol');
+  const baseCol = col('base', 'currency_denom', 'from');
+  const quoteCol = col('quote', 'currency', 'to');
+  if (dateCol < 0 || rateCol < 0) throw new Error('Long format needs date and rate columns.');
+
+  const entries: RateHistoryEntry[] = [];
+  let skipped = 0;
+  for (const row of rows.slice(1)) {
+    let base = baseCol >= 0 ? row[baseCol] : defaultBase;
+    let quote = quoteCol >= 0 ? row[quoteCol] : undefined;
+    if (pairCol >= 0) {
+      const legs = parsePair(row[pairCol]);
+      if (legs) { base = legs.base; quote = legs.quote; }
+    }
+    const entry = base && quote ? makeEntry(base, quote, normalizeRateDate(row[dateCol]), row[rateCol], source) : null;
+    if (entry) entries.push(entry); else skipped++;
+  }
+  return { format: 'long', entries, skipped };
+};
+
+// Fed H.10 "U.S. dollars per currency" series name the foreign side only in the description
+const FED_SERIES_CURRENCIES: Record<string, string> = {
+  'EURO': 'EUR', 'UNITED KINGDOM': 'GBP', 'AUSTRALIA': 'AUD', 'NEW ZEALAND': 'NZD'
+};
+
+/**
+ * Federal Reserve H.10 Data Download Program CSV
+ */
+const parseFedRates = (rows: string[][], source: string): ParsedReferenceRates => {
+  const meta = (label: string) => rows.find(r => r[0]?.toLowerCase().startsWith(label)) || [];
+  const descriptions = meta('series description');
+  const units = meta('unit');
+  const currencies = meta('currency');
+  const dataStart = rows.findIndex(r => r[0]?.toLowerCase().startsWith('time period'));
+  if (dataStart < 0) throw new Error('Fed file is missing the "Time Period" header row.');
+
+  // Resolve each column to a BASE/QUOTE pair
+  const columns: { i: number, base: string, quote: string }[] = [];
+  for (let i = 1; i < descriptions.length; i++) {
+    // "U.S._Dollars_Per_Currency" -> "US DOLLARS PER CURRENCY"
+    const unit = (units[i] || '').replace(/\./g, '').replace(/_/g, ' ').toUpperCase();
+    const currency = (currencies[i] || '').toUpperCase();
+    if (/PER US DOLLAR/.test(unit) && isIsoCode(currency)) {
+      columns.push({ i, base: 'USD', quote: currency });
+      continue;
+    }
+    if (/US DOLLARS? PER/.test(unit)) {
+      const description = (descriptions[i] || '').toUpperCase();
+      const match = Object.keys(FED_SERIES_CURRENCIES).find(name => description.includes(name));
+      if (match) columns.push({ i, base: FED_SERIES_CURRENCIES[match], quote: 'USD' });
+    }
+  }
+  if (columns.length === 0) throw new Error('Could not identify any Fed series currencies.');
+
+  const entries: RateHistoryEntry[] = [];
+  let skipped = 0;
+  for (const row of rows.slice(dataStart + 1)) {
+    const date = normalizeRateDate(row[0]);
+    for (const { i, base, quote } of columns) {
+      // Fed marks holidays with "ND" (no data)
+      const entry = makeEntry(base, quote, date, row[i], source);
+      if (entry) entries.push(entry); else skipped++;
+    }
+  }
+  return { format: 'fed', entries, skipped };
+};
+
+const parseJsonRates = (data: any, source: string, defaultBase?: string): ParsedReferenceRates => {
+  const entries: RateHistoryEntry[] = [];
+  let skipped = 0;
+  const push = (entry: RateHistoryEntry | null) => { if (entry) entries.push(entry); else skipped++; };
+
+  const visit = (node: any) => {
+    if (Array.isArray(node)) { node.forEach(visit); return; }
+    if (!node || typeof node !== 'object') { skipped++; return; }
+
+    // {base, date, rates: {EUR: 0.92}} or {base, rates: {"2024-01-02": {EUR: 0.92}}}
+    if (node.rates && typeof node.rates === 'object') {
+      const base = node.base || defaultBase;
+      if (!base) { skipped++; return; }
+      for (const [key, value] of Object.entries(node.rates)) {
+        if (value && typeof value === 'object') {
+          const date = normalizeRateDate(key);
+          for (const [quote, rate] of Object.entries(value as Record<string, any>)) push(makeEntry(base, quote, date, rate, source));
+        } else {
+          push(makeEntry(base, key, normalizeRateDate(node.date), value, source));
+        }
+      }
+      return;
+    }
+
+    // {date, base, quote, rate} or {date, pair, rate}
+    const legs = node.pair ? parsePair(node.pair) : null;
+    const base = legs?.base || node.base || defaultBase;
+    const quote = legs?.quote || node.quote;
+    push(base && quote ? makeEntry(base, quote, normalizeRateDate(node.date), node.rate, source) : null);
+  };
+
+  visit(data);
+  return { format: 'json', entries, skipped };
+};
+
+// --- IMPORT ---
+
+/**
+ * Bulk write parsed reference rates (organization admins only). Re-importing the same file overwrites the same documents.
+ */
+export const importReferenceRates = async (
+  entries: RateHistoryEntry[],
+  onProgress?: (written: number) => void
+): Promise<number> => {
+  if (!isConfigValid) return entries.length;
+
+  let written = 0;
+  for (let i = 0; i < entries.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    for (const entry of entries.slice(i, i + BATCH_LIMIT)) {
+      batch.set(doc(db, 'rates_history', rateHistoryDocId(entry.base, entry.quote, entry.date)), {
+        ...entry,
+        importedAt: Date.now()
+      });
+    }
+    await batch.commit();
+    written += Math.min(BATCH_LIMIT, entries.length - i);
+    if (onProgress) onProgress(written);
+  }
+  return written;
+};
+
+// --- LOOKUP ---
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+/**
+ * Stored mid rate for BASE/QUOTE on a date. Tries the exact date first (direct, then inverse);
+ * with `lookbackDays` it walks back to the previous publication day and says so.
+ */
+export const getHistoricalRate = async (
+  base: string,
+  quote: string,
+  date: string,
+  lookbackDays: number = 0
+): Promise<HistoricalRateLookup | null> => {
+  if (!isConfigValid) return null;
+  const b = base.toUpperCase();
+  const q = quote.toUpperCase();
+  const target = normalizeRateDate(date);
+  if (!target) return null;
+
+  try {
+    for (let offset = 0; offset <= lookbackDays; offset++) {
+      const day = shiftDate(target, -offset);
+      for (const inverted of [false, true]) {
+        const docId = inverted ? rateHistoryDocId(q, b, day) : rateHistoryDocId(b, q, day);
+        const snap = await getDoc(doc(db, 'rates_history', docId));
+        const data = snap.exists() ? snap.data() : null;
+        if (data?.rate > 0) {
+          return {
+            rate: inverted ? 1 / data.rate : data.rate,
+            dateUsed: day,
+            exactDate: offset === 0,
+            inverted,
+            source: data.source || 'rates_history',
+            docId
+          };
+        }
+      }
+    }
+  } catch (err) {
+    console.error("Rate history lookup failed", err);
+  }
+  return null;
+};
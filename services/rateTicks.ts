@@ -0,0 +1,185 @@
+import { db, isConfigValid } from './firebase';
+import { collection, doc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+import { parseCsv, detectDelimiter } from './csv';
+import { parsePair, resolvePairOrientation, computeDirectionalSpread } from './fxPairs';
+import { RateWindow } from '../types';
+
+// --- INTRADAY RATE TICKS ---
+// `rates_ticks` holds timestamped mid quotes ({pair, timestamp, rate}) so a confirmation with an
+// execution time can be compared with the market at that minute rather than the day's fixing.
+// Querying needs a composite index on (pair ASC, timestamp ASC).
+
+export interface RateTick {
+  pair: string; // "EUR/USD"
+  timestamp: number; // ms since epoch, UTC
+  rate: number;
+  source?: string;
+}
+
+export const DEFAULT_TICK_WINDOW_MINUTES = 5;
+
+const BATCH_LIMIT = 400;
+
+// Datetimes without an offset are UTC, as bank confirmations and tick feeds state them; Date.parse
+// would otherwise read them in the browser's zone
+const parseUtc = (text: string): number => {
+  const zoned = /(Z|[+-]\d{2}:?\d{2})$/i.test(text) || !/\d{1,2}:\d{2}/.test(text);
+  return Date.parse(zoned ? text : `${text}Z`);
+};
+
+/**
+ * Execution time from a confirmation: full ISO datetime, or a bare "09:02"/"09:02:30" on the value date (UTC)
+ */
+export const parseExecutionTimestamp = (value?: string | null, valueDate?: string): number | undefined => {
+  if (!value) return undefined;
+  const text = value.trim();
+
+  const timeOnly = text.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (timeOnly && valueDate) {
+    const [, h, m, sec] = timeOnly;
+    const ts = Date.parse(`${valueDate}T${h.padStart(2, '0')}:${m}:${sec || '00'}Z`);
+    return isNaN(ts) ? undefined : ts;
+  }
+
+  // Only accept strings that actually carry a time component
+  if (!/\d{1,2}:\d{2}/.test(text)) return undefined;
+  const ts = parseUtc(text);
+  return isNaN(ts) ? undefined : ts;
+};
+
+/**
+ * Parse a tick file: CSV with timestamp,pair,rate (or timestamp,base,quote,rate) columns, or a JSON array
+ */
+export const parseRateTicks = (text: string, source: string = 'tick-import'): RateTick[] => {
+  const trimmed = text.trim();
+  const ticks: RateTick[] = [];
+  const push = (ts: any, pairStr: string | undefined, rate: any) => {
+    const legs = parsePair(pairStr);
+    const timestamp = typeof ts === 'number' ? ts : parseUtc(String(ts || '').trim());
+    const value = typeof rate === 'number' ? rate : parseFloat(String(rate || ''));
+    if (!legs || isNaN(timestamp) || !(value > 0)) return;
+    ticks.push({ pair: `${legs.base}/${legs.quote}`, timestamp, rate: value, source });
+  };
+
+  if (trimmed.startsWith('[')) {
+    for (const row of JSON.parse(trimmed)) {
+      push(row.timestamp ?? row.time, row.pair || (row.base && row.quote ? `${row.base}/${row.quote}` : undefined), row.rate ?? row.mid);
+    }
+    return ticks;
+  }
+
+  const rows = parseCsv(text, detectDelimiter(text));
+  const header = (rows[0] || []).map(h => h.toLowerCase());
+  const col = (...names: string[]) => header.findIndex(h => names.includes(h));
+  const tsCol = col('timestamp', 'time', 'datetime');
+  const pairCol = col('pair', 'symbol');
+  const baseCol = col('base');
+  const quoteCol = col('quote');
+  const rateCol = col('rate', 'mid', 'price');
+  if (tsCol < 0 || rateCol < 0) throw new Error('Tick file needs timestamp and rate columns.');
+
+  for (const row of rows.slice(1)) {
+    const pairStr = pairCol >= 0 ? row[pairCol] : `${row[baseCol]}/${row[quoteCol]}`;
+    push(row[tsCol], pairStr, row[rateCol]);
+  }
+  return ticks;
+};
+
+/**
+ * Bulk write ticks (organization admins only). Doc id is pair + timestamp so re-imports overwrite.
+ */
+export const recordRateTicks = async (ticks: RateTick[], onProgress?: (written: number) => void): Promise<number> => {
+  if (!isConfigValid) return ticks.length;
+  let written = 0;
+  for (let i = 0; i < ticks.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    for (const tick of ticks.slice(i, i + BATCH_LIMIT)) {
+      const id = `${tick.pair.replace('/', '_')}_${tick.timestamp}`;
+      batch.set(doc(db, 'rates_ticks', id), tick);
+    }
+    await batch.commit();
+    written += Math.min(BATCH_LIMIT, ticks.length - i);
+    if (onProgress) onProgress(written);
+  }
+  return written;
+};
+
+const fetchTicks = async (pair: string, start: number, end: number): Promise<RateTick[]> => {
+  const q = query(
+    collection(db, 'rates_ticks'),
+    where('pair', '==', pair),
+    where('timestamp', '>=', start),
+    where('timestamp', '<=', end)
+  );
+  const snap = await getDocs(q);
+  return snap.docs.map(d => d.data() as RateTick);
+};
+
+/**
+ * Ticks within ±windowMinutes of execution: nearest tick plus the min/max band.
+ * Falls back to the inverted pair when only QUOTE/BASE ticks are stored.
+ */
+export const findRateWindow = async (
+  base: string,
+  quote: string,
+  executionTimestamp: number,
+  windowMinutes: number = DEFAULT_TICK_WINDOW_MINUTES
+): Promise<RateWindow | null> => {
+  if (!isConfigValid) return null;
+  const windowStart = executionTimestamp - windowMinutes * 60 * 1000;
+  const windowEnd = executionTimestamp + windowMinutes * 60 * 1000;
+
+  try {
+    for (const inverted of [false, true]) {
+      const pair = inverted ? `${quote}/${base}` : `${base}/${quote}`;
+      const ticks = await fetchTicks(pair, windowStart, windowEnd);
+      if (ticks.length === 0) continue;
+
+      const rates = ticks.map(t => (inverted ? 1 / t.rate : t.rate));
+      let nearestIdx = 0;
+      ticks.forEach((t, i) => {
+        if (Math.abs(t.timestamp - executionTimestamp) < Math.abs(ticks[nearestIdx].timestamp - executionTimestamp)) nearestIdx = i;
+      });
+
+      return {
+        method: 'nearest_tick',
+        executionTimestamp,
+        windowMinutes,
+        windowStart,
+        windowEnd,
+        nearestTickTimestamp: ticks[nearestIdx].timestamp,
+        nearestRate: rates[nearestIdx],
+        minRate: Math.min(...rates),
+        maxRate: Math.max(...rates),
+        tickCount: ticks.length,
+        inverted
+      };
+    }
+  } catch (err) {
+    console.error("Tick lookup failed", err);
+  }
+  return null;
+};
+
+/**
+ * Smallest spread the bank could argue for: the band edge most favourable to the bank.
+ * If this is still a markup, the number holds whichever tick in the window is chosen.
+ */
+export const defensibleSpreadPercentage = (
+  window: RateWindow,
+  extractedData: any,
+  bankRate: number
+): number => {
+  const orientation = resolvePairOrientation({
+    currencyPair: extractedData.currency_pair,
+    originalCurrency: extractedData.original_currency,
+    convertedCurrency: extractedData.converted_currency,
+    originalAmount: parseFloat(extractedData.original_amount) || 0,
+    convertedAmount: parseFloat(extractedData.converted_amount) || 0,
+    bankRate,
+    midMarketRate: window.nearestRate
+  });
+  const atMin = computeDirectionalSpread(orientation, bankRate, window.minRate).spreadPercentage;
+  const atMax = computeDirectionalSpread(orientation, bankRate, window.maxRate).spreadPercentage;
+  return Math.min(atMin, atMax);
+};
@@ -0,0 +1,179 @@
+import { Institution, QuoteData } from '../types';
+import { createBankResolver } from './bankRegistry';
+import { ledgerDate } from './ledgerExport';
+import { quoteCostCurrency, quotePrincipal } from './currency';
+
+// --- BANK SCORECARDS ---
+// Built from the org's own quotes, already converted into the reporting currency. Quotes whose
+// costs could not be converted are left out and counted, never mixed in.
+
+export type FeeCategory = 'wire' | 'fx' | 'correspondent' | 'other';
+
+export interface ScorecardMonth {
+  month: string; // YYYY-MM of the value date
+  spread: number; // Volume-weighted, %
+  quotes: number;
+}
+
+export interface BankScorecard {
+  key: string; // Institution id, or the normalised name of an unregistered bank
+  name: string; // Registry name, else the most common spelling
+  institutionId?: string;
+  quotes: QuoteData[]; // Newest first
+  volume: number; // Principal, reporting currency
+  weightedSpread: number; // %
+  spreadStdDev: number; // Percentage points, unweighted
+  fees: Record<FeeCategory, number>;
+  totalFees: number;
+  feeBps: number; // Fees per volume, basis points
+  totalHiddenCost: number;
+  hiddenCostBps: number;
+  trend: ScorecardMonth[];
+  trendDirection: 'improving' | 'worsening' | 'flat' | 'insufficient';
+  score: number;
+  scoreParts: { spread: number, fees: number, consistency: number }; // Points deducted
+}
+
+// Fairness score, 0-100:
+//   100 - spread penalty - fee penalty - consistency penalty
+//   spread penalty      = 20 points per 1% of volume-weighted spread above 0.25%, at most 60
+//   fee penalty         = 0.25 points per basis point of fees on volume, at most 25
+//   consistency penalty = 5 points per percentage point of spread standard deviation, at most 15
+export const FAIR_SPREAD = 0.25;
+const SPREAD_POINTS_PER_PCT = 20;
+const SPREAD_PENALTY_CAP = 60;
+const FEE_POINTS_PER_BP = 0.25;
+const FEE_PENALTY_CAP = 25;
+const CONSISTENCY_POINTS_PER_PP = 5;
+const CONSISTENCY_PENALTY_CAP = 15;
+
+export const FAIRNESS_FORMULA = [
+  `Starts at 100.`,
+  `Spread: -${SPREAD_POINTS_PER_PCT} per 1% of volume-weighted spread above ${FAIR_SPREAD}% (max -${SPREAD_PENALTY_CAP}).`,
+  `Fees: -${FEE_POINTS_PER_BP} per basis point of fees on volume (max -${FEE_PENALTY_CAP}).`,
+  `Consistency: -${CONSISTENCY_POINTS_PER_PP} per percentage point of spread standard deviation (max -${CONSISTENCY_PENALTY_CAP}).`
+];
+
+// Fewer quotes than this and the score is shown as indicative
+export const MIN_SCORECARD_QUOTES = 3;
+
+// A trend move smaller than this many percentage points counts as flat
+const TREND_TOLERANCE = 0.05;
+
+const weightedSpread = (rows: { spread: number, volume: number }[]) => {
+  const volume = rows.reduce((sum, r) => sum + r.volume, 0);
+  return volume > 0 ? rows.reduce((sum, r) => sum + r.spread * r.volume, 0) / volume : 0;
+};
+
+const stdDev = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1));
+};
+
+export const fairnessScore = (spread: number, feeBps: number, spreadStdDev: number) => {
+  const parts = {
+    spread: Math.min(SPREAD_PENALTY_CAP, SPREAD_POINTS_PER_PCT * Math.max(0, spread - FAIR_SPREAD)),
+    fees: Math.min(FEE_PENALTY_CAP, FEE_POINTS_PER_BP * Math.max(0, feeBps)),
+    consistency: Math.min(CONSISTENCY_PENALTY_CAP, CONSISTENCY_POINTS_PER_PP * spreadStdDev)
+  };
+  return { score: Math.round(Math.max(0, 100 - parts.spread - parts.fees - parts.consistency)), parts };
+};
+
+const trendDirection = (trend: ScorecardMonth[]): BankScorecard['trendDirection'] => {
+  if (trend.length < 2) return 'insufficient';
+  const change = trend[trend.length - 1].spread - trend[trend.length - 2].spread;
+  if (Math.abs(change) < TREND_TOLERANCE) return 'flat';
+  return change < 0 ? 'improving' : 'worsening';
+};
+
+/**
+ * One scorecard per institution in the bank registry (or per extracted name the registry does not
+ * know), best score first, plus how many quotes were left out for lack of a reporting-currency
+ * conversion, a known principal or a mid-market rate
+ */
+export const buildScorecards = (
+  quotes: QuoteData[],
+  reportingCurrency: string,
+  institutions: Institution[] = []
+): { cards: BankScorecard[], excluded: number } => {
+  const resolve = createBankResolver(institutions);
+  const groups = new Map<string, { quote: QuoteData, volume: number }[]>();
+  let excluded = 0;
+  for (const quote of quotes) {
+    const volume = quotePrincipal(quote);
+    const { key } = resolve(quote);
+    if (quoteCostCurrency(quote) !== reportingCurrency.toUpperCase() || !volume || !key || quote.unpriced) {
+      excluded++;
+      continue;
+    }
+    groups.set(key, [...(groups.get(key) || []), { quote, volume }]);
+  }
+
+  const cards = [...groups.entries()].map(([key, rows]): BankScorecard => {
+    const institution = resolve(rows[0].quote).match?.institution;
+    const names = new Map<string, number>();
+    rows.forEach(r => names.set(r.quote.bank, (names.get(r.quote.bank) || 0) + 1));
+    const name = institution?.name || [...names.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+    const volume = rows.reduce((sum, r) => sum + r.volume, 0);
+    const spreadRows = rows.map(r => ({ spread: r.quote.spreadPercentage || 0, volume: r.volume }));
+    const spread = weightedSpread(spreadRows);
+    const spreadStdDev = stdDev(spreadRows.map(r => r.spread));
+    const fees: Record<FeeCategory, number> = {
+      wire: rows.reduce((sum, r) => sum + (r.quote.wireFee || 0), 0),
+      fx: rows.reduce((sum, r) => sum + (r.quote.fxFee || 0), 0),
+      correspondent: rows.reduce((sum, r) => sum + (r.quote.correspondentFee || 0), 0),
+      other: rows.reduce((sum, r) => sum + (r.quote.otherFees || 0), 0)
+    };
+    const totalFees = fees.wire + fees.fx + fees.correspondent + fees.other;
+    const totalHiddenCost = rows.reduce((sum, r) => sum + (r.quote.totalHiddenCost || 0), 0);
+    const feeBps = totalFees / volume * 10000;
+
+    const months = new Map<string, { spread: number, volume: number }[]>();
+    rows.forEach((r, i) => {
+      const month = ledgerDate(r.quote).slice(0, 7);
+      if (month) months.set(month, [...(months.get(month) || []), spreadRows[i]]);
+    });
+    const trend = [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, monthRows]) => ({ month, spread: weightedSpread(monthRows), quotes: monthRows.length }));
+
+    const { score, parts } = fairnessScore(spread, feeBps, spreadStdDev);
+    return {
+      key,
+      name,
+      institutionId: institution?.id,
+      quotes: rows.map(r => r.quote).sort((a, b) => ledgerDate(b).localeCompare(ledgerDate(a))),
+      volume,
+      weightedSpread: spread,
+      spreadStdDev,
+      fees,
+      totalFees,
+      feeBps,
+      totalHiddenCost,
+      hiddenCostBps: totalHiddenCost / volume * 10000,
+      trend,
+      trendDirection: trendDirection(trend),
+      score,
+      scoreParts: parts
+    };
+  });
+
+  cards.sort((a, b) => b.score - a.score || b.volume - a.volume);
+  return { cards, excluded };
+};
+
+/**
+ * What the worst-priced bank's volume would have cost at the best bank's spread. Only banks with
+ * enough quotes to trust are compared; null when there are not two of them.
+ */
+export const switchingSaving = (cards: BankScorecard[]) => {
+  const trusted = cards.filter(c => c.quotes.length >= MIN_SCORECARD_QUOTES);
+  if (trusted.length < 2) return null;
+  const best = trusted.reduce((a, b) => (b.weightedSpread < a.weightedSpread ? b : a));
+  const worst = trusted.reduce((a, b) => (b.weightedSpread > a.weightedSpread ? b : a));
+  if (best === worst) return null;
+  const saving = (worst.weightedSpread - best.weightedSpread) / 100 * worst.volume;
+  return saving > 0 ? { best, worst, saving } : null;
+};
@@ -0,0 +1,302 @@
+// --- DETERMINISTIC SIMULATION ---
+// Offline stand-in for extraction and market data. A seeded PRNG replays a fixture library of
+// realistic confirmations, so the same document and seed always give the same quote, with no network.
+
+import { getEnv } from './env';
+
+export interface SimulationFixture {
+  id: string;
+  bank: string;
+  sender: string;
+  beneficiary: string;
+  pair: string; // BASE/QUOTE as printed on the confirmation
+  originalAmount: number;
+  originalCurrency: string;
+  convertedAmount: number;
+  convertedCurrency: string;
+  bankRate: number; // As printed, which may be the inverse of `pair`
+  midRate: number; // BASE/QUOTE mid at execution
+  valueDate: string;
+  executionTime: string;
+  fees: { name: string, amount: number, currency: string }[];
+}
+
+export interface SimulatedExtraction {
+  extraction: { bank_name: string, transaction_reference: string, sender_name: string, beneficiary_name: string };
+  transaction: {
+    original_amount: number;
+    original_currency: string;
+    converted_amount: number;
+    converted_currency: string;
+    exchange_rate_bank: number;
+    currency_pair: string;
+    value_date: string;
+    execution_time: string;
+  };
+  fees: { items: { name: string, amount: number, currency: string }[], total_fees: number };
+  source: 'simulation';
+  confidence: Record<string, number>; // Seeded, so demos also exercise the review screen
+  fixtureId: string;
+  seed: number;
+}
+
+export interface SimulationProvider {
+  seed: number;
+  latencyMs: number;
+  extract: (documentKey: string) => SimulatedExtraction;
+  midRate: (base: string, quote: string, fixtureId?: string) => { rate: number, reference: string } | null;
+}
+
+export const SIMULATION_FIXTURES: SimulationFixture[] = [
+  {
+    id: 'jpm-usd-eur-wire',
+    bank: 'JPMorgan Chase',
+    sender: 'Northwind Logistics Inc.',
+    beneficiary: 'Rheinland Freight GmbH',
+    pair: 'USD/EUR',
+    originalAmount: 250000, originalCurrency: 'USD',
+    convertedAmount: 226050, convertedCurrency: 'EUR',
+    bankRate: 0.9042, midRate: 0.9215,
+    valueDate: '2024-03-01', executionTime: '2024-03-01T14:02:00Z',
+    fees: [
+      { name: 'Outgoing Wire Fee', amount: 35, currency: 'USD' },
+      { name: 'Correspondent Bank Charge', amount: 20, currency: 'EUR' }
+    ]
+  },
+  {
+    id: 'barclays-gbp-usd-tt',
+    bank: 'Barclays',
+    sender: 'Albion Components Ltd',
+    beneficiary: 'Great Lakes Tooling LLC',
+    pair: 'GBP/USD',
+    originalAmount: 120000, originalCurrency: 'GBP',
+    convertedAmount: 149772, convertedCurrency: 'USD',
+    bankRate: 1.2481, midRate: 1.2705,
+    valueDate: '2024-04-16', executionTime: '2024-04-16T09:31:00+01:00',
+    fees: [
+      { name: 'Telegraphic Transfer Fee', amount: 25, currency: 'GBP' },
+      { name: 'Intermediary Bank Charge', amount: 18, currency: 'USD' }
+    ]
+  },
+  {
+    id: 'stanbic-usd-zar-swift',
+    bank: 'Standard Bank',
+    sender: 'Harbor Mining Supply Co.',
+    beneficiary: 'Karoo Engineering (Pty) Ltd',
+    pair: 'USD/ZAR',
+    originalAmount: 85000, originalCurrency: 'USD',
+    convertedAmount: 1557200, convertedCurrency: 'ZAR',
+    bankRate: 18.32, midRate: 18.85,
+    valueDate: '2024-02-12', executionTime: '2024-02-12T11:15:00+02:00',
+    fees: [
+      { name: 'SWIFT Fee', amount: 450, currency: 'ZAR' },
+      { name: 'FX Commission 0.25%', amount: 212.5, currency: 'USD' }
+    ]
+  },
+  {
+    id: 'hsbc-eur-inr-cable',
+    bank: 'HSBC',
+    sender: 'Lumen Textiles SA',
+    beneficiary: 'Coimbatore Spinning Mills Pvt Ltd',
+    pair: 'EUR/INR',
+    originalAmount: 60000, originalCurrency: 'EUR',
+    convertedAmount: 5346000, convertedCurrency: 'INR',
+    bankRate: 89.10, midRate: 90.42,
+    valueDate: '2024-05-08', executionTime: '2024-05-08T10:47:00+05:30',
+    fees: [
+      { name: 'Cable Charges', amount: 15, currency: 'EUR' },
+      { name: 'OUR Charges', amount: 30, currency: 'EUR' },
+      { name: 'Correspondent Charge', amount: 1200, currency: 'INR' }
+    ]
+  },
+  {
+    id: 'wise-aud-usd-transfer',
+    bank: 'Wise',
+    sender: 'Coral Coast Exports Pty Ltd',
+    beneficiary: 'Pacific Crest Imports Inc.',
+    pair: 'AUD/USD',
+    originalAmount: 40000, originalCurrency: 'AUD',
+    convertedAmount: 26192, convertedCurrency: 'USD',
+    bankRate: 0.6548, midRate: 0.6572,
+    valueDate: '2024-06-03', executionTime: '2024-06-03T01:20:00Z',
+    fees: [
+      { name: 'Transfer Fee', amount: 112.4, currency: 'AUD' }
+    ]
+  },
+  {
+    id: 'citi-usd-mxn-wire',
+    bank: 'Citibank',
+    sender: 'Sonoran Produce Distributors',
+    beneficiary: 'Agricola del Bajio SA de CV',
+    pair: 'USD/MXN',
+    originalAmount: 150000, originalCurrency: 'USD',
+    convertedAmount: 2431500, convertedCurrency: 'MXN',
+    bankRate: 16.21, midRate: 16.70,
+    valueDate: '2024-03-19', executionTime: '2024-03-19T16:05:00-06:00',
+    fees: [
+      { name: 'Outgoing International Wire', amount: 45, currency: 'USD' },
+      { name: 'Beneficiary Bank Fee', amount: 250, currency: 'MXN' }
+    ]
+  },
+  {
+    // Pair printed EUR/USD but the rate is quoted the other way round (EUR per USD)
+    id: 'santander-eur-usd-inverse',
+    bank: 'Santander',
+    sender: 'Iberia Ceramics SL',
+    beneficiary: 'Blue Ridge Home Supply Corp',
+    pair: 'EUR/USD',
+    originalAmount: 200000, originalCurrency: 'EUR',
+    convertedAmount: 215030.64, convertedCurrency: 'USD',
+    bankRate: 0.9301, midRate: 1.0850,
+    valueDate: '2024-01-24', executionTime: '2024-01-24T12:40:00+01:00',
+    fees: [
+      { name: 'Comision de Transferencia', amount: 30, currency: 'EUR' },
+      { name: 'Gastos Corresponsal', amount: 25, currency: 'USD' }
+    ]
+  }
+];
+
+// Reference levels used when a pair is not in the fixture library. Every entry is quoted
+// against USD so any two listed currencies can be crossed exactly.
+export const SIMULATION_USD_RATES: Record<string, number> = {
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  AUD: 1.52,
+  JPY: 151.50,
+  ZAR: 18.85,
+  ZWG: 13.50, // Zimbabwe Gold
+  INR: 83.50,
+  MXN: 16.70,
+  BRL: 5.15,
+  CNY: 7.23,
+};
+
+/**
+ * 32-bit FNV-1a hash, used to derive a seed from document content
+ */
+export const hashSeed = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * mulberry32: small, fast PRNG returning floats in [0, 1) for a 32-bit seed
+ */
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Seed from SIMULATION_SEED (number or any string), 0 when unset
+ */
+export const getEnvSimulationSeed = (): number => {
+  const raw = getEnv('SIMULATION_SEED');
+  if (!raw) return 0;
+  const numeric = Number(raw);
+  return Number.isInteger(numeric) ? numeric >>> 0 : hashSeed(raw);
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Fields given a seeded confidence; names match the provider output
+const SIMULATED_FIELDS = [
+  'bank_name', 'transaction_reference', 'original_amount', 'original_currency', 'converted_amount',
+  'converted_currency', 'exchange_rate_bank', 'currency_pair', 'value_date', 'execution_time', 'fees'
+];
+
+/**
+ * Provider replaying `fixtures`. A document always maps to the same fixture and amount for a given seed;
+ * amounts are scaled by a seeded factor so repeated demos don't show identical numbers for different files.
+ */
+export const createSimulationProvider = (
+  options: { seed?: number, fixtures?: SimulationFixture[], latencyMs?: number } = {}
+): SimulationProvider => {
+  const seed = (options.seed ?? getEnvSimulationSeed()) >>> 0;
+  const fixtures = options.fixtures && options.fixtures.length > 0 ? options.fixtures : SIMULATION_FIXTURES;
+
+  const extract = (documentKey: string): SimulatedExtraction => {
+    const docHash = hashSeed(documentKey || '');
+    const rng = createRng(seed ^ docHash);
+    const fixture = fixtures[Math.floor(rng() * fixtures.length)];
+    // 0.5x – 1.5x, rounded to the nearest 1,000 of the sold currency
+    const scale = Math.max(1000, Math.round((fixture.originalAmount * (0.5 + rng())) / 1000) * 1000) / fixture.originalAmount;
+    const items = fixture.fees.map(f => ({ ...f }));
+
+    // Mostly confident reads; about one document in five has a field the "scanner" struggled with
+    const confidence: Record<string, number> = {};
+    for (const field of SIMULATED_FIELDS) confidence[field] = round2(0.8 + rng() * 0.2);
+    if (rng() < 0.2) confidence[SIMULATED_FIELDS[Math.floor(rng() * SIMULATED_FIELDS.length)]] = round2(0.35 + rng() * 0.2);
+
+    return {
+      extraction: {
+        bank_name: fixture.bank,
+        transaction_reference: `SIM-${docHash.toString(16).toUpperCase().padStart(8, '0')}`,
+        sender_name: fixture.sender,
+        beneficiary_name: fixture.beneficiary
+      },
+      transaction: {
+        original_amount: round2(fixture.originalAmount * scale),
+        original_currency: fixture.originalCurrency,
+        converted_amount: round2(fixture.convertedAmount * scale),
+        converted_currency: fixture.convertedCurrency,
+        exchange_rate_bank: fixture.bankRate,
+        currency_pair: fixture.pair,
+        value_date: fixture.valueDate,
+        execution_time: fixture.executionTime
+      },
+      fees: {
+        items,
+        // Mixed-currency total as printed; calculateAllCosts converts per line
+        total_fees: round2(items.reduce((sum, f) => sum + f.amount, 0))
+      },
+      source: 'simulation',
+      confidence,
+      fixtureId: fixture.id,
+      seed
+    };
+  };
+
+  // A document's own fixture prices its pair. Matching on the pair alone is for documents no fixture
+  // produced, since the first fixture quoting either orientation would otherwise shadow the rest.
+  const midRate = (base: string, quote: string, fixtureId?: string) => {
+    const b = base.toUpperCase();
+    const q = quote.toUpperCase();
+    if (b === q) return { rate: 1, reference: 'simulation' };
+
+    const own = fixtureId ? fixtures.find(f => f.id === fixtureId) : undefined;
+    for (const fixture of own ? [own] : fixtures) {
+      const [fb, fq] = fixture.pair.split('/');
+      if (fb === b && fq === q) return { rate: fixture.midRate, reference: `simulation/${fixture.id}` };
+      if (fb === q && fq === b) return { rate: 1 / fixture.midRate, reference: `simulation/${fixture.id}` };
+    }
+
+    const perUsd = (code: string) => (code === 'USD' ? 1 : SIMULATION_USD_RATES[code]);
+    if (!perUsd(b) || !perUsd(q)) return null;
+    return { rate: perUsd(q) / perUsd(b), reference: 'simulation/usd-reference' };
+  };
+
+  return { seed, latencyMs: options.latencyMs ?? 1500, extract, midRate };
+};
+
+let activeProvider: SimulationProvider = createSimulationProvider();
+
+export const getSimulationProvider = () => activeProvider;
+
+/**
+ * Swap the provider, e.g. a zero-latency provider with a fixed seed for automated pipeline runs
+ */
+export const setSimulationProvider = (provider: SimulationProvider) => {
+  activeProvider = provider;
+};
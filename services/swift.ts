@@ -0,0 +1,211 @@
+import { ExtractionResult, FeeItem } from '../types';
+
+// --- SWIFT MT PARSER ---
+// Deterministic reader for FIN MT103 (customer transfer) and MT202/MT202 COV (FI transfer) text.
+// Block 4 fields map straight onto the extraction shape, so these messages skip OCR entirely.
+
+export interface SwiftField {
+  tag: string; // "32A", "71F", ...
+  value: string; // Raw, multi-line values keep their line breaks
+}
+
+export interface SwiftMessage {
+  messageType: string; // "103", "202"
+  direction: 'input' | 'output' | 'unknown';
+  senderBic?: string;
+  receiverBic?: string;
+  uetr?: string; // Block 3 field 121, the gpi end-to-end tracking id
+  fields: SwiftField[];
+}
+
+export type ChargeBearer = 'OUR' | 'SHA' | 'BEN';
+
+/**
+ * True when the text carries an MT block 4 with at least a reference and a 32A settlement field
+ */
+export const looksLikeSwift = (text: string): boolean => /(^|\n)\s*:20:/.test(text) && /(^|\n)\s*:32A:/.test(text);
+
+const parseBlock4 = (body: string): SwiftField[] => {
+  const fields: SwiftField[] = [];
+  const re = /(?:^|\n):(\d{2}[A-Z]?):([\s\S]*?)(?=\n:\d{2}[A-Z]?:|\n-\}?\s*$|$)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(body)) !== null) {
+    fields.push({ tag: m[1], value: m[2].replace(/\n-\}?\s*$/, '').trim() });
+  }
+  return fields;
+};
+
+/**
+ * Split a file into MT messages. Handles full FIN envelopes ({1:}{2:}{4:...-}), several per file,
+ * and bare block 4 text as exported by many bank portals.
+ */
+export const parseSwiftMessages = (text: string): SwiftMessage[] => {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  const envelopes = normalized.split(/(?=\{1:)/).filter(chunk => /\{1:|:20:/.test(chunk));
+
+  return envelopes.map(chunk => {
+    const block1 = chunk.match(/\{1:F\d{2}([A-Z0-9]{8})[A-Z0-9]?([A-Z0-9]{3})?/);
+    // Input: {2:I103RECEIVERBICX...}; output: {2:O103HHMMYYMMDDSENDERBIC...}
+    const block2 = chunk.match(/\{2:([IO])(\d{3})([\s\S]*?)\}/);
+    const block4 = chunk.match(/\{4:\s*\n?([\s\S]*?)\n-\}/)?.[1] ?? chunk;
+
+    let direction: SwiftMessage['direction'] = 'unknown';
+    let senderBic: string | undefined;
+    let receiverBic: string | undefined;
+    if (block2?.[1] === 'I') {
+      direction = 'input';
+      senderBic = block1?.[1];
+      receiverBic = block2[3].slice(0, 8);
+    } else if (block2?.[1] === 'O') {
+      direction = 'output';
+      receiverBic = block1?.[1];
+      senderBic = block2[3].slice(10, 18);
+    }
+
+    const fields = parseBlock4(block4);
+    // Bare block 4 text has no header; MT202 is the one without customer fields
+    const messageType = block2?.[2] || (fields.some(f => /^5[09]/.test(f.tag)) ? '103' : '202');
+    const uetr = chunk.match(/\{121:([0-9a-fA-F-]{36})\}/)?.[1];
+    return { messageType, direction, senderBic, receiverBic, uetr, fields };
+  }).filter(msg => msg.fields.some(f => f.tag === '32A'));
+};
+
+// --- FIELD HELPERS ---
+
+const field = (msg: SwiftMessage, ...tags: string[]) => {
+  for (const tag of tags) {
+    const hit = msg.fields.find(f => f.tag === tag);
+    if (hit) return hit.value;
+  }
+  return undefined;
+};
+
+const swiftAmount = (value: string) => parseFloat(value.replace(',', '.'));
+
+// "EUR1234,56"
+const parseCurrencyAmount = (value?: string) => {
+  const m = (value || '').match(/^([A-Z]{3})([\d,]+)/);
+  return m ? { currency: m[1], amount: swiftAmount(m[2]) } : null;
+};
+
+// 32A "240301EUR226050,00"
+const parseValueDateAmount = (value?: string) => {
+  const m = (value || '').match(/^(\d{2})(\d{2})(\d{2})([A-Z]{3})([\d,]+)/);
+  if (!m) return null;
+  return { date: `20${m[1]}-${m[2]}-${m[3]}`, currency: m[4], amount: swiftAmount(m[5]) };
+};
+
+// Party fields (50K, 59, 52D...): "/account" line first, then name and address
+const partyName = (value?: string) => (value || '')
+  .split('\n')
+  .map(l => l.trim())
+  .find(l => l && !l.startsWith('/') && !/^\d\//.test(l)) || (value || '').match(/^\d\/(.+)$/m)?.[1];
+
+// Option A party fields carry a BIC instead of a name
+const partyBic = (value?: string) => (value || '').split('\n').map(l => l.trim()).find(l => /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(l));
+
+// 13C "/CLSTIME/0915+0100" -> "T09:15:00+01:00" on the value date
+const parseTimeIndication = (value: string | undefined, valueDate: string) => {
+  const m = (value || '').match(/\/(?:CLSTIME|SNDTIME|RNCTIME)\/(\d{2})(\d{2})([+-])(\d{2})(\d{2})/);
+  return m ? `${valueDate}T${m[1]}:${m[2]}:00${m[3]}${m[4]}:${m[5]}` : '';
+};
+
+/**
+ * 71A details of charges onto fee categories, from the ordering customer's side:
+ * - OUR: every charge is billed to the remitter; 71G receiver's charges are prepaid correspondent costs
+ * - SHA and BEN: the first 71F is the sending bank's own wire fee (deducted from the principal under BEN),
+ *   later ones were deducted en route
+ */
+const categorizeCharge = (bearer: ChargeBearer | undefined, tag: '71F' | '71G', index: number): FeeItem['category'] => {
+  if (tag === '71G') return 'correspondent';
+  if ((bearer === 'SHA' || bearer === 'BEN') && index === 0) return 'wire';
+  return 'correspondent';
+};
+
+/**
+ * One MT message into the extraction/transaction/fees shape consumed by calculateAllCosts.
+ * 33B (instructed) is the sold side and 32A (settled) the bought side, so 36 reads as 32A per 33B.
+ */
+export const swiftToExtraction = (msg: SwiftMessage): ExtractionResult => {
+  const settled = parseValueDateAmount(field(msg, '32A'));
+  if (!settled) throw new Error("SWIFT message has no valid 32A field.");
+
+  const instructed = parseCurrencyAmount(field(msg, '33B'));
+  const rateField = field(msg, '36');
+  const rate = rateField ? swiftAmount(rateField) : undefined;
+  const bearerCode = field(msg, '71A')?.toUpperCase();
+  const bearer = (['OUR', 'SHA', 'BEN'] as ChargeBearer[]).find(code => code === bearerCode);
+
+  const items: ExtractionResult['fees']['items'] = [];
+  msg.fields.filter(f => f.tag === '71F').forEach((f, i) => {
+    const charge = parseCurrencyAmount(f.value);
+    if (!charge) return;
+    items.push({
+      name: categorizeCharge(bearer, '71F', i) === 'wire' ? "Sender's Charges (71F)" : `Deducted Charges (71F${i > 0 ? ` #${i + 1}` : ''})`,
+      amount: charge.amount,
+      currency: charge.currency,
+      category: categorizeCharge(bearer, '71F', i),
+      charge_bearer: bearer
+    });
+  });
+  const receiverCharges = parseCurrencyAmount(field(msg, '71G'));
+  if (receiverCharges) {
+    items.push({
+      name: "Receiver's Charges (71G)",
+      amount: receiverCharges.amount,
+      currency: receiverCharges.currency,
+      category: categorizeCharge(bearer, '71G', 0),
+      charge_bearer: bearer
+    });
+  }
+
+  // MT202: institutions instead of customers, and no FX fields
+  const isCustomerTransfer = msg.messageType === '103';
+  const orderingBic = partyBic(field(msg, '52A'));
+  const hasFx = !!instructed && instructed.currency !== settled.currency;
+
+  return {
+    extraction: {
+      bank_name: orderingBic || msg.senderBic || partyName(field(msg, '52D')),
+      transaction_reference: field(msg, '20'),
+      sender_name: isCustomerTransfer
+        ? partyName(field(msg, '50K', '50F')) || partyBic(field(msg, '50A'))
+        : orderingBic || msg.senderBic,
+      beneficiary_name: isCustomerTransfer
+        ? partyName(field(msg, '59', '59F')) || partyBic(field(msg, '59A'))
+        : partyBic(field(msg, '58A')) || partyName(field(msg, '58D'))
+    },
+    transaction: {
+      original_amount: instructed?.amount ?? settled.amount,
+      original_currency: instructed?.currency ?? settled.currency,
+      converted_amount: settled.amount,
+      converted_currency: settled.currency,
+      exchange_rate_bank: hasFx ? rate : 1,
+      currency_pair: `${instructed?.currency ?? settled.currency}/${settled.currency}`,
+      value_date: settled.date,
+      execution_time: parseTimeIndication(field(msg, '13C'), settled.date)
+    },
+    fees: { items, total_fees: items.reduce((sum, i) => sum + i.amount, 0) },
+    source: `swift-mt${msg.messageType}`,
+    swift: {
+      messageType: msg.messageType,
+      senderBic: msg.senderBic,
+      receiverBic: msg.receiverBic,
+      chargeBearer: bearer,
+      relatedReference: field(msg, '21'),
+      uetr: msg.uetr
+    }
+  };
+};
+
+/**
+ * The extraction of a file holding one MT message, or null when it holds none. A file can only
+ * become one quote, so several messages are rejected rather than all but the first dropped.
+ */
+export const swiftFileToExtraction = (text: string): ExtractionResult | null => {
+  const messages = parseSwiftMessages(text);
+  if (messages.length > 1) {
+    throw new Error(`This file holds ${messages.length} SWIFT messages. Upload each message as its own file (a .zip of them imports in one go).`);
+  }
+  return messages.length === 1 ? swiftToExtraction(messages[0]) : null;
+};
@@ -0,0 +1,202 @@
+import { PipelineStep } from './pipeline';
+import { readZip } from './zip';
+import { DuplicateMatch, DuplicateDecision } from './duplicates';
+
+// --- UPLOAD QUEUE ---
+// Many confirmations (or zip archives of them) at once. Documents run through the pipeline with a
+// concurrency cap so a batch does not exhaust the Gemini quota; failed items keep their bytes for retry.
+
+// Parallel pipeline runs; each one makes one extraction call plus rate lookups
+export const MAX_CONCURRENT_UPLOADS = 3;
+
+export const MAX_UPLOAD_BYTES = 5000000;
+
+// Everything one zip may expand to, checked against its directory before inflating
+export const MAX_ARCHIVE_BYTES = 50000000;
+
+// Pipeline steps in order, for per-item progress bars
+export const UPLOAD_STEPS: PipelineStep[] = ['extracting', 'resolving_rate', 'converting', 'calculating', 'saving'];
+
+const DOCUMENT_PATTERN = /\.(pdf|jpe?g|png|txt|fin)$/i;
+
+export interface UploadDocument {
+  fileName: string;
+  mimeType: string;
+  base64: string;
+  size: number;
+  archive?: string; // Zip the document came out of
+}
+
+export interface UploadQueueItem {
+  id: string;
+  fileName: string;
+  archive?: string;
+  size: number;
+  status: 'queued' | 'running' | 'awaiting_decision' | 'done' | 'skipped' | 'error';
+  step?: PipelineStep;
+  message?: string;
+  error?: string;
+  attempts: number;
+  quoteId?: string;
+  duplicates?: DuplicateMatch[]; // Suspected duplicates while awaiting a decision
+  decision?: DuplicateDecision;
+}
+
+/**
+ * MIME type from the browser, else from the extension (SWIFT exports and zip entries carry none)
+ */
+export const guessMimeType = (fileName: string, type?: string): string => {
+  if (type) return type;
+  if (/\.pdf$/i.test(fileName)) return 'application/pdf';
+  if (/\.png$/i.test(fileName)) return 'image/png';
+  if (/\.(txt|fin|mt\d*)$/i.test(fileName)) return 'text/plain';
+  return 'image/jpeg';
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large files do not overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Selected files into pipeline documents. Zip archives are expanded; unsupported or oversized
+ * files are rejected with a reason instead of failing the whole selection.
+ */
+export const expandUploadFiles = async (files: File[]): Promise<{ documents: UploadDocument[], rejected: { fileName: string, reason: string }[] }> => {
+  const documents: UploadDocument[] = [];
+  const rejected: { fileName: string, reason: string }[] = [];
+
+  const accept = (fileName: string, data: Uint8Array | undefined, type?: string, archive?: string) => {
+    if (!DOCUMENT_PATTERN.test(fileName)) {
+      rejected.push({ fileName, reason: 'Unsupported file type' });
+    } else if (!data || data.length > MAX_UPLOAD_BYTES) {
+      rejected.push({ fileName, reason: 'Larger than 5MB' });
+    } else {
+      documents.push({ fileName, mimeType: guessMimeType(fileName, type), base64: bytesToBase64(data), size: data.length, archive });
+    }
+  };
+
+  for (const file of files) {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (/\.zip$/i.test(file.name) || file.type === 'application/zip' || file.type === 'application/x-zip-compressed') {
+      try {
+        const entries = await readZip(bytes, { maxEntryBytes: MAX_UPLOAD_BYTES, maxTotalBytes: MAX_ARCHIVE_BYTES });
+        // macOS archives carry resource-fork twins under __MACOSX
+        entries
+          .filter(e => !e.name.startsWith('__MACOSX/') && !e.name.split('/').pop()!.startsWith('.'))
+          .forEach(e => accept(e.name.split('/').pop()!, e.data, undefined, file.name));
+      } catch (e: any) {
+        rejected.push({ fileName: file.name, reason: e.message || 'Unreadable archive' });
+      }
+    } else {
+      accept(file.name, bytes, file.type);
+    }
+  }
+
+  return { documents, rejected };
+};
+
+export interface UploadQueue {
+  add: (documents: UploadDocument[]) => void;
+  retry: (id: string) => void;
+  decide: (id: string, decision: DuplicateDecision) => void;
+  clearFinished: () => void;
+  pending: () => number; // Queued, running or awaiting a decision
+}
+
+interface UploadQueueOptions {
+  concurrency?: number;
+  process: (
+    document: UploadDocument,
+    onStep: (step: PipelineStep, message: string) => void,
+    askDuplicate: (matches: DuplicateMatch[]) => Promise<DuplicateDecision>
+  ) => Promise<{ id: string, skipped?: boolean }>;
+  onChange: (items: UploadQueueItem[]) => void;
+}
+
+const FINISHED: UploadQueueItem['status'][] = ['done', 'skipped', 'error'];
+
+/**
+ * Framework-free queue; the UI subscribes through onChange and gets a fresh array on every update
+ */
+export const createUploadQueue = ({ concurrency = MAX_CONCURRENT_UPLOADS, process, onChange }: UploadQueueOptions): UploadQueue => {
+  let items: UploadQueueItem[] = [];
+  const documents = new Map<string, UploadDocument>();
+  const decisions = new Map<string, (decision: DuplicateDecision) => void>();
+  let running = 0;
+  let counter = 0;
+
+  const update = (id: string, patch: Partial<UploadQueueItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...patch } : item);
+    onChange(items);
+  };
+
+  const run = async (item: UploadQueueItem) => {
+    running++;
+    update(item.id, { status: 'running', step: undefined, error: undefined, attempts: item.attempts + 1 });
+    // A pending decision gives up its slot; the work after it is storage and save, not extraction
+    const askDuplicate = (matches: DuplicateMatch[]) => new Promise<DuplicateDecision>(resolve => {
+      running--;
+      update(item.id, { status: 'awaiting_decision', duplicates: matches });
+      decisions.set(item.id, (decision) => {
+        running++;
+        update(item.id, { status: 'running', decision, duplicates: undefined });
+        resolve(decision);
+      });
+      pump();
+    });
+
+    try {
+      const saved = await process(documents.get(item.id)!, (step, message) => update(item.id, { step, message }), askDuplicate);
+      documents.delete(item.id); // Bytes are only kept for retries
+      update(item.id, { status: saved.skipped ? 'skipped' : 'done', message: undefined, quoteId: saved.id });
+    } catch (err: any) {
+      update(item.id, { status: 'error', error: err?.message || 'Analysis Failed' });
+    } finally {
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (running < concurrency) {
+      const next = items.find(item => item.status === 'queued');
+      if (!next) return;
+      run(next);
+    }
+  };
+
+  return {
+    add: (newDocuments) => {
+      for (const document of newDocuments) {
+        const id = `upload-${Date.now()}-${counter++}`;
+        documents.set(id, document);
+        items = [...items, { id, fileName: document.fileName, archive: document.archive, size: document.size, status: 'queued', attempts: 0 }];
+      }
+      onChange(items);
+      pump();
+    },
+    decide: (id, decision) => {
+      const resolve = decisions.get(id);
+      if (!resolve) return;
+      decisions.delete(id);
+      resolve(decision);
+    },
+    retry: (id) => {
+      const item = items.find(i => i.id === id);
+      if (!item || item.status !== 'error' || !documents.has(id)) return;
+      update(id, { status: 'queued', error: undefined });
+      pump();
+    },
+    clearFinished: () => {
+      items.filter(i => FINISHED.includes(i.status)).forEach(i => documents.delete(i.id));
+      items = items.filter(i => !FINISHED.includes(i.status));
+      onChange(items);
+    },
+    pending: () => items.filter(i => !FINISHED.includes(i.status)).length
+  };
+};
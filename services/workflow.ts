@@ -0,0 +1,113 @@
+import { Organization, QuoteData, UserProfile, WorkflowRole, WorkflowStatus, WorkflowTransition } from '../types';
+
+// --- QUOTE WORKFLOW ---
+// uploaded -> extracted -> analyzed -> reviewed -> approved. The pipeline takes a quote as far as
+// 'extracted' or 'analyzed'; people move it on from there according to their role. firestore.rules
+// enforces the same table, so this copy only decides what the UI offers and explains refusals.
+
+export const WORKFLOW_ROLES: WorkflowRole[] = ['Processor', 'Auditor', 'Controller', 'Manager'];
+
+export const WORKFLOW_ROLE_DESCRIPTIONS: Record<WorkflowRole, string> = {
+  Processor: 'Uploads, corrects and confirms extractions',
+  Auditor: 'Reviews analyzed quotes',
+  Controller: 'Approves reviewed quotes',
+  Manager: 'Any step, including reopening approved quotes'
+};
+
+export const WORKFLOW_STATUS_LABELS: Record<WorkflowStatus, string> = {
+  uploaded: 'Uploaded',
+  ocr_complete: 'OCR Complete',
+  extracted: 'Awaiting Review',
+  analyzed: 'Analyzed',
+  reviewed: 'Reviewed',
+  approved: 'Approved',
+  error: 'Error'
+};
+
+export interface WorkflowRule {
+  from: WorkflowStatus[];
+  to: WorkflowStatus;
+  label: string;
+  roles: WorkflowRole[];
+  makerChecker?: boolean; // The uploader may not make this move on their own quote
+}
+
+// Keep in step with allowedTransition() in firestore.rules
+export const WORKFLOW_RULES: WorkflowRule[] = [
+  { from: ['extracted'], to: 'analyzed', label: 'Confirm Extraction', roles: ['Processor', 'Auditor', 'Controller', 'Manager'] },
+  { from: ['analyzed'], to: 'reviewed', label: 'Mark Reviewed', roles: ['Auditor', 'Manager'] },
+  { from: ['reviewed'], to: 'approved', label: 'Approve', roles: ['Controller', 'Manager'], makerChecker: true },
+  { from: ['reviewed'], to: 'analyzed', label: 'Send Back', roles: ['Auditor', 'Controller', 'Manager'] },
+  { from: ['approved'], to: 'reviewed', label: 'Reopen', roles: ['Manager'] },
+  { from: ['approved'], to: 'analyzed', label: 'Send Back', roles: ['Manager'] }
+];
+
+// Signed-off quotes: their figures only change by sending them back first. Keep in step with locked() in firestore.rules
+export const LOCKED_STATUSES: WorkflowStatus[] = ['reviewed', 'approved'];
+
+/**
+ * A user's workflow role. The organization admin is a Manager unless given another role.
+ */
+export const workflowRoleOf = (user: Pick<UserProfile, 'uid' | 'workflowRole'>, org?: Pick<Organization, 'adminId'> | null): WorkflowRole => {
+  if (user.workflowRole) return user.workflowRole;
+  return org?.adminId === user.uid ? 'Manager' : 'Processor';
+};
+
+export const checkTransition = (
+  quote: Pick<QuoteData, 'workflowStatus' | 'userId'>,
+  to: WorkflowStatus,
+  user: Pick<UserProfile, 'uid' | 'workflowRole'>,
+  org?: Pick<Organization, 'adminId'> | null
+): { allowed: boolean, reason?: string } => {
+  const rule = WORKFLOW_RULES.find(r => r.to === to && r.from.includes(quote.workflowStatus));
+  if (!rule) {
+    return { allowed: false, reason: `${WORKFLOW_STATUS_LABELS[quote.workflowStatus] || quote.workflowStatus} quotes cannot move to ${WORKFLOW_STATUS_LABELS[to]}.` };
+  }
+  const role = workflowRoleOf(user, org);
+  if (!rule.roles.includes(role)) {
+    return { allowed: false, reason: `${rule.label} needs a ${rule.roles.join(' or ')}; your role is ${role}.` };
+  }
+  if (rule.makerChecker && quote.userId === user.uid) {
+    return { allowed: false, reason: 'You uploaded this quote; someone else has to approve it.' };
+  }
+  return { allowed: true };
+};
+
+/**
+ * Moves out of the quote's current status, with whether this user may make them
+ */
+export const availableTransitions = (
+  quote: Pick<QuoteData, 'workflowStatus' | 'userId'>,
+  user: Pick<UserProfile, 'uid' | 'workflowRole'>,
+  org?: Pick<Organization, 'adminId'> | null
+) => {
+  return WORKFLOW_RULES
+    .filter(rule => rule.from.includes(quote.workflowStatus))
+    .map(rule => ({ rule, ...checkTransition(quote, rule.to, user, org) }));
+};
+
+export const transitionEntry = (
+  from: WorkflowStatus | null,
+  to: WorkflowStatus,
+  user: { uid: string, displayName?: string | null, role?: WorkflowRole },
+  note?: string
+): WorkflowTransition => JSON.parse(JSON.stringify({
+  from,
+  to,
+  by: user.uid,
+  byName: user.displayName || undefined,
+  role: user.role,
+  at: Date.now(),
+  note: note?.trim() || undefined
+}));
+
+/**
+ * Log for a newly saved quote: the steps the pipeline took on the uploader's behalf.
+ * Vision providers read and extract in one call, so ocr_complete is not logged separately.
+ */
+export const initialWorkflowLog = (userId: string, status: WorkflowStatus): WorkflowTransition[] => {
+  const pipeline = { uid: userId };
+  const log = [transitionEntry(null, 'uploaded', pipeline, 'Pipeline'), transitionEntry('uploaded', 'extracted', pipeline, 'Pipeline')];
+  if (status === 'analyzed') log.push(transitionEntry('extracted', 'analyzed', pipeline, 'Pipeline'));
+  return log;
+};
@@ -2,15 +2,24 @@
 
 export interface Comment {
   id: string;
-  user: string;
+  user: string; // Display name when written
+  userId?: string;
   text: string;
   timestamp: number;
+  parentId?: string; // Reply to a top-level comment; threads are one level deep
+  mentions?: string[]; // User ids of @mentioned org members
+  editedAt?: number;
+  deleted?: boolean; // Removed, but kept as a placeholder because it has replies
 }
 
+// Who may move a quote through the workflow; see services/workflow.ts
+export type WorkflowRole = 'Processor' | 'Auditor' | 'Controller' | 'Manager';
+
 export interface TeamMember {
   id: string;
   name: string;
   role: 'Auditor' | 'Controller' | 'Manager' | 'Processor' | 'admin' | 'member';
+  workflowRole?: WorkflowRole;
   status: 'Online' | 'Offline';
   activity: string;
   email?: string;
@@ -18,11 +27,118 @@ export interface TeamMember {
 
 export interface FeeItem {
   type: string;
-  amount: number;
+  amount: number; // As charged, in `currency`
   currency: string;
+  reportingAmount?: number; // Converted into the quote's reportingCurrency
+  conversionRate?: number; // 1 unit of `currency` in reportingCurrency at the value-date mid
   percentage?: string | null;
   description?: string;
   category?: 'wire' | 'fx' | 'correspondent' | 'other';
+  chargeBearer?: 'OUR' | 'SHA' | 'BEN'; // SWIFT 71A details of charges, when known
+}
+
+export type ExtractionProviderId = 'gemini' | 'local' | 'simulation';
+
+// Scalar fields a provider reads off a confirmation; also the keys of per-field confidence
+export type ExtractionField =
+  | 'bank_name' | 'transaction_reference' | 'sender_name' | 'beneficiary_name'
+  | 'original_amount' | 'original_currency' | 'converted_amount' | 'converted_currency'
+  | 'exchange_rate_bank' | 'currency_pair' | 'value_date' | 'execution_time' | 'fees';
+
+export type WorkflowStatus = 'uploaded' | 'ocr_complete' | 'extracted' | 'analyzed' | 'reviewed' | 'approved' | 'error';
+
+export interface WorkflowTransition {
+  from: WorkflowStatus | null; // Null for the first entry
+  to: WorkflowStatus;
+  by: string; // User id
+  byName?: string;
+  role?: WorkflowRole;
+  at: number;
+  note?: string;
+}
+
+// Dispute lifecycle, in order; see services/disputeLetters.ts
+export type DisputeStage = 'drafted' | 'sent' | 'bank_responded' | 'refund_received';
+
+export interface DisputeLetter {
+  templateId: string;
+  subject: string;
+  body: string;
+  generatedBy: 'template' | 'ai';
+}
+
+export interface DisputeCase {
+  stage: DisputeStage;
+  letter: DisputeLetter;
+  history: { stage: DisputeStage, at: number, by: string, byName?: string, note?: string }[];
+  sentAt?: number;
+  sentTo?: string; // Bank contact or channel the letter went to
+  respondedAt?: number;
+  bankResponse?: string;
+  refundedAt?: number;
+  amountRecovered?: number; // In the quote's cost currency
+}
+
+export interface FieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface ConsistencyCheck {
+  id: 'amount_rate' | 'fee_total' | 'pair_currencies' | 'value_date' | 'positive_values';
+  label: string;
+  status: 'pass' | 'fail' | 'skipped';
+  detail: string;
+}
+
+// Raw shape every extraction provider returns; consumed by calculateAllCosts
+export interface ExtractionResult {
+  extraction: {
+    bank_name?: string;
+    transaction_reference?: string;
+    sender_name?: string;
+    beneficiary_name?: string;
+  };
+  transaction: {
+    original_amount?: number;
+    original_currency?: string;
+    converted_amount?: number;
+    converted_currency?: string;
+    exchange_rate_bank?: number;
+    currency_pair?: string;
+    value_date?: string;
+    execution_time?: string;
+  };
+  fees: {
+    items: { name: string, amount: number, currency?: string, category?: FeeItem['category'], charge_bearer?: FeeItem['chargeBearer'] }[];
+    total_fees?: number;
+  };
+  source: string; // 'gemini-flash' | 'local-rules' | 'simulation' ...
+  confidence?: Partial<Record<ExtractionField, number>>; // 0-1 per field; absent for structured sources
+  [key: string]: any;
+}
+
+export interface RateLeg {
+  pair: string; // BASE/QUOTE as used in the chain, e.g. "ZAR/USD"
+  rate: number;
+  reference: string; // Document path, tick time or 'simulation'
+  inverted: boolean; // Stored the other way round and inverted for this leg
+}
+
+export interface RateWindow {
+  method: 'nearest_tick';
+  executionTimestamp: number;
+  windowMinutes: number;
+  windowStart: number;
+  windowEnd: number;
+  nearestTickTimestamp: number;
+  nearestRate: number; // BASE/QUOTE
+  minRate: number;
+  maxRate: number;
+  tickCount: number;
+  inverted: boolean; // Ticks were stored as QUOTE/BASE
+  defensibleSpreadPercentage?: number; // Spread against the band edge most favourable to the bank
 }
 
 export interface CostBreakdownItem {
@@ -40,14 +156,26 @@ export interface QuoteData {
   
   // Status Tracking
   status: 'uploaded' | 'processing' | 'analyzed' | 'flagged' | 'optimal' | 'error';
-  workflowStatus: 'uploaded' | 'ocr_complete' | 'extracted' | 'analyzed' | 'reviewed' | 'approved' | 'error';
-  reliabilityScore: number;
+  workflowStatus: WorkflowStatus;
+  workflowLog?: WorkflowTransition[]; // Every status change, oldest first
+  reliabilityScore: number; // 0-100 from field confidence and consistency checks
+  fieldConfidence?: Partial<Record<ExtractionField, number>>;
+  consistencyChecks?: ConsistencyCheck[];
+  reviewedBy?: string; // User who confirmed or corrected the extraction
+  reviewedAt?: number;
+  reviewCorrections?: FieldChange[];
+  version?: number; // 1 as extracted; each edit, review or replace adds one
+  lastEditedBy?: string;
   
   // Source Document
-  fileUrl?: string; // Optional if using base64 for demo
+  fileUrl?: string; // Cloud Storage download URL of the original
   fileType?: string;
   fileName?: string;
-  pdfBase64?: string | null;
+  fileSize?: number; // Bytes
+  storagePath?: string; // organizations/{orgId}/documents/{contentHash}.{ext}
+  contentHash?: string; // SHA-256 of the original bytes
+  duplicateOf?: string; // Quote this one was kept alongside after a duplicate warning
+  pdfBase64?: string | null; // Legacy inline copy (quotes saved before storage)
   ocrText?: string;
   
   // Extracted Bank Information
@@ -56,6 +184,7 @@ export interface QuoteData {
   referenceNumber?: string;
   transactionDate?: string;
   valueDate: string;
+  executionTimestamp?: number; // Execution time from the confirmation (ms, UTC)
   senderName?: string;
   recipientName?: string;
   
@@ -69,9 +198,16 @@ export interface QuoteData {
   // Exchange Rates
   exchangeRate: number; // Bank Rate
   midMarketRate: number; // Real market rate
+  midRateSource?: 'intraday_tick' | 'rates_history' | 'google-search-grounding' | 'estimate' | 'simulation' | 'manual';
+  midRateDate?: string; // Fixing date actually used (may precede a weekend value date)
+  midRateReference?: string; // rates_history doc id or grounding URL
+  rateWindow?: RateWindow; // Tick window used when the execution time was known
+  midRateLegs?: RateLeg[]; // Two legs when the mid rate was triangulated through a pivot
   
   // DETAILED FEE STRUCTURE
+  reportingCurrency?: string; // Currency of every fee total, cost and projection below
   fees: FeeItem[];
+  unconvertedFees?: FeeItem[]; // Fees with no conversion rate, excluded from totals
   
   // INDIVIDUAL FEE COMPONENTS
   wireFee: number;
@@ -81,8 +217,12 @@ export interface QuoteData {
   totalFees: number; // Sum of explicit fees
   
   // HIDDEN COST CALCULATIONS
-  spreadDecimal: number;
-  spreadPercentage: number;
+  spreadDecimal: number | null; // Signed: negative when the bank beat mid-market; null when unpriced
+  spreadPercentage: number | null;
+  spreadDirection?: 'adverse' | 'favourable' | 'at_mid' | null;
+  rateConvention?: 'direct' | 'inverse'; // Bank rate quoted as BASE/QUOTE or its inverse
+  favourableGain?: number | null; // Amount the client gained when the spread was favourable
+  unpriced?: boolean; // No market mid-market rate was found: spread, markup and dispute are not worked out
   markupCost: number; // Spread Cost
   
   // TOTAL HIDDEN COST
@@ -97,9 +237,10 @@ export interface QuoteData {
   };
   
   // ANNUALIZED PROJECTIONS
-  annualTransactionCount: number;
+  annualTransactionCount: number; // Projected transfers a year on this bank and pair
   annualizedHiddenCost: number;
   monthlyAverageCost: number;
+  annualProjection?: AnnualProjection;
   
   // INDUSTRY COMPARISON
   industryAverageSpread: number;
@@ -107,13 +248,17 @@ export interface QuoteData {
   yourCostVsIndustry: number;
   betterThanIndustry: boolean;
   percentileRank: string;
+  costPercentile?: number; // Share (0-100) of comparable transfers that cost less
+  benchmarkVersion?: number; // Benchmark table version used; 0 is the built-in table
+  benchmarkTier?: string; // Pair and amount tier compared against, e.g. "USD/EUR 10k-100k USD"
   potentialSavingsPercent: number;
   
   // DISPUTE & RECOMMENDATIONS
   dispute: {
     recommended: boolean;
-    priority: "high" | "medium" | "low";
+    priority: DisputePriority;
     reason: string;
+    firedRules?: FiredDisputeRule[]; // Org rules that fired when the quote was priced
     suggestedNegotiatedRate: number;
     targetSpreadPercentage: number;
     potentialSavingsPerTransaction: number;
@@ -125,9 +270,23 @@ export interface QuoteData {
   // RAW DATA & USER ACTIONS
   geminiRaw?: any;
   disputeDrafted?: boolean;
+  disputeCase?: DisputeCase;
   notes: Comment[];
 }
 
+// Stored under quotes/{quoteId}/versions: the quote as it stood before one change, and that change
+export interface QuoteVersion {
+  id: string;
+  version: number; // Version number of the snapshot
+  snapshot: Partial<QuoteData>;
+  kind: 'edit' | 'review' | 'replace';
+  changes: FieldChange[];
+  reason?: string;
+  changedBy: string;
+  changedByName?: string;
+  changedAt: number;
+}
+
 export interface LiveRate {
   id: string;
   pair: string;
@@ -147,9 +306,116 @@ export interface Organization {
   plan: 'free' | 'enterprise';
   maxSeats: number;
   credits: number; // Shared organization credits
+  reportingCurrency?: string; // ISO code every dashboard aggregate is converted into
+  extractionProvider?: ExtractionProviderId; // Where uploaded documents are read; 'local' keeps them in-browser
+  expectedVolumes?: CorridorVolume[]; // Declared per corridor; projections use them until history suffices
   createdAt: number;
 }
 
+// What the org expects to send through one bank on one pair; see services/projections.ts
+export interface CorridorVolume {
+  bankKey: string; // Bank registry key: institution id, or normalised name when unregistered
+  bankName: string;
+  pair: string;
+  transactionsPerYear: number;
+  averageAmount?: number; // Principal per transfer in the reporting currency; the quote's own when unset
+  declaredBy?: string;
+  declaredAt?: number;
+}
+
+// A quote's annualised cost, and where its frequency came from
+export interface AnnualProjection {
+  basis: 'history' | 'declared' | 'assumed';
+  corridor: string; // "Bank · PAIR"
+  transactionsPerYear: number;
+  transactionsLow: number; // 90% band
+  transactionsHigh: number;
+  averageAmount: number; // Principal per transfer, reporting currency
+  hiddenCostLow: number; // Annual, reporting currency
+  hiddenCostHigh: number;
+  observedQuotes: number; // Corridor quotes in the lookback window, this one included
+  observedDays: number;
+}
+
+// What transfers of one pair and ticket size typically cost. Total cost is spread plus fees as a
+// percentage of principal.
+export interface BenchmarkEntry {
+  pair: string; // "USD/EUR", or "*" for any pair
+  minAmount: number; // Tier floor in the table currency, inclusive
+  maxAmount?: number; // Tier ceiling, exclusive; open-ended when unset
+  avgSpread: number; // %
+  avgTotalCost: number; // %
+  percentiles: { p10: number, p25: number, p50: number, p75: number, p90: number }; // Total cost %
+}
+
+export interface BenchmarkTable {
+  version: number; // 0 is the built-in table; each publish adds one
+  name: string;
+  currency: string; // Currency of the amount tiers
+  entries: BenchmarkEntry[];
+  source: 'built_in' | 'import' | 'edit' | 'restore';
+  note?: string;
+  createdAt: number;
+  createdBy?: string;
+}
+
+// A bank as the org knows it: every BIC and spelling that should count as the same institution
+export interface Institution {
+  id: string;
+  name: string; // Canonical display name
+  bics: string[]; // 8-character BICs (branch codes dropped)
+  aliases: string[]; // Names as they appear on confirmations
+  country?: string; // ISO 3166 alpha-2
+  builtIn?: boolean; // From the default registry rather than added by the org
+}
+
+export interface BankRegistry {
+  institutions: Institution[];
+  updatedAt?: number;
+  updatedBy?: string;
+}
+
+export type DisputePriority = 'high' | 'medium' | 'low';
+
+// Every condition set on a rule must hold for it to fire; amounts are in the rule set's currency
+export interface DisputeRuleConditions {
+  minSpread?: number; // Spread %, strictly above
+  minFees?: number; // Explicit fees, strictly above
+  minTotalCost?: number; // Total hidden cost, strictly above
+  minTotalCostPercentage?: number; // Total hidden cost as % of principal, strictly above
+  minAboveLaneAverage?: number; // % above the org's average total cost % on the same pair
+  pairs?: string[]; // Either orientation
+  banks?: string[]; // Bank registry keys: institution id, or normalised name when unregistered
+  minAmount?: number; // Principal tier floor, inclusive
+  maxAmount?: number; // Principal tier ceiling, exclusive
+  counterparties?: string[]; // Matched case-insensitively inside sender or beneficiary names
+}
+
+// Per-org dispute rules; see services/disputeRules.ts
+export interface DisputeRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: DisputeRuleConditions;
+  priority: DisputePriority;
+  targetSpread: number; // % off mid to negotiate towards when this rule fires
+}
+
+export interface DisputeRuleSet {
+  rules: DisputeRule[];
+  currency?: string; // ISO code of the money thresholds; USD when unset
+  updatedAt?: number;
+  updatedBy?: string;
+}
+
+export interface FiredDisputeRule {
+  id: string;
+  name: string;
+  priority: DisputePriority;
+  targetSpread: number;
+  reasons: string[]; // One per threshold condition that held
+}
+
 export interface Audit {
   id: string;
   orgId: string;
@@ -168,6 +434,7 @@ export interface UserProfile {
   displayName: string | null;
   orgId?: string;
   role: 'admin' | 'member';
+  workflowRole?: WorkflowRole; // Set by the org admin; Processor when unset (Manager for the admin)
   credits: number; // Legacy, referenced but logic moved to Org
   companyName?: string;
   country?: string;
@@ -177,10 +444,5 @@ export interface UserProfile {
   lastSeen?: number;
 }
 
-export type AppView = 'landing' | 'onboarding' | 'dashboard' | 'quotes' | 'history' | 'analysis' | 'settings' | 'billing' | 'studio' | 'support' | 'scorecards' | 'team' | 'privacy' | 'terms' | 'cookies' | 'payment';
+export type AppView = 'landing' | 'onboarding' | 'dashboard' | 'quotes' | 'history' | 'analysis' | 'settings' | 'billing' | 'studio' | 'support' | 'scorecards' | 'team' | 'privacy' | 'terms' | 'cookies' | 'payment' | 'banks';
 
-export enum ImageSize {
-  K1 = '1K',
-  K2 = '2K',
-  K4 = '4K'
-}